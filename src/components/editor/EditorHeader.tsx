@@ -1,7 +1,10 @@
 'use client'
 
+import { Lock, LockOpen } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { cn } from '@/lib/utils'
+import type { Mood } from '@/types'
+import { MoodPicker } from './MoodPicker'
 
 interface EditorHeaderProps {
   /** Page title */
@@ -16,6 +19,14 @@ interface EditorHeaderProps {
   saveDisabled?: boolean
   /** Is saving */
   isSaving?: boolean
+  /** Current mood */
+  mood?: Mood | undefined
+  /** Mood change handler, the picker is hidden when omitted */
+  onMoodChange?: ((mood: Mood | undefined) => void) | undefined
+  /** Whether the entry is private */
+  isPrivate?: boolean | undefined
+  /** Private toggle handler, the toggle is hidden when omitted */
+  onPrivateChange?: ((isPrivate: boolean) => void) | undefined
 }
 
 /**
@@ -28,6 +39,10 @@ export function EditorHeader({
   onSave,
   saveDisabled = false,
   isSaving = false,
+  mood,
+  onMoodChange,
+  isPrivate = false,
+  onPrivateChange,
 }: EditorHeaderProps) {
   const { t } = useTranslation('editor')
 
@@ -51,6 +66,22 @@ export function EditorHeader({
           </output>
         )}
         {isDirty && <span className="h-1.5 w-1.5 rounded-full bg-primary" aria-hidden="true" />}
+        {onMoodChange && <MoodPicker mood={mood} onChange={onMoodChange} />}
+        {onPrivateChange && (
+          <button
+            type="button"
+            onClick={() => onPrivateChange(!isPrivate)}
+            className={cn(
+              'flex h-8 w-8 items-center justify-center rounded-full transition-colors hover:bg-muted hover:text-foreground',
+              isPrivate ? 'text-foreground' : 'text-muted-foreground',
+            )}
+            aria-label={t('private')}
+            aria-pressed={isPrivate}
+            title={t('privateHint')}
+          >
+            {isPrivate ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+          </button>
+        )}
       </div>
 
       {/* Save button */}
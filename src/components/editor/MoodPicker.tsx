@@ -0,0 +1,160 @@
+'use client'
+
+import { SmilePlus } from 'lucide-react'
+import { AnimatePresence, motion } from 'motion/react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { getMoodEmoji, getMoodLevel, MOOD_EMOJIS, MOOD_LEVELS } from '@/lib/mood'
+import { cn } from '@/lib/utils'
+import type { Mood, MoodScore } from '@/types'
+
+interface MoodPickerProps {
+  /** Current mood, undefined if not set */
+  mood: Mood | undefined
+  /** Mood change handler (undefined clears the mood) */
+  onChange: (mood: Mood | undefined) => void
+}
+
+/**
+ * MoodPicker - 心情选择器
+ *
+ * 设计规范:
+ * - 触发按钮显示当前心情 emoji，未设置时显示图标
+ * - 弹出层第一行为 5 分制心情，第二行为可选 emoji
+ * - 点击外部或 ESC 关闭
+ */
+export function MoodPicker({ mood, onChange }: MoodPickerProps) {
+  const { t } = useTranslation('mood')
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const handleScoreSelect = useCallback(
+    (score: MoodScore) => {
+      // 切换分值时保留自定义 emoji
+      onChange(mood?.emoji ? { score, emoji: mood.emoji } : { score })
+    },
+    [mood, onChange],
+  )
+
+  const handleEmojiSelect = useCallback(
+    (emoji: string) => {
+      const score = mood?.score ?? 3
+      // 再次点击同一个 emoji 取消自定义
+      onChange(mood?.emoji === emoji ? { score } : { score, emoji })
+    },
+    [mood, onChange],
+  )
+
+  const handleClear = useCallback(() => {
+    onChange(undefined)
+    setIsOpen(false)
+  }, [onChange])
+
+  // Click outside to close
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('click', handleClickOutside)
+    return () => document.removeEventListener('click', handleClickOutside)
+  }, [isOpen])
+
+  // ESC to close (capture so the editor doesn't treat it as cancel)
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation()
+        setIsOpen(false)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [isOpen])
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="flex h-8 w-8 items-center justify-center rounded-full text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+        aria-label={
+          mood ? t('badge', { label: t(getMoodLevel(mood.score).labelKey) }) : t('pickLabel')
+        }
+        aria-expanded={isOpen}
+      >
+        {mood ? (
+          <span className="text-lg leading-none">{getMoodEmoji(mood)}</span>
+        ) : (
+          <SmilePlus className="h-5 w-5" />
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="absolute left-1/2 top-full z-50 mt-2 w-[280px] -translate-x-1/2 rounded-md border border-border bg-background p-3 shadow-lg"
+            initial={{ opacity: 0, scale: 0.95, y: -4 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -4 }}
+            transition={{ duration: 0.1 }}
+          >
+            <div className="mb-2 text-xs text-muted-foreground">{t('pick')}</div>
+            <div className="flex justify-between">
+              {MOOD_LEVELS.map((level) => (
+                <button
+                  key={level.score}
+                  type="button"
+                  aria-pressed={mood?.score === level.score}
+                  onClick={() => handleScoreSelect(level.score)}
+                  className={cn(
+                    'flex w-12 flex-col items-center gap-0.5 rounded-md py-1 transition-colors hover:bg-muted',
+                    mood?.score === level.score && 'bg-muted ring-1 ring-foreground',
+                  )}
+                >
+                  <span className="text-xl leading-none">{level.emoji}</span>
+                  <span className="text-[10px] text-muted-foreground">{t(level.labelKey)}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="mb-2 mt-3 text-xs text-muted-foreground">{t('customEmoji')}</div>
+            <div className="flex flex-wrap gap-1">
+              {MOOD_EMOJIS.map((emoji) => (
+                <button
+                  key={emoji}
+                  type="button"
+                  aria-pressed={mood?.emoji === emoji}
+                  onClick={() => handleEmojiSelect(emoji)}
+                  className={cn(
+                    'flex h-8 w-8 items-center justify-center rounded-md text-lg transition-colors hover:bg-muted',
+                    mood?.emoji === emoji && 'bg-muted ring-1 ring-foreground',
+                  )}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+
+            {mood && (
+              <button
+                type="button"
+                onClick={handleClear}
+                className="mt-3 w-full rounded-md py-1.5 text-xs text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+              >
+                {t('clear')}
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { AlertTriangle, X } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { cn } from '@/lib/utils'
+
+export type RemoteChangeKind = 'updated' | 'deleted'
+
+interface RemoteChangeBannerProps {
+  /** What happened to the entry in another tab */
+  kind: RemoteChangeKind
+  /** Discard local edits and load the latest version (only for updates) */
+  onReload?: (() => void) | undefined
+  /** Dismiss handler */
+  onDismiss: () => void
+  /** Additional CSS classes */
+  className?: string
+}
+
+/**
+ * RemoteChangeBanner - 其他标签页修改提示
+ *
+ * 设计规范:
+ * - 显示在编辑器顶部，琥珀色提示条
+ * - 被修改时提供「载入最新版本」按钮，被删除时仅提示
+ */
+export function RemoteChangeBanner({
+  kind,
+  onReload,
+  onDismiss,
+  className,
+}: RemoteChangeBannerProps) {
+  const { t } = useTranslation('entry')
+  const { t: tCommon } = useTranslation('common')
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        'flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-200',
+        className,
+      )}
+    >
+      <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+      <div className="flex-1">
+        <p>{kind === 'updated' ? t('remoteUpdated') : t('remoteDeleted')}</p>
+        {kind === 'updated' && onReload && (
+          <button
+            type="button"
+            onClick={onReload}
+            className="mt-1 font-medium underline underline-offset-2 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
+          >
+            {t('reloadLatest')}
+          </button>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="rounded-sm p-0.5 transition-opacity hover:opacity-70 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
+        aria-label={tCommon('close')}
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  )
+}
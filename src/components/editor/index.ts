@@ -3,3 +3,5 @@ export { EditorHeader } from './EditorHeader'
 export { EditorToolbar } from './EditorToolbar'
 export { ImagePreview } from './ImagePreview'
 export { ImageUploader } from './ImageUploader'
+export { MoodPicker } from './MoodPicker'
+export { RemoteChangeBanner, type RemoteChangeKind } from './RemoteChangeBanner'
@@ -0,0 +1,56 @@
+'use client'
+
+import { useTranslation } from 'react-i18next'
+import type { DiffLine } from '@/lib/diff'
+import { cn } from '@/lib/utils'
+
+interface DiffViewProps {
+  /** Diff lines from diffLines() */
+  lines: DiffLine[]
+  /** Additional CSS classes */
+  className?: string
+}
+
+/**
+ * DiffView - 逐行差异视图
+ *
+ * 设计规范:
+ * - 等宽字体，保留空白
+ * - 新增行绿色背景并以 + 开头，删除行红色背景并以 − 开头
+ * - 未变化的行使用次要文字颜色
+ */
+export function DiffView({ lines, className }: DiffViewProps) {
+  const { t } = useTranslation('history')
+
+  return (
+    <ol
+      className={cn(
+        'overflow-x-auto rounded-md border border-border py-2 font-mono text-xs leading-relaxed',
+        className,
+      )}
+      aria-label={t('diffLabel')}
+    >
+      {lines.map((line, index) => (
+        <li
+          // biome-ignore lint/suspicious/noArrayIndexKey: Lines are derived from immutable text and never reorder
+          key={index}
+          className={cn(
+            'flex whitespace-pre-wrap break-words px-3',
+            line.type === 'added' &&
+              'bg-green-50 text-green-800 dark:bg-green-950 dark:text-green-300',
+            line.type === 'removed' && 'bg-red-50 text-red-800 dark:bg-red-950 dark:text-red-300',
+            line.type === 'equal' && 'text-muted-foreground',
+          )}
+        >
+          <span className="w-4 shrink-0 select-none" aria-hidden="true">
+            {line.type === 'added' ? '+' : line.type === 'removed' ? '−' : ' '}
+          </span>
+          {line.type !== 'equal' && (
+            <span className="sr-only">{t(line.type === 'added' ? 'added' : 'removed')}: </span>
+          )}
+          <span className="min-w-0 flex-1">{line.text || ' '}</span>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1 @@
+export { DiffView } from './DiffView'
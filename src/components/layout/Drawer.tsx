@@ -2,12 +2,18 @@
 
 import {
   Download,
+  FileArchive,
   HardDrive,
   Info,
   Languages,
+  Lock,
+  LockKeyhole,
   Monitor,
   Moon,
+  Search,
+  SmilePlus,
   Sun,
+  Trash,
   Trash2,
   Upload,
   X,
@@ -15,11 +21,21 @@ import {
 import { AnimatePresence, motion } from 'motion/react'
 import { useCallback, useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
+import { type PasscodeAction, useAppLock } from '@/components/lock'
 import { InfoDialog } from '@/components/ui/InfoDialog'
 import { useFocusTrap } from '@/hooks/useFocusTrap'
 import type { Locale } from '@/i18n'
 import { useLocale } from '@/i18n/useLocale'
-import { cn } from '@/lib/utils'
+import { AUTO_LOCK_OPTIONS, type AutoLockMinutes } from '@/lib/appLock'
+import { BACKUP_REMINDER_OPTIONS, type BackupReminderDays, getDaysSince } from '@/lib/backup'
+import { hasIntegrityIssues, type IntegrityReport } from '@/lib/integrity'
+import {
+  isStorageLow,
+  STORAGE_WARNING_OPTIONS,
+  type StorageWarningPercent,
+} from '@/lib/storageQuota'
+import { cn, formatBytes } from '@/lib/utils'
+import type { SavedSearch } from '@/types'
 
 // 动画缓动函数
 const easing = {
@@ -39,25 +55,80 @@ interface DrawerProps {
   onThemeChange: (mode: ThemeMode) => void
   /** 存储使用量（字节） */
   storageUsed?: number
+  /** 浏览器分配的存储配额（字节，0 表示未知） */
+  storageQuota?: number
+  /** 存储空间提醒阈值（百分比） */
+  storageWarningPercent?: StorageWarningPercent
+  /** 存储空间提醒阈值切换回调 */
+  onStorageWarningPercentChange?: (percent: StorageWarningPercent) => void
+  /** 是否已获得持久化存储（null 表示浏览器不支持） */
+  isStoragePersisted?: boolean | null
+  /** 请求持久化存储回调 */
+  onRequestPersist?: () => void
+  /** 打开存储清理对话框回调 */
+  onFreeUpSpace?: () => void
+  /** 上次备份时间（null 表示从未备份） */
+  lastBackupAt?: number | null
+  /** 备份提醒间隔（天，0 表示仅在修改较多时提醒） */
+  backupReminderDays?: BackupReminderDays
+  /** 备份提醒间隔切换回调 */
+  onBackupReminderDaysChange?: (days: BackupReminderDays) => void
   /** 导出数据回调 */
   onExport: () => void
+  /** 导出 Markdown 压缩包回调 */
+  onExportMarkdown?: () => void
+  /** 导出加密备份回调 */
+  onExportEncrypted?: () => void
   /** 导入数据回调 */
   onImport: () => void
   /** 清空数据回调 */
   onClearData: () => void
-  /** 是否正在导出 */
-  isExporting?: boolean
-  /** 是否正在导入 */
-  isImporting?: boolean
+  /** 打开心情趋势回调 */
+  onMoodTrends?: () => void
+  /** 打开回收站回调 */
+  onTrash?: () => void
+  /** 已保存的搜索 */
+  savedSearches?: SavedSearch[]
+  /** 打开已保存的搜索回调 */
+  onOpenSavedSearch?: (search: SavedSearch) => void
+  /** 设置、修改或关闭应用锁口令回调 */
+  onPasscodeAction?: (action: PasscodeAction) => void
+  /** 存储检查结果，未检查时为 null */
+  integrityReport?: IntegrityReport | null
+  /** 是否正在检查或修复存储 */
+  isCheckingIntegrity?: boolean
+  /** 检查存储回调 */
+  onCheckIntegrity?: () => void
+  /** 修复存储回调 */
+  onRepairIntegrity?: () => void
+  /** 导出进度（0-1），未在导出时为 null */
+  exportProgress?: number | null
+  /** 导入进度（0-1），未在导入时为 null */
+  importProgress?: number | null
+}
+
+// 进度百分比
+function toPercent(progress: number): number {
+  return Math.round(Math.min(Math.max(progress, 0), 1) * 100)
 }
 
-// 格式化存储大小
-function formatStorageSize(bytes: number): string {
-  if (bytes === 0) return '0 B'
-  const k = 1024
-  const sizes = ['B', 'KB', 'MB', 'GB']
-  const i = Math.floor(Math.log(bytes) / Math.log(k))
-  return `${Number.parseFloat((bytes / k ** i).toFixed(2))} ${sizes[i]}`
+/**
+ * 导入/导出按钮底部的细进度条
+ */
+function ProgressBar({ progress, label }: { progress: number; label: string }) {
+  const percent = toPercent(progress)
+  return (
+    <div
+      role="progressbar"
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={percent}
+      className="mt-2 h-1 overflow-hidden rounded-full bg-surface"
+    >
+      <div className="h-full bg-primary transition-[width]" style={{ width: `${percent}%` }} />
+    </div>
+  )
 }
 
 // 语言选项配置
@@ -80,17 +151,50 @@ export function Drawer({
   themeMode,
   onThemeChange,
   storageUsed = 0,
+  storageQuota = 0,
+  storageWarningPercent,
+  onStorageWarningPercentChange,
+  isStoragePersisted = null,
+  onRequestPersist,
+  onFreeUpSpace,
+  lastBackupAt = null,
+  backupReminderDays,
+  onBackupReminderDaysChange,
   onExport,
+  onExportMarkdown,
+  onExportEncrypted,
   onImport,
   onClearData,
-  isExporting = false,
-  isImporting = false,
+  onMoodTrends,
+  onTrash,
+  savedSearches = [],
+  onOpenSavedSearch,
+  onPasscodeAction,
+  integrityReport = null,
+  isCheckingIntegrity = false,
+  onCheckIntegrity,
+  onRepairIntegrity,
+  exportProgress = null,
+  importProgress = null,
 }: DrawerProps) {
   const { t } = useTranslation('settings')
   const { t: tCommon } = useTranslation('common')
   const { t: tData } = useTranslation('data')
+  const { t: tMood } = useTranslation('mood')
+  const { t: tTrash } = useTranslation('trash')
+  const { t: tSearch } = useTranslation('search')
+  const { t: tLock } = useTranslation('lock')
   const { locale, setLocale } = useLocale()
+  const appLock = useAppLock()
   const [showStorageInfo, setShowStorageInfo] = useState(false)
+  const isExporting = exportProgress !== null
+  const isImporting = importProgress !== null
+  const exportingLabel = isExporting
+    ? tData('exportingProgress', { percent: toPercent(exportProgress) })
+    : ''
+  const importingLabel = isImporting
+    ? tData('importingProgress', { percent: toPercent(importProgress) })
+    : ''
 
   // Focus trap
   const drawerRef = useFocusTrap<HTMLElement>({
@@ -106,6 +210,17 @@ export function Drawer({
     { value: 'system', label: t('themeSystem'), icon: <Monitor className="h-4 w-4" /> },
   ]
 
+  // 上次备份时间描述
+  const backupDays = lastBackupAt === null ? null : getDaysSince(lastBackupAt)
+  const backupStatus =
+    backupDays === null
+      ? tData('backupNever')
+      : backupDays === 0
+        ? tData('backupToday')
+        : backupDays === 1
+          ? tData('backupYesterday')
+          : tData('backupDaysAgo', { count: backupDays })
+
   // ESC 键关闭
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -183,11 +298,198 @@ export function Drawer({
                 </h3>
                 <div className="rounded-md border border-border bg-surface p-3">
                   <div className="text-sm text-foreground">
-                    {t('storageUsed', { size: formatStorageSize(storageUsed) })}
+                    {storageQuota > 0
+                      ? t('storageUsedOf', {
+                          size: formatBytes(storageUsed),
+                          quota: formatBytes(storageQuota),
+                        })
+                      : t('storageUsed', { size: formatBytes(storageUsed) })}
+                  </div>
+                  {storageWarningPercent !== undefined &&
+                    isStorageLow(storageUsed, storageQuota, storageWarningPercent) && (
+                      <div className="mt-1 text-xs text-amber-600">{t('storageLow')}</div>
+                    )}
+                  <div
+                    className={cn(
+                      'mt-1 text-xs',
+                      backupDays === null ? 'text-amber-600' : 'text-muted-foreground',
+                    )}
+                  >
+                    {backupStatus}
                   </div>
+                  {backupReminderDays !== undefined && onBackupReminderDaysChange && (
+                    <label className="mt-2 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                      {tData('backupReminder')}
+                      <select
+                        value={backupReminderDays}
+                        onChange={(e) =>
+                          onBackupReminderDaysChange(Number(e.target.value) as BackupReminderDays)
+                        }
+                        className="rounded-sm border border-border bg-background px-1 py-0.5 text-xs text-foreground"
+                      >
+                        {BACKUP_REMINDER_OPTIONS.map((days) => (
+                          <option key={days} value={days}>
+                            {days === 0
+                              ? tData('backupReminderOff')
+                              : tData('backupReminderEvery', { count: days })}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  {storageWarningPercent !== undefined && onStorageWarningPercentChange && (
+                    <label className="mt-2 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                      {t('storageWarning')}
+                      <select
+                        value={storageWarningPercent}
+                        onChange={(e) =>
+                          onStorageWarningPercentChange(
+                            Number(e.target.value) as StorageWarningPercent,
+                          )
+                        }
+                        className="rounded-sm border border-border bg-background px-1 py-0.5 text-xs text-foreground"
+                      >
+                        {STORAGE_WARNING_OPTIONS.map((percent) => (
+                          <option key={percent} value={percent}>
+                            {t('storageWarningAt', { percent })}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  {isStoragePersisted !== null && (
+                    <div className="mt-2 flex items-center justify-between gap-2 text-xs">
+                      <span className="text-muted-foreground">
+                        {isStoragePersisted ? t('storagePersisted') : t('storageNotPersisted')}
+                      </span>
+                      {!isStoragePersisted && onRequestPersist && (
+                        <button
+                          type="button"
+                          onClick={onRequestPersist}
+                          className="rounded-sm border border-border bg-background px-2 py-0.5 text-foreground transition-colors hover:bg-surface"
+                        >
+                          {t('requestPersist')}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {onFreeUpSpace && (
+                    <button
+                      type="button"
+                      onClick={onFreeUpSpace}
+                      className="mt-2 w-full rounded-sm border border-border bg-background px-2 py-1 text-xs text-foreground transition-colors hover:bg-surface"
+                    >
+                      {t('freeUpSpace')}
+                    </button>
+                  )}
+                  {onCheckIntegrity && (
+                    <div className="mt-3 border-t border-border pt-3 text-xs">
+                      {integrityReport && hasIntegrityIssues(integrityReport) ? (
+                        <>
+                          <ul className="space-y-0.5 text-amber-600">
+                            {integrityReport.orphanedImageIds.length > 0 && (
+                              <li>
+                                {t('orphanedImages', {
+                                  count: integrityReport.orphanedImageIds.length,
+                                })}
+                              </li>
+                            )}
+                            {integrityReport.missingImageRefs.length > 0 && (
+                              <li>
+                                {t('missingImages', {
+                                  count: integrityReport.missingImageRefs.length,
+                                })}
+                              </li>
+                            )}
+                            {integrityReport.mismatchedImages.length > 0 && (
+                              <li>
+                                {t('mismatchedImages', {
+                                  count: integrityReport.mismatchedImages.length,
+                                })}
+                              </li>
+                            )}
+                          </ul>
+                          {integrityReport.reclaimableBytes > 0 && (
+                            <div className="mt-1 text-muted-foreground">
+                              {t('reclaimable', {
+                                size: formatBytes(integrityReport.reclaimableBytes),
+                              })}
+                            </div>
+                          )}
+                          <button
+                            type="button"
+                            onClick={onRepairIntegrity}
+                            disabled={isCheckingIntegrity}
+                            className="mt-2 w-full rounded-sm border border-border bg-background px-2 py-1 text-foreground transition-colors hover:bg-surface disabled:opacity-50"
+                          >
+                            {isCheckingIntegrity ? t('repairingStorage') : t('repairStorage')}
+                          </button>
+                        </>
+                      ) : (
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-muted-foreground">
+                            {integrityReport ? t('storageHealthy') : t('storageUnchecked')}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={onCheckIntegrity}
+                            disabled={isCheckingIntegrity}
+                            className="rounded-sm border border-border bg-background px-2 py-0.5 text-foreground transition-colors hover:bg-surface disabled:opacity-50"
+                          >
+                            {isCheckingIntegrity ? t('checkingStorage') : t('checkStorage')}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
               </section>
 
+              {/* 心情趋势 */}
+              {onMoodTrends && (
+                <section>
+                  <button
+                    type="button"
+                    onClick={onMoodTrends}
+                    className="flex w-full items-center gap-3 rounded-md border border-border p-3 text-left transition-colors hover:bg-surface"
+                  >
+                    <SmilePlus className="h-5 w-5 text-foreground" />
+                    <div className="flex-1">
+                      <div className="text-sm font-medium text-foreground">{tMood('trends')}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {tMood('trendsDescription')}
+                      </div>
+                    </div>
+                  </button>
+                </section>
+              )}
+
+              {/* 已保存的搜索 */}
+              {onOpenSavedSearch && savedSearches.length > 0 && (
+                <section>
+                  <h3 className="mb-3 flex items-center gap-2 text-sm font-medium text-foreground">
+                    <Search className="h-4 w-4" />
+                    {tSearch('savedSearches')}
+                  </h3>
+                  <ul className="flex flex-col gap-1">
+                    {savedSearches.map((search) => (
+                      <li key={search.id}>
+                        <button
+                          type="button"
+                          onClick={() => onOpenSavedSearch(search)}
+                          className="w-full rounded-sm px-3 py-2 text-left transition-colors hover:bg-surface"
+                        >
+                          <div className="truncate text-sm text-foreground">{search.name}</div>
+                          <div className="truncate text-xs text-muted-foreground">
+                            {search.query}
+                          </div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
               {/* 主题切换 */}
               <section>
                 <h3 className="mb-3 text-sm font-medium text-foreground">{t('theme')}</h3>
@@ -237,6 +539,87 @@ export function Drawer({
                 </div>
               </section>
 
+              {/* 应用锁 */}
+              {onPasscodeAction && (
+                <section>
+                  <h3 className="mb-3 flex items-center gap-2 text-sm font-medium text-foreground">
+                    <LockKeyhole className="h-4 w-4" />
+                    {tLock('title')}
+                  </h3>
+                  {appLock.isEnabled ? (
+                    <div className="flex flex-col gap-2 rounded-md border border-border bg-surface p-3">
+                      <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        {tLock('autoLock')}
+                        <select
+                          value={appLock.autoLockMinutes}
+                          onChange={(e) =>
+                            appLock.setAutoLockMinutes(Number(e.target.value) as AutoLockMinutes)
+                          }
+                          className="rounded-sm border border-border bg-background px-1 py-0.5 text-xs text-foreground"
+                        >
+                          {AUTO_LOCK_OPTIONS.map((minutes) => (
+                            <option key={minutes} value={minutes}>
+                              {minutes === 0
+                                ? tLock('autoLockNever')
+                                : tLock('autoLockAfter', { count: minutes })}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        {tLock('lockOnHide')}
+                        <input
+                          type="checkbox"
+                          checked={appLock.lockOnHide}
+                          onChange={(e) => appLock.setLockOnHide(e.target.checked)}
+                          className="h-4 w-4 accent-foreground"
+                        />
+                      </label>
+                      <div className="mt-1 flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            onClose()
+                            appLock.lock()
+                          }}
+                          className="flex-1 rounded-sm border border-border bg-background px-2 py-1.5 text-xs text-foreground transition-colors hover:bg-surface"
+                        >
+                          {tLock('lockNow')}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => onPasscodeAction('change')}
+                          className="flex-1 rounded-sm border border-border bg-background px-2 py-1.5 text-xs text-foreground transition-colors hover:bg-surface"
+                        >
+                          {tLock('changePasscode')}
+                        </button>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => onPasscodeAction('remove')}
+                        className="rounded-sm px-2 py-1 text-xs text-red-500 transition-colors hover:bg-red-50 dark:hover:bg-red-950"
+                      >
+                        {tLock('removePasscode')}
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => onPasscodeAction('set')}
+                      className="flex w-full items-center gap-3 rounded-md border border-border p-3 text-left transition-colors hover:bg-surface"
+                    >
+                      <LockKeyhole className="h-5 w-5 text-foreground" />
+                      <div className="flex-1">
+                        <div className="text-sm font-medium text-foreground">
+                          {tLock('setPasscode')}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{tLock('description')}</div>
+                      </div>
+                    </button>
+                  )}
+                </section>
+              )}
+
               {/* 数据管理 */}
               <section>
                 <h3 className="mb-3 flex items-center gap-2 text-sm font-medium text-foreground">
@@ -261,14 +644,57 @@ export function Drawer({
                     <Download className="h-5 w-5 text-foreground" />
                     <div className="flex-1">
                       <div className="text-sm font-medium text-foreground">
-                        {isExporting ? tData('exporting') : tData('export')}
+                        {isExporting ? exportingLabel : tData('export')}
                       </div>
                       <div className="text-xs text-muted-foreground">
                         {tData('exportDescription')}
                       </div>
+                      {isExporting && (
+                        <ProgressBar progress={exportProgress} label={exportingLabel} />
+                      )}
                     </div>
                   </button>
 
+                  {/* 导出加密备份 */}
+                  {onExportEncrypted && (
+                    <button
+                      type="button"
+                      onClick={onExportEncrypted}
+                      disabled={isExporting}
+                      className="flex items-center gap-3 rounded-md border border-border p-3 text-left transition-colors hover:bg-surface disabled:opacity-50"
+                    >
+                      <Lock className="h-5 w-5 text-foreground" />
+                      <div className="flex-1">
+                        <div className="text-sm font-medium text-foreground">
+                          {isExporting ? exportingLabel : tData('exportEncrypted')}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {tData('exportEncryptedDescription')}
+                        </div>
+                      </div>
+                    </button>
+                  )}
+
+                  {/* 导出 Markdown */}
+                  {onExportMarkdown && (
+                    <button
+                      type="button"
+                      onClick={onExportMarkdown}
+                      disabled={isExporting}
+                      className="flex items-center gap-3 rounded-md border border-border p-3 text-left transition-colors hover:bg-surface disabled:opacity-50"
+                    >
+                      <FileArchive className="h-5 w-5 text-foreground" />
+                      <div className="flex-1">
+                        <div className="text-sm font-medium text-foreground">
+                          {isExporting ? exportingLabel : tData('exportMarkdown')}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {tData('exportMarkdownDescription')}
+                        </div>
+                      </div>
+                    </button>
+                  )}
+
                   {/* 导入 */}
                   <button
                     type="button"
@@ -279,14 +705,32 @@ export function Drawer({
                     <Upload className="h-5 w-5 text-foreground" />
                     <div className="flex-1">
                       <div className="text-sm font-medium text-foreground">
-                        {isImporting ? tData('importing') : tData('import')}
+                        {isImporting ? importingLabel : tData('import')}
                       </div>
                       <div className="text-xs text-muted-foreground">
                         {tData('importDescription')}
                       </div>
+                      {isImporting && (
+                        <ProgressBar progress={importProgress} label={importingLabel} />
+                      )}
                     </div>
                   </button>
 
+                  {/* 回收站 */}
+                  {onTrash && (
+                    <button
+                      type="button"
+                      onClick={onTrash}
+                      className="flex items-center gap-3 rounded-md border border-border p-3 text-left transition-colors hover:bg-surface"
+                    >
+                      <Trash className="h-5 w-5 text-foreground" />
+                      <div className="flex-1">
+                        <div className="text-sm font-medium text-foreground">{tTrash('title')}</div>
+                        <div className="text-xs text-muted-foreground">{tTrash('description')}</div>
+                      </div>
+                    </button>
+                  )}
+
                   {/* 清空数据 */}
                   <button
                     type="button"
@@ -0,0 +1,287 @@
+'use client'
+
+import { useQueryClient } from '@tanstack/react-query'
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { entriesKeys } from '@/hooks/useEntries'
+import { imagesKeys } from '@/hooks/useImages'
+import { useSetting } from '@/hooks/useSettings'
+import {
+  type AutoLockMinutes,
+  createAppLockConfig,
+  DEFAULT_AUTO_LOCK_MINUTES,
+  getLockoutDelay,
+  isAutoLockMinutes,
+  isIdleExpired,
+  verifyPasscode,
+} from '@/lib/appLock'
+import {
+  changeDataPasscode,
+  disableDataEncryption,
+  hasDataKey,
+  lockData,
+  unlockData,
+  verifyDataPasscode,
+} from '@/lib/dataEncryption'
+import { settingsRepository } from '@/lib/repositories'
+import { ensureSearchIndex } from '@/lib/searchIndex'
+import type { AppLockKind } from '@/types'
+import { LockScreen } from './LockScreen'
+
+/** How often the idle timer is checked */
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000
+
+/** User activity that resets the idle timer */
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart', 'scroll'] as const
+
+export type PasscodeCheckResult = 'success' | 'wrong' | 'lockedOut'
+
+interface AppLockContextValue {
+  /** Whether a passcode is set */
+  isEnabled: boolean
+  kind: AppLockKind | null
+  /** Whether the lock screen is shown */
+  isLocked: boolean
+  /** Consecutive wrong attempts */
+  failedAttempts: number
+  /** Unlocking is blocked until this time after too many wrong attempts */
+  lockedUntil: number | null
+  autoLockMinutes: AutoLockMinutes
+  setAutoLockMinutes: (minutes: AutoLockMinutes) => void
+  lockOnHide: boolean
+  setLockOnHide: (value: boolean) => void
+  lock: () => void
+  /** Check the passcode, counting wrong attempts towards the lockout */
+  checkPasscode: (passcode: string) => Promise<PasscodeCheckResult>
+  unlock: (passcode: string) => Promise<PasscodeCheckResult>
+  /** Set the passcode, or replace it when the current one is given */
+  setPasscode: (kind: AppLockKind, passcode: string, currentPasscode?: string) => Promise<void>
+  /** Decrypt the diary data and remove the passcode */
+  removePasscode: () => Promise<void>
+  /** Whether private entries are shown in this session */
+  isPrivateRevealed: boolean
+  /** Show private entries until the app is locked or reloaded */
+  revealPrivate: () => void
+}
+
+const AppLockContext = createContext<AppLockContextValue | null>(null)
+
+/**
+ * App Lock Provider
+ *
+ * 设置了口令时，解锁前不渲染子组件（时间线不会挂载）。
+ * 锁定时卸载子组件并清除缓存的日记和图片，页面中不保留解密后的内容。
+ * 口令同时用于解锁日记数据的加密密钥（见 lib/dataEncryption）。
+ * 私密日记默认隐藏，显示后在本次会话中保持可见，锁定时重新隐藏。
+ */
+export function AppLockProvider({ children }: { children: React.ReactNode }) {
+  const config = useSetting('appLock')
+  const autoLock = useSetting('autoLockMinutes')
+  const lockOnHide = useSetting('lockOnHide')
+  const failedAttempts = useSetting('appLockFailedAttempts')
+  const lockedUntil = useSetting('appLockLockedUntil')
+  const dataEncryption = useSetting('dataEncryption')
+  const queryClient = useQueryClient()
+  // null until the stored lock config has been read
+  const [isLocked, setIsLocked] = useState<boolean | null>(null)
+  const [isPrivateRevealed, setIsPrivateRevealed] = useState(false)
+
+  const isEnabled = config.value !== null
+  const autoLockMinutes = isAutoLockMinutes(autoLock.value)
+    ? autoLock.value
+    : DEFAULT_AUTO_LOCK_MINUTES
+
+  // 读取设置后决定初始状态；口令被（其他标签页）删除时解锁
+  useEffect(() => {
+    if (!config.isLoaded) return
+    if (!isEnabled) {
+      setIsLocked(false)
+    } else {
+      setIsLocked((locked) => locked ?? true)
+    }
+  }, [config.isLoaded, isEnabled])
+
+  // 其他标签页开启了数据加密时，需要输入口令解锁本标签页的数据密钥
+  useEffect(() => {
+    if (isLocked === false && dataEncryption.value !== null && !hasDataKey()) {
+      setIsLocked(true)
+    }
+  }, [isLocked, dataEncryption.value])
+
+  // 锁定时重新隐藏私密日记，丢弃数据密钥，并清除缓存中解密后的数据（子组件已卸载）
+  useEffect(() => {
+    if (!isLocked) return
+    setIsPrivateRevealed(false)
+    lockData()
+    queryClient.removeQueries({ queryKey: entriesKeys.all })
+    queryClient.removeQueries({ queryKey: imagesKeys.all })
+  }, [isLocked, queryClient])
+
+  const revealPrivate = useCallback(() => setIsPrivateRevealed(true), [])
+
+  const lock = useCallback(() => {
+    if (isEnabled) setIsLocked(true)
+  }, [isEnabled])
+
+  // 空闲超时或页面隐藏时锁定
+  useEffect(() => {
+    if (!isEnabled || isLocked !== false) return
+
+    let lastActivityAt = Date.now()
+    const markActive = () => {
+      lastActivityAt = Date.now()
+    }
+    const checkIdle = () => {
+      if (isIdleExpired(lastActivityAt, autoLockMinutes)) setIsLocked(true)
+    }
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        if (lockOnHide.value) setIsLocked(true)
+      } else {
+        // 设备休眠时计时器不运行，回到前台时立即检查
+        checkIdle()
+      }
+    }
+
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, markActive, { capture: true, passive: true })
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    const timer = window.setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS)
+    return () => {
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, markActive, { capture: true })
+      }
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      window.clearInterval(timer)
+    }
+  }, [isEnabled, isLocked, autoLockMinutes, lockOnHide.value])
+
+  const { setValue: setFailedAttempts } = failedAttempts
+  const { setValue: setLockedUntil } = lockedUntil
+
+  const checkPasscode = useCallback(
+    async (passcode: string): Promise<PasscodeCheckResult> => {
+      if (!config.value && !dataEncryption.value) return 'success'
+      if (lockedUntil.value !== null && lockedUntil.value > Date.now()) return 'lockedOut'
+
+      // 设置口令中途中断时只保存了数据密钥，用它验证口令
+      const isCorrect = config.value
+        ? await verifyPasscode(config.value, passcode)
+        : await verifyDataPasscode(passcode)
+      if (isCorrect) {
+        setFailedAttempts(0)
+        setLockedUntil(null)
+        return 'success'
+      }
+
+      const attempts = failedAttempts.value + 1
+      const delay = getLockoutDelay(attempts)
+      setFailedAttempts(attempts)
+      setLockedUntil(delay > 0 ? Date.now() + delay : null)
+      return 'wrong'
+    },
+    [
+      config.value,
+      dataEncryption.value,
+      failedAttempts.value,
+      lockedUntil.value,
+      setFailedAttempts,
+      setLockedUntil,
+    ],
+  )
+
+  const unlock = useCallback(
+    async (passcode: string) => {
+      const result = await checkPasscode(passcode)
+      if (result === 'success') {
+        await unlockData(passcode)
+        setIsLocked(false)
+      }
+      return result
+    },
+    [checkPasscode],
+  )
+
+  const { setValue: setConfig } = config
+  const setPasscode = useCallback(
+    async (kind: AppLockKind, passcode: string, currentPasscode?: string) => {
+      const appLockConfig = await createAppLockConfig(kind, passcode)
+      if (currentPasscode === undefined) {
+        // 先保存口令再加密：加密中断时，下次解锁会继续加密剩余数据
+        await settingsRepository.set('appLock', appLockConfig)
+        // 生成数据密钥并加密已有数据，搜索索引改为哈希后的词
+        await unlockData(passcode)
+        await ensureSearchIndex()
+      } else {
+        await changeDataPasscode(currentPasscode, passcode)
+      }
+      setConfig(appLockConfig)
+      setFailedAttempts(0)
+      setLockedUntil(null)
+    },
+    [setConfig, setFailedAttempts, setLockedUntil],
+  )
+
+  const removePasscode = useCallback(async () => {
+    await disableDataEncryption()
+    await ensureSearchIndex()
+    setConfig(null)
+  }, [setConfig])
+
+  const value = useMemo<AppLockContextValue>(
+    () => ({
+      isEnabled,
+      kind: config.value?.kind ?? null,
+      isLocked: isLocked === true,
+      failedAttempts: failedAttempts.value,
+      lockedUntil: lockedUntil.value,
+      autoLockMinutes,
+      setAutoLockMinutes: autoLock.setValue,
+      lockOnHide: lockOnHide.value,
+      setLockOnHide: lockOnHide.setValue,
+      lock,
+      checkPasscode,
+      unlock,
+      setPasscode,
+      removePasscode,
+      isPrivateRevealed,
+      revealPrivate,
+    }),
+    [
+      isEnabled,
+      config.value,
+      isLocked,
+      failedAttempts.value,
+      lockedUntil.value,
+      autoLockMinutes,
+      autoLock.setValue,
+      lockOnHide.value,
+      lockOnHide.setValue,
+      lock,
+      checkPasscode,
+      unlock,
+      setPasscode,
+      removePasscode,
+      isPrivateRevealed,
+      revealPrivate,
+    ],
+  )
+
+  return (
+    <AppLockContext.Provider value={value}>
+      {isLocked && <LockScreen />}
+      {isLocked === false && children}
+    </AppLockContext.Provider>
+  )
+}
+
+/**
+ * Hook to use the app lock
+ */
+export function useAppLock() {
+  const context = useContext(AppLockContext)
+  if (!context) {
+    throw new Error('useAppLock must be used within an AppLockProvider')
+  }
+  return context
+}
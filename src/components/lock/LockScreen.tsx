@@ -0,0 +1,130 @@
+'use client'
+
+import { Loader2, LockKeyhole } from 'lucide-react'
+import { type FormEvent, useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useFocusTrap } from '@/hooks/useFocusTrap'
+import { LOCKOUT_FREE_ATTEMPTS } from '@/lib/appLock'
+import { useAppLock } from './AppLockProvider'
+
+/**
+ * 剩余等待时间（分:秒）
+ */
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+/**
+ * LockScreen - 锁屏
+ *
+ * 设计规范:
+ * - 全屏覆盖，居中显示口令输入框
+ * - PIN 使用数字键盘
+ * - 输错后显示剩余次数，超过次数后显示倒计时并禁用输入
+ */
+export function LockScreen() {
+  const { t } = useTranslation('lock')
+  const { kind, unlock, failedAttempts, lockedUntil } = useAppLock()
+  const [passcode, setPasscode] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [failure, setFailure] = useState<'wrong' | 'error' | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Focus trap
+  const formRef = useFocusTrap<HTMLFormElement>({ isActive: true, autoFocus: true })
+
+  const remaining = lockedUntil === null ? 0 : Math.max(0, lockedUntil - now)
+  const isLockedOut = remaining > 0
+
+  // 锁定期间每秒刷新倒计时
+  useEffect(() => {
+    if (lockedUntil === null || lockedUntil <= Date.now()) return
+    setNow(Date.now())
+    const timer = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(timer)
+  }, [lockedUntil])
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent) => {
+      e.preventDefault()
+      if (passcode === '' || isLoading) return
+      setIsLoading(true)
+      try {
+        const result = await unlock(passcode)
+        if (result !== 'success') {
+          setFailure(result === 'wrong' ? 'wrong' : null)
+          setPasscode('')
+        }
+      } catch {
+        // 口令正确但无法读取数据密钥（例如存储异常）
+        setFailure('error')
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [passcode, isLoading, unlock],
+  )
+
+  const attemptsLeft = LOCKOUT_FREE_ATTEMPTS - failedAttempts
+  const error = isLockedOut
+    ? t('lockedOut', { time: formatRemaining(remaining) })
+    : failure === 'wrong'
+      ? attemptsLeft > 0
+        ? t('wrongPasscodeAttemptsLeft', { count: attemptsLeft })
+        : t('wrongPasscode')
+      : failure === 'error'
+        ? t('unlockFailed')
+        : null
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-background p-6">
+      <form
+        ref={formRef}
+        className="w-full max-w-xs space-y-4 text-center"
+        onSubmit={handleSubmit}
+        aria-labelledby="lock-screen-title"
+      >
+        <div className="flex justify-center">
+          <div className="flex h-14 w-14 items-center justify-center rounded-full bg-surface">
+            <LockKeyhole className="h-7 w-7 text-foreground" />
+          </div>
+        </div>
+
+        <h1 id="lock-screen-title" className="text-lg font-medium text-foreground">
+          {t('locked')}
+        </h1>
+
+        <input
+          type="password"
+          value={passcode}
+          onChange={(e) => setPasscode(e.target.value)}
+          placeholder={kind === 'pin' ? t('enterPin') : t('enterPassphrase')}
+          aria-label={kind === 'pin' ? t('enterPin') : t('enterPassphrase')}
+          aria-invalid={error !== null}
+          inputMode={kind === 'pin' ? 'numeric' : 'text'}
+          autoComplete="current-password"
+          disabled={isLoading || isLockedOut}
+          className="w-full rounded-sm border border-border bg-surface px-3 py-2 text-center text-base tracking-widest text-foreground placeholder:tracking-normal placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-foreground disabled:opacity-50"
+        />
+
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error}
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={isLoading || isLockedOut || passcode === ''}
+          className="flex w-full items-center justify-center gap-2 rounded-sm bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+        >
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+          {t('unlock')}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,326 @@
+'use client'
+
+import { KeyRound, Loader2, X } from 'lucide-react'
+import { AnimatePresence, motion } from 'motion/react'
+import { type FormEvent, useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useToast } from '@/components/ui'
+import { useFocusTrap } from '@/hooks/useFocusTrap'
+import { getPasscodeIssue, MIN_LOCK_PASSPHRASE_LENGTH, MIN_PIN_LENGTH } from '@/lib/appLock'
+import { cn } from '@/lib/utils'
+import type { AppLockKind } from '@/types'
+import { useAppLock } from './AppLockProvider'
+
+/**
+ * set：设置口令；change：验证当前口令后设置新口令；remove：验证当前口令后关闭应用锁；
+ * reveal：验证当前口令后显示私密日记
+ */
+export type PasscodeAction = 'set' | 'change' | 'remove' | 'reveal'
+
+interface PasscodeDialogProps {
+  /** 当前操作，null 表示关闭 */
+  action: PasscodeAction | null
+  onClose: () => void
+}
+
+// 动画缓动函数
+const easing = {
+  smooth: [0.4, 0, 0.2, 1] as const,
+}
+
+const inputClassName =
+  'w-full rounded-sm border border-border bg-surface px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-foreground'
+
+const kindOptions: AppLockKind[] = ['pin', 'passphrase']
+
+/**
+ * PasscodeDialog - 应用锁口令对话框
+ *
+ * 设计规范:
+ * - 新口令输入两次，可选 PIN（仅数字）或口令
+ * - 修改或关闭应用锁前需输入当前口令，输错计入锁定次数
+ * - 关闭对话框后清空输入
+ */
+export function PasscodeDialog({ action, onClose }: PasscodeDialogProps) {
+  const { t } = useTranslation('lock')
+  const { t: tCommon } = useTranslation('common')
+  const { addToast } = useToast()
+  const {
+    kind: currentKind,
+    checkPasscode,
+    setPasscode,
+    removePasscode,
+    revealPrivate,
+  } = useAppLock()
+  const [kind, setKind] = useState<AppLockKind>('pin')
+  const [current, setCurrent] = useState('')
+  const [passcode, setPasscodeValue] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const isOpen = action !== null
+  const needsCurrent = action === 'change' || action === 'remove' || action === 'reveal'
+  const needsNew = action === 'set' || action === 'change'
+
+  // Focus trap
+  const dialogRef = useFocusTrap<HTMLFormElement>({
+    isActive: isOpen,
+    autoFocus: true,
+    restoreFocus: true,
+  })
+
+  // 重置状态
+  useEffect(() => {
+    if (!isOpen) {
+      setKind('pin')
+      setCurrent('')
+      setPasscodeValue('')
+      setConfirmation('')
+      setError(null)
+      setIsLoading(false)
+    }
+  }, [isOpen])
+
+  // ESC 键关闭
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen && !isLoading) {
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, isLoading, onClose])
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent) => {
+      e.preventDefault()
+      if (needsNew) {
+        const issue = getPasscodeIssue(kind, passcode)
+        if (issue === 'notDigits') {
+          setError(t('pinNotDigits'))
+          return
+        }
+        if (issue === 'tooShort') {
+          setError(
+            kind === 'pin'
+              ? t('pinTooShort', { count: MIN_PIN_LENGTH })
+              : t('passphraseTooShort', { count: MIN_LOCK_PASSPHRASE_LENGTH }),
+          )
+          return
+        }
+        if (passcode !== confirmation) {
+          setError(t('passcodeMismatch'))
+          return
+        }
+      }
+
+      setError(null)
+      setIsLoading(true)
+      try {
+        if (needsCurrent) {
+          const result = await checkPasscode(current)
+          if (result !== 'success') {
+            setError(result === 'lockedOut' ? t('tryAgainLater') : t('wrongPasscode'))
+            setCurrent('')
+            return
+          }
+        }
+        if (action === 'reveal') {
+          revealPrivate()
+        } else if (action === 'remove') {
+          await removePasscode()
+          addToast(t('lockDisabled'), 'success')
+        } else {
+          await setPasscode(kind, passcode, action === 'change' ? current : undefined)
+          addToast(action === 'set' ? t('lockEnabled') : t('passcodeChanged'), 'success')
+        }
+        onClose()
+      } catch {
+        setError(t('saveFailed'))
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [
+      action,
+      needsNew,
+      needsCurrent,
+      kind,
+      current,
+      passcode,
+      confirmation,
+      checkPasscode,
+      setPasscode,
+      removePasscode,
+      revealPrivate,
+      addToast,
+      onClose,
+      t,
+    ],
+  )
+
+  const title =
+    action === 'reveal'
+      ? t('revealPrivate')
+      : action === 'remove'
+        ? t('removePasscode')
+        : action === 'change'
+          ? t('changePasscode')
+          : t('setPasscode')
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* 背景遮罩 */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2, ease: easing.smooth }}
+            className="absolute inset-0 bg-black/80"
+            onClick={() => !isLoading && onClose()}
+            aria-hidden="true"
+          />
+
+          {/* 对话框 */}
+          <motion.form
+            ref={dialogRef}
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.2, ease: easing.smooth }}
+            className="relative w-full max-w-sm space-y-4 rounded-lg bg-card p-6 shadow-lg"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="passcode-dialog-title"
+            onSubmit={handleSubmit}
+          >
+            <div className="flex justify-center">
+              <div className="flex h-12 w-12 items-center justify-center rounded-full bg-surface">
+                <KeyRound className="h-6 w-6 text-foreground" />
+              </div>
+            </div>
+
+            <h2
+              id="passcode-dialog-title"
+              className="text-center text-lg font-medium text-foreground"
+            >
+              {title}
+            </h2>
+            {needsNew && (
+              <p className="text-center text-sm text-muted-foreground">{t('forgetWarning')}</p>
+            )}
+            {action === 'set' && (
+              <p className="text-center text-xs text-muted-foreground">{t('encryptionNote')}</p>
+            )}
+
+            {needsCurrent && (
+              <input
+                type="password"
+                value={current}
+                onChange={(e) => setCurrent(e.target.value)}
+                placeholder={t('currentPasscode')}
+                aria-label={t('currentPasscode')}
+                inputMode={currentKind === 'pin' ? 'numeric' : 'text'}
+                className={inputClassName}
+                autoComplete="current-password"
+                disabled={isLoading}
+              />
+            )}
+
+            {needsNew && (
+              <>
+                <fieldset className="flex gap-2">
+                  <legend className="sr-only">{t('passcodeType')}</legend>
+                  {kindOptions.map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setKind(option)}
+                      aria-pressed={kind === option}
+                      disabled={isLoading}
+                      className={cn(
+                        'flex-1 rounded-sm border px-3 py-1.5 text-sm transition-colors',
+                        kind === option
+                          ? 'border-foreground bg-surface text-foreground'
+                          : 'border-border text-muted-foreground hover:bg-surface',
+                      )}
+                    >
+                      {option === 'pin' ? t('pin') : t('passphrase')}
+                    </button>
+                  ))}
+                </fieldset>
+                <input
+                  type="password"
+                  value={passcode}
+                  onChange={(e) => setPasscodeValue(e.target.value)}
+                  placeholder={t('newPasscode')}
+                  aria-label={t('newPasscode')}
+                  inputMode={kind === 'pin' ? 'numeric' : 'text'}
+                  className={inputClassName}
+                  autoComplete="new-password"
+                  disabled={isLoading}
+                />
+                <input
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  placeholder={t('confirmPasscode')}
+                  aria-label={t('confirmPasscode')}
+                  inputMode={kind === 'pin' ? 'numeric' : 'text'}
+                  className={inputClassName}
+                  autoComplete="new-password"
+                  disabled={isLoading}
+                />
+              </>
+            )}
+
+            {error && (
+              <p role="alert" className="text-sm text-destructive">
+                {error}
+              </p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isLoading}
+                className="flex-1 rounded-sm border border-border px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-surface disabled:opacity-50"
+              >
+                {tCommon('cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={isLoading || (needsCurrent ? current === '' : passcode === '')}
+                className="flex flex-1 items-center justify-center gap-2 rounded-sm bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    {tCommon('processing')}
+                  </>
+                ) : (
+                  tCommon('confirm')
+                )}
+              </button>
+            </div>
+
+            {/* 关闭按钮（放在最后，打开时先聚焦输入框） */}
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isLoading}
+              className="absolute right-4 top-4 rounded-sm text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+              aria-label={tCommon('close')}
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </motion.form>
+        </div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,38 @@
+'use client'
+
+import { Lock } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { cn } from '@/lib/utils'
+
+interface PrivateEntryPlaceholderProps {
+  /** Reveal button click handler */
+  onReveal?: (() => void) | undefined
+  /** Additional CSS classes */
+  className?: string | undefined
+}
+
+/**
+ * PrivateEntryPlaceholder - 私密日记占位块
+ *
+ * 设计规范:
+ * - 私密日记未显示时代替正文、标签和图片
+ * - 点击后显示（设置了应用锁时由调用方先验证口令）
+ */
+export function PrivateEntryPlaceholder({ onReveal, className }: PrivateEntryPlaceholderProps) {
+  const { t } = useTranslation('lock')
+
+  return (
+    <button
+      type="button"
+      onClick={onReveal}
+      className={cn(
+        'flex w-full items-center gap-3 rounded-sm bg-muted px-3 py-3 text-left transition-colors hover:bg-muted/70 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring',
+        className,
+      )}
+    >
+      <Lock className="h-4 w-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+      <span className="flex-1 text-sm text-foreground">{t('privateEntry')}</span>
+      <span className="text-xs text-muted-foreground">{t('tapToReveal')}</span>
+    </button>
+  )
+}
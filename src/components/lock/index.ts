@@ -0,0 +1,4 @@
+export { AppLockProvider, type PasscodeCheckResult, useAppLock } from './AppLockProvider'
+export { LockScreen } from './LockScreen'
+export { type PasscodeAction, PasscodeDialog } from './PasscodeDialog'
+export { PrivateEntryPlaceholder } from './PrivateEntryPlaceholder'
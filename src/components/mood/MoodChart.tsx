@@ -0,0 +1,131 @@
+'use client'
+
+import { useMemo } from 'react'
+import type { MoodTrendPoint } from '@/lib/mood'
+import { MOOD_LEVELS } from '@/lib/mood'
+import { cn } from '@/lib/utils'
+
+interface MoodChartProps {
+  /** One point per day, oldest first */
+  points: MoodTrendPoint[]
+  /** Accessible description of the chart */
+  label: string
+  /** Additional CSS classes */
+  className?: string
+}
+
+// SVG 坐标系尺寸（通过 viewBox 自适应宽度）
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = { top: 12, right: 12, bottom: 24, left: 32 }
+
+/**
+ * MoodChart - 心情趋势折线图
+ *
+ * 设计规范:
+ * - 纯 SVG 绘制，不引入图表库
+ * - Y 轴为 1-5 分，左侧用 emoji 标注
+ * - 没有记录的日期断开折线
+ */
+export function MoodChart({ points, label, className }: MoodChartProps) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+
+  const { segments, dots } = useMemo(() => {
+    const step = points.length > 1 ? plotWidth / (points.length - 1) : 0
+    const toX = (index: number) => PADDING.left + index * step
+    const toY = (score: number) => PADDING.top + ((5 - score) / 4) * plotHeight
+
+    const segments: string[] = []
+    const dots: { key: string; x: number; y: number }[] = []
+    let current: string[] = []
+
+    points.forEach((point, index) => {
+      if (point.average === null) {
+        if (current.length > 1) segments.push(current.join(' '))
+        current = []
+        return
+      }
+      const x = toX(index)
+      const y = toY(point.average)
+      current.push(`${x.toFixed(1)},${y.toFixed(1)}`)
+      dots.push({ key: point.date, x, y })
+    })
+    if (current.length > 1) segments.push(current.join(' '))
+
+    return { segments, dots }
+  }, [points, plotWidth, plotHeight])
+
+  const firstDate = points[0]?.date
+  const lastDate = points[points.length - 1]?.date
+  const dotRadius = points.length > 120 ? 1.5 : 3
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className={cn('h-auto w-full text-foreground', className)}
+      role="img"
+      aria-label={label}
+    >
+      {/* Grid + emoji labels */}
+      {MOOD_LEVELS.map((level) => {
+        const y = PADDING.top + ((5 - level.score) / 4) * plotHeight
+        return (
+          <g key={level.score}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y}
+              y2={y}
+              className="stroke-border"
+              strokeWidth={1}
+            />
+            <text x={4} y={y + 5} fontSize={14}>
+              {level.emoji}
+            </text>
+          </g>
+        )
+      })}
+
+      {/* Trend line */}
+      {segments.map((segment) => (
+        <polyline
+          key={segment}
+          points={segment}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+      ))}
+      {dots.map((dot) => (
+        <circle key={dot.key} cx={dot.x} cy={dot.y} r={dotRadius} fill="currentColor" />
+      ))}
+
+      {/* X axis range */}
+      {firstDate && (
+        <text
+          x={PADDING.left}
+          y={HEIGHT - 6}
+          fontSize={11}
+          className="fill-muted-foreground"
+          textAnchor="start"
+        >
+          {firstDate}
+        </text>
+      )}
+      {lastDate && (
+        <text
+          x={WIDTH - PADDING.right}
+          y={HEIGHT - 6}
+          fontSize={11}
+          className="fill-muted-foreground"
+          textAnchor="end"
+        >
+          {lastDate}
+        </text>
+      )}
+    </svg>
+  )
+}
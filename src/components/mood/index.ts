@@ -0,0 +1 @@
+export { MoodChart } from './MoodChart'
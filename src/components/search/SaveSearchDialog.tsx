@@ -0,0 +1,175 @@
+'use client'
+
+import { Bookmark, X } from 'lucide-react'
+import { AnimatePresence, motion } from 'motion/react'
+import { type FormEvent, useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useFocusTrap } from '@/hooks/useFocusTrap'
+import { MAX_SAVED_SEARCH_NAME_LENGTH } from '@/lib/savedSearches'
+
+interface SaveSearchDialogProps {
+  isOpen: boolean
+  /** Query being saved, shown below the name */
+  query: string
+  /** Name filled in when the dialog opens */
+  defaultName: string
+  onSave: (name: string) => void
+  onCancel: () => void
+}
+
+// 动画缓动函数
+const easing = {
+  smooth: [0.4, 0, 0.2, 1] as const,
+}
+
+/**
+ * SaveSearchDialog - 保存搜索对话框
+ *
+ * 设计规范:
+ * - 打开时填入默认名称并聚焦输入框
+ * - 名称不能为空，最多 MAX_SAVED_SEARCH_NAME_LENGTH 个字符
+ */
+export function SaveSearchDialog({
+  isOpen,
+  query,
+  defaultName,
+  onSave,
+  onCancel,
+}: SaveSearchDialogProps) {
+  const { t } = useTranslation('search')
+  const { t: tCommon } = useTranslation('common')
+  const [name, setName] = useState(defaultName)
+  const [error, setError] = useState<string | null>(null)
+
+  // Focus trap
+  const dialogRef = useFocusTrap<HTMLFormElement>({
+    isActive: isOpen,
+    autoFocus: true,
+    restoreFocus: true,
+  })
+
+  // 打开时重置名称
+  useEffect(() => {
+    if (isOpen) {
+      setName(defaultName)
+      setError(null)
+    }
+  }, [isOpen, defaultName])
+
+  // ESC 键关闭
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onCancel()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onCancel])
+
+  const handleSubmit = useCallback(
+    (e: FormEvent) => {
+      e.preventDefault()
+      if (!name.trim()) {
+        setError(t('savedSearchNameRequired'))
+        return
+      }
+      onSave(name.trim())
+    },
+    [name, onSave, t],
+  )
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* 背景遮罩 */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2, ease: easing.smooth }}
+            className="absolute inset-0 bg-black/80"
+            onClick={onCancel}
+            aria-hidden="true"
+          />
+
+          {/* 对话框 */}
+          <motion.form
+            ref={dialogRef}
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.2, ease: easing.smooth }}
+            className="relative w-full max-w-sm space-y-4 rounded-lg bg-card p-6 shadow-lg"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="save-search-dialog-title"
+            onSubmit={handleSubmit}
+          >
+            <div className="flex justify-center">
+              <div className="flex h-12 w-12 items-center justify-center rounded-full bg-surface">
+                <Bookmark className="h-6 w-6 text-foreground" />
+              </div>
+            </div>
+
+            <h2
+              id="save-search-dialog-title"
+              className="text-center text-lg font-medium text-foreground"
+            >
+              {t('saveSearchTitle')}
+            </h2>
+            <p className="text-center text-sm text-muted-foreground">
+              {t('saveSearchDescription')}
+            </p>
+
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={MAX_SAVED_SEARCH_NAME_LENGTH}
+                placeholder={t('savedSearchName')}
+                aria-label={t('savedSearchName')}
+                aria-invalid={error !== null}
+                className="w-full rounded-sm border border-border bg-surface px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-foreground"
+              />
+              <p className="truncate text-xs text-muted-foreground">{query}</p>
+            </div>
+            {error && (
+              <p role="alert" className="text-sm text-destructive">
+                {error}
+              </p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="flex-1 rounded-sm border border-border px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-surface"
+              >
+                {tCommon('cancel')}
+              </button>
+              <button
+                type="submit"
+                className="flex-1 rounded-sm bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+              >
+                {tCommon('save')}
+              </button>
+            </div>
+
+            {/* 关闭按钮（放在最后，打开时先聚焦名称输入框） */}
+            <button
+              type="button"
+              onClick={onCancel}
+              className="absolute right-4 top-4 rounded-sm text-muted-foreground transition-colors hover:text-foreground"
+              aria-label={tCommon('close')}
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </motion.form>
+        </div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1 @@
+export { SaveSearchDialog } from './SaveSearchDialog'
@@ -0,0 +1,159 @@
+'use client'
+
+import { HardDrive, ImageDown, Images } from 'lucide-react'
+import { AnimatePresence, motion } from 'motion/react'
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useToast } from '@/components/ui'
+import { useFocusTrap } from '@/hooks/useFocusTrap'
+import { useCompactImages } from '@/hooks/useStorage'
+import { onStorageCleanupRequest, type StorageCleanupReason } from '@/lib/storageQuota'
+import { formatBytes } from '@/lib/utils'
+import type { ImageCompaction } from '@/types'
+
+/** Oldest images shrunk per action */
+const COMPACT_BATCH_SIZE = 50
+
+/**
+ * StorageCleanupDialog - 存储清理对话框
+ *
+ * 设计规范:
+ * - 写入因存储空间不足失败时自动弹出（见 lib/storageQuota），也可以从菜单打开
+ * - 压缩或只保留缩略图，每次处理最旧的一批图片
+ * - 编辑中的内容不会丢失，释放空间后可以重新保存
+ */
+export function StorageCleanupDialog() {
+  const { t } = useTranslation('settings')
+  const { t: tCommon } = useTranslation('common')
+  const { addToast } = useToast()
+  const [reason, setReason] = useState<StorageCleanupReason | null>(null)
+  const { mutateAsync: compactImages, isPending } = useCompactImages()
+  const isOpen = reason !== null
+
+  useEffect(() => onStorageCleanupRequest(setReason), [])
+
+  const dialogRef = useFocusTrap<HTMLDivElement>({
+    isActive: isOpen,
+    autoFocus: true,
+    restoreFocus: true,
+  })
+
+  const handleClose = useCallback(() => {
+    if (!isPending) setReason(null)
+  }, [isPending])
+
+  // ESC 键关闭
+  useEffect(() => {
+    if (!isOpen) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation()
+        handleClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [isOpen, handleClose])
+
+  const handleCompact = useCallback(
+    async (mode: ImageCompaction) => {
+      try {
+        const result = await compactImages({ mode, limit: COMPACT_BATCH_SIZE })
+        if (result.count === 0) {
+          addToast(t('cleanupNothing'), 'info')
+          return
+        }
+        addToast(
+          t('cleanupDone', { count: result.count, size: formatBytes(result.freedBytes) }),
+          'success',
+        )
+        setReason(null)
+      } catch {
+        addToast(t('cleanupFailed'), 'error')
+      }
+    },
+    [compactImages, addToast, t],
+  )
+
+  const options: { mode: ImageCompaction; icon: React.ReactNode; title: string; hint: string }[] = [
+    {
+      mode: 'compressed',
+      icon: <ImageDown className="h-5 w-5 text-foreground" />,
+      title: t('cleanupCompress'),
+      hint: t('cleanupCompressHint', { count: COMPACT_BATCH_SIZE }),
+    },
+    {
+      mode: 'thumbnail',
+      icon: <Images className="h-5 w-5 text-foreground" />,
+      title: t('cleanupThumbnails'),
+      hint: t('cleanupThumbnailsHint', { count: COMPACT_BATCH_SIZE }),
+    },
+  ]
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed inset-0 z-100 flex items-center justify-center bg-black/80 px-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={handleClose}
+        >
+          <motion.div
+            ref={dialogRef}
+            className="w-full max-w-sm rounded-lg bg-card p-6 shadow-xl"
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            onClick={(e) => e.stopPropagation()}
+            role="alertdialog"
+            aria-modal="true"
+            aria-labelledby="storage-cleanup-title"
+            aria-describedby="storage-cleanup-message"
+          >
+            <h2
+              id="storage-cleanup-title"
+              className="flex items-center gap-2 text-lg font-semibold text-foreground"
+            >
+              <HardDrive className="h-5 w-5" />
+              {reason === 'quotaExceeded' ? t('storageFull') : t('freeUpSpace')}
+            </h2>
+            <p id="storage-cleanup-message" className="mt-2 text-sm text-muted-foreground">
+              {reason === 'quotaExceeded' ? t('storageFullMessage') : t('freeUpSpaceMessage')}
+            </p>
+
+            <div className="mt-4 flex flex-col gap-2">
+              {options.map((option) => (
+                <button
+                  key={option.mode}
+                  type="button"
+                  onClick={() => handleCompact(option.mode)}
+                  disabled={isPending}
+                  className="flex items-center gap-3 rounded-md border border-border p-3 text-left transition-colors hover:bg-surface disabled:opacity-50"
+                >
+                  {option.icon}
+                  <div className="flex-1">
+                    <div className="text-sm font-medium text-foreground">{option.title}</div>
+                    <div className="text-xs text-muted-foreground">{option.hint}</div>
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="mt-6 flex justify-end">
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={isPending}
+                className="rounded-md px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-muted active:opacity-80 disabled:opacity-50"
+              >
+                {isPending ? tCommon('processing') : tCommon('close')}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
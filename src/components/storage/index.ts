@@ -0,0 +1 @@
+export { StorageCleanupDialog } from './StorageCleanupDialog'
@@ -0,0 +1,81 @@
+'use client'
+
+import { Download, X } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { type BackupReminderReason, getDaysSince } from '@/lib/backup'
+import { cn } from '@/lib/utils'
+
+interface BackupReminderBannerProps {
+  /** Why the reminder is shown */
+  reason: BackupReminderReason
+  /** Entries changed since the last backup or dismissal */
+  changedCount: number
+  /** Last backup timestamp (null if never backed up) */
+  lastBackupAt: number | null
+  /** Export handler */
+  onBackup: () => void
+  /** Dismiss handler */
+  onDismiss: () => void
+  /** Whether an export is in progress */
+  isExporting?: boolean
+  /** Additional CSS classes */
+  className?: string
+}
+
+/**
+ * BackupReminderBanner - 备份提醒条
+ *
+ * 设计规范:
+ * - 显示在列表顶部，琥珀色提示
+ * - 「立即备份」直接导出，关闭后重新开始计算修改数和间隔
+ */
+export function BackupReminderBanner({
+  reason,
+  changedCount,
+  lastBackupAt,
+  onBackup,
+  onDismiss,
+  isExporting = false,
+  className,
+}: BackupReminderBannerProps) {
+  const { t } = useTranslation('data')
+  const { t: tCommon } = useTranslation('common')
+
+  const message =
+    lastBackupAt === null
+      ? t('backupReminderFirst')
+      : reason === 'changes'
+        ? t('backupReminderChanges', { count: changedCount })
+        : t('backupReminderInterval', { count: getDaysSince(lastBackupAt) })
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        'mb-4 flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-200',
+        className,
+      )}
+    >
+      <div className="flex-1">
+        <p>{message}</p>
+        <button
+          type="button"
+          onClick={onBackup}
+          disabled={isExporting}
+          className="mt-1 inline-flex items-center gap-1 font-medium underline underline-offset-2 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring disabled:opacity-50"
+        >
+          <Download className="h-3.5 w-3.5" />
+          {isExporting ? t('exporting') : t('backupNow')}
+        </button>
+      </div>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="rounded-sm p-0.5 transition-opacity hover:opacity-70 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
+        aria-label={tCommon('close')}
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  )
+}
@@ -1,11 +1,13 @@
 'use client'
 
-import { Pencil, Trash2 } from 'lucide-react'
+import { History, Lock, Pencil, Trash2 } from 'lucide-react'
 import { motion } from 'motion/react'
 import { useRef } from 'react'
 import { useTranslation } from 'react-i18next'
+import { PrivateEntryPlaceholder } from '@/components/lock'
 import { Dropdown } from '@/components/ui'
 import i18n from '@/i18n'
+import { getMoodEmoji, getMoodLevel } from '@/lib/mood'
 import { cn } from '@/lib/utils'
 import type { DiaryEntry } from '@/types'
 import { MarkdownContent } from './MarkdownContent'
@@ -23,6 +25,20 @@ interface DiaryCardProps {
   onEdit?: ((entry: DiaryEntry) => void) | undefined
   /** Delete button click handler */
   onDelete?: ((entry: DiaryEntry) => void) | undefined
+  /** History button click handler */
+  onHistory?: ((entry: DiaryEntry) => void) | undefined
+  /** Tag chip click handler */
+  onTagClick?: ((tag: string) => void) | undefined
+  /** Show the entry date next to the time (e.g. in tag results spanning several days) */
+  showDate?: boolean | undefined
+  /** Collapse a private entry until it is revealed */
+  isConcealed?: boolean | undefined
+  /** Reveal button click handler for a concealed entry */
+  onReveal?: (() => void) | undefined
+  /** Search matches to highlight in the content (after jumping from search) */
+  highlight?: RegExp | null | undefined
+  /** Dismiss the search highlight */
+  onDismissHighlight?: (() => void) | undefined
   /** Additional CSS classes */
   className?: string | undefined
 }
@@ -37,6 +53,7 @@ interface DiaryCardProps {
  * - 时间文字: Tertiary, 小字号
  * - 正文: Primary, 标准字号，完整展示
  * - 图片: 圆角 sm
+ * - 私密日记未显示时折叠为占位块，不渲染内容、标签和图片
  */
 const DOUBLE_TAP_DELAY = 300
 
@@ -46,14 +63,30 @@ export function DiaryCard({
   onImageClick,
   onEdit,
   onDelete,
+  onHistory,
+  onTagClick,
+  showDate = false,
+  isConcealed = false,
+  onReveal,
+  highlight,
+  onDismissHighlight,
   className,
 }: DiaryCardProps) {
   const { t } = useTranslation('common')
+  const { t: tLock } = useTranslation('lock')
   const { t: tImage } = useTranslation('image')
+  const { t: tTimeline } = useTranslation('timeline')
+  const { t: tMood } = useTranslation('mood')
   const lastTapRef = useRef<number>(0)
-  const formattedTime = formatTime(entry.createdAt)
+  const formattedTime = showDate
+    ? `${entry.date} ${formatTime(entry.createdAt)}`
+    : formatTime(entry.createdAt)
+  const moodLabel = entry.mood
+    ? tMood('badge', { label: tMood(getMoodLevel(entry.mood.score).labelKey) })
+    : undefined
 
   const handleTap = () => {
+    if (isConcealed) return
     const now = Date.now()
     if (now - lastTapRef.current < DOUBLE_TAP_DELAY) {
       onEdit?.(entry)
@@ -70,6 +103,12 @@ export function DiaryCard({
       icon: <Pencil className="h-4 w-4" />,
       onClick: () => onEdit?.(entry),
     },
+    {
+      key: 'history',
+      label: t('history'),
+      icon: <History className="h-4 w-4" />,
+      onClick: () => onHistory?.(entry),
+    },
     {
       key: 'delete',
       label: t('delete'),
@@ -79,6 +118,22 @@ export function DiaryCard({
     },
   ]
 
+  if (isConcealed) {
+    return (
+      <motion.article
+        className={cn(
+          'relative rounded-lg bg-card px-4 pb-4 pt-3 shadow-sm ring-1 ring-black/5 dark:border dark:border-border sm:px-5 sm:pb-5 sm:pt-3.5',
+          className,
+        )}
+      >
+        <time className="text-xs tracking-wide text-muted-foreground" dateTime={entry.date}>
+          {formattedTime}
+        </time>
+        <PrivateEntryPlaceholder onReveal={onReveal} className="mt-2" />
+      </motion.article>
+    )
+  }
+
   return (
     <motion.article
       className={cn(
@@ -93,16 +148,57 @@ export function DiaryCard({
         <Dropdown items={dropdownItems} />
       </div>
 
-      {/* Time */}
-      <time className="text-xs tracking-wide text-muted-foreground" dateTime={entry.date}>
-        {formattedTime}
-      </time>
+      {/* Time + mood */}
+      <div className="flex items-center gap-2">
+        <time className="text-xs tracking-wide text-muted-foreground" dateTime={entry.date}>
+          {formattedTime}
+        </time>
+        {entry.private && (
+          <span className="text-muted-foreground" title={tLock('privateEntry')}>
+            <Lock className="h-3 w-3" aria-hidden="true" />
+            <span className="sr-only">{tLock('privateEntry')}</span>
+          </span>
+        )}
+        {entry.mood && (
+          <span
+            className="inline-flex items-center gap-1 rounded-full bg-muted px-1.5 py-0.5 text-xs text-muted-foreground"
+            title={moodLabel}
+          >
+            <span aria-hidden="true">{getMoodEmoji(entry.mood)}</span>
+            <span className="sr-only">{moodLabel}</span>
+          </span>
+        )}
+      </div>
 
       {/* Full Content */}
       <div className="mt-2 text-sm leading-relaxed text-foreground sm:text-base">
-        <MarkdownContent content={entry.content} />
+        <MarkdownContent
+          content={entry.content}
+          highlight={highlight}
+          onDismissHighlight={onDismissHighlight}
+        />
       </div>
 
+      {/* Tags */}
+      {entry.tags.length > 0 && (
+        <ul className="mt-3 flex flex-wrap gap-1.5" aria-label={tTimeline('tags')}>
+          {entry.tags.map((tag) => (
+            <li key={tag}>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onTagClick?.(tag)
+                }}
+                className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground transition-colors hover:text-foreground focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
+              >
+                #{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Images */}
       {imageUrls.length > 0 && (
         <div className="mt-3 flex gap-2">
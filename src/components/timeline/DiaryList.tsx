@@ -16,6 +16,16 @@ interface DiaryListProps {
   onEdit?: (entry: DiaryEntry) => void
   /** Delete entry handler */
   onDelete?: (entry: DiaryEntry) => void
+  /** Open revision history handler */
+  onHistory?: (entry: DiaryEntry) => void
+  /** Tag chip click handler */
+  onTagClick?: (tag: string) => void
+  /** Show entry dates on cards (when entries span several days) */
+  showDates?: boolean
+  /** Show private entries instead of collapsing them */
+  showPrivate?: boolean
+  /** Reveal private entries handler */
+  onRevealPrivate?: () => void
   /** Thumbnail URLs map (entryId -> urls) for display */
   thumbnailUrlsMap?: Map<string, string[]>
   /** Full image URLs map (entryId -> urls) for lightbox */
@@ -24,6 +34,10 @@ interface DiaryListProps {
   scrollToId?: string | undefined
   /** Callback when scroll completes */
   onScrollComplete?: () => void
+  /** Search matches to highlight in one entry */
+  highlight?: { entryId: string; pattern: RegExp } | null
+  /** Dismiss the search highlight */
+  onDismissHighlight?: () => void
   /** Additional CSS classes */
   className?: string
 }
@@ -40,10 +54,17 @@ export function DiaryList({
   animateEntries = true,
   onEdit,
   onDelete,
+  onHistory,
+  onTagClick,
+  showDates = false,
+  showPrivate = false,
+  onRevealPrivate,
   thumbnailUrlsMap = new Map(),
   fullImageUrlsMap = new Map(),
   scrollToId,
   onScrollComplete,
+  highlight = null,
+  onDismissHighlight,
   className,
 }: DiaryListProps) {
   const entryRefs = useRef<Map<string, HTMLDivElement>>(new Map())
@@ -102,6 +123,13 @@ export function DiaryList({
               onImageClick={(index) => handleImageClick(entry.id, index)}
               onEdit={onEdit}
               onDelete={onDelete}
+              onHistory={onHistory}
+              onTagClick={onTagClick}
+              showDate={showDates}
+              isConcealed={entry.private === true && !showPrivate}
+              onReveal={onRevealPrivate}
+              highlight={highlight?.entryId === entry.id ? highlight.pattern : null}
+              onDismissHighlight={onDismissHighlight}
             />
           </motion.div>
         ))}
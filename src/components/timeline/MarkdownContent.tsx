@@ -1,13 +1,20 @@
 'use client'
 
-import ReactMarkdown from 'react-markdown'
+import { ChevronDown, ChevronUp, X } from 'lucide-react'
+import { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import ReactMarkdown, { type Options } from 'react-markdown'
 import remarkGfm from 'remark-gfm'
-import { markdownComponents } from '@/lib/markdown'
+import { markdownComponents, rehypeHighlightMatches, SEARCH_MATCH_ATTRIBUTE } from '@/lib/markdown'
 import { cn } from '@/lib/utils'
 
 interface MarkdownContentProps {
   /** Markdown content to render */
   content: string
+  /** Search matches to highlight (see searchQuery.getHighlightPattern) */
+  highlight?: RegExp | null | undefined
+  /** Dismiss the highlight, shown in the match navigation bar */
+  onDismissHighlight?: (() => void) | undefined
   /** Additional CSS classes */
   className?: string
 }
@@ -34,6 +41,71 @@ export function preprocessMarkdown(markdown: string): string {
   })
 }
 
+// 阻止点击冒泡到卡片（卡片双击进入编辑）
+function stopPropagation(e: React.MouseEvent) {
+  e.stopPropagation()
+}
+
+/**
+ * 搜索匹配导航栏：当前第几处、上一处/下一处、关闭高亮
+ */
+function MatchNavigator({
+  activeIndex,
+  count,
+  onNavigate,
+  onDismiss,
+}: {
+  activeIndex: number
+  count: number
+  onNavigate: (index: number) => void
+  onDismiss: () => void
+}) {
+  const { t } = useTranslation('timeline')
+  const buttonClassName =
+    'rounded-sm p-1 text-muted-foreground transition-colors hover:bg-surface hover:text-foreground disabled:opacity-40 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring'
+
+  return (
+    // biome-ignore lint/a11y/useKeyWithClickEvents lint/a11y/noStaticElementInteractions: Only stops clicks from reaching the card
+    <div
+      className="mb-2 flex items-center gap-1 rounded-sm bg-muted px-2 py-1 text-xs text-muted-foreground"
+      onClick={stopPropagation}
+      onDoubleClick={stopPropagation}
+    >
+      <span className="mr-auto" aria-live="polite">
+        {count > 0
+          ? t('matchPosition', { current: activeIndex + 1, total: count })
+          : t('noMatchesShown')}
+      </span>
+      <button
+        type="button"
+        onClick={() => onNavigate((activeIndex - 1 + count) % count)}
+        disabled={count < 2}
+        className={buttonClassName}
+        aria-label={t('previousMatch')}
+      >
+        <ChevronUp className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        onClick={() => onNavigate((activeIndex + 1) % count)}
+        disabled={count < 2}
+        className={buttonClassName}
+        aria-label={t('nextMatch')}
+      >
+        <ChevronDown className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className={buttonClassName}
+        aria-label={t('dismissHighlight')}
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  )
+}
+
 /**
  * MarkdownContent - Markdown 内容渲染组件
  *
@@ -41,28 +113,75 @@ export function preprocessMarkdown(markdown: string): string {
  * - **加粗**
  * - *斜体*
  * - 列表 (有序/无序)
+ *
+ * 传入 highlight 时高亮搜索匹配，并在内容上方显示匹配导航栏，直到关闭。
  */
-export function MarkdownContent({ content, className }: MarkdownContentProps) {
+export function MarkdownContent({
+  content,
+  highlight = null,
+  onDismissHighlight,
+  className,
+}: MarkdownContentProps) {
   const processedContent = preprocessMarkdown(content)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [activeMatch, setActiveMatch] = useState(0)
+  const [matchCount, setMatchCount] = useState(0)
+
+  const rehypePlugins = useMemo<Options['rehypePlugins']>(
+    () => [[rehypeHighlightMatches, { pattern: highlight, activeIndex: activeMatch }]],
+    [highlight, activeMatch],
+  )
+
+  // 内容或高亮变化后重新统计匹配数
+  // biome-ignore lint/correctness/useExhaustiveDependencies: Recount whenever the rendered content changes
+  useLayoutEffect(() => {
+    const count = highlight
+      ? (containerRef.current?.querySelectorAll(`mark[${SEARCH_MATCH_ATTRIBUTE}]`).length ?? 0)
+      : 0
+    setMatchCount(count)
+    setActiveMatch((index) => (index < count ? index : 0))
+  }, [highlight, processedContent])
+
+  const handleNavigate = useCallback((index: number) => {
+    setActiveMatch(index)
+    containerRef.current
+      ?.querySelector(`mark[${SEARCH_MATCH_ATTRIBUTE}="${index}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [])
 
   return (
-    <div
-      className={cn(
-        'max-w-none text-foreground',
-        // 段落间距规则（相邻兄弟选择器）
-        '[&>p+p]:mt-2', // 段落+段落：有间距
-        '[&>ul+p]:mt-2', // 列表+段落：有间距
-        '[&>ol+p]:mt-2',
-        '[&>ul+ul]:mt-2', // 列表+列表：有间距
-        '[&>ul+ol]:mt-2',
-        '[&>ol+ul]:mt-2',
-        '[&>ol+ol]:mt-2',
-        className,
+    <>
+      {highlight && onDismissHighlight && (
+        <MatchNavigator
+          activeIndex={activeMatch}
+          count={matchCount}
+          onNavigate={handleNavigate}
+          onDismiss={onDismissHighlight}
+        />
       )}
-    >
-      <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
-        {processedContent}
-      </ReactMarkdown>
-    </div>
+      <div
+        ref={containerRef}
+        className={cn(
+          'max-w-none text-foreground',
+          // 段落间距规则（相邻兄弟选择器）
+          '[&>p+p]:mt-2', // 段落+段落：有间距
+          '[&>ul+p]:mt-2', // 列表+段落：有间距
+          '[&>ol+p]:mt-2',
+          '[&>ul+ul]:mt-2', // 列表+列表：有间距
+          '[&>ul+ol]:mt-2',
+          '[&>ol+ul]:mt-2',
+          '[&>ol+ol]:mt-2',
+          className,
+        )}
+      >
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm]}
+          rehypePlugins={rehypePlugins}
+          components={markdownComponents}
+        >
+          {processedContent}
+        </ReactMarkdown>
+      </div>
+    </>
   )
 }
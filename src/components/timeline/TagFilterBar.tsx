@@ -0,0 +1,51 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { cn } from '@/lib/utils'
+
+interface TagFilterBarProps {
+  /** Active tag (without #) */
+  tag: string
+  /** Number of matching entries, undefined while loading */
+  count?: number | undefined
+  /** Clear filter handler */
+  onClear: () => void
+  /** Additional CSS classes */
+  className?: string
+}
+
+/**
+ * TagFilterBar - 标签筛选提示条
+ *
+ * 设计规范:
+ * - 显示在列表顶部，说明当前正在按标签筛选
+ * - 右侧关闭按钮返回日期视图
+ */
+export function TagFilterBar({ tag, count, onClear, className }: TagFilterBarProps) {
+  const { t } = useTranslation('timeline')
+
+  return (
+    <div
+      className={cn(
+        'mb-4 flex items-center justify-between rounded-md border border-border bg-card px-3 py-2',
+        className,
+      )}
+    >
+      <div className="text-sm text-foreground">
+        <span className="font-medium">#{tag}</span>
+        {count !== undefined && (
+          <span className="ml-2 text-muted-foreground">{t('tagEntryCount', { count })}</span>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={onClear}
+        className="rounded-sm p-1 text-muted-foreground transition-colors hover:text-foreground focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
+        aria-label={t('clearTagFilter')}
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  )
+}
@@ -7,37 +7,85 @@ import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useSwipeable } from 'react-swipeable'
 import { Drawer, FAB, PageLayout, TopBar } from '@/components/layout'
+import { type PasscodeAction, PasscodeDialog, useAppLock } from '@/components/lock'
 import {
+  BackupReminderBanner,
   DateNavigator,
   DiaryList,
   DiaryListSkeleton,
   dateUtils,
   EmptyState,
   SparseHint,
+  TagFilterBar,
 } from '@/components/timeline'
-import { ClearDataDialog, ConfirmDialog, DatePicker, useToast } from '@/components/ui'
-import { useStorageEstimate, useTheme } from '@/hooks'
+import {
+  ClearDataDialog,
+  ConfirmDialog,
+  DatePicker,
+  ImportPreviewDialog,
+  PassphraseDialog,
+  useToast,
+} from '@/components/ui'
+import { InfoDialog } from '@/components/ui/InfoDialog'
+import {
+  useAutoPurgeTrash,
+  useBackupReminder,
+  useCheckIntegrity,
+  useRepairIntegrity,
+  useSetting,
+  useStorageEstimate,
+  useStoragePersistence,
+  useStorageWarningPercent,
+  useTheme,
+} from '@/hooks'
 import {
   useDeleteEntry,
   useDistinctDates,
   useEntriesByDate,
+  useEntriesByTag,
   usePrefetchEntriesByDate,
 } from '@/hooks/useEntries'
-import { useDeleteImagesByEntry, useImagesByIds } from '@/hooks/useImages'
-import { clearAllData, downloadExport, importData } from '@/lib/dataTransfer'
-import type { DiaryEntry } from '@/types'
+import { useImagesByIds } from '@/hooks/useImages'
+import { BackupCryptoError, decryptBackup, isEncryptedBackup } from '@/lib/backupCrypto'
+import {
+  applyImport,
+  clearAllData,
+  DataImportError,
+  downloadExport,
+  downloadMarkdownExport,
+  type ImportPreview,
+  type ImportRecordIssue,
+  importMarkdownFiles,
+  type MarkdownImportResult,
+  previewImport,
+} from '@/lib/dataTransfer'
+import type { ConflictResolution } from '@/lib/importPreview'
+import { getHighlightPattern, parseSearchQuery } from '@/lib/searchQuery'
+import { isStorageLow, requestStorageCleanup } from '@/lib/storageQuota'
+import type { DiaryEntry, SavedSearch } from '@/types'
+
+/** Maximum number of files listed in the import report */
+const MAX_IMPORT_REPORT_ITEMS = 20
+
+// 存储空间不足的提醒每个会话只显示一次
+let hasWarnedStorageLow = false
 
 interface TimelineProps {
   initialDate?: string | undefined
   scrollToId?: string | undefined
+  /** Search query to highlight in the scrolled-to entry */
+  highlightQuery?: string | undefined
 }
 
-export function Timeline({ initialDate, scrollToId }: TimelineProps) {
+export function Timeline({ initialDate, scrollToId, highlightQuery }: TimelineProps) {
   const navigate = useNavigate()
   const queryClient = useQueryClient()
   const { addToast } = useToast()
   const { t: tData } = useTranslation('data')
   const { t: tEntry } = useTranslation('entry')
+  const { t: tSettings } = useTranslation('settings')
+  const { t: tTimeline } = useTranslation('timeline')
+  const { t: tTrash } = useTranslation('trash')
 
   // 初始化时使用传入的日期，否则使用今天
   const [currentDate, setCurrentDate] = useState(() => initialDate ?? dateUtils.getToday())
@@ -49,11 +97,33 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
     }
   }, [initialDate, currentDate])
 
+  // 从搜索跳转时高亮匹配内容，URL 参数清除后保留，直到用户关闭
+  const [searchHighlight, setSearchHighlight] = useState<{
+    entryId: string
+    pattern: RegExp
+  } | null>(null)
+
+  useEffect(() => {
+    if (!scrollToId || !highlightQuery) return
+    const pattern = getHighlightPattern(parseSearchQuery(highlightQuery))
+    setSearchHighlight(pattern && { entryId: scrollToId, pattern })
+  }, [scrollToId, highlightQuery])
+
+  const handleDismissHighlight = useCallback(() => {
+    setSearchHighlight(null)
+  }, [])
+
   // 滚动完成后清除 URL 参数
   const handleScrollComplete = useCallback(() => {
     navigate({ to: '/', search: { date: undefined, scrollTo: undefined }, replace: true })
   }, [navigate])
-  const { data: entries, isLoading } = useEntriesByDate(currentDate)
+
+  // 标签筛选：点击卡片上的标签后显示所有带该标签的日记
+  const [activeTag, setActiveTag] = useState<string | null>(null)
+  const { data: dateEntries, isLoading: isDateLoading } = useEntriesByDate(currentDate)
+  const { data: tagEntries, isLoading: isTagLoading } = useEntriesByTag(activeTag ?? '')
+  const entries = activeTag ? tagEntries : dateEntries
+  const isLoading = activeTag ? isTagLoading : isDateLoading
   const prefetchEntries = usePrefetchEntriesByDate()
   const isToday = dateUtils.isToday(currentDate)
 
@@ -64,20 +134,61 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
   // Theme
   const { themeMode, setTheme } = useTheme()
 
+  // Saved searches
+  const { value: savedSearches } = useSetting('savedSearches')
+
   // Storage
   const { data: storageData } = useStorageEstimate()
+  const { warningPercent, setWarningPercent } = useStorageWarningPercent()
+  const { isPersisted, requestPersistence } = useStoragePersistence()
+  const isLowOnStorage =
+    storageData !== undefined && isStorageLow(storageData.usage, storageData.quota, warningPercent)
+  const {
+    mutate: runIntegrityCheck,
+    data: integrityReport,
+    isPending: isCheckingIntegrity,
+  } = useCheckIntegrity()
+  const { mutateAsync: runIntegrityRepair, isPending: isRepairingIntegrity } = useRepairIntegrity()
+
+  // 清理回收站中过期的日记
+  useAutoPurgeTrash()
+
+  // 备份提醒
+  const backupReminder = useBackupReminder()
 
   // Drawer state
   const [isDrawerOpen, setIsDrawerOpen] = useState(false)
-  const [isExporting, setIsExporting] = useState(false)
-  const [isImporting, setIsImporting] = useState(false)
+  // 导入/导出进度（0-1），null 表示未在进行
+  const [exportProgress, setExportProgress] = useState<number | null>(null)
+  const [importProgress, setImportProgress] = useState<number | null>(null)
   const [showClearDialog, setShowClearDialog] = useState(false)
+  const [importReport, setImportReport] = useState<{ title: string; items: string[] } | null>(null)
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null)
+  // 口令对话框：加密导出，或解密选择的备份文件
+  const [passphraseRequest, setPassphraseRequest] = useState<
+    { mode: 'encrypt' } | { mode: 'decrypt'; file: File } | null
+  >(null)
+  const [passphraseError, setPassphraseError] = useState<string | null>(null)
+  const [passcodeAction, setPasscodeAction] = useState<PasscodeAction | null>(null)
+  const { isEnabled: isLockEnabled, isPrivateRevealed, revealPrivate } = useAppLock()
+
+  // 私密日记未显示时不计入稀疏提示和标签筛选的数量
+  const visibleCount = useMemo(() => {
+    if (!entries) return 0
+    return isPrivateRevealed ? entries.length : entries.filter((entry) => !entry.private).length
+  }, [entries, isPrivateRevealed])
+
+  // 隐藏的私密日记不加载图片，显示后才解密并创建 object URL
+  const imageEntries = useMemo(() => {
+    if (!entries) return undefined
+    return isPrivateRevealed ? entries : entries.filter((entry) => !entry.private)
+  }, [entries, isPrivateRevealed])
 
   // Collect all image IDs from entries
   const allImageIds = useMemo(() => {
-    if (!entries) return []
-    return entries.flatMap((entry) => entry.imageIds)
-  }, [entries])
+    if (!imageEntries) return []
+    return imageEntries.flatMap((entry) => entry.imageIds)
+  }, [imageEntries])
 
   // Fetch all images for entries
   const { data: images } = useImagesByIds(allImageIds)
@@ -86,9 +197,11 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
   const { thumbnailUrlsMap, fullImageUrlsMap } = useMemo(() => {
     const thumbnailMap = new Map<string, string[]>()
     const fullMap = new Map<string, string[]>()
-    if (!entries || !images) return { thumbnailUrlsMap: thumbnailMap, fullImageUrlsMap: fullMap }
+    if (!imageEntries || !images) {
+      return { thumbnailUrlsMap: thumbnailMap, fullImageUrlsMap: fullMap }
+    }
 
-    for (const entry of entries) {
+    for (const entry of imageEntries) {
       const entryImages = images.filter((img) => entry.imageIds.includes(img.id))
       if (entryImages.length > 0) {
         thumbnailMap.set(
@@ -102,11 +215,12 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
       }
     }
     return { thumbnailUrlsMap: thumbnailMap, fullImageUrlsMap: fullMap }
-  }, [entries, images])
+  }, [imageEntries, images])
 
   const handlePreviousDay = useCallback(() => {
     const prevDate = dateUtils.getPreviousDay(currentDate)
     setCurrentDate(prevDate)
+    setActiveTag(null)
     // Prefetch the day before
     prefetchEntries(dateUtils.getPreviousDay(prevDate))
   }, [currentDate, prefetchEntries])
@@ -115,6 +229,7 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
     if (!isToday) {
       const nextDate = dateUtils.getNextDay(currentDate)
       setCurrentDate(nextDate)
+      setActiveTag(null)
       // Prefetch the day after if not future
       if (!dateUtils.isFuture(dateUtils.getNextDay(nextDate))) {
         prefetchEntries(dateUtils.getNextDay(nextDate))
@@ -139,13 +254,35 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
   }
 
   const handleSearchClick = () => {
-    navigate({ to: '/search' })
+    navigate({ to: '/search', search: { q: undefined } })
   }
 
+  const handleOpenSavedSearch = useCallback(
+    (search: SavedSearch) => {
+      setIsDrawerOpen(false)
+      navigate({ to: '/search', search: { q: search.query } })
+    },
+    [navigate],
+  )
+
+  const handleMoodTrends = useCallback(() => {
+    setIsDrawerOpen(false)
+    navigate({ to: '/mood' })
+  }, [navigate])
+
+  const handleTrash = useCallback(() => {
+    setIsDrawerOpen(false)
+    navigate({ to: '/trash' })
+  }, [navigate])
+
   const handleEditEntry = (entry: DiaryEntry) => {
     navigate({ to: '/entry/$id', params: { id: entry.id } })
   }
 
+  const handleEntryHistory = (entry: DiaryEntry) => {
+    navigate({ to: '/history/$id', params: { id: entry.id } })
+  }
+
   // Date picker state
   const [showDatePicker, setShowDatePicker] = useState(false)
 
@@ -155,12 +292,20 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
 
   const handleDateSelect = useCallback((date: string) => {
     setCurrentDate(date)
+    setActiveTag(null)
+  }, [])
+
+  const handleTagClick = useCallback((tag: string) => {
+    setActiveTag(tag)
+  }, [])
+
+  const handleTagClear = useCallback(() => {
+    setActiveTag(null)
   }, [])
 
   // Delete confirmation state
   const [deleteTarget, setDeleteTarget] = useState<DiaryEntry | null>(null)
   const deleteEntry = useDeleteEntry()
-  const deleteImages = useDeleteImagesByEntry()
 
   const handleDeleteClick = useCallback((entry: DiaryEntry) => {
     setDeleteTarget(entry)
@@ -169,14 +314,11 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
   const handleDeleteConfirm = useCallback(async () => {
     if (!deleteTarget) return
 
-    // Delete images first
-    if (deleteTarget.imageIds.length > 0) {
-      await deleteImages.mutateAsync(deleteTarget.id)
-    }
-    // Delete entry
+    // Move to trash; images are removed when the trash is purged
     await deleteEntry.mutateAsync({ id: deleteTarget.id, date: deleteTarget.date })
     setDeleteTarget(null)
-  }, [deleteTarget, deleteEntry, deleteImages])
+    addToast(tTrash('movedToTrash'), 'success')
+  }, [deleteTarget, deleteEntry, addToast, tTrash])
 
   const handleDeleteCancel = useCallback(() => {
     setDeleteTarget(null)
@@ -191,47 +333,280 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
     setIsDrawerOpen(false)
   }, [])
 
-  const handleExport = useCallback(async () => {
-    setIsExporting(true)
+  const runExport = useCallback(
+    async (passphrase?: string) => {
+      setExportProgress(0)
+      try {
+        await downloadExport(setExportProgress, passphrase)
+        await queryClient.invalidateQueries({ queryKey: ['settings'] })
+        addToast(tData('exportSuccess'), 'success')
+      } catch (error) {
+        addToast(
+          error instanceof BackupCryptoError ? tData(error.errorKey) : tData('exportFailed'),
+          'error',
+        )
+      } finally {
+        setExportProgress(null)
+      }
+    },
+    [queryClient, addToast, tData],
+  )
+
+  const handleExport = useCallback(() => runExport(), [runExport])
+
+  const handleExportEncrypted = useCallback(() => {
+    setPassphraseError(null)
+    setPassphraseRequest({ mode: 'encrypt' })
+  }, [])
+
+  const handleExportMarkdown = useCallback(async () => {
+    setExportProgress(0)
     try {
-      await downloadExport()
+      await downloadMarkdownExport(setExportProgress)
+      await queryClient.invalidateQueries({ queryKey: ['settings'] })
       addToast(tData('exportSuccess'), 'success')
     } catch {
       addToast(tData('exportFailed'), 'error')
     } finally {
-      setIsExporting(false)
+      setExportProgress(null)
     }
-  }, [addToast, tData])
+  }, [queryClient, addToast, tData])
+
+  const showImportSuccess = useCallback(
+    async (result: { entriesCount: number; imagesCount: number }) => {
+      await queryClient.invalidateQueries({ queryKey: ['entries'] })
+      await queryClient.invalidateQueries({ queryKey: ['images'] })
+      await queryClient.invalidateQueries({ queryKey: ['settings'] })
+      addToast(
+        tData('importSuccess', {
+          entryCount: result.entriesCount,
+          imageCount: result.imagesCount,
+        }),
+        'success',
+      )
+    },
+    [queryClient, addToast, tData],
+  )
+
+  // 导入报告最多列出 MAX_IMPORT_REPORT_ITEMS 项
+  const limitReportItems = useCallback(
+    (items: string[]) => {
+      if (items.length <= MAX_IMPORT_REPORT_ITEMS) return items
+      return [
+        ...items.slice(0, MAX_IMPORT_REPORT_ITEMS),
+        tData('importReportMore', { count: items.length - MAX_IMPORT_REPORT_ITEMS }),
+      ]
+    },
+    [tData],
+  )
+
+  // Markdown 导入报告：列出合并和跳过的文件
+  const getMarkdownReportItems = useCallback(
+    (report: MarkdownImportResult) =>
+      limitReportItems([
+        ...report.merged.map((path) =>
+          tData('importReportItem', { path, reason: tData('importReportMerged') }),
+        ),
+        ...report.skipped.map(({ path, reason }) =>
+          tData('importReportItem', { path, reason: tData(`skipReasons.${reason}`) }),
+        ),
+      ]),
+    [tData, limitReportItems],
+  )
+
+  // JSON 备份校验失败：列出无效的记录（序号从 1 开始）
+  const getInvalidRecordItems = useCallback(
+    (records: ImportRecordIssue[]) =>
+      limitReportItems(
+        records.map(({ type, index, id, issues }) =>
+          tData(type === 'entry' ? 'recordIssueEntry' : 'recordIssueImage', {
+            index: index + 1,
+            id: id ?? '-',
+            issues: issues
+              .map((issue) => tData(`recordIssues.${issue}`))
+              .join(tData('recordIssueSeparator')),
+          }),
+        ),
+      ),
+    [tData, limitReportItems],
+  )
+
+  const showImportError = useCallback(
+    (error: unknown) => {
+      if (error instanceof DataImportError && error.records.length > 0) {
+        setImportReport({
+          title: tData('invalidRecordsTitle'),
+          items: getInvalidRecordItems(error.records),
+        })
+        setIsDrawerOpen(false)
+      }
+      addToast(
+        error instanceof DataImportError
+          ? tData(error.errorKey, { count: error.records.length })
+          : error instanceof BackupCryptoError
+            ? tData(error.errorKey)
+            : error instanceof Error
+              ? error.message
+              : tData('importFailed'),
+        'error',
+      )
+    },
+    [addToast, tData, getInvalidRecordItems],
+  )
 
   const handleImportClick = useCallback(() => {
     // Create and trigger file input
     const input = document.createElement('input')
     input.type = 'file'
-    input.accept = '.json'
+    input.accept = '.ndjson,.json,.enc,.zip,.md,.markdown,.txt'
+    input.multiple = true
     input.onchange = async (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0]
-      if (!file) return
+      const files = Array.from((e.target as HTMLInputElement).files ?? [])
+      const [firstFile] = files
+      if (!firstFile) return
 
-      setIsImporting(true)
+      setImportProgress(0)
       try {
-        const result = await importData(file)
-        await queryClient.invalidateQueries({ queryKey: ['entries'] })
-        await queryClient.invalidateQueries({ queryKey: ['images'] })
-        addToast(
-          tData('importSuccess', {
-            entryCount: result.entriesCount,
-            imageCount: result.imagesCount,
-          }),
-          'success',
-        )
+        // 单个备份文件先预览再导入（加密备份先输入口令），其余按 Markdown 文件导入
+        const isBackup = files.length === 1 && /\.((nd)?json|enc)$/i.test(firstFile.name)
+        if (isBackup && (await isEncryptedBackup(firstFile))) {
+          setPassphraseError(null)
+          setPassphraseRequest({ mode: 'decrypt', file: firstFile })
+        } else if (isBackup) {
+          setImportPreview(await previewImport(firstFile, setImportProgress))
+          setIsDrawerOpen(false)
+        } else {
+          const result = await importMarkdownFiles(files)
+          if (result.merged.length > 0 || result.skipped.length > 0) {
+            setImportReport({
+              title: tData('importReportTitle'),
+              items: getMarkdownReportItems(result),
+            })
+          }
+          await showImportSuccess(result)
+        }
       } catch (error) {
-        addToast(error instanceof Error ? error.message : tData('importFailed'), 'error')
+        showImportError(error)
       } finally {
-        setIsImporting(false)
+        setImportProgress(null)
       }
     }
     input.click()
-  }, [queryClient, addToast, tData])
+  }, [tData, showImportSuccess, showImportError, getMarkdownReportItems])
+
+  const handleImportConfirm = useCallback(
+    async (resolutions: Record<string, ConflictResolution>) => {
+      if (!importPreview) return
+      setImportProgress(0)
+      try {
+        const result = await applyImport(importPreview, resolutions, setImportProgress)
+        setImportPreview(null)
+        await showImportSuccess(result)
+      } catch {
+        addToast(tData('importFailed'), 'error')
+      } finally {
+        setImportProgress(null)
+      }
+    },
+    [importPreview, showImportSuccess, addToast, tData],
+  )
+
+  const handleImportCancel = useCallback(() => {
+    setImportPreview(null)
+  }, [])
+
+  const handlePassphraseSubmit = useCallback(
+    async (passphrase: string) => {
+      if (!passphraseRequest) return
+      if (passphraseRequest.mode === 'encrypt') {
+        setPassphraseRequest(null)
+        await runExport(passphrase)
+        return
+      }
+
+      setPassphraseError(null)
+      setImportProgress(0)
+      try {
+        // 解密和解析各占一半进度
+        const backup = await decryptBackup(passphraseRequest.file, passphrase, (progress) =>
+          setImportProgress(progress / 2),
+        )
+        const preview = await previewImport(backup, (progress) =>
+          setImportProgress(0.5 + progress / 2),
+        )
+        setPassphraseRequest(null)
+        setImportPreview(preview)
+        setIsDrawerOpen(false)
+      } catch (error) {
+        // 口令错误时保留对话框重试，其余错误关闭对话框
+        if (error instanceof BackupCryptoError && error.errorKey === 'wrongPassphrase') {
+          setPassphraseError(tData('wrongPassphrase'))
+        } else {
+          setPassphraseRequest(null)
+          showImportError(error)
+        }
+      } finally {
+        setImportProgress(null)
+      }
+    },
+    [passphraseRequest, runExport, showImportError, tData],
+  )
+
+  const handlePassphraseCancel = useCallback(() => {
+    setPassphraseRequest(null)
+  }, [])
+
+  const handlePasscodeAction = useCallback((action: PasscodeAction) => {
+    setPasscodeAction(action)
+    setIsDrawerOpen(false)
+  }, [])
+
+  const handlePasscodeDialogClose = useCallback(() => {
+    setPasscodeAction(null)
+  }, [])
+
+  // 设置了应用锁时需验证口令才能显示私密日记
+  const handleRevealPrivate = useCallback(() => {
+    if (isLockEnabled) {
+      setPasscodeAction('reveal')
+    } else {
+      revealPrivate()
+    }
+  }, [isLockEnabled, revealPrivate])
+
+  const handleCheckIntegrity = useCallback(() => {
+    runIntegrityCheck()
+  }, [runIntegrityCheck])
+
+  const handleRepairIntegrity = useCallback(async () => {
+    try {
+      await runIntegrityRepair()
+      addToast(tSettings('storageRepaired'), 'success')
+      // 重新检查以显示修复后的状态
+      runIntegrityCheck()
+    } catch {
+      addToast(tSettings('storageRepairFailed'), 'error')
+    }
+  }, [runIntegrityRepair, runIntegrityCheck, addToast, tSettings])
+
+  useEffect(() => {
+    if (!isLowOnStorage || hasWarnedStorageLow) return
+    hasWarnedStorageLow = true
+    addToast(tSettings('storageLowToast'), 'info')
+  }, [isLowOnStorage, addToast, tSettings])
+
+  const handleRequestPersist = useCallback(() => {
+    requestPersistence(undefined, {
+      onSuccess: (granted) => {
+        if (granted === false) addToast(tSettings('persistDenied'), 'info')
+      },
+    })
+  }, [requestPersistence, addToast, tSettings])
+
+  const handleFreeUpSpace = useCallback(() => {
+    setIsDrawerOpen(false)
+    requestStorageCleanup('manual')
+  }, [])
 
   const handleClearData = useCallback(() => {
     setShowClearDialog(true)
@@ -257,7 +632,13 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
       }
 
       // 忽略弹窗打开时的按键
-      if (isDrawerOpen || showDatePicker || deleteTarget !== null || showClearDialog) {
+      if (
+        isDrawerOpen ||
+        showDatePicker ||
+        deleteTarget !== null ||
+        showClearDialog ||
+        importPreview !== null
+      ) {
         return
       }
 
@@ -282,6 +663,7 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
     showDatePicker,
     deleteTarget,
     showClearDialog,
+    importPreview,
     isToday,
     handlePreviousDay,
     handleNextDay,
@@ -300,22 +682,50 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
       </TopBar>
 
       <PageLayout>
+        {backupReminder.reason && (
+          <BackupReminderBanner
+            reason={backupReminder.reason}
+            changedCount={backupReminder.changedCount}
+            lastBackupAt={backupReminder.lastBackupAt}
+            onBackup={handleExport}
+            onDismiss={backupReminder.dismiss}
+            isExporting={exportProgress !== null}
+          />
+        )}
+        {activeTag && (
+          <TagFilterBar
+            tag={activeTag}
+            count={tagEntries ? visibleCount : undefined}
+            onClear={handleTagClear}
+          />
+        )}
         {isLoading ? (
           <DiaryListSkeleton />
         ) : !entries || entries.length === 0 ? (
-          <EmptyState />
+          activeTag ? (
+            <EmptyState title={tTimeline('tagEmpty')} description="" />
+          ) : (
+            <EmptyState />
+          )
         ) : (
           <>
             <DiaryList
               entries={entries}
               onEdit={handleEditEntry}
               onDelete={handleDeleteClick}
+              onHistory={handleEntryHistory}
+              onTagClick={handleTagClick}
+              showDates={activeTag !== null}
+              showPrivate={isPrivateRevealed}
+              onRevealPrivate={handleRevealPrivate}
               thumbnailUrlsMap={thumbnailUrlsMap}
               fullImageUrlsMap={fullImageUrlsMap}
               scrollToId={scrollToId}
               onScrollComplete={handleScrollComplete}
+              highlight={searchHighlight}
+              onDismissHighlight={handleDismissHighlight}
             />
-            {entries.length < 3 && <SparseHint />}
+            {!activeTag && visibleCount < 3 && <SparseHint />}
           </>
         )}
       </PageLayout>
@@ -330,7 +740,7 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
         destructive
         onConfirm={handleDeleteConfirm}
         onCancel={handleDeleteCancel}
-        isLoading={deleteEntry.isPending || deleteImages.isPending}
+        isLoading={deleteEntry.isPending}
       />
 
       <DatePicker
@@ -347,13 +757,60 @@ export function Timeline({ initialDate, scrollToId }: TimelineProps) {
         themeMode={themeMode}
         onThemeChange={setTheme}
         storageUsed={storageData?.usage ?? 0}
+        storageQuota={storageData?.quota ?? 0}
+        storageWarningPercent={warningPercent}
+        onStorageWarningPercentChange={setWarningPercent}
+        isStoragePersisted={isPersisted}
+        onRequestPersist={handleRequestPersist}
+        onFreeUpSpace={handleFreeUpSpace}
+        lastBackupAt={backupReminder.lastBackupAt}
+        backupReminderDays={backupReminder.intervalDays}
+        onBackupReminderDaysChange={backupReminder.setIntervalDays}
         onExport={handleExport}
+        onExportEncrypted={handleExportEncrypted}
+        onExportMarkdown={handleExportMarkdown}
         onImport={handleImportClick}
         onClearData={handleClearData}
-        isExporting={isExporting}
-        isImporting={isImporting}
+        onPasscodeAction={handlePasscodeAction}
+        integrityReport={integrityReport ?? null}
+        isCheckingIntegrity={isCheckingIntegrity || isRepairingIntegrity}
+        onCheckIntegrity={handleCheckIntegrity}
+        onRepairIntegrity={handleRepairIntegrity}
+        onMoodTrends={handleMoodTrends}
+        onTrash={handleTrash}
+        savedSearches={savedSearches}
+        onOpenSavedSearch={handleOpenSavedSearch}
+        exportProgress={exportProgress}
+        importProgress={importProgress}
       />
 
+      <PasscodeDialog action={passcodeAction} onClose={handlePasscodeDialogClose} />
+
+      <PassphraseDialog
+        isOpen={passphraseRequest !== null}
+        mode={passphraseRequest?.mode ?? 'decrypt'}
+        onSubmit={handlePassphraseSubmit}
+        onCancel={handlePassphraseCancel}
+        error={passphraseError}
+      />
+
+      <ImportPreviewDialog
+        preview={importPreview}
+        onConfirm={handleImportConfirm}
+        onCancel={handleImportCancel}
+        progress={importProgress}
+      />
+
+      {importReport && (
+        <InfoDialog
+          isOpen
+          title={importReport.title}
+          items={importReport.items}
+          closeText={tData('gotIt')}
+          onClose={() => setImportReport(null)}
+        />
+      )}
+
       <ClearDataDialog
         isOpen={showClearDialog}
         onConfirm={handleClearConfirm}
@@ -1,7 +1,9 @@
+export { BackupReminderBanner } from './BackupReminderBanner'
 export { DateNavigator, dateUtils } from './DateNavigator'
 export { cardItemVariants, cardListVariants, DiaryCard } from './DiaryCard'
 export { DiaryList } from './DiaryList'
 export { EmptyState, SparseHint } from './EmptyState'
 export { MarkdownContent } from './MarkdownContent'
 export { DiaryCardSkeleton, DiaryListSkeleton, ImageSkeleton, Skeleton } from './Skeleton'
+export { TagFilterBar } from './TagFilterBar'
 export { Timeline } from './Timeline'
@@ -0,0 +1,115 @@
+'use client'
+
+import { RotateCcw, Trash2 } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { PrivateEntryPlaceholder } from '@/components/lock'
+import { getDaysUntilPurge } from '@/lib/trash'
+import { cn } from '@/lib/utils'
+import type { DiaryEntry } from '@/types'
+
+const MAX_IMAGES = 3
+
+interface TrashItemProps {
+  /** Soft-deleted entry */
+  entry: DiaryEntry
+  /** Thumbnail URLs (resolved from imageIds) */
+  thumbnailUrls?: string[] | undefined
+  /** Retention period used to compute the days left */
+  retentionDays: number
+  /** Restore handler */
+  onRestore: (entry: DiaryEntry) => void
+  /** Permanent delete handler */
+  onDelete: (entry: DiaryEntry) => void
+  /** Hide the content of a private entry until it is revealed */
+  isConcealed?: boolean
+  /** Reveal button click handler for a concealed entry */
+  onReveal?: () => void
+  /** Disable actions while a mutation is running */
+  disabled?: boolean
+  /** Additional CSS classes */
+  className?: string
+}
+
+/**
+ * TrashItem - 回收站日记条目
+ *
+ * 设计规范:
+ * - 显示日期、正文摘要（最多 3 行）和缩略图
+ * - 底部显示剩余天数，右侧为恢复 / 永久删除按钮
+ * - 私密日记未显示时只显示占位块，不渲染摘要和缩略图
+ */
+export function TrashItem({
+  entry,
+  thumbnailUrls = [],
+  retentionDays,
+  onRestore,
+  onDelete,
+  isConcealed = false,
+  onReveal,
+  disabled = false,
+  className,
+}: TrashItemProps) {
+  const { t } = useTranslation('trash')
+  const { t: tImage } = useTranslation('image')
+  const daysLeft = getDaysUntilPurge(entry.deletedAt ?? Date.now(), retentionDays)
+  const excerpt = entry.content.trim()
+
+  return (
+    <article className={cn('rounded-md border border-border bg-card p-3', className)}>
+      <time className="text-xs tracking-wide text-muted-foreground" dateTime={entry.date}>
+        {entry.date}
+      </time>
+
+      {isConcealed ? (
+        <PrivateEntryPlaceholder onReveal={onReveal} className="mt-1" />
+      ) : (
+        <p
+          className={cn(
+            'mt-1 line-clamp-3 whitespace-pre-wrap break-words text-sm',
+            excerpt ? 'text-foreground' : 'text-muted-foreground',
+          )}
+        >
+          {excerpt || t('noContent')}
+        </p>
+      )}
+
+      {!isConcealed && thumbnailUrls.length > 0 && (
+        <div className="mt-2 flex gap-2">
+          {thumbnailUrls.slice(0, MAX_IMAGES).map((url, index) => (
+            <img
+              key={url}
+              src={url}
+              alt={tImage('imageAlt', { index: index + 1, total: thumbnailUrls.length })}
+              className="aspect-square w-14 rounded-sm bg-muted object-cover"
+              loading="lazy"
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 flex items-center gap-2">
+        <span className="flex-1 text-xs text-muted-foreground">
+          {daysLeft > 0 ? t('daysLeft', { count: daysLeft }) : t('dueSoon')}
+        </span>
+        <button
+          type="button"
+          onClick={() => onRestore(entry)}
+          disabled={disabled}
+          className="flex items-center gap-1 rounded-sm px-2 py-1 text-xs text-foreground transition-colors hover:bg-surface focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring disabled:opacity-50"
+        >
+          <RotateCcw className="h-3.5 w-3.5" />
+          {t('restore')}
+        </button>
+        <button
+          type="button"
+          onClick={() => onDelete(entry)}
+          disabled={disabled}
+          className="flex items-center gap-1 rounded-sm px-2 py-1 text-xs text-red-500 transition-colors hover:bg-red-50 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring disabled:opacity-50 dark:hover:bg-red-950"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+          {t('deleteForever')}
+        </button>
+      </div>
+    </article>
+  )
+}
@@ -0,0 +1 @@
+export { TrashItem } from './TrashItem'
@@ -0,0 +1,385 @@
+'use client'
+
+import { Loader2, X } from 'lucide-react'
+import { AnimatePresence, motion } from 'motion/react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import i18n from '@/i18n'
+import type { ImportPreview } from '@/lib/dataTransfer'
+import {
+  CONFLICT_RESOLUTIONS,
+  type ConflictResolution,
+  countByStatus,
+  getDefaultResolution,
+  type ImportEntryDiff,
+  isConflict,
+} from '@/lib/importPreview'
+import { cn } from '@/lib/utils'
+import type { DiaryEntry } from '@/types'
+
+interface ImportPreviewDialogProps {
+  /** Preview to show; the dialog is open while not null */
+  preview: ImportPreview | null
+  /** Commit the import with the chosen resolutions */
+  onConfirm: (resolutions: Record<string, ConflictResolution>) => Promise<void>
+  onCancel: () => void
+  /** Import progress (0-1) while the import is being applied */
+  progress?: number | null
+}
+
+/** Maximum number of new entries listed */
+const MAX_NEW_ENTRIES_LISTED = 50
+
+// 动画缓动函数
+const easing = {
+  smooth: [0.4, 0, 0.2, 1] as const,
+}
+
+/**
+ * Format timestamp to a readable date and time
+ */
+function formatUpdatedAt(timestamp: number): string {
+  const locale = i18n.language === 'en' ? 'en-US' : 'zh-CN'
+  return new Date(timestamp).toLocaleString(locale, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function getInitialResolutions(preview: ImportPreview | null) {
+  const resolutions: Record<string, ConflictResolution> = {}
+  for (const diff of preview?.entries ?? []) {
+    if (isConflict(diff.status)) {
+      resolutions[diff.incoming.id] = getDefaultResolution(diff.status)
+    }
+  }
+  return resolutions
+}
+
+/**
+ * ImportPreviewDialog - JSON 备份导入预览
+ *
+ * 设计规范:
+ * - 顶部汇总新日记、相同、备份较新、本地较新的数量
+ * - 冲突逐条左右对比本地与备份内容，可单独或批量选择处理方式
+ * - 默认保留较新的一方，点击「导入」后才写入数据
+ */
+export function ImportPreviewDialog({
+  preview,
+  onConfirm,
+  onCancel,
+  progress = null,
+}: ImportPreviewDialogProps) {
+  const { t } = useTranslation('data')
+  const { t: tCommon } = useTranslation('common')
+  const [resolutions, setResolutions] = useState(() => getInitialResolutions(preview))
+  const [isLoading, setIsLoading] = useState(false)
+  const isOpen = preview !== null
+
+  // 切换预览时重置选择
+  useEffect(() => {
+    setResolutions(getInitialResolutions(preview))
+    setIsLoading(false)
+  }, [preview])
+
+  // ESC 键关闭
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen && !isLoading) {
+        onCancel()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, isLoading, onCancel])
+
+  // 阻止背景滚动
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden'
+    } else {
+      document.body.style.overflow = ''
+    }
+    return () => {
+      document.body.style.overflow = ''
+    }
+  }, [isOpen])
+
+  const { counts, conflicts, newEntries } = useMemo(() => {
+    const entries = preview?.entries ?? []
+    return {
+      counts: countByStatus(entries),
+      conflicts: entries.filter((diff) => isConflict(diff.status)),
+      newEntries: entries.filter((diff) => diff.status === 'new').map((diff) => diff.incoming),
+    }
+  }, [preview])
+
+  const handleResolve = useCallback((id: string, resolution: ConflictResolution) => {
+    setResolutions((prev) => ({ ...prev, [id]: resolution }))
+  }, [])
+
+  const handleResolveAll = useCallback((resolution: ConflictResolution) => {
+    setResolutions((prev) => Object.fromEntries(Object.keys(prev).map((id) => [id, resolution])))
+  }, [])
+
+  const handleConfirm = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      await onConfirm(resolutions)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [onConfirm, resolutions])
+
+  const hasChanges = counts.new > 0 || conflicts.length > 0
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* 背景遮罩 */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2, ease: easing.smooth }}
+            className="absolute inset-0 bg-black/80"
+            onClick={() => !isLoading && onCancel()}
+            aria-hidden="true"
+          />
+
+          {/* 对话框 */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.2, ease: easing.smooth }}
+            className="relative flex max-h-[85dvh] w-full max-w-2xl flex-col rounded-lg bg-card shadow-lg"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="import-preview-title"
+          >
+            {/* 标题 */}
+            <div className="flex items-center justify-between border-b border-border px-6 py-4">
+              <h2 id="import-preview-title" className="text-lg font-medium text-foreground">
+                {t('importPreviewTitle')}
+              </h2>
+              <button
+                type="button"
+                onClick={onCancel}
+                disabled={isLoading}
+                className="rounded-sm text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+                aria-label={tCommon('close')}
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="flex-1 space-y-6 overflow-y-auto px-6 py-4">
+              {/* 汇总 */}
+              <ul className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                {(['new', 'identical', 'newerInBackup', 'newerLocally'] as const).map((status) => (
+                  <li key={status} className="rounded-md bg-surface px-3 py-2 text-center">
+                    <div className="text-lg font-medium text-foreground">{counts[status]}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {t(`importStatus.${status}`)}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {!hasChanges && (
+                <p className="text-center text-sm text-muted-foreground">{t('importNoChanges')}</p>
+              )}
+
+              {/* 冲突 */}
+              {conflicts.length > 0 && (
+                <section className="space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h3 className="text-sm font-medium text-foreground">
+                      {t('importConflicts', { count: conflicts.length })}
+                    </h3>
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <span>{t('resolveAll')}</span>
+                      {CONFLICT_RESOLUTIONS.map((resolution) => (
+                        <button
+                          key={resolution}
+                          type="button"
+                          onClick={() => handleResolveAll(resolution)}
+                          disabled={isLoading}
+                          className="rounded-sm border border-border px-2 py-1 text-foreground transition-colors hover:bg-surface disabled:opacity-50"
+                        >
+                          {t(`resolutions.${resolution}`)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <ul className="space-y-3">
+                    {conflicts.map((diff) => (
+                      <ConflictItem
+                        key={diff.incoming.id}
+                        diff={diff}
+                        resolution={
+                          resolutions[diff.incoming.id] ?? getDefaultResolution(diff.status)
+                        }
+                        onResolve={handleResolve}
+                        disabled={isLoading}
+                      />
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              {/* 新日记 */}
+              {newEntries.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-sm font-medium text-foreground">
+                    {t('importNewEntries', { count: newEntries.length })}
+                  </h3>
+                  <ul className="space-y-1 text-sm">
+                    {newEntries.slice(0, MAX_NEW_ENTRIES_LISTED).map((entry) => (
+                      <li key={entry.id} className="flex gap-3">
+                        <span className="shrink-0 text-muted-foreground">{entry.date}</span>
+                        <span className="truncate text-foreground">
+                          {entry.content.split('\n')[0] || t('importEmptyContent')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  {newEntries.length > MAX_NEW_ENTRIES_LISTED && (
+                    <p className="text-xs text-muted-foreground">
+                      {t('importMoreEntries', {
+                        count: newEntries.length - MAX_NEW_ENTRIES_LISTED,
+                      })}
+                    </p>
+                  )}
+                </section>
+              )}
+            </div>
+
+            {/* 操作 */}
+            <div className="flex gap-3 border-t border-border px-6 py-4">
+              <button
+                type="button"
+                onClick={onCancel}
+                disabled={isLoading}
+                className="flex-1 rounded-sm border border-border px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-surface disabled:opacity-50"
+              >
+                {tCommon('cancel')}
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirm}
+                disabled={isLoading}
+                className="flex flex-1 items-center justify-center gap-2 rounded-sm bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    {progress === null
+                      ? t('importing')
+                      : t('importingProgress', { percent: Math.round(progress * 100) })}
+                  </>
+                ) : (
+                  t('confirmImport')
+                )}
+              </button>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  )
+}
+
+interface ConflictItemProps {
+  diff: ImportEntryDiff
+  resolution: ConflictResolution
+  onResolve: (id: string, resolution: ConflictResolution) => void
+  disabled: boolean
+}
+
+/**
+ * 单条冲突：左右对比本地与备份版本
+ */
+function ConflictItem({ diff, resolution, onResolve, disabled }: ConflictItemProps) {
+  const { t } = useTranslation('data')
+  const { incoming, local } = diff
+
+  return (
+    <li className="rounded-md border border-border p-3">
+      <div className="mb-2 flex items-center justify-between text-sm">
+        <span className="font-medium text-foreground">{incoming.date}</span>
+        <span className="text-xs text-muted-foreground">{t(`importStatus.${diff.status}`)}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {local && (
+          <VersionColumn
+            label={t('localVersion')}
+            entry={local}
+            isNewer={diff.status === 'newerLocally'}
+          />
+        )}
+        <VersionColumn
+          label={t('backupVersion')}
+          entry={incoming}
+          isNewer={diff.status === 'newerInBackup'}
+        />
+      </div>
+
+      <div role="radiogroup" aria-label={incoming.date} className="mt-3 flex gap-1">
+        {CONFLICT_RESOLUTIONS.map((option) => (
+          // biome-ignore lint/a11y/useSemanticElements: segmented control styled as buttons
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={resolution === option}
+            onClick={() => onResolve(incoming.id, option)}
+            disabled={disabled}
+            className={cn(
+              'flex-1 rounded-sm border px-2 py-1.5 text-xs font-medium transition-colors disabled:opacity-50',
+              resolution === option
+                ? 'border-primary bg-primary text-primary-foreground'
+                : 'border-border text-foreground hover:bg-surface',
+            )}
+          >
+            {t(`resolutions.${option}`)}
+          </button>
+        ))}
+      </div>
+    </li>
+  )
+}
+
+interface VersionColumnProps {
+  label: string
+  entry: DiaryEntry
+  isNewer: boolean
+}
+
+function VersionColumn({ label, entry, isNewer }: VersionColumnProps) {
+  const { t } = useTranslation('data')
+
+  return (
+    <div className="min-w-0">
+      <div className="mb-1 text-xs text-muted-foreground">
+        <span className={cn(isNewer && 'font-medium text-foreground')}>{label}</span>
+        {' · '}
+        {formatUpdatedAt(entry.updatedAt)}
+      </div>
+      <p className="line-clamp-6 whitespace-pre-wrap break-words rounded-sm bg-surface px-2 py-1.5 text-sm text-foreground">
+        {entry.content || t('importEmptyContent')}
+      </p>
+      {entry.imageIds.length > 0 && (
+        <div className="mt-1 text-xs text-muted-foreground">
+          {t('importImageCount', { count: entry.imageIds.length })}
+        </div>
+      )}
+    </div>
+  )
+}
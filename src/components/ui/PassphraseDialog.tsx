@@ -0,0 +1,232 @@
+'use client'
+
+import { KeyRound, Loader2, X } from 'lucide-react'
+import { AnimatePresence, motion } from 'motion/react'
+import { type FormEvent, useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useFocusTrap } from '@/hooks/useFocusTrap'
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/backupCrypto'
+
+interface PassphraseDialogProps {
+  isOpen: boolean
+  /** encrypt：设置口令（需输入两次）；decrypt：输入口令解密 */
+  mode: 'encrypt' | 'decrypt'
+  /** Called with the passphrase; the dialog shows a loading state until it settles */
+  onSubmit: (passphrase: string) => Promise<void>
+  onCancel: () => void
+  /** Error from the last attempt (e.g. wrong passphrase) */
+  error?: string | null
+}
+
+// 动画缓动函数
+const easing = {
+  smooth: [0.4, 0, 0.2, 1] as const,
+}
+
+const inputClassName =
+  'w-full rounded-sm border border-border bg-surface px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-foreground'
+
+/**
+ * PassphraseDialog - 备份口令对话框
+ *
+ * 设计规范:
+ * - 加密时输入两次口令，至少 MIN_PASSPHRASE_LENGTH 个字符，并提示口令无法找回
+ * - 解密时输入一次，口令错误时在输入框下方显示错误并保留对话框
+ * - 关闭对话框后清空输入
+ */
+export function PassphraseDialog({
+  isOpen,
+  mode,
+  onSubmit,
+  onCancel,
+  error = null,
+}: PassphraseDialogProps) {
+  const { t } = useTranslation('data')
+  const { t: tCommon } = useTranslation('common')
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [validationError, setValidationError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  // Focus trap
+  const dialogRef = useFocusTrap<HTMLFormElement>({
+    isActive: isOpen,
+    autoFocus: true,
+    restoreFocus: true,
+  })
+
+  // 重置状态
+  useEffect(() => {
+    if (!isOpen) {
+      setPassphrase('')
+      setConfirmation('')
+      setValidationError(null)
+      setIsLoading(false)
+    }
+  }, [isOpen])
+
+  // ESC 键关闭
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen && !isLoading) {
+        onCancel()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, isLoading, onCancel])
+
+  // 阻止背景滚动
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden'
+    } else {
+      document.body.style.overflow = ''
+    }
+    return () => {
+      document.body.style.overflow = ''
+    }
+  }, [isOpen])
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent) => {
+      e.preventDefault()
+      if (mode === 'encrypt') {
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+          setValidationError(t('passphraseTooShort', { count: MIN_PASSPHRASE_LENGTH }))
+          return
+        }
+        if (passphrase !== confirmation) {
+          setValidationError(t('passphraseMismatch'))
+          return
+        }
+      }
+      setValidationError(null)
+      setIsLoading(true)
+      try {
+        await onSubmit(passphrase)
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [mode, passphrase, confirmation, onSubmit, t],
+  )
+
+  const displayError = validationError ?? error
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* 背景遮罩 */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2, ease: easing.smooth }}
+            className="absolute inset-0 bg-black/80"
+            onClick={() => !isLoading && onCancel()}
+            aria-hidden="true"
+          />
+
+          {/* 对话框 */}
+          <motion.form
+            ref={dialogRef}
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.2, ease: easing.smooth }}
+            className="relative w-full max-w-sm space-y-4 rounded-lg bg-card p-6 shadow-lg"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="passphrase-dialog-title"
+            onSubmit={handleSubmit}
+          >
+            <div className="flex justify-center">
+              <div className="flex h-12 w-12 items-center justify-center rounded-full bg-surface">
+                <KeyRound className="h-6 w-6 text-foreground" />
+              </div>
+            </div>
+
+            <h2
+              id="passphrase-dialog-title"
+              className="text-center text-lg font-medium text-foreground"
+            >
+              {mode === 'encrypt' ? t('encryptTitle') : t('decryptTitle')}
+            </h2>
+            <p className="text-center text-sm text-muted-foreground">
+              {mode === 'encrypt' ? t('encryptDescription') : t('decryptDescription')}
+            </p>
+
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder={t('passphrase')}
+              aria-label={t('passphrase')}
+              aria-invalid={displayError !== null}
+              className={inputClassName}
+              autoComplete={mode === 'encrypt' ? 'new-password' : 'current-password'}
+              disabled={isLoading}
+            />
+            {mode === 'encrypt' && (
+              <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder={t('confirmPassphrase')}
+                aria-label={t('confirmPassphrase')}
+                className={inputClassName}
+                autoComplete="new-password"
+                disabled={isLoading}
+              />
+            )}
+            {displayError && (
+              <p role="alert" className="text-sm text-destructive">
+                {displayError}
+              </p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onCancel}
+                disabled={isLoading}
+                className="flex-1 rounded-sm border border-border px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-surface disabled:opacity-50"
+              >
+                {tCommon('cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={isLoading || passphrase === ''}
+                className="flex flex-1 items-center justify-center gap-2 rounded-sm bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    {tCommon('processing')}
+                  </>
+                ) : mode === 'encrypt' ? (
+                  t('encryptAndExport')
+                ) : (
+                  t('decrypt')
+                )}
+              </button>
+            </div>
+
+            {/* 关闭按钮（放在最后，打开时先聚焦口令输入框） */}
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isLoading}
+              className="absolute right-4 top-4 rounded-sm text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+              aria-label={tCommon('close')}
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </motion.form>
+        </div>
+      )}
+    </AnimatePresence>
+  )
+}
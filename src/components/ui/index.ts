@@ -2,5 +2,7 @@ export { ClearDataDialog } from './ClearDataDialog'
 export { ConfirmDialog, useConfirmDialog } from './ConfirmDialog'
 export { DatePicker } from './DatePicker'
 export { Dropdown } from './Dropdown'
+export { ImportPreviewDialog } from './ImportPreviewDialog'
 export { Lightbox, useLightbox } from './Lightbox'
+export { PassphraseDialog } from './PassphraseDialog'
 export { ToastProvider, useToast } from './Toast'
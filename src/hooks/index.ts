@@ -1,6 +1,11 @@
+export * from './useBackup'
 export * from './useEntries'
 export * from './useFocusTrap'
 export * from './useImages'
 export * from './useKeyboardHeight'
+export * from './useRevisions'
+export * from './useSettings'
 export * from './useStorage'
+export * from './useSync'
 export * from './useTheme'
+export * from './useTrash'
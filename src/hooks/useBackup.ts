@@ -0,0 +1,67 @@
+import { useQuery } from '@tanstack/react-query'
+import { useCallback } from 'react'
+import {
+  type BackupReminderDays,
+  DEFAULT_BACKUP_REMINDER_DAYS,
+  getBackupReferenceTime,
+  getBackupReminderReason,
+  isBackupReminderDays,
+} from '@/lib/backup'
+import { entriesRepository } from '@/lib/repositories'
+import { entriesKeys } from './useEntries'
+import { useSetting } from './useSettings'
+
+/**
+ * 备份提醒 hook
+ *
+ * 统计上次备份（或上次关闭提醒）之后修改过的日记数，决定是否显示提醒。
+ * 从未备份过时，间隔从第一篇日记的创建时间算起。
+ */
+export function useBackupReminder() {
+  const lastBackup = useSetting('lastBackupAt')
+  const dismissedAt = useSetting('backupReminderDismissedAt')
+  const interval = useSetting('backupReminderDays')
+  const isLoaded = lastBackup.isLoaded && dismissedAt.isLoaded && interval.isLoaded
+
+  const intervalDays: BackupReminderDays = isBackupReminderDays(interval.value)
+    ? interval.value
+    : DEFAULT_BACKUP_REMINDER_DAYS
+  const referenceTime = getBackupReferenceTime(lastBackup.value, dismissedAt.value)
+
+  const { data: changedCount } = useQuery({
+    queryKey: entriesKeys.changedSince(referenceTime),
+    queryFn: () => entriesRepository.countChangedSince(referenceTime),
+    enabled: isLoaded,
+  })
+
+  // 只有从未备份也从未关闭提醒时才需要第一篇日记的时间
+  const neverBackedUp = lastBackup.value === null && dismissedAt.value === null
+  const { data: firstEntryAt } = useQuery({
+    queryKey: entriesKeys.firstCreatedAt(),
+    queryFn: () => entriesRepository.getFirstCreatedAt(),
+    enabled: isLoaded && neverBackedUp,
+  })
+
+  const reason =
+    isLoaded && changedCount !== undefined
+      ? getBackupReminderReason({
+          lastBackupAt: lastBackup.value,
+          dismissedAt: dismissedAt.value,
+          firstEntryAt: firstEntryAt ?? null,
+          changedCount,
+          intervalDays,
+        })
+      : null
+
+  const { setValue: setDismissedAt } = dismissedAt
+  const dismiss = useCallback(() => setDismissedAt(Date.now()), [setDismissedAt])
+
+  return {
+    reason,
+    changedCount: changedCount ?? 0,
+    lastBackupAt: lastBackup.value,
+    intervalDays,
+    setIntervalDays: interval.setValue,
+    dismiss,
+  }
+}
@@ -1,6 +1,8 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { entriesRepository } from '@/lib/repositories'
-import type { CreateEntryInput, DateRangeQuery, UpdateEntryInput } from '@/types'
+import { handleQuotaError } from '@/lib/storageQuota'
+import { publishSync } from '@/lib/sync'
+import type { CreateEntryInput, DateRangeQuery, DiaryEntry, UpdateEntryInput } from '@/types'
 
 // Query keys factory
 export const entriesKeys = {
@@ -9,6 +11,12 @@ export const entriesKeys = {
   list: (filters: Record<string, unknown>) => [...entriesKeys.lists(), filters] as const,
   details: () => [...entriesKeys.all, 'detail'] as const,
   detail: (id: string) => [...entriesKeys.details(), id] as const,
+  revisions: (id: string) => [...entriesKeys.detail(id), 'revisions'] as const,
+  byTag: (tag: string) => [...entriesKeys.lists(), 'tag', tag] as const,
+  tags: () => [...entriesKeys.lists(), 'tags'] as const,
+  changedSince: (timestamp: number) => [...entriesKeys.lists(), 'changedSince', timestamp] as const,
+  firstCreatedAt: () => [...entriesKeys.lists(), 'firstCreatedAt'] as const,
+  trash: () => [...entriesKeys.all, 'trash'] as const,
   byDate: (date: string) => [...entriesKeys.all, 'date', date] as const,
   byDateRange: (range: DateRangeQuery) => [...entriesKeys.all, 'range', range] as const,
   search: (query: string) => [...entriesKeys.all, 'search', query] as const,
@@ -57,6 +65,27 @@ export function useAllEntries() {
   })
 }
 
+/**
+ * Hook to get all entries with a tag
+ */
+export function useEntriesByTag(tag: string) {
+  return useQuery({
+    queryKey: entriesKeys.byTag(tag),
+    queryFn: () => entriesRepository.getByTag(tag),
+    enabled: Boolean(tag),
+  })
+}
+
+/**
+ * Hook to get all tags with usage counts
+ */
+export function useAllTags() {
+  return useQuery({
+    queryKey: entriesKeys.tags(),
+    queryFn: () => entriesRepository.getAllTags(),
+  })
+}
+
 /**
  * Hook to get paginated entries
  */
@@ -67,14 +96,20 @@ export function usePaginatedEntries(limit: number, offset = 0) {
   })
 }
 
+function excludePrivate(entries: DiaryEntry[]): DiaryEntry[] {
+  return entries.filter((entry) => !entry.private)
+}
+
 /**
  * Hook to search entries
+ * @param includePrivate - Include private entries (only once they have been revealed)
  */
-export function useSearchEntries(query: string) {
+export function useSearchEntries(query: string, includePrivate = false) {
   return useQuery({
     queryKey: entriesKeys.search(query),
     queryFn: () => entriesRepository.search(query),
     enabled: query.length > 0,
+    ...(!includePrivate && { select: excludePrivate }),
   })
 }
 
@@ -89,12 +124,14 @@ export function useCreateEntry() {
     onSuccess: async (entry) => {
       // Set the new entry in cache first
       queryClient.setQueryData(entriesKeys.detail(entry.id), entry)
+      publishSync({ type: 'entry', action: 'create', id: entry.id })
       // Invalidate and wait for refetch
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: entriesKeys.lists() }),
         queryClient.invalidateQueries({ queryKey: entriesKeys.byDate(entry.date) }),
       ])
     },
+    onError: handleQuotaError,
   })
 }
 
@@ -110,13 +147,16 @@ export function useUpdateEntry() {
       // Invalidate and refetch
       queryClient.invalidateQueries({ queryKey: entriesKeys.lists() })
       queryClient.invalidateQueries({ queryKey: entriesKeys.byDate(entry.date) })
+      queryClient.invalidateQueries({ queryKey: entriesKeys.revisions(entry.id) })
       queryClient.setQueryData(entriesKeys.detail(entry.id), entry)
+      publishSync({ type: 'entry', action: 'update', id: entry.id })
     },
+    onError: handleQuotaError,
   })
 }
 
 /**
- * Hook to delete an entry
+ * Hook to move an entry to the trash
  */
 export function useDeleteEntry() {
   const queryClient = useQueryClient()
@@ -131,6 +171,8 @@ export function useDeleteEntry() {
       queryClient.removeQueries({ queryKey: entriesKeys.detail(id) })
       queryClient.invalidateQueries({ queryKey: entriesKeys.lists() })
       queryClient.invalidateQueries({ queryKey: entriesKeys.byDate(date) })
+      queryClient.invalidateQueries({ queryKey: entriesKeys.trash() })
+      publishSync({ type: 'entry', action: 'delete', id })
     },
   })
 }
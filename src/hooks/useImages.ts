@@ -1,7 +1,8 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { imagesRepository } from '@/lib/repositories'
+import { handleQuotaError } from '@/lib/storageQuota'
+import { publishSync, SYNC_ALL_ID } from '@/lib/sync'
 import type { CreateImageInput } from '@/types'
-import { entriesKeys } from './useEntries'
 
 // Query keys factory
 export const imagesKeys = {
@@ -57,6 +58,7 @@ export function useCreateImage() {
       // Update cache
       queryClient.setQueryData(imagesKeys.detail(image.id), image)
       queryClient.invalidateQueries({ queryKey: imagesKeys.byEntry(image.entryId) })
+      publishSync({ type: 'image', action: 'create', id: image.id })
     },
   })
 }
@@ -73,6 +75,7 @@ export function useCreateImages() {
       // Update cache for each image
       for (const image of images) {
         queryClient.setQueryData(imagesKeys.detail(image.id), image)
+        publishSync({ type: 'image', action: 'create', id: image.id })
       }
       // Invalidate entry queries if needed
       const entryIds = [...new Set(images.map((img) => img.entryId))]
@@ -80,6 +83,7 @@ export function useCreateImages() {
         queryClient.invalidateQueries({ queryKey: imagesKeys.byEntry(entryId) })
       }
     },
+    onError: handleQuotaError,
   })
 }
 
@@ -97,6 +101,7 @@ export function useDeleteImage() {
     onSuccess: ({ id, entryId }) => {
       queryClient.removeQueries({ queryKey: imagesKeys.detail(id) })
       queryClient.invalidateQueries({ queryKey: imagesKeys.byEntry(entryId) })
+      publishSync({ type: 'image', action: 'delete', id })
     },
   })
 }
@@ -112,6 +117,7 @@ export function useDeleteImagesByEntry() {
     onSuccess: (_, entryId) => {
       queryClient.invalidateQueries({ queryKey: imagesKeys.byEntry(entryId) })
       queryClient.invalidateQueries({ queryKey: imagesKeys.all })
+      publishSync({ type: 'image', action: 'delete', id: SYNC_ALL_ID })
     },
   })
 }
@@ -135,26 +141,3 @@ export function useImagesTotalSize() {
     queryFn: () => imagesRepository.getTotalSize(),
   })
 }
-
-/**
- * Combined hook to delete an entry and its images
- */
-export function useDeleteEntryWithImages() {
-  const queryClient = useQueryClient()
-
-  return useMutation({
-    mutationFn: async ({ entryId, date }: { entryId: string; date: string }) => {
-      // Delete images first, then entry
-      await imagesRepository.deleteByEntryId(entryId)
-      // Note: Entry deletion is handled separately by useDeleteEntry
-      return { entryId, date }
-    },
-    onSuccess: ({ entryId, date }) => {
-      // Invalidate both images and entries queries
-      queryClient.invalidateQueries({ queryKey: imagesKeys.byEntry(entryId) })
-      queryClient.invalidateQueries({ queryKey: imagesKeys.all })
-      queryClient.invalidateQueries({ queryKey: entriesKeys.detail(entryId) })
-      queryClient.invalidateQueries({ queryKey: entriesKeys.byDate(date) })
-    },
-  })
-}
@@ -0,0 +1,36 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { entriesRepository, revisionsRepository } from '@/lib/repositories'
+import { publishSync } from '@/lib/sync'
+import type { EntryRevision } from '@/types'
+import { entriesKeys } from './useEntries'
+
+/**
+ * Hook to get the revision history of an entry, newest first
+ */
+export function useEntryRevisions(entryId: string) {
+  return useQuery({
+    queryKey: entriesKeys.revisions(entryId),
+    queryFn: () => revisionsRepository.getByEntryId(entryId),
+    enabled: Boolean(entryId),
+  })
+}
+
+/**
+ * Hook to roll an entry back to a revision
+ * The current content is saved as a new revision, so a rollback can be undone
+ */
+export function useRestoreRevision() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (revision: EntryRevision) =>
+      entriesRepository.update({ id: revision.entryId, content: revision.content }),
+    onSuccess: (entry) => {
+      queryClient.setQueryData(entriesKeys.detail(entry.id), entry)
+      queryClient.invalidateQueries({ queryKey: entriesKeys.revisions(entry.id) })
+      queryClient.invalidateQueries({ queryKey: entriesKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: entriesKeys.byDate(entry.date) })
+      publishSync({ type: 'entry', action: 'update', id: entry.id })
+    },
+  })
+}
@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useCallback } from 'react'
+import { settingsRepository } from '@/lib/repositories'
+import { DEFAULT_SETTINGS } from '@/lib/settings'
+import { publishSync } from '@/lib/sync'
+import type { AppSettings, SettingKey } from '@/types'
+
+// Query keys
+export const settingsKeys = {
+  all: ['settings'] as const,
+  detail: (key: SettingKey) => [...settingsKeys.all, key] as const,
+}
+
+let legacyMigration: Promise<unknown> | null = null
+
+/**
+ * 首次读取设置前，把 localStorage 中的旧设置迁移到 IndexedDB（每个会话只执行一次）
+ */
+export function ensureLegacySettingsMigrated(): Promise<unknown> {
+  legacyMigration ??= settingsRepository.migrateLegacySettings().catch(() => {
+    // Migration is best-effort; defaults are used instead
+  })
+  return legacyMigration
+}
+
+/**
+ * Read a setting, migrating legacy localStorage values first
+ */
+export async function getSetting<K extends SettingKey>(key: K): Promise<AppSettings[K]> {
+  await ensureLegacySettingsMigrated()
+  return settingsRepository.get(key)
+}
+
+/**
+ * Hook to read and update a single setting
+ *
+ * 读取完成前返回默认值；写入时乐观更新缓存并通知其他标签页。
+ */
+export function useSetting<K extends SettingKey>(key: K) {
+  const queryClient = useQueryClient()
+  const queryKey = settingsKeys.detail(key)
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getSetting(key),
+    staleTime: Number.POSITIVE_INFINITY,
+  })
+
+  const mutation = useMutation({
+    mutationFn: (value: AppSettings[K]) => settingsRepository.set(key, value),
+    onMutate: async (value) => {
+      await queryClient.cancelQueries({ queryKey })
+      const previous = queryClient.getQueryData<AppSettings[K]>(queryKey)
+      queryClient.setQueryData(queryKey, value)
+      return { previous }
+    },
+    onError: (_error, _value, context) => {
+      queryClient.setQueryData(queryKey, context?.previous)
+    },
+    onSuccess: () => {
+      publishSync({ type: 'settings', action: 'update', id: key })
+    },
+  })
+
+  const { mutate } = mutation
+  const setValue = useCallback((value: AppSettings[K]) => mutate(value), [mutate])
+
+  return {
+    value: query.data ?? DEFAULT_SETTINGS[key],
+    setValue,
+    /** False until the stored value has been read */
+    isLoaded: query.isSuccess,
+  }
+}
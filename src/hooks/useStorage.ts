@@ -1,4 +1,18 @@
-import { useQuery } from '@tanstack/react-query'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { compactOldestImages } from '@/lib/imageCompaction'
+import { checkIntegrity, repairIntegrity } from '@/lib/integrity'
+import {
+  DEFAULT_STORAGE_WARNING_PERCENT,
+  getStoragePersisted,
+  isStorageWarningPercent,
+  requestStoragePersistence,
+  type StorageWarningPercent,
+} from '@/lib/storageQuota'
+import { publishSync, SYNC_ALL_ID } from '@/lib/sync'
+import type { ImageCompaction } from '@/types'
+import { entriesKeys } from './useEntries'
+import { imagesKeys } from './useImages'
+import { useSetting } from './useSettings'
 
 interface StorageEstimate {
   usage: number
@@ -36,3 +50,79 @@ export function useStorageEstimate() {
     refetchInterval: 60 * 1000,
   })
 }
+
+/**
+ * 存储空间提醒阈值 hook
+ */
+export function useStorageWarningPercent() {
+  const { value, setValue: setWarningPercent } = useSetting('storageWarningPercent')
+  const warningPercent: StorageWarningPercent = isStorageWarningPercent(value)
+    ? value
+    : DEFAULT_STORAGE_WARNING_PERCENT
+
+  return { warningPercent, setWarningPercent }
+}
+
+/**
+ * 持久化存储状态（null 表示浏览器不支持）
+ */
+export function useStoragePersistence() {
+  const queryClient = useQueryClient()
+  const { data: isPersisted = null } = useQuery({
+    queryKey: ['storage', 'persisted'],
+    queryFn: getStoragePersisted,
+  })
+  const { mutate: requestPersistence, isPending: isRequesting } = useMutation({
+    mutationFn: requestStoragePersistence,
+    onSuccess: (granted) => {
+      queryClient.setQueryData(['storage', 'persisted'], granted)
+    },
+  })
+
+  return { isPersisted, requestPersistence, isRequesting }
+}
+
+/**
+ * 压缩最旧的图片以释放空间（保留缩略图）
+ */
+export function useCompactImages() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ mode, limit }: { mode: ImageCompaction; limit: number }) =>
+      compactOldestImages(mode, limit),
+    onSuccess: (result) => {
+      if (result.count === 0) return
+      queryClient.invalidateQueries({ queryKey: imagesKeys.all })
+      queryClient.invalidateQueries({ queryKey: ['storage'] })
+      publishSync({ type: 'image', action: 'update', id: SYNC_ALL_ID })
+    },
+  })
+}
+
+/**
+ * 检查日记与图片是否一致（手动触发，结果在 data 中）
+ */
+export function useCheckIntegrity() {
+  return useMutation({
+    mutationFn: checkIntegrity,
+  })
+}
+
+/**
+ * 修复日记与图片的不一致
+ */
+export function useRepairIntegrity() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: repairIntegrity,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: entriesKeys.all })
+      queryClient.invalidateQueries({ queryKey: imagesKeys.all })
+      queryClient.invalidateQueries({ queryKey: ['storage'] })
+      publishSync({ type: 'entry', action: 'update', id: SYNC_ALL_ID })
+      publishSync({ type: 'image', action: 'delete', id: SYNC_ALL_ID })
+    },
+  })
+}
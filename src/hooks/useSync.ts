@@ -0,0 +1,55 @@
+import { type QueryClient, useQueryClient } from '@tanstack/react-query'
+import { useEffect, useRef } from 'react'
+import { SYNC_ALL_ID, subscribeSync } from '@/lib/sync'
+import type { SyncMessage } from '@/types'
+import { entriesKeys } from './useEntries'
+import { imagesKeys } from './useImages'
+import { settingsKeys } from './useSettings'
+
+/**
+ * Invalidate the queries affected by a change made in another tab
+ */
+export function applySyncMessage(queryClient: QueryClient, message: SyncMessage): void {
+  switch (message.type) {
+    case 'entry':
+      queryClient.invalidateQueries({
+        queryKey: entriesKeys.all,
+        // 列表类查询全部刷新，详情只刷新被修改的日记
+        predicate: (query) =>
+          message.id === SYNC_ALL_ID ||
+          query.queryKey[1] !== 'detail' ||
+          query.queryKey[2] === message.id,
+      })
+      break
+    case 'image':
+      queryClient.invalidateQueries({ queryKey: imagesKeys.all })
+      queryClient.invalidateQueries({ queryKey: ['storage'] })
+      break
+    case 'settings':
+      queryClient.invalidateQueries({ queryKey: settingsKeys.all })
+      break
+  }
+}
+
+/**
+ * 监听其他标签页的变更并刷新缓存（在根组件中挂载一次）
+ */
+export function useSyncBus() {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    return subscribeSync((message) => applySyncMessage(queryClient, message))
+  }, [queryClient])
+}
+
+/**
+ * 订阅其他标签页的变更消息
+ */
+export function useSyncSubscription(listener: (message: SyncMessage) => void) {
+  const listenerRef = useRef(listener)
+  listenerRef.current = listener
+
+  useEffect(() => {
+    return subscribeSync((message) => listenerRef.current(message))
+  }, [])
+}
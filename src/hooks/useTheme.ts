@@ -1,7 +1,6 @@
-import { useCallback, useEffect, useState } from 'react'
+import { useEffect } from 'react'
 import type { ThemeMode } from '@/components/layout'
-
-const THEME_STORAGE_KEY = 'mini-diary-theme'
+import { useSetting } from './useSettings'
 
 /**
  * 获取系统主题偏好
@@ -11,34 +10,6 @@ function getSystemTheme(): 'light' | 'dark' {
   return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light'
 }
 
-/**
- * 获取存储的主题设置
- */
-function getStoredTheme(): ThemeMode {
-  if (typeof window === 'undefined') return 'system'
-  try {
-    const stored = localStorage.getItem(THEME_STORAGE_KEY)
-    if (stored === 'light' || stored === 'dark' || stored === 'system') {
-      return stored
-    }
-  } catch {
-    // Ignore storage errors
-  }
-  return 'system'
-}
-
-/**
- * 保存主题设置
- */
-function storeTheme(theme: ThemeMode): void {
-  if (typeof window === 'undefined') return
-  try {
-    localStorage.setItem(THEME_STORAGE_KEY, theme)
-  } catch {
-    // Ignore storage errors
-  }
-}
-
 /**
  * 应用主题到 document
  */
@@ -58,16 +29,12 @@ function applyTheme(theme: ThemeMode): void {
  * 主题管理 hook
  */
 export function useTheme() {
-  const [themeMode, setThemeMode] = useState<ThemeMode>('system')
-  const [mounted, setMounted] = useState(false)
+  const { value: themeMode, setValue: setTheme, isLoaded: mounted } = useSetting('theme')
 
-  // 初始化
+  // 应用主题（读取到存储的设置后）
   useEffect(() => {
-    const storedTheme = getStoredTheme()
-    setThemeMode(storedTheme)
-    applyTheme(storedTheme)
-    setMounted(true)
-  }, [])
+    if (mounted) applyTheme(themeMode)
+  }, [mounted, themeMode])
 
   // 监听系统主题变化
   useEffect(() => {
@@ -84,13 +51,6 @@ export function useTheme() {
     return () => mediaQuery.removeEventListener('change', handleChange)
   }, [mounted, themeMode])
 
-  // 切换主题
-  const setTheme = useCallback((newTheme: ThemeMode) => {
-    setThemeMode(newTheme)
-    storeTheme(newTheme)
-    applyTheme(newTheme)
-  }, [])
-
   return {
     themeMode,
     setTheme,
@@ -0,0 +1,113 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useEffect } from 'react'
+import { entriesRepository } from '@/lib/repositories'
+import { publishSync, SYNC_ALL_ID } from '@/lib/sync'
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  isTrashRetentionDays,
+  type TrashRetentionDays,
+} from '@/lib/trash'
+import { entriesKeys } from './useEntries'
+import { imagesKeys } from './useImages'
+import { getSetting, useSetting } from './useSettings'
+
+/**
+ * Hook to get all entries in the trash
+ */
+export function useTrashedEntries() {
+  return useQuery({
+    queryKey: entriesKeys.trash(),
+    queryFn: () => entriesRepository.getTrashed(),
+  })
+}
+
+/**
+ * Hook to restore an entry from the trash
+ */
+export function useRestoreEntry() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => entriesRepository.restore(id),
+    onSuccess: (entry) => {
+      queryClient.setQueryData(entriesKeys.detail(entry.id), entry)
+      queryClient.invalidateQueries({ queryKey: entriesKeys.all })
+      publishSync({ type: 'entry', action: 'update', id: entry.id })
+    },
+  })
+}
+
+/**
+ * Hook to permanently delete an entry with its images and revisions
+ * (regular deletes move the entry to the trash via useDeleteEntry)
+ */
+export function usePermanentlyDeleteEntry() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ entryId, date }: { entryId: string; date: string }) => {
+      await entriesRepository.deletePermanently(entryId)
+      return { entryId, date }
+    },
+    onSuccess: ({ entryId, date }) => {
+      queryClient.removeQueries({ queryKey: entriesKeys.detail(entryId) })
+      queryClient.invalidateQueries({ queryKey: imagesKeys.all })
+      queryClient.invalidateQueries({ queryKey: entriesKeys.byDate(date) })
+      queryClient.invalidateQueries({ queryKey: entriesKeys.trash() })
+      publishSync({ type: 'entry', action: 'delete', id: entryId })
+      publishSync({ type: 'image', action: 'delete', id: SYNC_ALL_ID })
+    },
+  })
+}
+
+/**
+ * Hook to permanently delete everything in the trash
+ */
+export function useEmptyTrash() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: () => entriesRepository.emptyTrash(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: entriesKeys.trash() })
+      queryClient.invalidateQueries({ queryKey: imagesKeys.all })
+      publishSync({ type: 'entry', action: 'delete', id: SYNC_ALL_ID })
+      publishSync({ type: 'image', action: 'delete', id: SYNC_ALL_ID })
+    },
+  })
+}
+
+/**
+ * 回收站保留天数 hook
+ */
+export function useTrashRetention() {
+  const { value, setValue: setRetention } = useSetting('trashRetentionDays')
+  const retentionDays: TrashRetentionDays = isTrashRetentionDays(value)
+    ? value
+    : DEFAULT_TRASH_RETENTION_DAYS
+
+  return { retentionDays, setRetention }
+}
+
+/**
+ * 启动时清理超过保留期的回收站日记
+ */
+export function useAutoPurgeTrash() {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    getSetting('trashRetentionDays')
+      .then((retentionDays) => entriesRepository.purgeExpired(retentionDays))
+      .then((count) => {
+        if (count > 0) {
+          queryClient.invalidateQueries({ queryKey: entriesKeys.trash() })
+          queryClient.invalidateQueries({ queryKey: imagesKeys.all })
+          publishSync({ type: 'entry', action: 'delete', id: SYNC_ALL_ID })
+          publishSync({ type: 'image', action: 'delete', id: SYNC_ALL_ID })
+        }
+      })
+      .catch(() => {
+        // Purge is best-effort; retry on next launch
+      })
+  }, [queryClient])
+}
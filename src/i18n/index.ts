@@ -6,38 +6,33 @@ import enData from './locales/en/data.json'
 import enDate from './locales/en/date.json'
 import enEditor from './locales/en/editor.json'
 import enEntry from './locales/en/entry.json'
+import enHistory from './locales/en/history.json'
 import enImage from './locales/en/image.json'
+import enLock from './locales/en/lock.json'
+import enMood from './locales/en/mood.json'
 import enPrompts from './locales/en/prompts.json'
 import enSearch from './locales/en/search.json'
 import enSettings from './locales/en/settings.json'
 import enTimeline from './locales/en/timeline.json'
+import enTrash from './locales/en/trash.json'
 // 中文翻译
 import zhCommon from './locales/zh-CN/common.json'
 import zhData from './locales/zh-CN/data.json'
 import zhDate from './locales/zh-CN/date.json'
 import zhEditor from './locales/zh-CN/editor.json'
 import zhEntry from './locales/zh-CN/entry.json'
+import zhHistory from './locales/zh-CN/history.json'
 import zhImage from './locales/zh-CN/image.json'
+import zhLock from './locales/zh-CN/lock.json'
+import zhMood from './locales/zh-CN/mood.json'
 import zhPrompts from './locales/zh-CN/prompts.json'
 import zhSearch from './locales/zh-CN/search.json'
 import zhSettings from './locales/zh-CN/settings.json'
 import zhTimeline from './locales/zh-CN/timeline.json'
-
-const LOCALE_STORAGE_KEY = 'mini-diary-locale'
+import zhTrash from './locales/zh-CN/trash.json'
 
 export type Locale = 'zh-CN' | 'en'
 
-export function getStoredLocale(): Locale | null {
-  if (typeof window === 'undefined') return null
-  const stored = localStorage.getItem(LOCALE_STORAGE_KEY)
-  if (stored === 'zh-CN' || stored === 'en') return stored
-  return null
-}
-
-export function setStoredLocale(locale: Locale): void {
-  localStorage.setItem(LOCALE_STORAGE_KEY, locale)
-}
-
 const resources = {
   'zh-CN': {
     common: zhCommon,
@@ -50,6 +45,10 @@ const resources = {
     image: zhImage,
     timeline: zhTimeline,
     prompts: zhPrompts,
+    mood: zhMood,
+    trash: zhTrash,
+    history: zhHistory,
+    lock: zhLock,
   },
   en: {
     common: enCommon,
@@ -62,12 +61,17 @@ const resources = {
     image: enImage,
     timeline: enTimeline,
     prompts: enPrompts,
+    mood: enMood,
+    trash: enTrash,
+    history: enHistory,
+    lock: enLock,
   },
 }
 
 i18n.use(initReactI18next).init({
   resources,
-  lng: getStoredLocale() ?? 'zh-CN',
+  // 用户的语言设置存储在 IndexedDB，读取后由 useLocale 切换
+  lng: 'zh-CN',
   fallbackLng: 'zh-CN',
   defaultNS: 'common',
   ns: [
@@ -81,6 +85,10 @@ i18n.use(initReactI18next).init({
     'image',
     'timeline',
     'prompts',
+    'mood',
+    'trash',
+    'history',
+    'lock',
   ],
   interpolation: {
     escapeValue: false, // React 已处理 XSS
@@ -4,11 +4,15 @@ import type zhData from './locales/zh-CN/data.json'
 import type zhDate from './locales/zh-CN/date.json'
 import type zhEditor from './locales/zh-CN/editor.json'
 import type zhEntry from './locales/zh-CN/entry.json'
+import type zhHistory from './locales/zh-CN/history.json'
 import type zhImage from './locales/zh-CN/image.json'
+import type zhLock from './locales/zh-CN/lock.json'
+import type zhMood from './locales/zh-CN/mood.json'
 import type zhPrompts from './locales/zh-CN/prompts.json'
 import type zhSearch from './locales/zh-CN/search.json'
 import type zhSettings from './locales/zh-CN/settings.json'
 import type zhTimeline from './locales/zh-CN/timeline.json'
+import type zhTrash from './locales/zh-CN/trash.json'
 
 declare module 'i18next' {
   interface CustomTypeOptions {
@@ -24,6 +28,10 @@ declare module 'i18next' {
       image: typeof zhImage
       timeline: typeof zhTimeline
       prompts: typeof zhPrompts
+      mood: typeof zhMood
+      trash: typeof zhTrash
+      history: typeof zhHistory
+      lock: typeof zhLock
     }
   }
 }
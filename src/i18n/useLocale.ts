@@ -1,30 +1,34 @@
-import { useCallback, useEffect, useState } from 'react'
-import i18n, { getStoredLocale, type Locale, setStoredLocale } from './index'
+import { useCallback, useEffect } from 'react'
+import { useSetting } from '@/hooks/useSettings'
+import i18n, { type Locale } from './index'
+
+/**
+ * 切换界面语言并更新 html lang 属性
+ */
+function applyLocale(locale: Locale): void {
+  if (i18n.language !== locale) {
+    i18n.changeLanguage(locale)
+  }
+  if (typeof document !== 'undefined') {
+    document.documentElement.lang = locale
+  }
+}
 
 export function useLocale() {
-  const [locale, setLocaleState] = useState<Locale>(() => {
-    // SSR 安全：在服务端返回默认值
-    if (typeof window === 'undefined') return 'zh-CN'
-    return (i18n.language as Locale) || 'zh-CN'
-  })
+  const { value: locale, setValue, isLoaded } = useSetting('locale')
 
-  const setLocale = useCallback((newLocale: Locale) => {
-    i18n.changeLanguage(newLocale)
-    setStoredLocale(newLocale)
-    setLocaleState(newLocale)
-    // 更新 html lang 属性
-    if (typeof document !== 'undefined') {
-      document.documentElement.lang = newLocale
-    }
-  }, [])
+  const setLocale = useCallback(
+    (newLocale: Locale) => {
+      applyLocale(newLocale)
+      setValue(newLocale)
+    },
+    [setValue],
+  )
 
-  // 初始化时同步存储的语言设置
+  // 读取到存储的语言设置后同步到 i18n
   useEffect(() => {
-    const stored = getStoredLocale()
-    if (stored && stored !== locale) {
-      setLocale(stored)
-    }
-  }, [locale, setLocale])
+    if (isLoaded) applyLocale(locale)
+  }, [isLoaded, locale])
 
   return { locale, setLocale }
 }
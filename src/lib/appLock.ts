@@ -0,0 +1,124 @@
+/**
+ * App lock utilities
+ *
+ * 可选的 PIN / 口令锁屏。口令只以 PBKDF2 哈希（含随机盐）存储在 settings 表中。
+ * 连续输错超过 LOCKOUT_FREE_ATTEMPTS 次后需要等待，等待时间随失败次数翻倍。
+ */
+
+import type { AppLockConfig, AppLockKind } from '@/types'
+import {
+  base64ToBytes,
+  bytesEqual,
+  bytesToBase64,
+  hashPassphrase,
+  PBKDF2_ITERATIONS,
+  randomBytes,
+  SALT_LENGTH,
+} from './crypto'
+
+/**
+ * Selectable idle periods before auto-lock in minutes (0 = never lock on inactivity)
+ */
+export const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 30] as const
+export type AutoLockMinutes = (typeof AUTO_LOCK_OPTIONS)[number]
+
+export const DEFAULT_AUTO_LOCK_MINUTES: AutoLockMinutes = 5
+
+export const MIN_PIN_LENGTH = 4
+export const MIN_LOCK_PASSPHRASE_LENGTH = 6
+
+/** Wrong attempts allowed before a lockout delay applies */
+export const LOCKOUT_FREE_ATTEMPTS = 5
+/** Delay after the first attempt over the limit; doubles with each further failure */
+const BASE_LOCKOUT_MS = 30 * 1000
+const MAX_LOCKOUT_MS = 60 * 60 * 1000
+
+const PIN_PATTERN = /^\d+$/
+
+export type PasscodeIssue = 'tooShort' | 'notDigits'
+
+/**
+ * Check whether a value is a supported auto-lock period
+ */
+export function isAutoLockMinutes(value: unknown): value is AutoLockMinutes {
+  return AUTO_LOCK_OPTIONS.includes(value as AutoLockMinutes)
+}
+
+/**
+ * Check a stored lock configuration
+ */
+export function isAppLockConfig(value: unknown): value is AppLockConfig {
+  if (typeof value !== 'object' || value === null) return false
+  const config = value as Record<string, unknown>
+  return (
+    (config.kind === 'pin' || config.kind === 'passphrase') &&
+    typeof config.hash === 'string' &&
+    config.hash !== '' &&
+    typeof config.salt === 'string' &&
+    config.salt !== '' &&
+    Number.isInteger(config.iterations) &&
+    (config.iterations as number) > 0
+  )
+}
+
+/**
+ * Check a new passcode
+ * @returns The first problem found, or null if the passcode can be used
+ */
+export function getPasscodeIssue(kind: AppLockKind, passcode: string): PasscodeIssue | null {
+  if (kind === 'pin') {
+    if (!PIN_PATTERN.test(passcode)) return 'notDigits'
+    return passcode.length < MIN_PIN_LENGTH ? 'tooShort' : null
+  }
+  return passcode.length < MIN_LOCK_PASSPHRASE_LENGTH ? 'tooShort' : null
+}
+
+/**
+ * Hash a new passcode for storage
+ */
+export async function createAppLockConfig(
+  kind: AppLockKind,
+  passcode: string,
+): Promise<AppLockConfig> {
+  const salt = randomBytes(SALT_LENGTH)
+  const hash = await hashPassphrase(passcode, salt, PBKDF2_ITERATIONS)
+  return {
+    kind,
+    hash: bytesToBase64(hash),
+    salt: bytesToBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+  }
+}
+
+/**
+ * Check a passcode against the stored hash
+ */
+export async function verifyPasscode(config: AppLockConfig, passcode: string): Promise<boolean> {
+  try {
+    const hash = await hashPassphrase(passcode, base64ToBytes(config.salt), config.iterations)
+    return bytesEqual(hash, base64ToBytes(config.hash))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Wait required after the given number of consecutive wrong attempts
+ * @returns Delay in milliseconds (0 while under the free attempt limit)
+ */
+export function getLockoutDelay(failedAttempts: number): number {
+  if (failedAttempts < LOCKOUT_FREE_ATTEMPTS) return 0
+  const delay = BASE_LOCKOUT_MS * 2 ** (failedAttempts - LOCKOUT_FREE_ATTEMPTS)
+  return Math.min(delay, MAX_LOCKOUT_MS)
+}
+
+/**
+ * Whether the idle period has passed since the last activity
+ */
+export function isIdleExpired(
+  lastActivityAt: number,
+  autoLockMinutes: number,
+  now = Date.now(),
+): boolean {
+  return autoLockMinutes > 0 && now - lastActivityAt >= autoLockMinutes * 60 * 1000
+}
@@ -0,0 +1,85 @@
+/**
+ * Backup reminder utilities
+ *
+ * 日记只保存在浏览器中，清除站点数据会导致丢失。
+ * 距上次备份（或上次关闭提醒）修改的日记数超过阈值，或超过提醒间隔且有修改时，提示用户导出备份。
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Selectable reminder intervals in days (0 = only remind on changes)
+ */
+export const BACKUP_REMINDER_OPTIONS = [0, 7, 14, 30] as const
+export type BackupReminderDays = (typeof BACKUP_REMINDER_OPTIONS)[number]
+
+export const DEFAULT_BACKUP_REMINDER_DAYS: BackupReminderDays = 7
+
+/** Number of changed entries that triggers a reminder regardless of the interval */
+export const BACKUP_REMINDER_CHANGE_THRESHOLD = 10
+
+export type BackupReminderReason = 'changes' | 'interval'
+
+export interface BackupReminderState {
+  /** Last successful export (null if never backed up) */
+  lastBackupAt: number | null
+  /** Last time the reminder was dismissed */
+  dismissedAt: number | null
+  /** createdAt of the oldest entry, used as the start when never backed up or dismissed */
+  firstEntryAt: number | null
+  /** Entries created, edited or trashed since the reference time */
+  changedCount: number
+  /** Reminder interval in days (0 = off) */
+  intervalDays: number
+  now?: number
+}
+
+/**
+ * Check whether a value is a supported reminder interval
+ */
+export function isBackupReminderDays(value: unknown): value is BackupReminderDays {
+  return BACKUP_REMINDER_OPTIONS.includes(value as BackupReminderDays)
+}
+
+/**
+ * Whole days elapsed since a timestamp
+ */
+export function getDaysSince(timestamp: number, now = Date.now()): number {
+  return Math.max(0, Math.floor((now - timestamp) / DAY_MS))
+}
+
+/**
+ * Time changes are counted from: the later of the last backup and the last dismissal
+ */
+export function getBackupReferenceTime(
+  lastBackupAt: number | null,
+  dismissedAt: number | null,
+): number {
+  return Math.max(lastBackupAt ?? 0, dismissedAt ?? 0)
+}
+
+/**
+ * Decide whether to show a backup reminder
+ * @returns Why the reminder is shown, or null if it should stay hidden
+ */
+export function getBackupReminderReason({
+  lastBackupAt,
+  dismissedAt,
+  firstEntryAt,
+  changedCount,
+  intervalDays,
+  now = Date.now(),
+}: BackupReminderState): BackupReminderReason | null {
+  if (changedCount >= BACKUP_REMINDER_CHANGE_THRESHOLD) return 'changes'
+
+  // 从未备份也从未关闭过提醒时，从第一篇日记的创建时间开始计算间隔
+  const reference =
+    lastBackupAt === null && dismissedAt === null
+      ? (firstEntryAt ?? 0)
+      : getBackupReferenceTime(lastBackupAt, dismissedAt)
+  if (intervalDays > 0 && reference > 0 && changedCount > 0) {
+    if (now - reference >= intervalDays * DAY_MS) return 'interval'
+  }
+
+  return null
+}
@@ -0,0 +1,261 @@
+/**
+ * Encrypted backups
+ *
+ * 备份可以用口令加密（WebCrypto，见 `./crypto`）。加密文件格式：
+ * - 首行为 JSON 信封头（`EncryptedBackupHeader`）：算法、PBKDF2 参数、盐和口令校验值
+ * - 之后是二进制密文：明文按块（默认 1 MB）加密，每块附带 16 字节认证标签，
+ *   IV 为随机前缀 + 块序号，附加数据包含块序号和“最后一块”标记，可发现截断、重排和篡改
+ * - 校验值为用同一密钥加密的固定文本：校验失败说明口令错误，校验通过但数据块解密失败说明文件损坏
+ */
+
+import type { EncryptedBackupHeader } from '@/types'
+import { BACKUP_MIME_TYPE } from './backupFormat'
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decryptBytes,
+  deriveKey,
+  encryptBytes,
+  IV_LENGTH,
+  isCryptoSupported,
+  PBKDF2_ITERATIONS,
+  randomBytes,
+  SALT_LENGTH,
+  TAG_LENGTH,
+} from './crypto'
+import { readTextHead } from './ndjson'
+import { blobToBytes } from './utils'
+
+export type BackupCryptoErrorKey =
+  | 'encryptionUnsupported'
+  | 'unsupportedEncryption'
+  | 'wrongPassphrase'
+  | 'corruptedBackup'
+
+/**
+ * Encryption error carrying an i18n key (data namespace) instead of a hardcoded message
+ */
+export class BackupCryptoError extends Error {
+  readonly errorKey: BackupCryptoErrorKey
+
+  constructor(errorKey: BackupCryptoErrorKey) {
+    super(errorKey)
+    this.name = 'BackupCryptoError'
+    this.errorKey = errorKey
+  }
+}
+
+/** Extension of encrypted backup files */
+export const ENCRYPTED_BACKUP_EXTENSION = 'enc'
+export const ENCRYPTED_BACKUP_MIME_TYPE = 'application/octet-stream'
+/** Shortest passphrase accepted when encrypting */
+export const MIN_PASSPHRASE_LENGTH = 8
+
+/** Plaintext bytes per encrypted chunk */
+const ENCRYPTION_CHUNK_SIZE = 1024 * 1024
+/** Random part of each chunk IV; the remaining 4 bytes are the chunk index */
+const IV_PREFIX_LENGTH = IV_LENGTH - 4
+/** Longest envelope header line read when detecting the format */
+const MAX_HEADER_LENGTH = 4096
+/** Most PBKDF2 iterations accepted from a header, so a crafted file cannot freeze the import */
+const MAX_KDF_ITERATIONS = 10 * PBKDF2_ITERATIONS
+const CHECK_TEXT = 'mini-diary'
+const ENCRYPTED_HEADER_PATTERN = /^\{\s*"type"\s*:\s*"encrypted"/
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/**
+ * IV of a chunk: random prefix followed by the chunk index (big-endian)
+ */
+function getChunkIv(prefix: Uint8Array, index: number): Uint8Array {
+  const iv = new Uint8Array(IV_LENGTH)
+  iv.set(prefix)
+  new DataView(iv.buffer).setUint32(IV_PREFIX_LENGTH, index)
+  return iv
+}
+
+/**
+ * Additional data of a chunk: index and whether it is the last chunk
+ */
+function getChunkAdditionalData(index: number, isLast: boolean): Uint8Array {
+  const data = new Uint8Array(5)
+  const view = new DataView(data.buffer)
+  view.setUint32(0, index)
+  view.setUint8(4, isLast ? 1 : 0)
+  return data
+}
+
+/**
+ * Check whether a file starts with an encrypted backup header
+ */
+export async function isEncryptedBackup(file: Blob): Promise<boolean> {
+  return ENCRYPTED_HEADER_PATTERN.test(await readTextHead(file, 64))
+}
+
+/**
+ * Encrypt a backup with a passphrase
+ * @param onProgress - Called after each chunk with the fraction encrypted (0-1)
+ */
+export async function encryptBackup(
+  backup: Blob,
+  passphrase: string,
+  onProgress?: (progress: number) => void,
+): Promise<Blob> {
+  if (!isCryptoSupported()) throw new BackupCryptoError('encryptionUnsupported')
+
+  const salt = randomBytes(SALT_LENGTH)
+  const ivPrefix = randomBytes(IV_PREFIX_LENGTH)
+  const checkIv = randomBytes(IV_LENGTH)
+  const key = await deriveKey(passphrase, salt)
+
+  const header: EncryptedBackupHeader = {
+    type: 'encrypted',
+    version: 1,
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: bytesToBase64(salt),
+    },
+    cipher: {
+      name: 'AES-GCM',
+      chunkSize: ENCRYPTION_CHUNK_SIZE,
+      ivPrefix: bytesToBase64(ivPrefix),
+    },
+    check: {
+      iv: bytesToBase64(checkIv),
+      data: bytesToBase64(await encryptBytes(key, checkIv, encoder.encode(CHECK_TEXT))),
+    },
+  }
+
+  // 空备份也写入一个（空的）最后一块，解密时可以发现截断
+  const parts: BlobPart[] = [`${JSON.stringify(header)}\n`]
+  for (let index = 0, offset = 0; ; index++, offset += ENCRYPTION_CHUNK_SIZE) {
+    const isLast = offset + ENCRYPTION_CHUNK_SIZE >= backup.size
+    const chunk = await blobToBytes(backup.slice(offset, offset + ENCRYPTION_CHUNK_SIZE))
+    const encrypted = await encryptBytes(
+      key,
+      getChunkIv(ivPrefix, index),
+      chunk,
+      getChunkAdditionalData(index, isLast),
+    )
+    parts.push(new Blob([encrypted as BlobPart]))
+    onProgress?.(
+      backup.size === 0 ? 1 : Math.min(offset + ENCRYPTION_CHUNK_SIZE, backup.size) / backup.size,
+    )
+    if (isLast) break
+  }
+
+  return new Blob(parts, { type: ENCRYPTED_BACKUP_MIME_TYPE })
+}
+
+/**
+ * Read and check the envelope header
+ * @returns The header and the byte offset where the ciphertext starts
+ */
+async function readEnvelopeHeader(
+  file: Blob,
+): Promise<{ header: EncryptedBackupHeader; dataOffset: number }> {
+  const head = await blobToBytes(file.slice(0, MAX_HEADER_LENGTH))
+  const newline = head.indexOf(0x0a)
+  if (newline < 0) throw new BackupCryptoError('corruptedBackup')
+
+  let header: EncryptedBackupHeader
+  try {
+    header = JSON.parse(decoder.decode(head.subarray(0, newline)))
+  } catch {
+    throw new BackupCryptoError('corruptedBackup')
+  }
+  if (header?.type !== 'encrypted') throw new BackupCryptoError('corruptedBackup')
+  if (
+    header.version !== 1 ||
+    header.kdf?.name !== 'PBKDF2' ||
+    header.kdf.hash !== 'SHA-256' ||
+    header.cipher?.name !== 'AES-GCM'
+  ) {
+    throw new BackupCryptoError('unsupportedEncryption')
+  }
+  if (
+    !Number.isInteger(header.kdf.iterations) ||
+    header.kdf.iterations <= 0 ||
+    header.kdf.iterations > MAX_KDF_ITERATIONS ||
+    !Number.isInteger(header.cipher.chunkSize) ||
+    header.cipher.chunkSize <= 0 ||
+    typeof header.kdf.salt !== 'string' ||
+    typeof header.cipher.ivPrefix !== 'string' ||
+    typeof header.check?.iv !== 'string' ||
+    typeof header.check.data !== 'string'
+  ) {
+    throw new BackupCryptoError('corruptedBackup')
+  }
+
+  return { header, dataOffset: newline + 1 }
+}
+
+/**
+ * Decode Base64 from the header, treating invalid values as corruption
+ */
+function decodeHeaderBytes(base64: string): Uint8Array {
+  try {
+    return base64ToBytes(base64)
+  } catch {
+    throw new BackupCryptoError('corruptedBackup')
+  }
+}
+
+/**
+ * Decrypt an encrypted backup
+ * @param onProgress - Called after each chunk with the fraction decrypted (0-1)
+ * @returns The plain NDJSON backup
+ * @throws BackupCryptoError with `wrongPassphrase` or `corruptedBackup`
+ */
+export async function decryptBackup(
+  file: Blob,
+  passphrase: string,
+  onProgress?: (progress: number) => void,
+): Promise<Blob> {
+  if (!isCryptoSupported()) throw new BackupCryptoError('encryptionUnsupported')
+
+  const { header, dataOffset } = await readEnvelopeHeader(file)
+  const salt = decodeHeaderBytes(header.kdf.salt)
+  const ivPrefix = decodeHeaderBytes(header.cipher.ivPrefix)
+  const checkIv = decodeHeaderBytes(header.check.iv)
+  const checkData = decodeHeaderBytes(header.check.data)
+  if (ivPrefix.length !== IV_PREFIX_LENGTH || checkIv.length !== IV_LENGTH) {
+    throw new BackupCryptoError('corruptedBackup')
+  }
+
+  const key = await deriveKey(passphrase, salt, header.kdf.iterations)
+  try {
+    const check = await decryptBytes(key, checkIv, checkData)
+    if (decoder.decode(check) !== CHECK_TEXT) throw new Error('Check text mismatch')
+  } catch {
+    throw new BackupCryptoError('wrongPassphrase')
+  }
+
+  const encryptedChunkSize = header.cipher.chunkSize + TAG_LENGTH
+  const dataSize = file.size - dataOffset
+  if (dataSize < TAG_LENGTH) throw new BackupCryptoError('corruptedBackup')
+
+  const parts: Blob[] = []
+  for (let index = 0, offset = 0; offset < dataSize; index++, offset += encryptedChunkSize) {
+    const isLast = offset + encryptedChunkSize >= dataSize
+    const start = dataOffset + offset
+    const chunk = await blobToBytes(file.slice(start, start + encryptedChunkSize))
+    try {
+      const decrypted = await decryptBytes(
+        key,
+        getChunkIv(ivPrefix, index),
+        chunk,
+        getChunkAdditionalData(index, isLast),
+      )
+      parts.push(new Blob([decrypted as BlobPart]))
+    } catch {
+      throw new BackupCryptoError('corruptedBackup')
+    }
+    onProgress?.(Math.min(offset + encryptedChunkSize, dataSize) / dataSize)
+  }
+
+  return new Blob(parts, { type: BACKUP_MIME_TYPE })
+}
@@ -0,0 +1,161 @@
+/**
+ * JSON backup format versions
+ *
+ * 每个历史版本对应一个升级函数，导入时依次升级到当前版本后再校验：
+ * - 1.0.0：单个 JSON 文档，图片为数组，Base64 不含 MIME 类型。
+ *   早期文档中的写法（图片为以 ID 为键的对象，Base64 为 data URL）也按 1.0.0 处理
+ * - 2.0.0：图片记录带 `mimeType` / `thumbnailMimeType`
+ * - 3.0.0：NDJSON，每行一条记录（首行为 header），可以逐条写入和读取，不必整体载入内存
+ */
+
+import type { BackupHeader, BackupRecord, ExportData, ImageMimeType } from '@/types'
+
+/** Version written by the current export */
+export const BACKUP_VERSION: BackupHeader['version'] = '3.0.0'
+/** Last single-document version; older documents are upgraded to it */
+export const DOCUMENT_VERSION: ExportData['version'] = '2.0.0'
+
+export const BACKUP_MIME_TYPE = 'application/x-ndjson'
+export const BACKUP_FILE_EXTENSION = 'ndjson'
+
+export const IMAGE_MIME_TYPES: readonly ImageMimeType[] = ['image/jpeg', 'image/png', 'image/webp']
+
+type RawBackup = Record<string, unknown>
+
+/**
+ * Check whether a value is a supported image MIME type
+ */
+export function isImageMimeType(value: unknown): value is ImageMimeType {
+  return IMAGE_MIME_TYPES.includes(value as ImageMimeType)
+}
+
+/**
+ * Detect the image type from the first bytes of Base64 data, defaulting to JPEG
+ */
+export function sniffImageMimeType(base64: string): ImageMimeType {
+  if (base64.startsWith('iVBORw0KGgo')) return 'image/png'
+  // RIFF....WEBP
+  if (base64.startsWith('UklGR') && atobSafe(base64.slice(0, 16)).slice(8, 12) === 'WEBP') {
+    return 'image/webp'
+  }
+  return 'image/jpeg'
+}
+
+function atobSafe(base64: string): string {
+  try {
+    return atob(base64)
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Split a data URL into Base64 data and MIME type; plain Base64 is returned as-is
+ */
+export function parseBase64Image(value: unknown): { base64: unknown; mimeType: unknown } {
+  if (typeof value !== 'string') return { base64: value, mimeType: undefined }
+  const match = value.match(/^data:([^;,]+);base64,(.*)$/s)
+  if (!match) return { base64: value, mimeType: sniffImageMimeType(value) }
+  return { base64: match[2], mimeType: match[1] }
+}
+
+/**
+ * 1.0.0 → 2.0.0：补充图片 MIME 类型，统一图片为数组
+ */
+function upgradeFromV1(data: RawBackup): RawBackup {
+  const entries = Array.isArray(data.entries) ? data.entries : []
+  // 以 ID 为键的写法没有 entryId，从日记的 imageIds 反查
+  const entryIdByImageId = new Map<string, unknown>()
+  for (const entry of entries) {
+    const { id, imageIds } = (entry ?? {}) as { id?: unknown; imageIds?: unknown }
+    if (!Array.isArray(imageIds)) continue
+    for (const imageId of imageIds) {
+      entryIdByImageId.set(String(imageId), id)
+    }
+  }
+
+  const rawImages =
+    typeof data.images === 'object' && data.images !== null && !Array.isArray(data.images)
+      ? Object.entries(data.images).map(([id, image]) => ({
+          id,
+          entryId: entryIdByImageId.get(id),
+          ...(image as object),
+        }))
+      : data.images
+
+  const images = Array.isArray(rawImages)
+    ? rawImages.map((image: unknown) => {
+        if (typeof image !== 'object' || image === null) return image
+        const record = image as Record<string, unknown>
+        const blob = parseBase64Image(record.blob)
+        const thumbnail = parseBase64Image(record.thumbnail)
+        return {
+          id: record.id,
+          entryId: record.entryId,
+          blob: blob.base64,
+          mimeType: blob.mimeType,
+          thumbnail: thumbnail.base64,
+          thumbnailMimeType: thumbnail.mimeType,
+          createdAt: record.createdAt,
+        }
+      })
+    : rawImages
+
+  const exportedAt =
+    typeof data.exportedAt === 'number' ? new Date(data.exportedAt).toISOString() : data.exportedAt
+
+  return { ...data, version: '2.0.0', exportedAt, images }
+}
+
+/** Upgrade functions keyed by the version they upgrade from */
+const UPGRADERS: Record<string, (data: RawBackup) => RawBackup> = {
+  '1.0.0': upgradeFromV1,
+}
+
+/**
+ * Upgrade a parsed single-document backup to the last document version
+ * @returns The upgraded data (still unvalidated), or null if the version is unknown
+ */
+export function upgradeExportData(data: RawBackup): RawBackup | null {
+  let current = data
+  while (current.version !== DOCUMENT_VERSION) {
+    const upgrade = typeof current.version === 'string' ? UPGRADERS[current.version] : undefined
+    if (!upgrade) return null
+    current = upgrade(current)
+  }
+  return current
+}
+
+/**
+ * Check whether a parsed line is a streamed backup header (any version)
+ */
+export function isBackupHeader(value: unknown): value is { type: 'header'; version: string } {
+  if (typeof value !== 'object' || value === null) return false
+  const record = value as Record<string, unknown>
+  return record.type === 'header' && typeof record.version === 'string'
+}
+
+/**
+ * 2.0.0 → 3.0.0：把单个文档拆成逐条记录
+ */
+export function documentToRecords(data: ExportData): BackupRecord[] {
+  return [
+    {
+      type: 'header',
+      version: BACKUP_VERSION,
+      exportedAt: data.exportedAt,
+      entryCount: data.entries.length,
+      imageCount: data.images.length,
+    },
+    ...data.entries.map((entry) => ({ type: 'entry' as const, entry })),
+    ...data.images.map((image) => ({ type: 'image' as const, image })),
+    ...(data.settings ? [{ type: 'settings' as const, settings: data.settings }] : []),
+  ]
+}
+
+/**
+ * Serialize a record as one NDJSON line
+ */
+export function serializeBackupRecord(record: BackupRecord): string {
+  return `${JSON.stringify(record)}\n`
+}
@@ -0,0 +1,157 @@
+/**
+ * WebCrypto helpers
+ *
+ * 口令通过 PBKDF2-SHA-256 派生 AES-GCM 256 位密钥。
+ * 所有函数只在浏览器本地运行，口令和密钥不会离开当前设备。
+ */
+
+/** PBKDF2 iterations for new keys (OWASP recommendation for SHA-256) */
+export const PBKDF2_ITERATIONS = 600_000
+/** Salt length in bytes */
+export const SALT_LENGTH = 16
+/** AES-GCM IV length in bytes */
+export const IV_LENGTH = 12
+/** AES-GCM authentication tag length in bytes */
+export const TAG_LENGTH = 16
+
+const encoder = new TextEncoder()
+
+/**
+ * Check whether WebCrypto is available (it requires a secure context)
+ */
+export function isCryptoSupported(): boolean {
+  return typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined'
+}
+
+/**
+ * Cryptographically random bytes
+ */
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length))
+}
+
+/**
+ * 字节数组转 Base64（用于少量数据，如盐和 IV）
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary)
+}
+
+/**
+ * Base64 转字节数组
+ * @throws DOMException if the input is not valid Base64
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase
+ */
+export async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations = PBKDF2_ITERATIONS,
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase) as BufferSource,
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+/**
+ * Encrypt bytes with AES-GCM (the result includes the authentication tag)
+ */
+export async function encryptBytes(
+  key: CryptoKey,
+  iv: Uint8Array,
+  data: Uint8Array,
+  additionalData?: Uint8Array,
+): Promise<Uint8Array> {
+  const result = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: iv as BufferSource,
+      ...(additionalData && { additionalData: additionalData as BufferSource }),
+    },
+    key,
+    data as BufferSource,
+  )
+  return new Uint8Array(result)
+}
+
+/**
+ * Decrypt AES-GCM data
+ * @throws DOMException (OperationError) if the key is wrong or the data was modified
+ */
+export async function decryptBytes(
+  key: CryptoKey,
+  iv: Uint8Array,
+  data: Uint8Array,
+  additionalData?: Uint8Array,
+): Promise<Uint8Array> {
+  const result = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: iv as BufferSource,
+      ...(additionalData && { additionalData: additionalData as BufferSource }),
+    },
+    key,
+    data as BufferSource,
+  )
+  return new Uint8Array(result)
+}
+
+/**
+ * Derive a hash of a passphrase for verification (PBKDF2-SHA-256, 256 bits)
+ */
+export async function hashPassphrase(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations = PBKDF2_ITERATIONS,
+): Promise<Uint8Array> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase) as BufferSource,
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  )
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+    baseKey,
+    256,
+  )
+  return new Uint8Array(bits)
+}
+
+/**
+ * Compare two byte arrays without returning early on the first difference
+ */
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  let difference = 0
+  for (let i = 0; i < a.length; i++) {
+    difference |= (a[i] ?? 0) ^ (b[i] ?? 0)
+  }
+  return difference === 0
+}
@@ -0,0 +1,447 @@
+/**
+ * At-rest encryption of diary data
+ *
+ * 开启应用锁后，日记内容、历史版本和图片在 IndexedDB 中以 AES-GCM 加密保存：
+ * - 数据密钥随机生成，用口令派生的密钥（PBKDF2，见 `./crypto`）加密后存入 settings 表，
+ *   修改口令只需重新加密数据密钥
+ * - 解锁后数据密钥只保存在内存中，刷新页面后需要重新输入口令
+ * - 日期、时间戳、标签和心情仍为明文，供索引查询使用；全文索引中的词以 HMAC 保存
+ * - 已有数据分页加密，中断后在下次解锁时继续
+ *
+ * 仓库（`./repositories`）读写时调用这里的函数；加密开启但未解锁时读写会抛出 DataLockedError。
+ */
+
+import Dexie from 'dexie'
+import type { DataEncryptionConfig, DiaryEntry, ImageRecord, StoredImageRecord } from '@/types'
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decryptBytes,
+  deriveKey,
+  encryptBytes,
+  IV_LENGTH,
+  PBKDF2_ITERATIONS,
+  randomBytes,
+  SALT_LENGTH,
+} from './crypto'
+import { db } from './db'
+import { settingsRepository } from './repositories/settings'
+import { blobToBytes } from './utils'
+
+/** Data key length in bytes (AES-256) */
+const DATA_KEY_LENGTH = 32
+/** Records encrypted or decrypted per transaction */
+const ENTRY_PAGE_SIZE = 200
+const IMAGE_PAGE_SIZE = 20
+const ENCRYPTED_BLOB_TYPE = 'application/octet-stream'
+/** Bytes of the HMAC kept for each search term */
+const SEARCH_TERM_HASH_LENGTH = 12
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/**
+ * Thrown when encrypted data is read or written before the data key is unlocked
+ */
+export class DataLockedError extends Error {
+  constructor() {
+    super('Diary data is encrypted and locked')
+    this.name = 'DataLockedError'
+  }
+}
+
+/** Unlocked data key, kept in memory only */
+let dataKey: CryptoKey | null = null
+/** HMAC key for search index terms, derived from the data key */
+let indexKey: CryptoKey | null = null
+
+/**
+ * Run non-IndexedDB work (WebCrypto, Blob reads, other tables) without
+ * letting an enclosing Dexie transaction commit in the meantime
+ */
+function outsideTransaction<T>(run: () => Promise<T>): Promise<T> {
+  return Dexie.currentTransaction ? Dexie.waitFor(Dexie.ignoreTransaction(run)) : run()
+}
+
+function getConfig(): Promise<DataEncryptionConfig | null> {
+  // A transaction writing to settings blocks reads from outside it, so read within it
+  if (Dexie.currentTransaction?.storeNames.includes(db.settings.name)) {
+    return settingsRepository.get('dataEncryption')
+  }
+  return outsideTransaction(() => settingsRepository.get('dataEncryption'))
+}
+
+async function saveConfig(config: DataEncryptionConfig | null): Promise<void> {
+  await settingsRepository.set('dataEncryption', config)
+}
+
+/**
+ * Key used for writes: the data key, or null when encryption is off
+ * @throws DataLockedError if encryption is on but the key is not unlocked
+ */
+async function getWriteKey(): Promise<CryptoKey | null> {
+  if (dataKey) return dataKey
+  if (await getConfig()) throw new DataLockedError()
+  return null
+}
+
+function getReadKey(): CryptoKey {
+  if (!dataKey) throw new DataLockedError()
+  return dataKey
+}
+
+/**
+ * Encrypt with a random IV; the result is the IV followed by the ciphertext
+ */
+async function seal(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  const iv = randomBytes(IV_LENGTH)
+  const encrypted = await encryptBytes(key, iv, data)
+  const result = new Uint8Array(IV_LENGTH + encrypted.length)
+  result.set(iv)
+  result.set(encrypted, IV_LENGTH)
+  return result
+}
+
+/**
+ * Decrypt data produced by seal
+ */
+function unseal(key: CryptoKey, sealed: Uint8Array): Promise<Uint8Array> {
+  return decryptBytes(key, sealed.subarray(0, IV_LENGTH), sealed.subarray(IV_LENGTH))
+}
+
+async function sealBlob(key: CryptoKey, blob: Blob): Promise<Blob> {
+  const sealed = await seal(key, await blobToBytes(blob))
+  return new Blob([sealed as BlobPart], { type: ENCRYPTED_BLOB_TYPE })
+}
+
+async function unsealBlob(key: CryptoKey, blob: Blob, type: string): Promise<Blob> {
+  const data = await unseal(key, await blobToBytes(blob))
+  return new Blob([data as BlobPart], { type })
+}
+
+// ============================================
+// Record encryption
+// ============================================
+
+type ContentRecord = { content: string; encryptedContent?: Uint8Array }
+
+/**
+ * Encrypt the content of an entry or revision for storage (unchanged when encryption is off)
+ * @throws DataLockedError if encryption is on but the key is not unlocked
+ */
+export async function encryptContent<T extends ContentRecord>(record: T): Promise<T> {
+  if (record.encryptedContent) return record
+  const key = await getWriteKey()
+  if (!key) return record
+  const encryptedContent = await outsideTransaction(() => seal(key, encoder.encode(record.content)))
+  return { ...record, content: '', encryptedContent }
+}
+
+/**
+ * Decrypt the content of a stored entry or revision (plain records are returned as-is)
+ * @throws DataLockedError if the record is encrypted and the key is not unlocked
+ */
+export async function decryptContent<T extends ContentRecord>(
+  record: T,
+): Promise<Omit<T, 'encryptedContent'>> {
+  const { encryptedContent, ...rest } = record
+  if (!encryptedContent) return rest
+  const key = getReadKey()
+  const content = await outsideTransaction(() => unseal(key, encryptedContent))
+  return { ...rest, content: decoder.decode(content) }
+}
+
+/**
+ * Decrypt stored entries
+ */
+export function decryptEntries(entries: Array<DiaryEntry & ContentRecord>): Promise<DiaryEntry[]> {
+  return Promise.all(entries.map(decryptContent))
+}
+
+/**
+ * Encrypt the blob and thumbnail of an image for storage (unchanged when encryption is off)
+ * @throws DataLockedError if encryption is on but the key is not unlocked
+ */
+export async function encryptImage(image: StoredImageRecord): Promise<StoredImageRecord> {
+  if (image.encryptedTypes) return image
+  const key = await getWriteKey()
+  if (!key) return image
+  const [blob, thumbnail] = await outsideTransaction(() =>
+    Promise.all([sealBlob(key, image.blob), sealBlob(key, image.thumbnail)]),
+  )
+  return {
+    ...image,
+    blob,
+    thumbnail,
+    encryptedTypes: { blob: image.blob.type, thumbnail: image.thumbnail.type },
+  }
+}
+
+/**
+ * Decrypt a stored image (plain images are returned as-is)
+ * @throws DataLockedError if the image is encrypted and the key is not unlocked
+ */
+export async function decryptImage(image: StoredImageRecord): Promise<ImageRecord> {
+  const { encryptedTypes, ...rest } = image
+  if (!encryptedTypes) return rest
+  const key = getReadKey()
+  const [blob, thumbnail] = await outsideTransaction(() =>
+    Promise.all([
+      unsealBlob(key, image.blob, encryptedTypes.blob),
+      unsealBlob(key, image.thumbnail, encryptedTypes.thumbnail),
+    ]),
+  )
+  return { ...rest, blob, thumbnail }
+}
+
+/**
+ * Decrypt stored images
+ */
+export function decryptImages(images: StoredImageRecord[]): Promise<ImageRecord[]> {
+  return Promise.all(images.map(decryptImage))
+}
+
+/**
+ * Replace search index terms with keyed hashes (unchanged when encryption is off)
+ * 相同的词得到相同的哈希，仍可按词查询，但看不出原文
+ * @throws DataLockedError if encryption is on but the key is not unlocked
+ */
+export async function hashSearchTerms(terms: string[]): Promise<string[]> {
+  const key = indexKey
+  if (!key) {
+    if (await getConfig()) throw new DataLockedError()
+    return terms
+  }
+  return outsideTransaction(() =>
+    Promise.all(
+      terms.map(async (term) => {
+        const mac = await crypto.subtle.sign('HMAC', key, encoder.encode(term))
+        return bytesToBase64(new Uint8Array(mac, 0, SEARCH_TERM_HASH_LENGTH))
+      }),
+    ),
+  )
+}
+
+// ============================================
+// Migration
+// ============================================
+
+/**
+ * Rewrite every record of a table that needs it, one page per transaction
+ */
+async function transformTable<T extends { id: string }>(
+  table: Dexie.Table<T, string>,
+  pageSize: number,
+  needsChange: (record: T) => boolean,
+  transform: (record: T) => Promise<unknown>,
+  onPage: (count: number) => void,
+): Promise<void> {
+  let lastId: string | undefined
+  for (;;) {
+    const last = lastId
+    const page = await db.transaction('rw', table, async () => {
+      const collection = last === undefined ? table.orderBy('id') : table.where('id').above(last)
+      const records = await collection.limit(pageSize).toArray()
+      const changed = await Promise.all(records.filter(needsChange).map(transform))
+      await table.bulkPut(changed as T[])
+      return records
+    })
+    if (page.length === 0) return
+    onPage(page.length)
+    lastId = page[page.length - 1]?.id
+  }
+}
+
+/**
+ * Encrypt or decrypt every stored entry, revision and image
+ */
+async function transformAllData(
+  direction: 'encrypt' | 'decrypt',
+  onProgress?: (progress: number) => void,
+): Promise<void> {
+  const counts = await Promise.all([db.entries.count(), db.revisions.count(), db.images.count()])
+  const total = counts.reduce((sum, count) => sum + count, 0)
+  let done = 0
+  const onPage = (count: number) => {
+    done += count
+    onProgress?.(total === 0 ? 1 : done / total)
+  }
+  const encrypt = direction === 'encrypt'
+
+  await transformTable(
+    db.entries,
+    ENTRY_PAGE_SIZE,
+    (entry) => !entry.encryptedContent === encrypt,
+    encrypt ? encryptContent : decryptContent,
+    onPage,
+  )
+  await transformTable(
+    db.revisions,
+    ENTRY_PAGE_SIZE,
+    (revision) => !revision.encryptedContent === encrypt,
+    encrypt ? encryptContent : decryptContent,
+    onPage,
+  )
+  await transformTable(
+    db.images,
+    IMAGE_PAGE_SIZE,
+    (image) => !image.encryptedTypes === encrypt,
+    encrypt ? encryptImage : decryptImage,
+    onPage,
+  )
+  onProgress?.(1)
+}
+
+// ============================================
+// Key management
+// ============================================
+
+/**
+ * Whether the data key is unlocked in this tab
+ */
+export function hasDataKey(): boolean {
+  return dataKey !== null
+}
+
+/**
+ * Check that encrypted data can be read and written
+ * @throws DataLockedError if encryption is on but the key is not unlocked
+ */
+export async function assertDataUnlocked(): Promise<void> {
+  await getWriteKey()
+}
+
+/**
+ * Forget the data key (encrypted data can no longer be read until unlocked again)
+ */
+export function lockData(): void {
+  dataKey = null
+  indexKey = null
+}
+
+/**
+ * Import the raw data key, and derive the search index key from it with HKDF
+ */
+async function setDataKey(raw: Uint8Array): Promise<void> {
+  const hkdfKey = await crypto.subtle.importKey('raw', raw as BufferSource, 'HKDF', false, [
+    'deriveKey',
+  ])
+  const [aesKey, hmacKey] = await Promise.all([
+    crypto.subtle.importKey('raw', raw as BufferSource, 'AES-GCM', false, ['encrypt', 'decrypt']),
+    crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(),
+        info: encoder.encode('search-index'),
+      },
+      hkdfKey,
+      { name: 'HMAC', hash: 'SHA-256', length: 256 },
+      false,
+      ['sign'],
+    ),
+  ])
+  dataKey = aesKey
+  indexKey = hmacKey
+}
+
+/**
+ * Encrypt the raw data key with a key derived from the passcode
+ */
+async function wrapDataKey(
+  raw: Uint8Array,
+  passcode: string,
+  complete: boolean,
+): Promise<DataEncryptionConfig> {
+  const salt = randomBytes(SALT_LENGTH)
+  const wrappingKey = await deriveKey(passcode, salt, PBKDF2_ITERATIONS)
+  return {
+    wrappedKey: bytesToBase64(await seal(wrappingKey, raw)),
+    salt: bytesToBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    complete,
+  }
+}
+
+/**
+ * Decrypt the raw data key
+ * @throws DOMException if the passcode is wrong or the config is corrupted
+ */
+async function unwrapDataKey(config: DataEncryptionConfig, passcode: string): Promise<Uint8Array> {
+  const wrappingKey = await deriveKey(passcode, base64ToBytes(config.salt), config.iterations)
+  return unseal(wrappingKey, base64ToBytes(config.wrappedKey))
+}
+
+/**
+ * Check the passcode against the stored data key without unlocking it
+ */
+export async function verifyDataPasscode(passcode: string): Promise<boolean> {
+  const config = await getConfig()
+  if (!config) return false
+  try {
+    await unwrapDataKey(config, passcode)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Unlock the data key with the app lock passcode
+ *
+ * 首次调用时生成数据密钥并加密已有数据；上次加密中断时继续加密剩余数据。
+ * @param onProgress - Progress of encrypting existing data (0-1)
+ * @throws DOMException if the passcode does not match the stored key
+ */
+export async function unlockData(
+  passcode: string,
+  onProgress?: (progress: number) => void,
+): Promise<void> {
+  let config = await getConfig()
+  if (!config) {
+    const raw = randomBytes(DATA_KEY_LENGTH)
+    config = await wrapDataKey(raw, passcode, false)
+    await setDataKey(raw)
+    await saveConfig(config)
+  } else {
+    await setDataKey(await unwrapDataKey(config, passcode))
+  }
+
+  if (!config.complete) {
+    await transformAllData('encrypt', onProgress)
+    await saveConfig({ ...config, complete: true })
+  }
+}
+
+/**
+ * Re-encrypt the data key for a new passcode (the data itself is not re-encrypted)
+ * @throws DOMException if the current passcode does not match the stored key
+ */
+export async function changeDataPasscode(
+  currentPasscode: string,
+  newPasscode: string,
+): Promise<void> {
+  const config = await getConfig()
+  if (!config) return
+  const raw = await unwrapDataKey(config, currentPasscode)
+  await saveConfig(await wrapDataKey(raw, newPasscode, config.complete))
+}
+
+/**
+ * Decrypt all data and remove the data key
+ *
+ * 解密前先标记为未完成：中途中断时，下次解锁会重新加密，不会留下明文和密文混杂的状态。
+ * @throws DataLockedError if the key is not unlocked
+ */
+export async function disableDataEncryption(
+  onProgress?: (progress: number) => void,
+): Promise<void> {
+  const config = await getConfig()
+  if (!config) return
+  getReadKey()
+
+  await saveConfig({ ...config, complete: false })
+  await transformAllData('decrypt', onProgress)
+  await saveConfig(null)
+  lockData()
+}
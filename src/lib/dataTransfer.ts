@@ -1,20 +1,125 @@
+import Dexie from 'dexie'
+import {
+  decryptBackup,
+  ENCRYPTED_BACKUP_EXTENSION,
+  encryptBackup,
+  isEncryptedBackup,
+} from '@/lib/backupCrypto'
+import {
+  BACKUP_FILE_EXTENSION,
+  BACKUP_MIME_TYPE,
+  BACKUP_VERSION,
+  documentToRecords,
+  isBackupHeader,
+  isImageMimeType,
+  serializeBackupRecord,
+  upgradeExportData,
+} from '@/lib/backupFormat'
+import {
+  decryptContent,
+  decryptEntries,
+  decryptImages,
+  encryptContent,
+  encryptImage,
+} from '@/lib/dataEncryption'
 import { db } from '@/lib/db'
-import type { DiaryEntry, ImageRecord } from '@/types'
+import { processImage } from '@/lib/image'
+import {
+  type ConflictResolution,
+  diffEntries,
+  getDefaultResolution,
+  type ImportEntryDiff,
+  isConflict,
+} from '@/lib/importPreview'
+import { createMarkdownArchiveWriter, MARKDOWN_THUMBNAILS_DIR } from '@/lib/markdownBackup'
+import {
+  getExtension,
+  getImageMimeType,
+  type ImportSkipReason,
+  isIgnoredPath,
+  isMarkdownPath,
+  type ParsedMarkdownEntry,
+  parseMarkdownEntry,
+} from '@/lib/markdownImport'
+import { createNdjsonWriter, type ReadLinesOptions, readLines, readTextHead } from '@/lib/ndjson'
+import {
+  type EntryIssue,
+  getEntryIssues,
+  MAX_CONTENT_LENGTH,
+  MAX_IMAGE_IDS,
+  revisionsRepository,
+  settingsRepository,
+} from '@/lib/repositories'
+import { clearIndexRecords, rebuildSearchIndex } from '@/lib/searchIndex'
+import { publishSync, SYNC_ALL_ID } from '@/lib/sync'
+import { extractTags } from '@/lib/tags'
+import { blobToBytes, generateId } from '@/lib/utils'
+import { readZip, type ZipFile } from '@/lib/zip'
+import type { DiaryEntry, ExportData, ExportedImage, ImageMimeType, ImageRecord } from '@/types'
+
+export type DataImportErrorKey =
+  | 'invalidArchive'
+  | 'noImportableFiles'
+  | 'invalidBackupFormat'
+  | 'unsupportedVersion'
+  | 'invalidRecords'
+  | 'invalidJsonFile'
+  | 'fileReadFailed'
+  | 'passphraseRequired'
+
+/**
+ * Problems found in a backup image record
+ */
+export type ImageIssue =
+  | 'invalidId'
+  | 'invalidEntryId'
+  | 'invalidImageData'
+  | 'invalidMimeType'
+  | 'invalidTimestamps'
+
+/**
+ * A backup record that failed validation
+ */
+export interface ImportRecordIssue {
+  type: 'entry' | 'image'
+  /** Position in the backup's list (0-based) */
+  index: number
+  /** Record ID, if readable */
+  id?: string
+  issues: Array<EntryIssue | ImageIssue | 'duplicateId'>
+}
+
+/**
+ * Import error carrying an i18n key (data namespace) instead of a hardcoded message
+ */
+export class DataImportError extends Error {
+  readonly errorKey: DataImportErrorKey
+  /** Offending records when errorKey is 'invalidRecords' */
+  readonly records: ImportRecordIssue[]
+
+  constructor(errorKey: DataImportErrorKey, records: ImportRecordIssue[] = []) {
+    super(errorKey)
+    this.name = 'DataImportError'
+    this.errorKey = errorKey
+    this.records = records
+  }
+}
 
 /**
- * 导出数据格式
+ * Progress callback, called with the completed fraction (0-1)
  */
-export interface ExportData {
-  version: string
-  exportedAt: string
-  entries: DiaryEntry[]
-  images: Array<{
-    id: string
-    entryId: string
-    blob: string // Base64
-    thumbnail: string // Base64
-    createdAt: number
-  }>
+export type ProgressCallback = (progress: number) => void
+
+/**
+ * Markdown 导入结果
+ */
+export interface MarkdownImportResult {
+  entriesCount: number
+  imagesCount: number
+  /** Files that replaced an older version of an existing entry */
+  merged: string[]
+  /** Files that were not imported */
+  skipped: Array<{ path: string; reason: ImportSkipReason }>
 }
 
 /**
@@ -37,7 +142,7 @@ async function blobToBase64(blob: Blob): Promise<string> {
 /**
  * Base64 转 Blob
  */
-function base64ToBlob(base64: string, type = 'image/jpeg'): Blob {
+function base64ToBlob(base64: string, type: string): Blob {
   const binaryString = atob(base64)
   const bytes = new Uint8Array(binaryString.length)
   for (let i = 0; i < binaryString.length; i++) {
@@ -47,43 +152,110 @@ function base64ToBlob(base64: string, type = 'image/jpeg'): Blob {
 }
 
 /**
- * 导出所有数据
+ * Blob 的图片类型，未知时按 JPEG 处理
  */
-export async function exportAllData(): Promise<ExportData> {
-  const entries = await db.entries.toArray()
-  const images = await db.images.toArray()
-
-  // 将图片 Blob 转换为 Base64
-  const imagesWithBase64 = await Promise.all(
-    images.map(async (image) => ({
-      id: image.id,
-      entryId: image.entryId,
-      blob: await blobToBase64(image.blob),
-      thumbnail: await blobToBase64(image.thumbnail),
-      createdAt: image.createdAt,
-    })),
-  )
+function toImageMimeType(blob: Blob): ImageMimeType {
+  return isImageMimeType(blob.type) ? blob.type : 'image/jpeg'
+}
 
+/**
+ * 备份中的图片转为数据库记录
+ */
+function toImageRecord(image: ExportedImage, id: string, entryId: string): ImageRecord {
   return {
-    version: '1.0.0',
-    exportedAt: new Date().toISOString(),
-    entries,
-    images: imagesWithBase64,
+    id,
+    entryId,
+    blob: base64ToBlob(image.blob, image.mimeType),
+    thumbnail: base64ToBlob(image.thumbnail, image.thumbnailMimeType),
+    createdAt: image.createdAt,
   }
 }
 
+/** Entries read from the database per page during export */
+const EXPORT_ENTRY_PAGE_SIZE = 500
+/** Images read per page during export (each may be several MB once encoded) */
+const EXPORT_IMAGE_PAGE_SIZE = 20
+
 /**
- * 下载导出文件
+ * 按主键分页遍历表，避免一次读出全部记录
  */
-export async function downloadExport(): Promise<void> {
-  const data = await exportAllData()
-  const json = JSON.stringify(data, null, 2)
-  const blob = new Blob([json], { type: 'application/json' })
-  const url = URL.createObjectURL(blob)
+async function forEachPage<T extends { id: string }>(
+  table: Dexie.Table<T, string>,
+  pageSize: number,
+  callback: (items: T[]) => Promise<void>,
+): Promise<void> {
+  let lastId: string | undefined
+  for (;;) {
+    const collection = lastId === undefined ? table.orderBy('id') : table.where('id').above(lastId)
+    const page = await collection.limit(pageSize).toArray()
+    if (page.length === 0) return
+    await callback(page)
+    lastId = page[page.length - 1]?.id
+  }
+}
 
-  const date = new Date().toISOString().split('T')[0]
-  const filename = `mini-diary-backup-${date}.json`
+/**
+ * 导出所有数据为 NDJSON 备份
+ *
+ * 日记和图片分页读取、逐条写入，内存中最多只保留一页图片。
+ */
+export async function createBackup(onProgress?: ProgressCallback): Promise<Blob> {
+  const writer = createNdjsonWriter()
+  const [entryCount, imageCount] = await Promise.all([db.entries.count(), db.images.count()])
+  const total = entryCount + imageCount
+  let written = 0
+  const reportProgress = (count: number) => {
+    written += count
+    onProgress?.(total === 0 ? 1 : written / total)
+  }
+
+  writer.write(
+    serializeBackupRecord({
+      type: 'header',
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      entryCount,
+      imageCount,
+    }),
+  )
+
+  await forEachPage(db.entries, EXPORT_ENTRY_PAGE_SIZE, async (stored) => {
+    const entries = await decryptEntries(stored)
+    for (const entry of entries) {
+      writer.write(serializeBackupRecord({ type: 'entry', entry }))
+    }
+    reportProgress(entries.length)
+  })
 
+  // 将图片 Blob 转换为 Base64，并记录 MIME 类型
+  await forEachPage(db.images, EXPORT_IMAGE_PAGE_SIZE, async (stored) => {
+    const images = await decryptImages(stored)
+    for (const image of images) {
+      const exported: ExportedImage = {
+        id: image.id,
+        entryId: image.entryId,
+        blob: await blobToBase64(image.blob),
+        mimeType: toImageMimeType(image.blob),
+        thumbnail: await blobToBase64(image.thumbnail),
+        thumbnailMimeType: toImageMimeType(image.thumbnail),
+        createdAt: image.createdAt,
+      }
+      writer.write(serializeBackupRecord({ type: 'image', image: exported }))
+    }
+    reportProgress(images.length)
+  })
+
+  const settings = await settingsRepository.exportSettings()
+  writer.write(serializeBackupRecord({ type: 'settings', settings }))
+
+  return writer.finish(BACKUP_MIME_TYPE)
+}
+
+/**
+ * 触发浏览器下载
+ */
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
   const link = document.createElement('a')
   link.href = url
   link.download = filename
@@ -94,59 +266,401 @@ export async function downloadExport(): Promise<void> {
 }
 
 /**
- * 验证导入数据格式
+ * 记录备份时间，用于备份提醒
+ */
+async function recordBackup(): Promise<void> {
+  await settingsRepository.set('lastBackupAt', Date.now())
+  publishSync({ type: 'settings', action: 'update', id: 'lastBackupAt' })
+}
+
+/**
+ * 下载导出文件
+ * @param passphrase - Encrypt the backup with this passphrase (see `backupCrypto`)
+ */
+export async function downloadExport(
+  onProgress?: ProgressCallback,
+  passphrase?: string,
+): Promise<void> {
+  const date = new Date().toISOString().split('T')[0]
+  const filename = `mini-diary-backup-${date}.${BACKUP_FILE_EXTENSION}`
+
+  if (passphrase === undefined) {
+    downloadBlob(await createBackup(onProgress), filename)
+  } else {
+    // 生成和加密各占一半进度
+    const backup = await createBackup((progress) => onProgress?.(progress / 2))
+    const encrypted = await encryptBackup(backup, passphrase, (progress) =>
+      onProgress?.(0.5 + progress / 2),
+    )
+    downloadBlob(encrypted, `${filename}.${ENCRYPTED_BACKUP_EXTENSION}`)
+  }
+
+  await recordBackup()
+}
+
+/**
+ * 下载 Markdown 压缩包（每篇日记一个 .md 文件，图片为独立文件）
  */
-function validateImportData(data: unknown): data is ExportData {
-  if (typeof data !== 'object' || data === null) return false
+export async function downloadMarkdownExport(onProgress?: ProgressCallback): Promise<void> {
+  const writer = createMarkdownArchiveWriter()
+  const [entryCount, imageCount] = await Promise.all([db.entries.count(), db.images.count()])
+  const total = entryCount + imageCount
+  let written = 0
+  const reportProgress = (count: number) => {
+    written += count
+    onProgress?.(total === 0 ? 1 : written / total)
+  }
+
+  // 只导出未删除日记的图片；先写图片，日记中才能链接到它们
+  const [entryIds, trashedIds] = await Promise.all([
+    db.entries.toCollection().primaryKeys(),
+    db.entries.orderBy('deletedAt').primaryKeys(),
+  ])
+  const trashed = new Set(trashedIds)
+  const activeEntryIds = new Set(entryIds.filter((id) => !trashed.has(id)))
+
+  await forEachPage(db.images, EXPORT_IMAGE_PAGE_SIZE, async (stored) => {
+    const active = stored.filter((image) => activeEntryIds.has(image.entryId))
+    for (const image of await decryptImages(active)) {
+      await writer.addImage(image)
+    }
+    reportProgress(stored.length)
+  })
+  await forEachPage(db.entries, EXPORT_ENTRY_PAGE_SIZE, async (stored) => {
+    for (const entry of await decryptEntries(stored)) {
+      writer.addEntry(entry)
+    }
+    reportProgress(stored.length)
+  })
+  const blob = writer.finish()
 
-  const obj = data as Record<string, unknown>
-  if (typeof obj.version !== 'string') return false
-  if (!Array.isArray(obj.entries)) return false
-  if (!Array.isArray(obj.images)) return false
+  const date = new Date().toISOString().split('T')[0]
+  downloadBlob(blob, `mini-diary-markdown-${date}.zip`)
+
+  await recordBackup()
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/
+const BACKUP_HEADER_PATTERN = /^\uFEFF?\s*\{\s*"type"\s*:\s*"header"/
 
-  return true
+function isBase64(value: unknown): boolean {
+  return typeof value === 'string' && value.length % 4 === 0 && BASE64_PATTERN.test(value)
 }
 
 /**
- * 导入数据
- * 策略: 遇到 ID 冲突时保留更新时间较新的版本
+ * Check a backup image record
  */
-export async function importData(
-  file: File,
-): Promise<{ entriesCount: number; imagesCount: number }> {
-  const text = await file.text()
-  const data = JSON.parse(text)
+function getImageIssues(value: unknown): ImageIssue[] {
+  if (typeof value !== 'object' || value === null) return ['invalidId']
+  const image = value as Record<string, unknown>
+  const issues: ImageIssue[] = []
+
+  if (typeof image.id !== 'string' || image.id === '') issues.push('invalidId')
+  if (typeof image.entryId !== 'string' || image.entryId === '') issues.push('invalidEntryId')
+  if (!isBase64(image.blob) || !isBase64(image.thumbnail)) issues.push('invalidImageData')
+  if (!isImageMimeType(image.mimeType) || !isImageMimeType(image.thumbnailMimeType)) {
+    issues.push('invalidMimeType')
+  }
+  if (
+    typeof image.createdAt !== 'number' ||
+    !Number.isFinite(image.createdAt) ||
+    image.createdAt < 0
+  ) {
+    issues.push('invalidTimestamps')
+  }
+  return issues
+}
+
+/**
+ * 逐条检查记录，ID 重复也算错误
+ */
+function createRecordValidator() {
+  const issues: ImportRecordIssue[] = []
+  const seenIds = { entry: new Set<string>(), image: new Set<string>() }
+  const counts = { entry: 0, image: 0 }
+
+  return {
+    issues,
+    /**
+     * @returns Whether the record is valid
+     */
+    check(
+      type: ImportRecordIssue['type'],
+      record: unknown,
+      getIssues: (record: unknown) => ImportRecordIssue['issues'],
+    ): boolean {
+      const index = counts[type]++
+      const recordIssues = getIssues(record)
+      const id = (record as { id?: unknown } | null)?.id
+      if (typeof id === 'string' && id !== '') {
+        if (seenIds[type].has(id)) recordIssues.push('duplicateId')
+        seenIds[type].add(id)
+      }
+      if (recordIssues.length === 0) return true
+      issues.push(
+        typeof id === 'string'
+          ? { type, index, id, issues: recordIssues }
+          : { type, index, issues: recordIssues },
+      )
+      return false
+    },
+  }
+}
+
+/**
+ * 解析单个 JSON 文档格式的备份（2.0.0 及更早），升级到 2.0.0 并检查整体格式
+ * @throws DataImportError for unknown versions or a malformed document
+ */
+function parseExportData(data: unknown): ExportData {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new DataImportError('invalidBackupFormat')
+  }
+  if (typeof (data as Record<string, unknown>).version !== 'string') {
+    throw new DataImportError('invalidBackupFormat')
+  }
+
+  const obj = upgradeExportData(data as Record<string, unknown>)
+  if (!obj) {
+    throw new DataImportError('unsupportedVersion')
+  }
+  if (!Array.isArray(obj.entries) || !Array.isArray(obj.images)) {
+    throw new DataImportError('invalidBackupFormat')
+  }
+  return obj as unknown as ExportData
+}
+
+/**
+ * 逐条读取备份记录（未校验）
+ *
+ * NDJSON 备份按块读取；单个 JSON 文档格式的旧备份只能整体解析后拆分为记录。
+ */
+async function forEachBackupRecord(
+  file: Blob,
+  onRecord: (record: unknown) => void | Promise<void>,
+  options: ReadLinesOptions = {},
+): Promise<void> {
+  const run = <T>(read: () => Promise<T>) => (options.waitFor ? options.waitFor(read) : read())
+  if (!BACKUP_HEADER_PATTERN.test(await run(() => readTextHead(file)))) {
+    const data = parseExportData(await run(() => readFileAsJson(file)))
+    for (const record of documentToRecords(data)) {
+      await onRecord(record)
+    }
+    options.onProgress?.(1)
+    return
+  }
+
+  let isFirstLine = true
+  await readLines(
+    file,
+    async (line) => {
+      let record: unknown
+      try {
+        record = JSON.parse(line)
+      } catch {
+        throw new DataImportError('invalidJsonFile')
+      }
+      if (isFirstLine) {
+        isFirstLine = false
+        if (!isBackupHeader(record)) throw new DataImportError('invalidBackupFormat')
+        if (record.version !== BACKUP_VERSION) throw new DataImportError('unsupportedVersion')
+      }
+      await onRecord(record)
+    },
+    options,
+  )
+}
+
+/**
+ * JSON 备份导入预览
+ *
+ * 只保留日记和图片 ID，图片数据在应用导入时重新从文件读取。
+ */
+export interface ImportPreview {
+  file: Blob
+  /** Every backup entry compared with local data */
+  entries: ImportEntryDiff[]
+  /** IDs of the images in the backup */
+  imageIds: Set<string>
+  /** Settings from the backup (validated when imported) */
+  settings?: unknown
+}
+
+/**
+ * 解析备份文件并与本地数据比较，不写入数据库
+ * 加密备份需先用 `decryptBackup` 解密
+ * @throws DataImportError listing every offending record, or `passphraseRequired` for encrypted files
+ */
+export async function previewImport(
+  file: Blob,
+  onProgress?: ProgressCallback,
+): Promise<ImportPreview> {
+  if (await isEncryptedBackup(file)) {
+    throw new DataImportError('passphraseRequired')
+  }
+  const entries: DiaryEntry[] = []
+  const imageIds = new Set<string>()
+  const validator = createRecordValidator()
+  let settings: unknown
+
+  await forEachBackupRecord(
+    file,
+    (record) => {
+      const { type, entry, image } = record as Record<string, unknown>
+      if (type === 'entry') {
+        if (validator.check('entry', entry, getEntryIssues)) entries.push(entry as DiaryEntry)
+      } else if (type === 'image') {
+        if (validator.check('image', image, getImageIssues)) {
+          imageIds.add((image as ExportedImage).id)
+        }
+      } else if (type === 'settings') {
+        settings = (record as { settings?: unknown }).settings
+      }
+    },
+    { ...(onProgress && { onProgress }) },
+  )
+
+  if (validator.issues.length > 0) {
+    throw new DataImportError('invalidRecords', validator.issues)
+  }
 
-  if (!validateImportData(data)) {
-    throw new Error('无效的备份文件格式')
+  // 旧版本备份没有 tags 字段，从内容中提取
+  const incoming = entries.map((entry) => ({
+    ...entry,
+    tags: Array.isArray(entry.tags) ? entry.tags : extractTags(entry.content),
+  }))
+  const localEntries = await db.entries.bulkGet(incoming.map((entry) => entry.id))
+  const localById = new Map(
+    (await decryptEntries(localEntries.filter((entry) => entry !== undefined))).map(
+      (entry) => [entry.id, entry] as const,
+    ),
+  )
+
+  return {
+    file,
+    entries: diffEntries(incoming, localById),
+    imageIds,
+    ...(settings !== undefined && { settings }),
   }
+}
+
+/**
+ * Where a backup image is written
+ */
+interface ImageTarget {
+  id: string
+  entryId: string
+  /** Skip when an image with this ID already exists */
+  onlyIfMissing: boolean
+}
 
+/**
+ * 应用导入预览
+ *
+ * 所有写入在同一个事务中完成，任一步失败则全部回滚。
+ * 图片数据在事务中逐条从文件读取（`Dexie.waitFor` 保持事务不被自动提交）。
+ * @param resolutions - Resolution per conflicting entry ID; missing ones use the default
+ */
+export async function applyImport(
+  preview: ImportPreview,
+  resolutions: Record<string, ConflictResolution> = {},
+  onProgress?: ProgressCallback,
+): Promise<{ entriesCount: number; imagesCount: number }> {
+  const imageTargets = new Map<string, ImageTarget[]>()
   let entriesImported = 0
   let imagesImported = 0
+  let settingsImported = 0
 
-  // 导入日记条目
-  for (const entry of data.entries) {
-    const existing = await db.entries.get(entry.id)
-    if (!existing || entry.updatedAt > existing.updatedAt) {
-      await db.entries.put(entry)
-      entriesImported++
+  // 记录备份图片要写入的位置；renamed 为 true 时使用新 ID（保留两者时避免与本地图片冲突）
+  const planImages = (imageIds: string[], entryId: string, renamed: boolean): string[] => {
+    const ids: string[] = []
+    for (const id of imageIds) {
+      if (!preview.imageIds.has(id)) {
+        if (!renamed) ids.push(id)
+        continue
+      }
+      const target = renamed
+        ? { id: generateId(), entryId, onlyIfMissing: false }
+        : { id, entryId, onlyIfMissing: true }
+      imageTargets.set(id, [...(imageTargets.get(id) ?? []), target])
+      ids.push(target.id)
     }
+    return ids
   }
 
-  // 导入图片
-  for (const image of data.images) {
-    const existing = await db.images.get(image.id)
-    if (!existing) {
-      const imageRecord: ImageRecord = {
-        id: image.id,
-        entryId: image.entryId,
-        blob: base64ToBlob(image.blob),
-        thumbnail: base64ToBlob(image.thumbnail),
-        createdAt: image.createdAt,
+  await db.transaction('rw', [db.entries, db.images, db.revisions, db.settings], async () => {
+    for (const { status, incoming, local } of preview.entries) {
+      const resolution = isConflict(status)
+        ? (resolutions[incoming.id] ?? getDefaultResolution(status))
+        : getDefaultResolution(status)
+
+      if (resolution === 'keepLocal') {
+        // 本地图片丢失时从备份中恢复
+        if (local) planImages(local.imageIds, local.id, false)
+        continue
+      }
+
+      if (resolution === 'keepBoth') {
+        const id = generateId()
+        const imageIds = planImages(incoming.imageIds, id, true)
+        await db.entries.put(await encryptContent({ ...incoming, id, imageIds }))
+        entriesImported++
+        continue
+      }
+
+      if (local) {
+        // 被覆盖的内容保存为历史版本，不再使用的图片一并删除
+        if (local.content !== incoming.content) {
+          await revisionsRepository.create({
+            entryId: local.id,
+            content: local.content,
+            updatedAt: local.updatedAt,
+          })
+        }
+        await db.images.bulkDelete(
+          local.imageIds.filter((imageId) => !incoming.imageIds.includes(imageId)),
+        )
       }
-      await db.images.put(imageRecord)
-      imagesImported++
+      planImages(incoming.imageIds, incoming.id, false)
+      await db.entries.put(await encryptContent(incoming))
+      entriesImported++
+    }
+
+    if (imageTargets.size > 0) {
+      await forEachBackupRecord(
+        preview.file,
+        async (record) => {
+          const { type, image } = record as { type?: unknown; image?: ExportedImage }
+          if (type !== 'image' || !image) return
+          for (const target of imageTargets.get(image.id) ?? []) {
+            if (target.onlyIfMissing && (await db.images.get(target.id))) continue
+            await db.images.put(await encryptImage(toImageRecord(image, target.id, target.entryId)))
+            imagesImported++
+          }
+        },
+        {
+          waitFor: (read) => Dexie.waitFor(Dexie.ignoreTransaction(read)),
+          ...(onProgress && { onProgress }),
+        },
+      )
     }
+
+    // 导入设置（忽略无效值）
+    settingsImported = await settingsRepository.importSettings(preview.settings)
+  })
+  if (entriesImported > 0) {
+    await rebuildSearchIndex()
+  }
+  onProgress?.(1)
+
+  // 通知其他标签页刷新
+  if (entriesImported > 0) {
+    publishSync({ type: 'entry', action: 'update', id: SYNC_ALL_ID })
+  }
+  if (imagesImported > 0) {
+    publishSync({ type: 'image', action: 'create', id: SYNC_ALL_ID })
+  }
+  if (settingsImported > 0) {
+    publishSync({ type: 'settings', action: 'update', id: SYNC_ALL_ID })
   }
 
   return {
@@ -155,30 +669,238 @@ export async function importData(
   }
 }
 
+/**
+ * 导入数据
+ * 策略: 遇到 ID 冲突时保留更新时间较新的版本
+ * @param passphrase - Passphrase of an encrypted backup
+ */
+export async function importData(
+  file: File,
+  passphrase?: string,
+): Promise<{ entriesCount: number; imagesCount: number }> {
+  const backup = passphrase === undefined ? file : await decryptBackup(file, passphrase)
+  return applyImport(await previewImport(backup))
+}
+
+/**
+ * 收集导入的文件：ZIP 解压，其余文件按文件名放在根目录
+ */
+async function collectImportFiles(files: File[]): Promise<ZipFile[]> {
+  const collected: ZipFile[] = []
+  for (const file of files) {
+    const data = await blobToBytes(file)
+    if (getExtension(file.name) === 'zip') {
+      try {
+        collected.push(...(await readZip(data)))
+      } catch {
+        throw new DataImportError('invalidArchive')
+      }
+    } else {
+      collected.push({ path: file.name, data })
+    }
+  }
+  return collected.filter((file) => !isIgnoredPath(file.path))
+}
+
+/**
+ * 压缩并保存日记引用的图片
+ */
+async function importEntryImages(
+  parsed: ParsedMarkdownEntry,
+  entryId: string,
+  filesByPath: Map<string, Uint8Array>,
+  skipped: MarkdownImportResult['skipped'],
+): Promise<{ imageIds: string[]; records: ImageRecord[] }> {
+  const imageIds: string[] = []
+  const records: ImageRecord[] = []
+
+  for (const ref of parsed.images) {
+    if (imageIds.length >= MAX_IMAGE_IDS) {
+      skipped.push({ path: ref.path, reason: 'tooManyImages' })
+      continue
+    }
+    // 重复导入同一份备份时图片已存在
+    if (ref.id && (await db.images.get(ref.id))) {
+      imageIds.push(ref.id)
+      continue
+    }
+    const data = filesByPath.get(ref.path)
+    const type = getImageMimeType(ref.path)
+    if (!data || !type) continue
+
+    try {
+      const name = ref.path.split('/').pop() ?? ref.path
+      const { blob, thumbnail } = await processImage(new File([data as BlobPart], name, { type }))
+      const id = ref.id ?? generateId()
+      records.push({ id, entryId, blob, thumbnail, createdAt: Date.now() })
+      imageIds.push(id)
+    } catch {
+      skipped.push({ path: ref.path, reason: 'invalidImage' })
+    }
+  }
+
+  return { imageIds, records }
+}
+
+/**
+ * 从 Markdown 文件导入日记
+ *
+ * 支持本应用导出的 Markdown 压缩包，以及其他工具导出的 `.md` / `.txt` 文件（可打包为 ZIP）。
+ * 策略: 与 JSON 导入相同，ID 冲突时保留更新时间较新的版本；
+ * 没有 ID 的文件若与同一天已有日记内容相同则视为重复。
+ */
+export async function importMarkdownFiles(files: File[]): Promise<MarkdownImportResult> {
+  const importFiles = await collectImportFiles(files)
+  const filesByPath = new Map(importFiles.map((file) => [file.path, file.data]))
+  const availablePaths = new Set(filesByPath.keys())
+  const decoder = new TextDecoder()
+
+  const result: MarkdownImportResult = { entriesCount: 0, imagesCount: 0, merged: [], skipped: [] }
+  const parsedEntries: ParsedMarkdownEntry[] = []
+  const referencedPaths = new Set<string>()
+
+  for (const file of importFiles) {
+    if (!isMarkdownPath(file.path)) continue
+    const parsed = parseMarkdownEntry(file.path, decoder.decode(file.data), availablePaths)
+    if (typeof parsed === 'string') {
+      result.skipped.push({ path: file.path, reason: parsed })
+      continue
+    }
+    parsedEntries.push(parsed)
+    for (const image of parsed.images) {
+      referencedPaths.add(image.path)
+    }
+  }
+
+  // 没有被任何日记引用的文件（导出包中的缩略图会重新生成，直接忽略）
+  for (const file of importFiles) {
+    if (isMarkdownPath(file.path) || referencedPaths.has(file.path)) continue
+    if (file.path.startsWith(`${MARKDOWN_THUMBNAILS_DIR}/`)) continue
+    result.skipped.push({ path: file.path, reason: 'unsupported' })
+  }
+
+  if (parsedEntries.length === 0 && result.skipped.length === 0) {
+    throw new DataImportError('noImportableFiles')
+  }
+
+  const importedIds = new Set<string>()
+  for (const parsed of parsedEntries.sort((a, b) => a.createdAt - b.createdAt)) {
+    if (parsed.content.length > MAX_CONTENT_LENGTH) {
+      result.skipped.push({ path: parsed.path, reason: 'tooLong' })
+      continue
+    }
+
+    const id = parsed.id ?? generateId()
+    if (importedIds.has(id)) {
+      result.skipped.push({ path: parsed.path, reason: 'duplicate' })
+      continue
+    }
+
+    const stored = parsed.id ? await db.entries.get(parsed.id) : undefined
+    const existing = stored && (await decryptContent(stored))
+    if (existing && parsed.updatedAt <= existing.updatedAt) {
+      result.skipped.push({ path: parsed.path, reason: 'notNewer' })
+      continue
+    }
+    if (!parsed.id) {
+      const sameDay = await decryptEntries(
+        await db.entries.where('date').equals(parsed.date).toArray(),
+      )
+      if (sameDay.some((entry) => entry.content.trim() === parsed.content)) {
+        result.skipped.push({ path: parsed.path, reason: 'duplicate' })
+        continue
+      }
+    }
+
+    const { imageIds, records } = await importEntryImages(parsed, id, filesByPath, result.skipped)
+    const entry: DiaryEntry = {
+      id,
+      content: parsed.content,
+      date: parsed.date,
+      imageIds,
+      tags: extractTags(parsed.content),
+      createdAt: parsed.createdAt,
+      updatedAt: parsed.updatedAt,
+      ...(parsed.mood && { mood: parsed.mood }),
+      ...(parsed.private && { private: true }),
+    }
+
+    const storedEntry = await encryptContent(entry)
+    const storedImages = await Promise.all(records.map(encryptImage))
+    await db.transaction('rw', [db.entries, db.images, db.revisions], async () => {
+      if (existing) {
+        // 被覆盖的内容保存为历史版本，不再使用的图片一并删除
+        if (existing.content !== entry.content) {
+          await revisionsRepository.create({
+            entryId: existing.id,
+            content: existing.content,
+            updatedAt: existing.updatedAt,
+          })
+        }
+        await db.images.bulkDelete(
+          existing.imageIds.filter((imageId) => !imageIds.includes(imageId)),
+        )
+      }
+      await db.entries.put(storedEntry)
+      await db.images.bulkPut(storedImages)
+    })
+
+    importedIds.add(id)
+    result.entriesCount++
+    result.imagesCount += records.length
+    if (existing) {
+      result.merged.push(parsed.path)
+    }
+  }
+
+  if (result.entriesCount > 0) {
+    await rebuildSearchIndex()
+  }
+
+  // 通知其他标签页刷新
+  if (result.entriesCount > 0) {
+    publishSync({ type: 'entry', action: 'update', id: SYNC_ALL_ID })
+  }
+  if (result.imagesCount > 0) {
+    publishSync({ type: 'image', action: 'create', id: SYNC_ALL_ID })
+  }
+
+  return result
+}
+
 /**
  * 清空所有数据
  */
 export async function clearAllData(): Promise<void> {
-  await db.transaction('rw', [db.entries, db.images], async () => {
-    await db.entries.clear()
-    await db.images.clear()
-  })
+  await db.transaction(
+    'rw',
+    [db.entries, db.images, db.revisions, db.searchIndex, db.settings],
+    async () => {
+      await db.entries.clear()
+      await db.images.clear()
+      await db.revisions.clear()
+      await clearIndexRecords()
+    },
+  )
+
+  publishSync({ type: 'entry', action: 'delete', id: SYNC_ALL_ID })
+  publishSync({ type: 'image', action: 'delete', id: SYNC_ALL_ID })
 }
 
 /**
  * 读取文件
  */
-export function readFileAsJson(file: File): Promise<unknown> {
+export function readFileAsJson(file: Blob): Promise<unknown> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
     reader.onload = () => {
       try {
         resolve(JSON.parse(reader.result as string))
       } catch {
-        reject(new Error('无效的 JSON 文件'))
+        reject(new DataImportError('invalidJsonFile'))
       }
     }
-    reader.onerror = () => reject(new Error('文件读取失败'))
+    reader.onerror = () => reject(new DataImportError('fileReadFailed'))
     reader.readAsText(file)
   })
 }
@@ -1,35 +1,45 @@
 import Dexie from 'dexie'
-import type { AppSettings, DiaryEntry, ImageRecord } from '@/types'
+import type {
+  SchemaVersionRecord,
+  SearchIndexRecord,
+  SearchIndexStateRecord,
+  SettingRecord,
+  StoredEntry,
+  StoredImageRecord,
+  StoredRevision,
+} from '@/types'
+import { applyMigrations, type Migration, migrations } from './migrations'
 
 /**
  * MiniDiary IndexedDB Database
  *
  * Schema:
- * - entries: id, date, createdAt, updatedAt
+ * - entries: id, date, createdAt, updatedAt, *tags, deletedAt
  * - images: id, entryId, createdAt
+ * - revisions: id, entryId, [entryId+updatedAt]
  * - settings: key
+ * - searchIndex: entryId, *terms
+ *
+ * Schema versions are defined in ./migrations.ts
+ * Records may be encrypted at rest; read and write them through the repositories
+ * (or ./dataEncryption) rather than using the tables directly.
  */
 class MiniDiaryDB extends Dexie {
-  entries!: Dexie.Table<DiaryEntry, string>
-  images!: Dexie.Table<ImageRecord, string>
-  settings!: Dexie.Table<AppSettings, string>
+  entries!: Dexie.Table<StoredEntry, string>
+  images!: Dexie.Table<StoredImageRecord, string>
+  revisions!: Dexie.Table<StoredRevision, string>
+  settings!: Dexie.Table<SettingRecord | SchemaVersionRecord | SearchIndexStateRecord, string>
+  searchIndex!: Dexie.Table<SearchIndexRecord, string>
 
-  constructor() {
-    super('MiniDiaryDB')
+  constructor(name = 'MiniDiaryDB', migrationList: Migration[] = migrations) {
+    super(name)
 
-    this.version(1).stores({
-      // Primary key: id, Indexes: date, createdAt, updatedAt
-      entries: 'id, date, createdAt, updatedAt',
-      // Primary key: id, Indexes: entryId, createdAt
-      images: 'id, entryId, createdAt',
-      // Primary key: key
-      settings: 'key',
-    })
+    applyMigrations(this, migrationList)
   }
 }
 
 // Singleton database instance
 export const db = new MiniDiaryDB()
 
-// Re-export for convenience
-export type { MiniDiaryDB }
+// Re-export for convenience (and for migration tests)
+export { MiniDiaryDB }
@@ -0,0 +1,106 @@
+/**
+ * Line-level text diff
+ *
+ * 基于最长公共子序列（LCS）逐行比较两段文本，用于历史版本对比。
+ * 日记内容最多 10,000 字符，O(n·m) 的动态规划足够快；
+ * 先去掉首尾相同的行以缩小比较范围。
+ */
+
+export type DiffLineType = 'equal' | 'added' | 'removed'
+
+/**
+ * A single line in a diff result
+ */
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+}
+
+/**
+ * Number of added and removed lines in a diff
+ */
+export interface DiffStats {
+  added: number
+  removed: number
+}
+
+/**
+ * Compute a line-level diff from `before` to `after`
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // 跳过相同的首尾行
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+  const rows = midA.length + 1
+  const cols = midB.length + 1
+  const lcs = new Uint32Array(rows * cols)
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        midA[i] === midB[j]
+          ? (lcs[(i + 1) * cols + j + 1] ?? 0) + 1
+          : Math.max(lcs[(i + 1) * cols + j] ?? 0, lcs[i * cols + j + 1] ?? 0)
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'equal', text }))
+
+  let i = 0
+  let j = 0
+  while (i < midA.length && j < midB.length) {
+    const lineA = midA[i] as string
+    const lineB = midB[j] as string
+    if (lineA === lineB) {
+      result.push({ type: 'equal', text: lineA })
+      i++
+      j++
+    } else if ((lcs[(i + 1) * cols + j] ?? 0) >= (lcs[i * cols + j + 1] ?? 0)) {
+      result.push({ type: 'removed', text: lineA })
+      i++
+    } else {
+      result.push({ type: 'added', text: lineB })
+      j++
+    }
+  }
+  for (; i < midA.length; i++) {
+    result.push({ type: 'removed', text: midA[i] as string })
+  }
+  for (; j < midB.length; j++) {
+    result.push({ type: 'added', text: midB[j] as string })
+  }
+
+  for (const text of a.slice(endA)) {
+    result.push({ type: 'equal', text })
+  }
+
+  return result
+}
+
+/**
+ * Count added and removed lines
+ */
+export function getDiffStats(lines: DiffLine[]): DiffStats {
+  let added = 0
+  let removed = 0
+  for (const line of lines) {
+    if (line.type === 'added') added++
+    else if (line.type === 'removed') removed++
+  }
+  return { added, removed }
+}
@@ -37,6 +37,14 @@ const imageConfig: ImageConfig = {
   outputFormat: 'image/jpeg',
 }
 
+/** Used when shrinking stored images to free space */
+const recompressConfig: ImageConfig = {
+  maxWidth: 1280,
+  maxHeight: 1280,
+  quality: 0.6,
+  outputFormat: 'image/jpeg',
+}
+
 const thumbnailConfig: ImageConfig = {
   maxWidth: 400,
   maxHeight: 400,
@@ -103,7 +111,7 @@ function calculateDimensions(
 /**
  * Compress image using Canvas API
  */
-async function compressWithCanvas(file: File, config: ImageConfig): Promise<Blob> {
+async function compressWithCanvas(file: Blob, config: ImageConfig): Promise<Blob> {
   // Create image bitmap from file
   const bitmap = await createImageBitmap(file)
 
@@ -168,6 +176,13 @@ export async function processImage(file: File): Promise<ProcessedImage> {
   return { blob, thumbnail }
 }
 
+/**
+ * Re-encode a stored image at a lower resolution and quality
+ */
+export function recompressImage(blob: Blob): Promise<Blob> {
+  return compressWithCanvas(blob, recompressConfig)
+}
+
 /**
  * Create object URL from blob (remember to revoke when done)
  */
@@ -0,0 +1,56 @@
+/**
+ * Free storage by shrinking the full-size blobs of the oldest images
+ *
+ * 缩略图始终保留：compressed 以较低分辨率和质量重新编码原图，thumbnail 直接用缩略图替换原图。
+ * 已经处理过的图片会跳过，重新编码后没有变小的图片保持原样。
+ */
+
+import type { ImageCompaction, ImageRecord } from '@/types'
+import { recompressImage } from './image'
+import { imagesRepository } from './repositories/images'
+
+/** Images loaded per batch */
+const PAGE_SIZE = 20
+
+export interface CompactionResult {
+  /** Images shrunk */
+  count: number
+  /** Approximate bytes saved */
+  freedBytes: number
+}
+
+function isCompacted(image: ImageRecord, mode: ImageCompaction): boolean {
+  return image.compacted === 'thumbnail' || image.compacted === mode
+}
+
+/**
+ * Shrink up to `limit` of the oldest images
+ * @param shrink - Re-encodes a blob in compressed mode (replaceable in tests)
+ */
+export async function compactOldestImages(
+  mode: ImageCompaction,
+  limit: number,
+  shrink: (blob: Blob) => Promise<Blob> = recompressImage,
+): Promise<CompactionResult> {
+  const result: CompactionResult = { count: 0, freedBytes: 0 }
+
+  for (let offset = 0; result.count < limit; offset += PAGE_SIZE) {
+    const images = await imagesRepository.getOldest(PAGE_SIZE, offset)
+    if (images.length === 0) break
+
+    for (const image of images) {
+      if (result.count >= limit) break
+      if (isCompacted(image, mode)) continue
+
+      const blob = mode === 'thumbnail' ? image.thumbnail : await shrink(image.blob)
+      const saved = image.blob.size - blob.size
+      if (saved <= 0) continue
+
+      await imagesRepository.update({ ...image, blob, compacted: mode })
+      result.count++
+      result.freedBytes += saved
+    }
+  }
+
+  return result
+}
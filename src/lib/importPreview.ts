@@ -0,0 +1,108 @@
+/**
+ * Import preview
+ *
+ * 导入 JSON 备份前先与本地数据比较，由用户逐条决定冲突的处理方式：
+ * - new：本地没有该日记，直接导入
+ * - identical：内容相同，无需处理
+ * - newerInBackup / newerLocally：两边内容不同，按 `updatedAt` 标记哪边较新
+ */
+
+import type { DiaryEntry } from '@/types'
+
+export type ImportEntryStatus = 'new' | 'identical' | 'newerInBackup' | 'newerLocally'
+
+/**
+ * How to resolve a conflicting entry
+ * - keepLocal：保留本地版本
+ * - takeBackup：使用备份版本（本地内容存为历史版本）
+ * - keepBoth：两者都保留，备份版本作为新日记导入
+ */
+export type ConflictResolution = 'keepLocal' | 'takeBackup' | 'keepBoth'
+
+export const CONFLICT_RESOLUTIONS: readonly ConflictResolution[] = [
+  'keepLocal',
+  'takeBackup',
+  'keepBoth',
+]
+
+/**
+ * Comparison of one backup entry against local data
+ */
+export interface ImportEntryDiff {
+  status: ImportEntryStatus
+  /** Entry from the backup */
+  incoming: DiaryEntry
+  /** Local entry with the same ID, if any */
+  local?: DiaryEntry
+}
+
+/**
+ * Whether two versions of an entry have the same user-visible data
+ * （tags 由内容提取，updatedAt 不同不算修改）
+ */
+export function isSameEntry(a: DiaryEntry, b: DiaryEntry): boolean {
+  return (
+    a.content === b.content &&
+    a.date === b.date &&
+    a.deletedAt === b.deletedAt &&
+    a.mood?.score === b.mood?.score &&
+    a.mood?.emoji === b.mood?.emoji &&
+    Boolean(a.private) === Boolean(b.private) &&
+    a.imageIds.length === b.imageIds.length &&
+    a.imageIds.every((id, index) => b.imageIds[index] === id)
+  )
+}
+
+/**
+ * Classify a backup entry against the local entry with the same ID
+ */
+export function getEntryStatus(incoming: DiaryEntry, local?: DiaryEntry): ImportEntryStatus {
+  if (!local) return 'new'
+  if (isSameEntry(incoming, local)) return 'identical'
+  return incoming.updatedAt > local.updatedAt ? 'newerInBackup' : 'newerLocally'
+}
+
+/**
+ * Check whether a status needs a user decision
+ */
+export function isConflict(status: ImportEntryStatus): boolean {
+  return status === 'newerInBackup' || status === 'newerLocally'
+}
+
+/**
+ * Default resolution: keep whichever side is newer (previous import behaviour)
+ */
+export function getDefaultResolution(status: ImportEntryStatus): ConflictResolution {
+  return status === 'newerLocally' || status === 'identical' ? 'keepLocal' : 'takeBackup'
+}
+
+/**
+ * Compare backup entries with local entries
+ * @param localEntries - Local entries keyed by ID
+ */
+export function diffEntries(
+  incoming: DiaryEntry[],
+  localEntries: Map<string, DiaryEntry>,
+): ImportEntryDiff[] {
+  return incoming.map((entry) => {
+    const local = localEntries.get(entry.id)
+    const status = getEntryStatus(entry, local)
+    return local ? { status, incoming: entry, local } : { status, incoming: entry }
+  })
+}
+
+/**
+ * Number of entries per status
+ */
+export function countByStatus(diffs: ImportEntryDiff[]): Record<ImportEntryStatus, number> {
+  const counts: Record<ImportEntryStatus, number> = {
+    new: 0,
+    identical: 0,
+    newerInBackup: 0,
+    newerLocally: 0,
+  }
+  for (const diff of diffs) {
+    counts[diff.status]++
+  }
+  return counts
+}
@@ -0,0 +1,131 @@
+/**
+ * Storage integrity check
+ *
+ * 日记的 imageIds 和图片的 entryId 可能不一致（上传后未保存、移除的图片未清理、导入时跳过了日记等）。
+ * 以日记的 imageIds 为准：
+ * - 没有被任何日记（包括回收站中的日记）引用的图片为孤立图片，修复时删除
+ * - 日记引用了不存在的图片，修复时从 imageIds 中移除
+ * - 图片的 entryId 与引用它的日记不一致，修复时改为引用它的日记
+ *
+ * 只读取 ID 字段，不需要解密数据，应用锁开启时也可以检查。
+ */
+
+import { db } from './db'
+import { imagesRepository } from './repositories/images'
+
+/**
+ * An entry referencing images that do not exist
+ */
+export interface MissingImageRef {
+  entryId: string
+  imageIds: string[]
+}
+
+/**
+ * An image whose entryId differs from the entry referencing it
+ */
+export interface MismatchedImage {
+  imageId: string
+  /** entryId stored on the image */
+  entryId: string
+  /** Entry whose imageIds contains the image */
+  referencedBy: string
+}
+
+export interface IntegrityReport {
+  /** Images not referenced by any entry */
+  orphanedImageIds: string[]
+  missingImageRefs: MissingImageRef[]
+  mismatchedImages: MismatchedImage[]
+  /** Approximate bytes freed by deleting the orphaned images */
+  reclaimableBytes: number
+}
+
+/**
+ * Whether the report found anything to repair
+ */
+export function hasIntegrityIssues(report: IntegrityReport): boolean {
+  return (
+    report.orphanedImageIds.length > 0 ||
+    report.missingImageRefs.length > 0 ||
+    report.mismatchedImages.length > 0
+  )
+}
+
+/**
+ * Compare entries and images (call within a transaction for a consistent result)
+ */
+async function scan(): Promise<IntegrityReport> {
+  const imageEntryIds = new Map<string, string>()
+  await db.images.each((image) => {
+    imageEntryIds.set(image.id, image.entryId)
+  })
+
+  const referencedBy = new Map<string, string>()
+  const missingImageRefs: MissingImageRef[] = []
+  await db.entries.each((entry) => {
+    const missing: string[] = []
+    for (const imageId of entry.imageIds) {
+      if (!imageEntryIds.has(imageId)) {
+        missing.push(imageId)
+      } else if (!referencedBy.has(imageId)) {
+        referencedBy.set(imageId, entry.id)
+      }
+    }
+    if (missing.length > 0) {
+      missingImageRefs.push({ entryId: entry.id, imageIds: missing })
+    }
+  })
+
+  const orphanedImageIds: string[] = []
+  const mismatchedImages: MismatchedImage[] = []
+  for (const [imageId, entryId] of imageEntryIds) {
+    const referencingEntryId = referencedBy.get(imageId)
+    if (referencingEntryId === undefined) {
+      orphanedImageIds.push(imageId)
+    } else if (referencingEntryId !== entryId) {
+      mismatchedImages.push({ imageId, entryId, referencedBy: referencingEntryId })
+    }
+  }
+
+  return {
+    orphanedImageIds,
+    missingImageRefs,
+    mismatchedImages,
+    reclaimableBytes:
+      orphanedImageIds.length > 0 ? await imagesRepository.getTotalSize(orphanedImageIds) : 0,
+  }
+}
+
+/**
+ * Find inconsistencies between entries and images
+ */
+export function checkIntegrity(): Promise<IntegrityReport> {
+  return db.transaction('r', [db.entries, db.images], scan)
+}
+
+/**
+ * Fix every inconsistency found by checkIntegrity
+ * 修改日记的 imageIds 时不更新 updatedAt（内容没有变化）
+ * @returns The problems that were repaired
+ */
+export function repairIntegrity(): Promise<IntegrityReport> {
+  return db.transaction('rw', [db.entries, db.images], async () => {
+    const report = await scan()
+
+    await db.images.bulkDelete(report.orphanedImageIds)
+    for (const { entryId, imageIds } of report.missingImageRefs) {
+      await db.entries
+        .where('id')
+        .equals(entryId)
+        .modify((entry) => {
+          entry.imageIds = entry.imageIds.filter((id) => !imageIds.includes(id))
+        })
+    }
+    for (const { imageId, referencedBy } of report.mismatchedImages) {
+      await db.images.update(imageId, { entryId: referencedBy })
+    }
+
+    return report
+  })
+}
@@ -14,6 +14,7 @@
  * - 引用
  */
 
+import type { Element, ElementContent, Root } from 'hast'
 import type { Components } from 'react-markdown'
 
 /**
@@ -63,3 +64,64 @@ export const markdownComponents: Components = {
   // Supported: horizontal rule
   hr: () => <hr className="my-4 border-t border-border" />,
 }
+
+// ============================================
+// Search match highlighting
+// ============================================
+
+/** Attribute holding the index of a highlighted search match */
+export const SEARCH_MATCH_ATTRIBUTE = 'data-search-match'
+
+interface HighlightMatchesOptions {
+  /** Global pattern with a single capturing group (see searchQuery.getHighlightPattern) */
+  pattern: RegExp | null
+  /** Index of the match shown as current */
+  activeIndex: number
+}
+
+/**
+ * Rehype plugin wrapping search matches in <mark> elements, numbered in document order
+ * 只处理单个文本节点内的匹配，被加粗等格式拆开的词不会高亮
+ */
+export function rehypeHighlightMatches({ pattern, activeIndex }: HighlightMatchesOptions) {
+  return (tree: Root) => {
+    if (!pattern) return
+    let index = 0
+
+    const visit = (node: Root | Element) => {
+      const children: ElementContent[] = []
+      for (const child of node.children as ElementContent[]) {
+        if (child.type === 'element') {
+          visit(child)
+        }
+        if (child.type !== 'text') {
+          children.push(child)
+          continue
+        }
+        child.value.split(pattern).forEach((part, partIndex) => {
+          if (part === '') return
+          if (partIndex % 2 === 0) {
+            children.push({ type: 'text', value: part })
+            return
+          }
+          const isActive = index === activeIndex
+          children.push({
+            type: 'element',
+            tagName: 'mark',
+            properties: {
+              [SEARCH_MATCH_ATTRIBUTE]: index,
+              className: isActive
+                ? ['rounded-sm', 'bg-foreground', 'text-background']
+                : ['rounded-sm', 'bg-foreground/20', 'text-foreground'],
+            },
+            children: [{ type: 'text', value: part }],
+          })
+          index++
+        })
+      }
+      node.children = children
+    }
+
+    visit(tree)
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Markdown folder backup
+ *
+ * 把日记导出为 ZIP 压缩包，解压后可直接用任意 Markdown 编辑器阅读：
+ * - `YYYY-MM-DD/<HHmmss>-<id>.md`：每篇日记一个文件，YAML front matter 记录元数据
+ * - `images/<id>.jpg`：原图；`images/thumbnails/<id>.jpg`：缩略图
+ * - 日记末尾以缩略图链接到原图的形式引用图片
+ * 回收站中的日记不导出。
+ */
+
+import type { DiaryEntry, ImageRecord } from '@/types'
+import { blobToBytes } from './utils'
+import { createZipWriter } from './zip'
+
+export const MARKDOWN_IMAGES_DIR = 'images'
+export const MARKDOWN_THUMBNAILS_DIR = 'images/thumbnails'
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+/**
+ * File extension for an image blob
+ */
+export function getImageExtension(blob: Blob): string {
+  switch (blob.type) {
+    case 'image/webp':
+      return 'webp'
+    case 'image/png':
+      return 'png'
+    default:
+      return 'jpg'
+  }
+}
+
+/**
+ * Archive path of an entry: `YYYY-MM-DD/<HHmmss>-<id>.md` (local creation time)
+ */
+export function getEntryPath(entry: DiaryEntry): string {
+  const created = new Date(entry.createdAt)
+  const time = `${pad(created.getHours())}${pad(created.getMinutes())}${pad(created.getSeconds())}`
+  return `${entry.date}/${time}-${entry.id}.md`
+}
+
+export interface ImagePaths {
+  image: string
+  thumbnail: string
+}
+
+/**
+ * Archive paths of an image and its thumbnail
+ */
+export function getImagePaths(image: ImageRecord): ImagePaths {
+  return {
+    image: `${MARKDOWN_IMAGES_DIR}/${image.id}.${getImageExtension(image.blob)}`,
+    thumbnail: `${MARKDOWN_THUMBNAILS_DIR}/${image.id}.${getImageExtension(image.thumbnail)}`,
+  }
+}
+
+/**
+ * YAML front matter for an entry
+ * 数组和对象使用 JSON 写法，它同时是合法的 YAML flow 集合
+ */
+export function serializeFrontMatter(entry: DiaryEntry): string {
+  const lines = [
+    '---',
+    `id: ${entry.id}`,
+    `date: ${entry.date}`,
+    `createdAt: ${new Date(entry.createdAt).toISOString()}`,
+    `updatedAt: ${new Date(entry.updatedAt).toISOString()}`,
+    `tags: ${JSON.stringify(entry.tags ?? [])}`,
+  ]
+  if (entry.mood) {
+    lines.push(`mood: ${JSON.stringify(entry.mood)}`)
+  }
+  if (entry.private) {
+    lines.push('private: true')
+  }
+  if (entry.imageIds.length > 0) {
+    lines.push(`images: ${JSON.stringify(entry.imageIds)}`)
+  }
+  lines.push('---')
+  return lines.join('\n')
+}
+
+function renderEntry(entry: DiaryEntry, imagePaths: ReadonlyMap<string, ImagePaths>): string {
+  // 条目文件位于日期目录下，图片路径需要回到上一级
+  const imageLinks = entry.imageIds.flatMap((id) => {
+    const paths = imagePaths.get(id)
+    return paths ? [`[![](../${paths.thumbnail})](../${paths.image})`] : []
+  })
+
+  const sections = [serializeFrontMatter(entry), entry.content.trim()]
+  if (imageLinks.length > 0) {
+    sections.push(imageLinks.join('\n'))
+  }
+  return `${sections.join('\n\n')}\n`
+}
+
+/**
+ * Render an entry as a Markdown document
+ * @param images - The entry's images, in any order
+ */
+export function entryToMarkdown(entry: DiaryEntry, images: ImageRecord[]): string {
+  return renderEntry(entry, new Map(images.map((image) => [image.id, getImagePaths(image)])))
+}
+
+function isActive(entry: DiaryEntry): boolean {
+  return entry.deletedAt === undefined
+}
+
+export interface MarkdownArchiveWriter {
+  /** Add an image and its thumbnail, before the entries that link to them */
+  addImage: (image: ImageRecord) => Promise<void>
+  /** Add an entry file (entries in the trash are skipped) */
+  addEntry: (entry: DiaryEntry) => void
+  finish: () => Blob
+}
+
+/**
+ * Build the Markdown ZIP archive one image and entry at a time
+ * 只记住已写入图片的路径，图片数据写入后即可释放
+ */
+export function createMarkdownArchiveWriter(): MarkdownArchiveWriter {
+  const zip = createZipWriter()
+  const imagePaths = new Map<string, ImagePaths>()
+
+  return {
+    async addImage(image) {
+      const paths = getImagePaths(image)
+      zip.add({
+        path: paths.image,
+        data: await blobToBytes(image.blob),
+        modifiedAt: image.createdAt,
+      })
+      zip.add({
+        path: paths.thumbnail,
+        data: await blobToBytes(image.thumbnail),
+        modifiedAt: image.createdAt,
+      })
+      imagePaths.set(image.id, paths)
+    },
+    addEntry(entry) {
+      if (!isActive(entry)) return
+      zip.add({
+        path: getEntryPath(entry),
+        data: renderEntry(entry, imagePaths),
+        modifiedAt: entry.updatedAt,
+      })
+    },
+    finish: () => zip.finish(),
+  }
+}
+
+/**
+ * Build the Markdown ZIP archive from entries and images already in memory
+ * @param onProgress - Called after each image with the fraction processed (0-1)
+ */
+export async function buildMarkdownArchive(
+  entries: DiaryEntry[],
+  images: ImageRecord[],
+  onProgress?: (progress: number) => void,
+): Promise<Blob> {
+  const activeEntryIds = new Set(entries.filter(isActive).map((entry) => entry.id))
+  const activeImages = images.filter((image) => activeEntryIds.has(image.entryId))
+  const writer = createMarkdownArchiveWriter()
+
+  let processed = 0
+  for (const image of activeImages) {
+    await writer.addImage(image)
+    processed++
+    onProgress?.(processed / activeImages.length)
+  }
+  for (const entry of entries) {
+    writer.addEntry(entry)
+  }
+  return writer.finish()
+}
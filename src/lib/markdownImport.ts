@@ -0,0 +1,359 @@
+/**
+ * Markdown import
+ *
+ * 把 Markdown 文件解析为日记，支持：
+ * - 本应用导出的 Markdown 压缩包（YAML front matter + 末尾的图片链接），可无损恢复
+ * - 其他工具导出的 `.md` / `.txt` 文件：日期取自 front matter 或文件名/目录名中的 `YYYY-MM-DD`
+ * 正文中引用的本地图片会从内容中移除，作为日记图片导入。
+ */
+
+import type { Mood } from '@/types'
+import { isMoodScore } from './mood'
+import { extractTags, MAX_TAG_LENGTH, normalizeTag } from './tags'
+
+/** Extensions treated as diary text files */
+export const MARKDOWN_FILE_EXTENSIONS = ['md', 'markdown', 'txt'] as const
+
+/** MIME types of images that can be attached, by extension */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+}
+
+const DATE_PATTERN = /\d{4}-\d{2}-\d{2}/
+const VALID_TAG_PATTERN = /^[\p{L}\p{N}_-]+$/u
+// [![alt](thumbnail)](full)：本应用导出的缩略图链接
+const LINKED_IMAGE_PATTERN = /\[!\[[^\]]*\]\(([^)\s]+)\)\]\(([^)\s]+)\)/g
+// ![alt](path "title")
+const IMAGE_PATTERN = /!\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g
+
+export type FrontMatterValue = string | number | boolean | null | FrontMatterValue[] | object
+
+/**
+ * Why a file was not imported
+ */
+export type ImportSkipReason =
+  | 'noDate'
+  | 'empty'
+  | 'notNewer'
+  | 'duplicate'
+  | 'unsupported'
+  | 'tooLong'
+  | 'tooManyImages'
+  | 'invalidImage'
+
+/**
+ * A diary entry parsed from a Markdown file
+ */
+export interface ParsedMarkdownEntry {
+  /** Source path */
+  path: string
+  /** ID from front matter, if any */
+  id?: string
+  date: string
+  content: string
+  createdAt: number
+  updatedAt: number
+  mood?: Mood
+  private?: boolean
+  /** Referenced local images, in order */
+  images: Array<{
+    /** Resolved path of the image file */
+    path: string
+    /** Image ID to reuse (from our own export), if known */
+    id?: string
+  }>
+}
+
+// ============================================
+// Path helpers
+// ============================================
+
+/**
+ * Lowercase file extension without the dot
+ */
+export function getExtension(path: string): string {
+  const name = path.split('/').pop() ?? ''
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : ''
+}
+
+/**
+ * Check whether a path is a diary text file
+ */
+export function isMarkdownPath(path: string): boolean {
+  return (MARKDOWN_FILE_EXTENSIONS as readonly string[]).includes(getExtension(path))
+}
+
+/**
+ * MIME type of an importable image path, undefined if unsupported
+ */
+export function getImageMimeType(path: string): string | undefined {
+  return IMAGE_MIME_TYPES[getExtension(path)]
+}
+
+/**
+ * Check whether a path is OS metadata that should be ignored silently
+ */
+export function isIgnoredPath(path: string): boolean {
+  return path.split('/').some((part) => part === '__MACOSX' || part.startsWith('.'))
+}
+
+/**
+ * Resolve a link in a Markdown file against the file's directory
+ * @returns Archive path, or null for external links
+ */
+export function resolveRelativePath(fromPath: string, link: string): string | null {
+  if (/^[a-z][a-z\d+.-]*:/i.test(link) || link.startsWith('#')) return null
+
+  let decoded = link
+  try {
+    decoded = decodeURIComponent(link)
+  } catch {
+    // Keep undecodable links as-is
+  }
+
+  const parts = decoded.startsWith('/') ? [] : fromPath.split('/').slice(0, -1)
+  for (const segment of decoded.split('/')) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') {
+      parts.pop()
+    } else {
+      parts.push(segment)
+    }
+  }
+  return parts.join('/')
+}
+
+// ============================================
+// Front matter
+// ============================================
+
+/**
+ * Parse a single YAML scalar or flow collection
+ */
+function parseScalar(raw: string): FrontMatterValue {
+  const value = raw.trim()
+  if (value === '' || value === '~' || value === 'null') return null
+  if (value === 'true') return true
+  if (value === 'false') return false
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value)
+
+  if (value.startsWith('"') || value.startsWith('[') || value.startsWith('{')) {
+    try {
+      return JSON.parse(value)
+    } catch {
+      // Not JSON; fall through
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'")
+  }
+  // 非 JSON 的 flow 序列，如 [a, 'b c']
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value
+      .slice(1, -1)
+      .split(',')
+      .map((item) => parseScalar(item))
+      .filter((item) => item !== null)
+  }
+  return value
+}
+
+/**
+ * Split YAML front matter from a Markdown document
+ *
+ * 只支持常见子集：`key: value`、flow 集合（`[a, b]`、JSON 对象）和 `- item` 块序列。
+ */
+export function parseFrontMatter(text: string): {
+  data: Record<string, FrontMatterValue>
+  body: string
+} {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  const match = normalized.match(/^---\n([\s\S]*?)\n(?:---|\.\.\.)(?:\n|$)/)
+  if (!match) return { data: {}, body: normalized }
+
+  const data: Record<string, FrontMatterValue> = {}
+  let listKey: string | null = null
+
+  for (const line of (match[1] ?? '').split('\n')) {
+    if (!line.trim() || line.trimStart().startsWith('#')) continue
+
+    const item = line.match(/^\s+-\s*(.*)$/) ?? line.match(/^-\s+(.*)$/)
+    if (item && listKey) {
+      const list = data[listKey]
+      if (Array.isArray(list)) list.push(parseScalar(item[1] ?? ''))
+      continue
+    }
+
+    const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/)
+    if (!pair?.[1]) continue
+    const [, key, value = ''] = pair
+    if (value.trim() === '') {
+      data[key] = []
+      listKey = key
+    } else {
+      data[key] = parseScalar(value)
+      listKey = null
+    }
+  }
+
+  return { data, body: normalized.slice(match[0].length) }
+}
+
+// ============================================
+// Entry mapping
+// ============================================
+
+function asString(value: FrontMatterValue | undefined): string | undefined {
+  if (typeof value === 'string' && value.trim()) return value.trim()
+  if (typeof value === 'number') return String(value)
+  return undefined
+}
+
+/**
+ * Parse a timestamp from an ISO string or Unix milliseconds
+ */
+function parseTimestamp(value: FrontMatterValue | undefined): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value) && value > 0) return value
+  const text = asString(value)
+  if (!text) return undefined
+  // 只有日期没有时间时不作为时间戳（否则会按 UTC 零点解析）
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return undefined
+  const time = new Date(text.replace(' ', 'T')).getTime()
+  return Number.isNaN(time) ? undefined : time
+}
+
+function parseMood(value: FrontMatterValue | undefined): Mood | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined
+  const { score, emoji } = value as Record<string, unknown>
+  if (!isMoodScore(score)) return undefined
+  return typeof emoji === 'string' && emoji && emoji.length <= 16 ? { score, emoji } : { score }
+}
+
+function parseStringList(value: FrontMatterValue | undefined): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) =>
+      typeof item === 'string' || typeof item === 'number' ? [String(item)] : [],
+    )
+  }
+  // 部分工具把标签写成以逗号或空格分隔的字符串
+  const text = asString(value)
+  return text ? text.split(/[,\s]+/).filter(Boolean) : []
+}
+
+/**
+ * Find a `YYYY-MM-DD` date in the file name, then in parent folders
+ */
+export function getDateFromPath(path: string): string | undefined {
+  const segments = path.split('/').reverse()
+  for (const segment of segments) {
+    const match = segment.match(DATE_PATTERN)
+    if (match && isValidDate(match[0])) return match[0]
+  }
+  return undefined
+}
+
+function isValidDate(date: string): boolean {
+  const time = new Date(`${date}T00:00:00`).getTime()
+  return !Number.isNaN(time) && new Date(time).getDate() === Number(date.slice(8, 10))
+}
+
+/**
+ * Append front matter tags that the content does not already mention as hashtags
+ */
+export function appendMissingTags(content: string, tags: string[]): string {
+  const existing = new Set(extractTags(content))
+  const missing: string[] = []
+  for (const raw of tags) {
+    const tag = normalizeTag(raw).slice(0, MAX_TAG_LENGTH)
+    if (!VALID_TAG_PATTERN.test(tag) || /^\d+$/.test(tag)) continue
+    if (existing.has(tag) || missing.includes(tag)) continue
+    missing.push(tag)
+  }
+  if (missing.length === 0) return content
+  const line = missing.map((tag) => `#${tag}`).join(' ')
+  return content ? `${content}\n\n${line}` : line
+}
+
+/**
+ * Remove references to images that exist in the import and collect them
+ */
+function extractLocalImages(
+  path: string,
+  body: string,
+  availablePaths: Set<string>,
+): { content: string; imagePaths: string[] } {
+  const imagePaths: string[] = []
+  const collect = (link: string): string | null => {
+    const resolved = resolveRelativePath(path, link)
+    if (!resolved || !availablePaths.has(resolved) || !getImageMimeType(resolved)) return null
+    if (!imagePaths.includes(resolved)) imagePaths.push(resolved)
+    return resolved
+  }
+
+  const content = body
+    // 缩略图链接到原图时导入原图
+    .replace(LINKED_IMAGE_PATTERN, (match, thumbnail: string, full: string) =>
+      collect(full) || collect(thumbnail) ? '' : match,
+    )
+    .replace(IMAGE_PATTERN, (match, link: string) => (collect(link) ? '' : match))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  return { content, imagePaths }
+}
+
+/**
+ * Parse a Markdown or text file into a diary entry
+ * @param availablePaths - Paths of all files in the import, used to resolve image links
+ * @returns The parsed entry, or the reason it cannot be imported
+ */
+export function parseMarkdownEntry(
+  path: string,
+  text: string,
+  availablePaths: Set<string>,
+): ParsedMarkdownEntry | ImportSkipReason {
+  const { data, body } = parseFrontMatter(text)
+
+  const dateField = asString(data.date)
+  const createdAtField = parseTimestamp(data.createdAt ?? data.created)
+  const dateFromField = dateField?.match(DATE_PATTERN)?.[0]
+  const date =
+    (dateFromField && isValidDate(dateFromField) ? dateFromField : undefined) ??
+    getDateFromPath(path)
+  if (!date) return 'noDate'
+
+  const { content: rawContent, imagePaths } = extractLocalImages(path, body, availablePaths)
+  const content = appendMissingTags(rawContent, parseStringList(data.tags))
+  if (!content && imagePaths.length === 0) return 'empty'
+
+  // front matter 的 date 字段可能带时间（如 2024-01-15 08:30）
+  const createdAt =
+    createdAtField ?? parseTimestamp(dateField) ?? new Date(`${date}T12:00:00`).getTime()
+  const updatedAt = parseTimestamp(data.updatedAt ?? data.updated ?? data.modified) ?? createdAt
+
+  // 本应用导出的图片以 ID 命名，且在 front matter 的 images 中列出
+  const knownImageIds = new Set(parseStringList(data.images))
+  const images = imagePaths.map((imagePath) => {
+    const name = imagePath.split('/').pop() ?? ''
+    const id = name.slice(0, name.lastIndexOf('.'))
+    return knownImageIds.has(id) ? { path: imagePath, id } : { path: imagePath }
+  })
+
+  const id = asString(data.id)
+  const mood = parseMood(data.mood)
+  return {
+    path,
+    ...(id && { id }),
+    date,
+    content,
+    createdAt,
+    updatedAt,
+    ...(mood && { mood }),
+    ...(data.private === true && { private: true }),
+    images,
+  }
+}
@@ -0,0 +1,154 @@
+import type Dexie from 'dexie'
+import type { Transaction } from 'dexie'
+import { extractTags } from '@/lib/tags'
+import type { DiaryEntry, SchemaVersionRecord } from '@/types'
+
+/**
+ * Settings key under which the applied schema version is recorded
+ */
+export const SCHEMA_VERSION_KEY = 'schemaVersion'
+
+/**
+ * A single numbered schema migration
+ */
+export interface Migration {
+  /** Schema version, must be strictly increasing across the list */
+  version: number
+  /** Short human readable summary of the change */
+  description: string
+  /** Dexie store definitions, only tables that change need to be listed */
+  stores?: Record<string, string | null>
+  /** Data transformation, runs inside the upgrade transaction */
+  upgrade?: (tx: Transaction) => Promise<void>
+}
+
+/**
+ * All schema migrations, oldest first
+ *
+ * 新增字段或索引时在末尾追加一条迁移，不要修改已发布的迁移。
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    stores: {
+      // Primary key: id, Indexes: date, createdAt, updatedAt
+      entries: 'id, date, createdAt, updatedAt',
+      // Primary key: id, Indexes: entryId, createdAt
+      images: 'id, entryId, createdAt',
+      // Primary key: key
+      settings: 'key',
+    },
+  },
+  {
+    version: 2,
+    description: 'Record schema version and backfill missing entry imageIds',
+    upgrade: async (tx) => {
+      await tx
+        .table<DiaryEntry, string>('entries')
+        .toCollection()
+        .modify((entry) => {
+          if (!Array.isArray(entry.imageIds)) {
+            entry.imageIds = []
+          }
+        })
+    },
+  },
+  {
+    version: 3,
+    description: 'Add multi-entry tags index and extract hashtags from existing entries',
+    stores: {
+      entries: 'id, date, createdAt, updatedAt, *tags',
+    },
+    upgrade: async (tx) => {
+      await tx
+        .table<DiaryEntry, string>('entries')
+        .toCollection()
+        .modify((entry) => {
+          entry.tags = extractTags(entry.content)
+        })
+    },
+  },
+  {
+    version: 4,
+    description: 'Add deletedAt index for the trash bin',
+    stores: {
+      // Only soft-deleted entries have deletedAt, so the index holds just the trash
+      entries: 'id, date, createdAt, updatedAt, *tags, deletedAt',
+    },
+  },
+  {
+    version: 5,
+    description: 'Add revisions table for entry history',
+    stores: {
+      // Primary key: id, Indexes: entryId, [entryId+updatedAt]
+      revisions: 'id, entryId, [entryId+updatedAt]',
+    },
+  },
+  {
+    version: 6,
+    description: 'Add full-text search index',
+    stores: {
+      // Primary key: entryId, Indexes: *terms (built on the first search, see ./searchIndex)
+      searchIndex: 'entryId, *terms',
+    },
+  },
+]
+
+/**
+ * Get the latest schema version of a migration list
+ */
+export function getLatestVersion(list: Migration[]): number {
+  return list.reduce((latest, migration) => Math.max(latest, migration.version), 0)
+}
+
+/**
+ * Write the applied schema version into the settings table
+ */
+async function recordSchemaVersion(tx: Transaction, version: number): Promise<void> {
+  const record: SchemaVersionRecord = {
+    key: SCHEMA_VERSION_KEY,
+    version,
+    migratedAt: Date.now(),
+  }
+  await tx.table('settings').put(record)
+}
+
+/**
+ * Register migrations on a Dexie instance
+ *
+ * Must be called in the database constructor, before the database is opened.
+ * Each upgrade records its version in the settings table; a fresh database
+ * records the latest version when it is populated.
+ */
+export function applyMigrations(db: Dexie, list: Migration[]): void {
+  let previousVersion = 0
+  for (const migration of list) {
+    if (migration.version <= previousVersion) {
+      throw new Error(
+        `Migration versions must be strictly increasing (got ${migration.version} after ${previousVersion})`,
+      )
+    }
+    previousVersion = migration.version
+
+    const version = db.version(migration.version)
+    if (migration.stores) {
+      version.stores(migration.stores)
+    }
+    version.upgrade(async (tx) => {
+      await migration.upgrade?.(tx)
+      await recordSchemaVersion(tx, migration.version)
+    })
+  }
+
+  const latestVersion = getLatestVersion(list)
+  db.on('populate', (tx) => recordSchemaVersion(tx, latestVersion))
+}
+
+/**
+ * Read the schema version recorded in the settings table
+ */
+export async function getSchemaVersion(db: Dexie): Promise<number | undefined> {
+  const record = await db.table<SchemaVersionRecord, string>('settings').get(SCHEMA_VERSION_KEY)
+  return record?.version
+}
@@ -0,0 +1,156 @@
+/**
+ * Mood tracking utilities
+ *
+ * 心情使用固定的 5 分制，每个分值有默认 emoji 和 i18n 标签，
+ * 用户可以额外选择一个 emoji 覆盖默认显示。
+ * 翻译文件: src/i18n/locales/{locale}/mood.json
+ */
+
+import type { DateRangeQuery, DiaryEntry, Mood, MoodScore } from '@/types'
+
+export type MoodLabelKey = 'awful' | 'bad' | 'okay' | 'good' | 'great'
+
+interface MoodLevel {
+  score: MoodScore
+  emoji: string
+  labelKey: MoodLabelKey
+}
+
+/**
+ * The 5-point mood scale, lowest first
+ */
+export const MOOD_LEVELS: readonly MoodLevel[] = [
+  { score: 1, emoji: '😞', labelKey: 'awful' },
+  { score: 2, emoji: '😕', labelKey: 'bad' },
+  { score: 3, emoji: '😐', labelKey: 'okay' },
+  { score: 4, emoji: '🙂', labelKey: 'good' },
+  { score: 5, emoji: '😄', labelKey: 'great' },
+]
+
+/**
+ * Extra emojis the user can pick to describe a mood more precisely
+ */
+export const MOOD_EMOJIS = ['😴', '🤒', '😢', '😡', '😰', '🥰', '🤩', '🥳', '😌', '🤔'] as const
+
+/**
+ * Supported trend periods in days
+ */
+export const MOOD_PERIODS = [30, 90, 365] as const
+export type MoodPeriod = (typeof MOOD_PERIODS)[number]
+
+/**
+ * Check whether a value is a valid mood score
+ */
+export function isMoodScore(value: unknown): value is MoodScore {
+  return value === 1 || value === 2 || value === 3 || value === 4 || value === 5
+}
+
+/**
+ * Get the scale level for a score
+ */
+export function getMoodLevel(score: MoodScore): MoodLevel {
+  // MOOD_LEVELS 按分值排序，score - 1 一定存在
+  return MOOD_LEVELS[score - 1] as MoodLevel
+}
+
+/**
+ * Emoji to display for a mood (custom emoji wins over the default)
+ */
+export function getMoodEmoji(mood: Mood): string {
+  return mood.emoji ?? getMoodLevel(mood.score).emoji
+}
+
+/**
+ * Format date to YYYY-MM-DD string (local time)
+ */
+function toDateString(date: Date): string {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * List every date from start to end (inclusive)
+ */
+function listDates(range: DateRangeQuery): string[] {
+  const dates: string[] = []
+  const cursor = new Date(`${range.startDate}T00:00:00`)
+  const end = new Date(`${range.endDate}T00:00:00`)
+  while (cursor <= end) {
+    dates.push(toDateString(cursor))
+    cursor.setDate(cursor.getDate() + 1)
+  }
+  return dates
+}
+
+/**
+ * Date range covering the last `days` days, ending today
+ */
+export function getMoodRange(days: number, today = new Date()): DateRangeQuery {
+  const start = new Date(today)
+  start.setDate(start.getDate() - (days - 1))
+  return { startDate: toDateString(start), endDate: toDateString(today) }
+}
+
+/**
+ * A single day in a mood trend
+ */
+export interface MoodTrendPoint {
+  /** YYYY-MM-DD */
+  date: string
+  /** Average score of the day, null if no mood was logged */
+  average: number | null
+  /** Number of entries with a mood on that day */
+  count: number
+}
+
+/**
+ * Summary of moods over a range
+ */
+export interface MoodTrend {
+  points: MoodTrendPoint[]
+  /** Average over all logged moods, null if none */
+  average: number | null
+  /** Number of entries with a mood */
+  total: number
+  /** Count per score, index 0 = score 1 */
+  distribution: [number, number, number, number, number]
+}
+
+/**
+ * Aggregate entries into a per-day mood trend
+ */
+export function computeMoodTrend(entries: DiaryEntry[], range: DateRangeQuery): MoodTrend {
+  const byDate = new Map<string, number[]>()
+  const distribution: MoodTrend['distribution'] = [0, 0, 0, 0, 0]
+  let sum = 0
+  let total = 0
+
+  for (const entry of entries) {
+    if (!entry.mood || entry.date < range.startDate || entry.date > range.endDate) continue
+    const scores = byDate.get(entry.date) ?? []
+    scores.push(entry.mood.score)
+    byDate.set(entry.date, scores)
+    const index = entry.mood.score - 1
+    distribution[index] = (distribution[index] ?? 0) + 1
+    sum += entry.mood.score
+    total += 1
+  }
+
+  const points = listDates(range).map((date) => {
+    const scores = byDate.get(date) ?? []
+    return {
+      date,
+      average: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null,
+      count: scores.length,
+    }
+  })
+
+  return {
+    points,
+    average: total > 0 ? sum / total : null,
+    total,
+    distribution,
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * NDJSON streaming helpers
+ *
+ * 备份文件可能包含数年的照片，读写时按块处理，避免整个文件同时载入内存：
+ * - 写入：累积约 1 MB 文本后转为 Blob，最终由多个 Blob 拼接（浏览器可将大 Blob 存到磁盘）
+ * - 读取：按块切片读取，逐行回调
+ */
+
+import { blobToBytes } from './utils'
+
+/** Text buffered before it is moved into a Blob part */
+const WRITE_FLUSH_SIZE = 1024 * 1024
+/** Bytes read from the file at a time */
+export const READ_CHUNK_SIZE = 1024 * 1024
+
+export interface NdjsonWriter {
+  /** Append one line (including the trailing newline) */
+  write: (line: string) => void
+  /** Build the final Blob */
+  finish: (type: string) => Blob
+}
+
+/**
+ * Create a writer that builds a large text Blob incrementally
+ */
+export function createNdjsonWriter(): NdjsonWriter {
+  const parts: Blob[] = []
+  let buffer: string[] = []
+  let bufferSize = 0
+
+  const flush = () => {
+    if (buffer.length === 0) return
+    parts.push(new Blob(buffer))
+    buffer = []
+    bufferSize = 0
+  }
+
+  return {
+    write(line) {
+      buffer.push(line)
+      bufferSize += line.length
+      if (bufferSize >= WRITE_FLUSH_SIZE) flush()
+    },
+    finish(type) {
+      flush()
+      return new Blob(parts, { type })
+    },
+  }
+}
+
+export interface ReadLinesOptions {
+  chunkSize?: number
+  /** Called after each chunk with the fraction of the file read (0-1) */
+  onProgress?: (progress: number) => void
+  /**
+   * Run each file read, e.g. with `Dexie.waitFor` so an open transaction stays alive
+   */
+  waitFor?: <T>(read: () => Promise<T>) => Promise<T>
+}
+
+/**
+ * Read a text Blob line by line without loading it all into memory
+ * 空行会被跳过
+ */
+export async function readLines(
+  blob: Blob,
+  onLine: (line: string) => void | Promise<void>,
+  { chunkSize = READ_CHUNK_SIZE, onProgress, waitFor }: ReadLinesOptions = {},
+): Promise<void> {
+  const decoder = new TextDecoder()
+  let pending = ''
+
+  for (let offset = 0; offset < blob.size; offset += chunkSize) {
+    const read = () => blobToBytes(blob.slice(offset, offset + chunkSize))
+    const bytes = await (waitFor ? waitFor(read) : read())
+    const lines = (pending + decoder.decode(bytes, { stream: true })).split('\n')
+    pending = lines.pop() ?? ''
+    for (const line of lines) {
+      if (line.trim()) await onLine(line)
+    }
+    onProgress?.(Math.min(offset + chunkSize, blob.size) / blob.size)
+  }
+
+  pending += decoder.decode()
+  if (pending.trim()) await onLine(pending)
+}
+
+/**
+ * Read the beginning of a Blob as text (used to detect the file format)
+ */
+export async function readTextHead(blob: Blob, length = 256): Promise<string> {
+  return new TextDecoder().decode(await blobToBytes(blob.slice(0, length)))
+}
@@ -1,9 +1,95 @@
+import { decryptContent, decryptEntries, encryptContent } from '@/lib/dataEncryption'
 import { db } from '@/lib/db'
+import { isMoodScore } from '@/lib/mood'
+import {
+  buildIndexRecord,
+  clearIndexRecords,
+  deleteIndexRecords,
+  putIndexRecords,
+  rankEntries,
+} from '@/lib/searchIndex'
+import {
+  containsPhrase,
+  getDateBounds,
+  isEmptyQuery,
+  matchesFilter,
+  parseSearchQuery,
+  type SearchFilter,
+  type SearchTerm,
+} from '@/lib/searchQuery'
+import { extractTags, normalizeTag } from '@/lib/tags'
 import { generateId } from '@/lib/utils'
-import type { CreateEntryInput, DateRangeQuery, DiaryEntry, UpdateEntryInput } from '@/types'
+import type {
+  CreateEntryInput,
+  DateRangeQuery,
+  DiaryEntry,
+  Mood,
+  StoredEntry,
+  TagCount,
+  UpdateEntryInput,
+} from '@/types'
+import { revisionsRepository } from './revisions'
 
-const MAX_CONTENT_LENGTH = 10000
-const MAX_IMAGE_IDS = 3
+/** Maximum content length of an entry, in characters */
+export const MAX_CONTENT_LENGTH = 10000
+/** Maximum number of images attached to an entry */
+export const MAX_IMAGE_IDS = 3
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Whether an entry is active (not in the trash)
+ */
+function isActive(entry: DiaryEntry): boolean {
+  return entry.deletedAt === undefined
+}
+
+/**
+ * Permanently remove entries with their images and revisions
+ */
+async function purgeEntries(ids: string[]): Promise<number> {
+  if (ids.length === 0) return 0
+  await db.transaction(
+    'rw',
+    [db.entries, db.images, db.revisions, db.searchIndex, db.settings],
+    async () => {
+      await db.images.where('entryId').anyOf(ids).delete()
+      await db.revisions.where('entryId').anyOf(ids).delete()
+      await deleteIndexRecords(ids)
+      await db.entries.bulkDelete(ids)
+    },
+  )
+  return ids.length
+}
+
+function intersect(ids: Set<string> | null, next: Iterable<string>): Set<string> {
+  const result = new Set(next)
+  if (ids === null) return result
+  return new Set(Array.from(result).filter((id) => ids.has(id)))
+}
+
+/**
+ * IDs allowed by the tag and date filters, looked up through Dexie indexes
+ * @returns null when no filter can use an index
+ */
+async function getIndexedFilterIds(filters: SearchFilter[]): Promise<Set<string> | null> {
+  let ids: Set<string> | null = null
+  for (const filter of filters) {
+    if (filter.type === 'tag' && !filter.negated) {
+      ids = intersect(ids, await db.entries.where('tags').equals(filter.tag).primaryKeys())
+    }
+  }
+
+  const { from, until } = getDateBounds(filters)
+  if (from !== undefined || until !== undefined) {
+    if (from !== undefined && until !== undefined && from >= until) return new Set()
+    const keys = await db.entries
+      .where('date')
+      .between(from ?? '', until ?? '\uffff', true, false)
+      .primaryKeys()
+    ids = intersect(ids, keys)
+  }
+  return ids
+}
 
 /**
  * Validate entry content
@@ -33,6 +119,100 @@ function validateDate(date: string): void {
   }
 }
 
+/**
+ * Validate mood (5-point score, optional single emoji)
+ */
+function validateMood(mood: Mood): void {
+  if (!isMoodScore(mood.score)) {
+    throw new Error('Mood score must be an integer between 1 and 5')
+  }
+  if (mood.emoji !== undefined && (mood.emoji.length === 0 || mood.emoji.length > 16)) {
+    throw new Error('Mood emoji must be a single emoji')
+  }
+}
+
+/**
+ * Problems found when checking a complete entry record
+ */
+export type EntryIssue =
+  | 'invalidId'
+  | 'invalidDate'
+  | 'invalidContent'
+  | 'contentTooLong'
+  | 'invalidImageIds'
+  | 'tooManyImages'
+  | 'invalidTimestamps'
+  | 'invalidTags'
+  | 'invalidMood'
+  | 'invalidPrivate'
+
+function passes(validate: () => void): boolean {
+  try {
+    validate()
+    return true
+  } catch {
+    return false
+  }
+}
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+/**
+ * Check an entry record from outside the app (e.g. a backup) against the repository rules
+ * 旧版本备份没有 tags 字段，缺失时不算错误
+ * @returns Problems found, empty if the record can be stored as-is
+ */
+export function getEntryIssues(value: unknown): EntryIssue[] {
+  if (typeof value !== 'object' || value === null) return ['invalidId']
+  const entry = value as Record<string, unknown>
+  const issues: EntryIssue[] = []
+
+  if (typeof entry.id !== 'string' || entry.id === '') {
+    issues.push('invalidId')
+  }
+  if (typeof entry.date !== 'string' || !passes(() => validateDate(entry.date as string))) {
+    issues.push('invalidDate')
+  }
+  if (typeof entry.content !== 'string') {
+    issues.push('invalidContent')
+  } else if (!passes(() => validateContent(entry.content as string))) {
+    issues.push('contentTooLong')
+  }
+  if (!Array.isArray(entry.imageIds) || !entry.imageIds.every((id) => typeof id === 'string')) {
+    issues.push('invalidImageIds')
+  } else if (!passes(() => validateImageIds(entry.imageIds as string[]))) {
+    issues.push('tooManyImages')
+  }
+  if (
+    !isTimestamp(entry.createdAt) ||
+    !isTimestamp(entry.updatedAt) ||
+    (entry.deletedAt !== undefined && !isTimestamp(entry.deletedAt))
+  ) {
+    issues.push('invalidTimestamps')
+  }
+  if (
+    entry.tags !== undefined &&
+    (!Array.isArray(entry.tags) || !entry.tags.every((tag) => typeof tag === 'string'))
+  ) {
+    issues.push('invalidTags')
+  }
+  if (
+    entry.mood !== undefined &&
+    (typeof entry.mood !== 'object' ||
+      entry.mood === null ||
+      !passes(() => validateMood(entry.mood as Mood)))
+  ) {
+    issues.push('invalidMood')
+  }
+  if (entry.private !== undefined && typeof entry.private !== 'boolean') {
+    issues.push('invalidPrivate')
+  }
+
+  return issues
+}
+
 /**
  * Entries Repository
  * Handles all diary entry CRUD operations
@@ -42,7 +222,8 @@ export const entriesRepository = {
    * Get a single entry by ID
    */
   async getById(id: string): Promise<DiaryEntry | undefined> {
-    return db.entries.get(id)
+    const entry = await db.entries.get(id)
+    return entry && decryptContent(entry)
   },
 
   /**
@@ -50,50 +231,107 @@ export const entriesRepository = {
    * @param order - 'asc' for oldest first, 'desc' for newest first (default)
    */
   async getByDate(date: string, order: 'asc' | 'desc' = 'desc'): Promise<DiaryEntry[]> {
-    const collection = db.entries.where('date').equals(date)
+    const collection = db.entries.where('date').equals(date).filter(isActive)
     if (order === 'desc') {
-      return collection.reverse().sortBy('createdAt')
+      return decryptEntries(await collection.reverse().sortBy('createdAt'))
     }
-    return collection.sortBy('createdAt')
+    return decryptEntries(await collection.sortBy('createdAt'))
   },
 
   /**
    * Get entries within a date range
    */
   async getByDateRange(query: DateRangeQuery): Promise<DiaryEntry[]> {
-    return db.entries
+    const entries = await db.entries
       .where('date')
       .between(query.startDate, query.endDate, true, true)
+      .filter(isActive)
       .sortBy('date')
+    return decryptEntries(entries)
   },
 
   /**
    * Get all entries, sorted by date descending
    */
   async getAll(): Promise<DiaryEntry[]> {
-    return db.entries.orderBy('date').reverse().toArray()
+    return decryptEntries(await db.entries.orderBy('date').reverse().filter(isActive).toArray())
   },
 
   /**
    * Get entries with pagination
    */
   async getPaginated(limit: number, offset = 0): Promise<DiaryEntry[]> {
-    return db.entries.orderBy('date').reverse().offset(offset).limit(limit).toArray()
+    const entries = await db.entries
+      .orderBy('date')
+      .reverse()
+      .filter(isActive)
+      .offset(offset)
+      .limit(limit)
+      .toArray()
+    return decryptEntries(entries)
   },
 
   /**
    * Get total count of entries
    */
   async count(): Promise<number> {
-    return db.entries.count()
+    return db.entries.filter(isActive).count()
+  },
+
+  /**
+   * Count entries created, edited or moved to the trash after a timestamp
+   */
+  async countChangedSince(timestamp: number): Promise<number> {
+    // 走 updatedAt 和 deletedAt 索引，不扫描整张表
+    const [updated, deleted] = await Promise.all([
+      db.entries.where('updatedAt').above(timestamp).primaryKeys(),
+      db.entries.where('deletedAt').above(timestamp).primaryKeys(),
+    ])
+    return new Set([...updated, ...deleted]).size
+  },
+
+  /**
+   * Get the creation time of the oldest entry (null if there are none)
+   */
+  async getFirstCreatedAt(): Promise<number | null> {
+    const entry = await db.entries.orderBy('createdAt').first()
+    return entry?.createdAt ?? null
   },
 
   /**
    * Get distinct dates that have entries
    */
   async getDistinctDates(): Promise<string[]> {
-    const entries = await db.entries.orderBy('date').uniqueKeys()
-    return entries as string[]
+    // uniqueKeys() would skip the filter, so dedupe the sorted keys instead
+    const dates = (await db.entries.orderBy('date').filter(isActive).keys()) as string[]
+    return Array.from(new Set(dates))
+  },
+
+  /**
+   * Get all entries with a tag, sorted by date descending
+   */
+  async getByTag(tag: string): Promise<DiaryEntry[]> {
+    const entries = await db.entries
+      .where('tags')
+      .equals(normalizeTag(tag))
+      .filter(isActive)
+      .sortBy('createdAt')
+    return decryptEntries(entries.reverse().sort((a, b) => b.date.localeCompare(a.date)))
+  },
+
+  /**
+   * Get all tags with usage counts, most used first
+   */
+  async getAllTags(): Promise<TagCount[]> {
+    // Multi-entry index: one key per (entry, tag) pair
+    const keys = (await db.entries.orderBy('tags').filter(isActive).keys()) as string[]
+    const counts = new Map<string, number>()
+    for (const tag of keys) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1)
+    }
+    return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+      (a, b) => b.count - a.count || a.tag.localeCompare(b.tag),
+    )
   },
 
   /**
@@ -106,6 +344,10 @@ export const entriesRepository = {
     const imageIds = input.imageIds ?? []
     validateImageIds(imageIds)
 
+    if (input.mood) {
+      validateMood(input.mood)
+    }
+
     const now = Date.now()
     const entry: DiaryEntry = {
       id: generateId(),
@@ -114,9 +356,19 @@ export const entriesRepository = {
       createdAt: now,
       updatedAt: now,
       imageIds,
+      tags: extractTags(input.content),
+      ...(input.mood && { mood: input.mood }),
+      ...(input.private && { private: true }),
     }
 
-    await db.entries.add(entry)
+    const [record, indexRecord] = await Promise.all([
+      encryptContent(entry),
+      buildIndexRecord(entry),
+    ])
+    await db.transaction('rw', [db.entries, db.searchIndex, db.settings], async () => {
+      await db.entries.add(record)
+      await putIndexRecords([indexRecord])
+    })
     return entry
   },
 
@@ -124,10 +376,11 @@ export const entriesRepository = {
    * Update an existing entry
    */
   async update(input: UpdateEntryInput): Promise<DiaryEntry> {
-    const existing = await db.entries.get(input.id)
-    if (!existing) {
+    const stored = await db.entries.get(input.id)
+    if (!stored) {
       throw new Error(`Entry with id ${input.id} not found`)
     }
+    const existing = await decryptContent(stored)
 
     if (input.content !== undefined) {
       validateContent(input.content)
@@ -141,37 +394,185 @@ export const entriesRepository = {
       validateImageIds(input.imageIds)
     }
 
+    if (input.mood) {
+      validateMood(input.mood)
+    }
+
     const updated: DiaryEntry = {
       ...existing,
-      ...(input.content !== undefined && { content: input.content }),
+      ...(input.content !== undefined && {
+        content: input.content,
+        tags: extractTags(input.content),
+      }),
       ...(input.date !== undefined && { date: input.date }),
       ...(input.imageIds !== undefined && { imageIds: input.imageIds }),
+      ...(input.mood && { mood: input.mood }),
+      ...(input.private && { private: true }),
       updatedAt: Date.now(),
     }
 
-    await db.entries.put(updated)
+    // null clears the mood
+    if (input.mood === null) {
+      delete updated.mood
+    }
+    if (input.private === false) {
+      delete updated.private
+    }
+
+    const contentChanged = input.content !== undefined && input.content !== existing.content
+    const [record, indexRecord] = await Promise.all([
+      encryptContent(updated),
+      contentChanged ? buildIndexRecord(updated) : undefined,
+    ])
+    await db.transaction(
+      'rw',
+      [db.entries, db.revisions, db.searchIndex, db.settings],
+      async () => {
+        // Snapshot the previous content so it can be restored from history
+        if (contentChanged) {
+          await revisionsRepository.create({
+            entryId: existing.id,
+            content: existing.content,
+            updatedAt: existing.updatedAt,
+          })
+        }
+        await db.entries.put(record)
+        if (indexRecord) {
+          await putIndexRecords([indexRecord])
+        }
+      },
+    )
     return updated
   },
 
   /**
-   * Delete an entry by ID
+   * Move an entry to the trash (soft delete)
+   * Images are kept until the entry is permanently deleted
    */
   async delete(id: string): Promise<void> {
-    await db.entries.delete(id)
+    await db.entries.update(id, { deletedAt: Date.now() })
+  },
+
+  /**
+   * Restore an entry from the trash
+   */
+  async restore(id: string): Promise<DiaryEntry> {
+    const existing = await db.entries.get(id)
+    if (!existing) {
+      throw new Error(`Entry with id ${id} not found`)
+    }
+
+    const restored = { ...existing }
+    delete restored.deletedAt
+    await db.entries.put(restored)
+    return decryptContent(restored)
+  },
+
+  /**
+   * Get entries in the trash, most recently deleted first
+   */
+  async getTrashed(): Promise<DiaryEntry[]> {
+    return decryptEntries(await db.entries.where('deletedAt').above(0).reverse().toArray())
+  },
+
+  /**
+   * Permanently delete an entry with its images and revisions
+   */
+  async deletePermanently(id: string): Promise<void> {
+    await purgeEntries([id])
+  },
+
+  /**
+   * Permanently delete every entry in the trash
+   * @returns Number of purged entries
+   */
+  async emptyTrash(): Promise<number> {
+    const ids = await db.entries.where('deletedAt').above(0).primaryKeys()
+    return purgeEntries(ids)
+  },
+
+  /**
+   * Permanently delete entries that have been in the trash longer than retentionDays
+   * @returns Number of purged entries
+   */
+  async purgeExpired(retentionDays: number, now = Date.now()): Promise<number> {
+    const cutoff = now - retentionDays * DAY_MS
+    const ids = await db.entries.where('deletedAt').between(0, cutoff, false, true).primaryKeys()
+    return purgeEntries(ids)
   },
 
   /**
    * Delete all entries (for testing or reset)
    */
   async deleteAll(): Promise<void> {
-    await db.entries.clear()
+    await db.transaction('rw', [db.entries, db.searchIndex, db.settings], async () => {
+      await db.entries.clear()
+      await clearIndexRecords()
+    })
   },
 
   /**
-   * Search entries by content (simple text search)
+   * Search entries with the query language of lib/searchQuery, most relevant first
+   *
+   * 标签和日期条件通过 Dexie 索引缩小范围，文字通过全文索引（lib/searchIndex）匹配，
+   * 其余条件读取记录后过滤，短语在解密后核对原文。只有筛选条件时按日期从新到旧排列。
    */
-  async search(query: string): Promise<DiaryEntry[]> {
-    const lowerQuery = query.toLowerCase()
-    return db.entries.filter((entry) => entry.content.toLowerCase().includes(lowerQuery)).toArray()
+  async search(input: string): Promise<DiaryEntry[]> {
+    const query = parseSearchQuery(input)
+    if (isEmptyQuery(query)) return []
+
+    let ids = await getIndexedFilterIds(query.filters)
+    const scores = new Map<string, number>()
+    const termMatches = new Map<SearchTerm, Set<string>>()
+    for (const clause of query.clauses) {
+      const clauseScores = new Map<string, number>()
+      for (const term of clause) {
+        const hits = await rankEntries(term.text, term.prefix)
+        termMatches.set(term, new Set(hits.map((hit) => hit.entryId)))
+        for (const { entryId, score } of hits) {
+          clauseScores.set(entryId, Math.max(clauseScores.get(entryId) ?? 0, score))
+        }
+      }
+      ids = intersect(ids, clauseScores.keys())
+      for (const [entryId, score] of clauseScores) {
+        scores.set(entryId, (scores.get(entryId) ?? 0) + score)
+      }
+    }
+
+    // 排除的词直接按索引排除，排除的短语解密后核对
+    const excludedIds = new Set<string>()
+    for (const term of query.excluded) {
+      if (term.phrase) continue
+      for (const hit of await rankEntries(term.text)) {
+        excludedIds.add(hit.entryId)
+      }
+    }
+
+    const stored =
+      ids === null
+        ? await db.entries.filter(isActive).toArray()
+        : await db.entries.bulkGet(Array.from(ids))
+    const candidates = stored.filter(
+      (entry): entry is StoredEntry =>
+        entry !== undefined &&
+        isActive(entry) &&
+        !excludedIds.has(entry.id) &&
+        query.filters.every((filter) => matchesFilter(entry, filter)),
+    )
+    const matchesTerm = (entry: DiaryEntry, term: SearchTerm) =>
+      (termMatches.get(term)?.has(entry.id) ?? false) &&
+      (!term.phrase || containsPhrase(entry.content, term.text))
+    const entries = (await decryptEntries(candidates)).filter(
+      (entry) =>
+        query.clauses.every((clause) => clause.some((term) => matchesTerm(entry, term))) &&
+        query.excluded.every((term) => !term.phrase || !containsPhrase(entry.content, term.text)),
+    )
+
+    return entries.sort(
+      (a, b) =>
+        (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0) ||
+        b.date.localeCompare(a.date) ||
+        b.createdAt - a.createdAt,
+    )
   },
 }
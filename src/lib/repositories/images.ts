@@ -1,3 +1,4 @@
+import { decryptImage, decryptImages, encryptImage } from '@/lib/dataEncryption'
 import { db } from '@/lib/db'
 import { generateId } from '@/lib/utils'
 import type { CreateImageInput, ImageRecord } from '@/types'
@@ -11,21 +12,22 @@ export const imagesRepository = {
    * Get a single image by ID
    */
   async getById(id: string): Promise<ImageRecord | undefined> {
-    return db.images.get(id)
+    const image = await db.images.get(id)
+    return image && decryptImage(image)
   },
 
   /**
    * Get all images for a specific entry
    */
   async getByEntryId(entryId: string): Promise<ImageRecord[]> {
-    return db.images.where('entryId').equals(entryId).sortBy('createdAt')
+    return decryptImages(await db.images.where('entryId').equals(entryId).sortBy('createdAt'))
   },
 
   /**
    * Get multiple images by IDs
    */
   async getByIds(ids: string[]): Promise<ImageRecord[]> {
-    return db.images.where('id').anyOf(ids).toArray()
+    return decryptImages(await db.images.where('id').anyOf(ids).toArray())
   },
 
   /**
@@ -47,7 +49,7 @@ export const imagesRepository = {
       createdAt: Date.now(),
     }
 
-    await db.images.add(image)
+    await db.images.add(await encryptImage(image))
     return image
   },
 
@@ -64,10 +66,17 @@ export const imagesRepository = {
       createdAt: now + index, // Ensure unique timestamps for ordering
     }))
 
-    await db.images.bulkAdd(images)
+    await db.images.bulkAdd(await Promise.all(images.map(encryptImage)))
     return images
   },
 
+  /**
+   * Replace an existing image record (e.g. after shrinking its blob)
+   */
+  async update(image: ImageRecord): Promise<void> {
+    await db.images.put(await encryptImage(image))
+  },
+
   /**
    * Delete an image by ID
    */
@@ -99,16 +108,18 @@ export const imagesRepository = {
   /**
    * Get oldest images (for cleanup when quota exceeded)
    */
-  async getOldest(limit: number): Promise<ImageRecord[]> {
-    return db.images.orderBy('createdAt').limit(limit).toArray()
+  async getOldest(limit: number, offset = 0): Promise<ImageRecord[]> {
+    return decryptImages(await db.images.orderBy('createdAt').offset(offset).limit(limit).toArray())
   },
 
   /**
    * Calculate total storage size (approximate)
+   * @param ids - Only count these images (all images when omitted)
    */
-  async getTotalSize(): Promise<number> {
+  async getTotalSize(ids?: string[]): Promise<number> {
     let totalSize = 0
-    await db.images.each((image) => {
+    const images = ids ? db.images.where('id').anyOf(ids) : db.images.toCollection()
+    await images.each((image) => {
       // Handle both Blob and serialized Blob (from fake-indexeddb)
       const blobSize = image.blob?.size ?? 0
       const thumbnailSize = image.thumbnail?.size ?? 0
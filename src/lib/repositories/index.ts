@@ -1,2 +1,10 @@
-export { entriesRepository } from './entries'
+export {
+  type EntryIssue,
+  entriesRepository,
+  getEntryIssues,
+  MAX_CONTENT_LENGTH,
+  MAX_IMAGE_IDS,
+} from './entries'
 export { imagesRepository } from './images'
+export { MAX_REVISIONS_PER_ENTRY, revisionsRepository } from './revisions'
+export { settingsRepository } from './settings'
@@ -0,0 +1,77 @@
+import Dexie from 'dexie'
+import { decryptContent, encryptContent } from '@/lib/dataEncryption'
+import { db } from '@/lib/db'
+import { generateId } from '@/lib/utils'
+import type { CreateRevisionInput, EntryRevision } from '@/types'
+
+/** Maximum number of revisions kept per entry, oldest are dropped first */
+export const MAX_REVISIONS_PER_ENTRY = 20
+
+/**
+ * Revisions Repository
+ * Stores content snapshots taken before an entry is overwritten
+ */
+export const revisionsRepository = {
+  /**
+   * Get a single revision by ID
+   */
+  async getById(id: string): Promise<EntryRevision | undefined> {
+    const revision = await db.revisions.get(id)
+    return revision && decryptContent(revision)
+  },
+
+  /**
+   * Get all revisions for an entry, newest first
+   */
+  async getByEntryId(entryId: string): Promise<EntryRevision[]> {
+    const revisions = await db.revisions
+      .where('[entryId+updatedAt]')
+      .between([entryId, Dexie.minKey], [entryId, Dexie.maxKey])
+      .reverse()
+      .toArray()
+    return Promise.all(revisions.map(decryptContent))
+  },
+
+  /**
+   * Create a revision and drop the oldest ones beyond the per-entry cap
+   */
+  async create(input: CreateRevisionInput): Promise<EntryRevision> {
+    const revision: EntryRevision = {
+      id: generateId(),
+      entryId: input.entryId,
+      content: input.content,
+      updatedAt: input.updatedAt,
+    }
+
+    const record = await encryptContent(revision)
+    await db.transaction('rw', db.revisions, async () => {
+      await db.revisions.add(record)
+
+      const count = await db.revisions.where('entryId').equals(input.entryId).count()
+      if (count > MAX_REVISIONS_PER_ENTRY) {
+        const oldest = await db.revisions
+          .where('[entryId+updatedAt]')
+          .between([input.entryId, Dexie.minKey], [input.entryId, Dexie.maxKey])
+          .limit(count - MAX_REVISIONS_PER_ENTRY)
+          .primaryKeys()
+        await db.revisions.bulkDelete(oldest)
+      }
+    })
+
+    return revision
+  },
+
+  /**
+   * Delete all revisions for a specific entry
+   */
+  async deleteByEntryId(entryId: string): Promise<void> {
+    await db.revisions.where('entryId').equals(entryId).delete()
+  },
+
+  /**
+   * Delete all revisions (for testing or reset)
+   */
+  async deleteAll(): Promise<void> {
+    await db.revisions.clear()
+  },
+}
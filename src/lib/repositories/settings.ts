@@ -0,0 +1,113 @@
+import { db } from '@/lib/db'
+import {
+  clearLegacySettings,
+  DEFAULT_SETTINGS,
+  DEVICE_SETTING_KEYS,
+  isSettingKey,
+  isValidSetting,
+  readLegacySettings,
+  SETTING_KEYS,
+} from '@/lib/settings'
+import type { AppSettings, SettingKey, SettingRecord } from '@/types'
+
+/** Settings written by exportSettings and restored by importSettings */
+const IMPORTABLE_SETTING_KEYS: SettingKey[] = SETTING_KEYS.filter(
+  (key) => !DEVICE_SETTING_KEYS.includes(key),
+)
+
+/**
+ * Settings Repository
+ * Typed access to the settings table with defaults and validation
+ */
+export const settingsRepository = {
+  /**
+   * Get a setting, falling back to its default when missing or invalid
+   */
+  async get<K extends SettingKey>(key: K): Promise<AppSettings[K]> {
+    const record = await db.settings.get(key)
+    const value = record && 'value' in record ? record.value : undefined
+    return isValidSetting(key, value) ? value : DEFAULT_SETTINGS[key]
+  },
+
+  /**
+   * Get every setting
+   */
+  async getAll(): Promise<AppSettings> {
+    const records = await db.settings.bulkGet(SETTING_KEYS)
+    const result: Record<string, unknown> = { ...DEFAULT_SETTINGS }
+    for (const record of records) {
+      if (!record || !('value' in record) || !isSettingKey(record.key)) continue
+      if (isValidSetting(record.key, record.value)) {
+        result[record.key] = record.value
+      }
+    }
+    return result as unknown as AppSettings
+  },
+
+  /**
+   * Save a setting
+   * @throws Error if the value does not match the setting schema
+   */
+  async set<K extends SettingKey>(key: K, value: AppSettings[K]): Promise<void> {
+    if (!isValidSetting(key, value)) {
+      throw new Error(`Invalid value for setting "${key}"`)
+    }
+    const record: SettingRecord<K> = { key, value, updatedAt: Date.now() }
+    await db.settings.put(record as SettingRecord)
+  },
+
+  /**
+   * Get the settings written to backups (device settings such as the app lock are left out)
+   */
+  async exportSettings(): Promise<Partial<AppSettings>> {
+    const settings = await this.getAll()
+    return Object.fromEntries(
+      IMPORTABLE_SETTING_KEYS.map((key) => [key, settings[key]]),
+    ) as Partial<AppSettings>
+  },
+
+  /**
+   * Restore settings from a backup, ignoring unknown keys and invalid values
+   * @returns Number of settings written
+   */
+  async importSettings(values: unknown): Promise<number> {
+    if (typeof values !== 'object' || values === null) return 0
+    const source = values as Record<string, unknown>
+    const now = Date.now()
+    const records = IMPORTABLE_SETTING_KEYS.filter((key) => isValidSetting(key, source[key])).map(
+      (key) => ({ key, value: source[key], updatedAt: now }) as SettingRecord,
+    )
+
+    await db.settings.bulkPut(records)
+    return records.length
+  },
+
+  /**
+   * Move settings from localStorage into IndexedDB
+   *
+   * Values already in IndexedDB win; legacy keys are removed afterwards,
+   * so this is a no-op on later launches.
+   * @returns Number of settings migrated
+   */
+  async migrateLegacySettings(): Promise<number> {
+    const legacy = readLegacySettings()
+    const keys = Object.keys(legacy) as SettingKey[]
+    if (keys.length === 0) {
+      clearLegacySettings()
+      return 0
+    }
+
+    const now = Date.now()
+    const migrated = await db.transaction('rw', db.settings, async () => {
+      const existing = await db.settings.bulkGet(keys)
+      const records = keys
+        .filter((_, index) => !existing[index])
+        .map((key) => ({ key, value: legacy[key], updatedAt: now }) as SettingRecord)
+      await db.settings.bulkAdd(records)
+      return records.length
+    })
+
+    clearLegacySettings()
+    return migrated
+  },
+}
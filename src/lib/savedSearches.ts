@@ -0,0 +1,69 @@
+/**
+ * Saved searches
+ *
+ * 常用的搜索（可包含 tag:、date: 等筛选条件，见 ./searchQuery）可以命名保存，
+ * 存储在 settings 表（savedSearches），在搜索页和侧边栏中一键打开，随备份导出。
+ */
+
+import type { SavedSearch } from '@/types'
+import { generateId } from './utils'
+
+/** Maximum number of saved searches */
+export const MAX_SAVED_SEARCHES = 20
+/** Maximum length of a saved search name, in characters */
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 40
+/** Maximum length of a saved query, in characters */
+export const MAX_SAVED_SEARCH_QUERY_LENGTH = 200
+
+function isSavedSearch(value: unknown): value is SavedSearch {
+  if (typeof value !== 'object' || value === null) return false
+  const search = value as Record<string, unknown>
+  return (
+    typeof search.id === 'string' &&
+    typeof search.name === 'string' &&
+    search.name.trim() !== '' &&
+    search.name.length <= MAX_SAVED_SEARCH_NAME_LENGTH &&
+    typeof search.query === 'string' &&
+    search.query.trim() !== '' &&
+    search.query.length <= MAX_SAVED_SEARCH_QUERY_LENGTH &&
+    typeof search.createdAt === 'number' &&
+    Number.isFinite(search.createdAt)
+  )
+}
+
+/**
+ * Check whether a value is a valid list of saved searches
+ */
+export function isSavedSearchList(value: unknown): value is SavedSearch[] {
+  return Array.isArray(value) && value.length <= MAX_SAVED_SEARCHES && value.every(isSavedSearch)
+}
+
+/**
+ * Find the saved search for a query (ignoring surrounding whitespace)
+ */
+export function findSavedSearch(list: SavedSearch[], query: string): SavedSearch | undefined {
+  const trimmed = query.trim()
+  return list.find((search) => search.query === trimmed)
+}
+
+/**
+ * Save a query under a name, newest first
+ * 同一查询已保存时改名并移到最前；已满时返回 null
+ */
+export function addSavedSearch(
+  list: SavedSearch[],
+  name: string,
+  query: string,
+  now = Date.now(),
+): SavedSearch[] | null {
+  const existing = findSavedSearch(list, query)
+  if (!existing && list.length >= MAX_SAVED_SEARCHES) return null
+
+  const search: SavedSearch = {
+    id: existing?.id ?? generateId(),
+    name: name.trim().slice(0, MAX_SAVED_SEARCH_NAME_LENGTH),
+    query: query.trim().slice(0, MAX_SAVED_SEARCH_QUERY_LENGTH),
+    createdAt: existing?.createdAt ?? now,
+  }
+  return [search, ...list.filter((item) => item.id !== search.id)]
+}
@@ -0,0 +1,273 @@
+/**
+ * Full-text search index
+ *
+ * searchIndex 表为每篇日记保存一条记录：分词后的词（*terms 多值索引）和词频。
+ * 搜索时按索引取出包含全部查询词的日记，再用 BM25 排序，不需要解密和扫描全部日记。
+ * - entriesRepository 在创建、修改和彻底删除日记时同步更新索引；导入后整体重建
+ * - 索引状态记录中保存日记数和总词数，BM25 按全部日记的平均长度归一化
+ * - 开启加密时词以 HMAC 保存（见 dataEncryption.hashSearchTerms），加密状态变化后重建
+ * - 分词规则（./tokenizer）或索引格式变化时提高 SEARCH_INDEX_VERSION，下次搜索时自动重建
+ * - 回收站中的日记也保留索引，恢复后无需重建
+ */
+
+import type { DiaryEntry, SearchIndexRecord, SearchIndexStateRecord } from '@/types'
+import { assertDataUnlocked, decryptEntries, hasDataKey, hashSearchTerms } from './dataEncryption'
+import { db } from './db'
+import {
+  getTypedStems,
+  isCjkTerm,
+  normalizeText,
+  stemRoot,
+  tokenize,
+  tokenizeQuery,
+  WORD_PATTERN,
+} from './tokenizer'
+
+/** Bump when tokenization or the record format changes so existing indexes are rebuilt */
+export const SEARCH_INDEX_VERSION = 2
+/** Settings key under which the index state is recorded */
+export const SEARCH_INDEX_STATE_KEY = 'searchIndex'
+
+/** Entries indexed per page while rebuilding */
+const REBUILD_PAGE_SIZE = 200
+/** BM25 parameters: term frequency saturation and length normalization */
+const K1 = 1.2
+const B = 0.75
+/** Words that only start with the word being typed count less than the word itself */
+const PREFIX_MATCH_WEIGHT = 0.5
+
+export interface SearchHit {
+  entryId: string
+  /** BM25 relevance, higher is better */
+  score: number
+}
+
+/**
+ * Build the index record of an entry
+ * @throws DataLockedError if encryption is on but the key is not unlocked
+ */
+export async function buildIndexRecord(
+  entry: Pick<DiaryEntry, 'id' | 'content'>,
+): Promise<SearchIndexRecord> {
+  const tokens = tokenize(entry.content)
+  const counts = new Map<string, number>()
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1)
+  }
+  const terms = Array.from(counts.keys())
+
+  return {
+    entryId: entry.id,
+    terms: await hashSearchTerms(terms),
+    frequencies: terms.map((term) => counts.get(term) ?? 0),
+    length: tokens.length,
+  }
+}
+
+// ============================================
+// Writes
+// ============================================
+
+function getState(): Promise<SearchIndexStateRecord | undefined> {
+  return db.settings.get(SEARCH_INDEX_STATE_KEY) as Promise<SearchIndexStateRecord | undefined>
+}
+
+/**
+ * Add the change in entry count and length to the index state (not yet built: left to the rebuild)
+ */
+async function updateStats(countDelta: number, lengthDelta: number): Promise<void> {
+  const state = await getState()
+  if (!state) return
+  await db.settings.put({
+    ...state,
+    count: state.count + countDelta,
+    totalLength: state.totalLength + lengthDelta,
+  })
+}
+
+/**
+ * Add or replace index records
+ * 需在包含 searchIndex 和 settings 的事务中调用，与日记的写入一起提交
+ */
+export async function putIndexRecords(records: SearchIndexRecord[]): Promise<void> {
+  const previous = await db.searchIndex.bulkGet(records.map((record) => record.entryId))
+  let countDelta = 0
+  let lengthDelta = 0
+  records.forEach((record, index) => {
+    const old = previous[index]
+    countDelta += old ? 0 : 1
+    lengthDelta += record.length - (old?.length ?? 0)
+  })
+  await db.searchIndex.bulkPut(records)
+  await updateStats(countDelta, lengthDelta)
+}
+
+/**
+ * Remove the index records of entries (call within a transaction over searchIndex and settings)
+ */
+export async function deleteIndexRecords(entryIds: string[]): Promise<void> {
+  const previous = await db.searchIndex.bulkGet(entryIds)
+  const removed = previous.filter((record): record is SearchIndexRecord => record !== undefined)
+  await db.searchIndex.bulkDelete(entryIds)
+  await updateStats(-removed.length, -removed.reduce((sum, record) => sum + record.length, 0))
+}
+
+/**
+ * Remove every index record (call within a transaction over searchIndex and settings)
+ */
+export async function clearIndexRecords(): Promise<void> {
+  await db.searchIndex.clear()
+  const state = await getState()
+  if (state) await db.settings.put({ ...state, count: 0, totalLength: 0 })
+}
+
+// ============================================
+// Rebuild
+// ============================================
+
+let rebuilding: Promise<void> | null = null
+
+/**
+ * 先生成全部索引记录，再在一个事务中替换旧索引：
+ * 解密或写入失败时保留原来的索引和状态，下次仍会重建
+ */
+async function rebuild(): Promise<void> {
+  await assertDataUnlocked()
+
+  const records: SearchIndexRecord[] = []
+  let lastId: string | undefined
+  for (;;) {
+    const collection =
+      lastId === undefined ? db.entries.orderBy('id') : db.entries.where('id').above(lastId)
+    const page = await collection.limit(REBUILD_PAGE_SIZE).toArray()
+    if (page.length === 0) break
+
+    const entries = await decryptEntries(page)
+    records.push(...(await Promise.all(entries.map(buildIndexRecord))))
+    lastId = page[page.length - 1]?.id
+  }
+
+  const state: SearchIndexStateRecord = {
+    key: SEARCH_INDEX_STATE_KEY,
+    version: SEARCH_INDEX_VERSION,
+    keyed: hasDataKey(),
+    count: records.length,
+    totalLength: records.reduce((sum, record) => sum + record.length, 0),
+    builtAt: Date.now(),
+  }
+  await db.transaction('rw', db.searchIndex, db.settings, async () => {
+    await db.searchIndex.clear()
+    await db.searchIndex.bulkPut(records)
+    await db.settings.put(state)
+  })
+}
+
+/**
+ * Rebuild the index from every entry (concurrent calls share one rebuild)
+ * @throws DataLockedError if encryption is on but the key is not unlocked
+ */
+export function rebuildSearchIndex(): Promise<void> {
+  rebuilding ??= rebuild().finally(() => {
+    rebuilding = null
+  })
+  return rebuilding
+}
+
+/**
+ * Rebuild the index if it is missing, outdated or hashed differently from the current encryption state
+ * @throws DataLockedError if encryption is on but the key is not unlocked
+ */
+export async function ensureSearchIndex(): Promise<void> {
+  if (rebuilding) return rebuilding
+  // 锁定时 hasDataKey() 为 false，不能据此把哈希过的索引当成过期
+  await assertDataUnlocked()
+  const state = await getState()
+  if (state?.version === SEARCH_INDEX_VERSION && state.keyed === hasDataKey()) return
+  return rebuildSearchIndex()
+}
+
+// ============================================
+// Query
+// ============================================
+
+interface QueryTerm {
+  /** Indexed terms matched whole */
+  keys: string[]
+  /** Also match indexed terms starting with this (the last word while it is being typed) */
+  prefix: string | null
+}
+
+function termFrequency(record: SearchIndexRecord, { keys, prefix }: QueryTerm): number {
+  let frequency = 0
+  record.terms.forEach((term, index) => {
+    if (keys.includes(term)) {
+      frequency += record.frequencies[index] ?? 0
+    } else if (prefix !== null && term.startsWith(prefix)) {
+      frequency += PREFIX_MATCH_WEIGHT * (record.frequencies[index] ?? 0)
+    }
+  })
+  return frequency
+}
+
+/**
+ * Query term of the last word while it is being typed
+ * 按补全后缀后的词干整词匹配（加密时也可用）；未加密时再按词根前缀匹配，排在整词匹配之后
+ */
+async function getTypedTerm(text: string): Promise<QueryTerm | null> {
+  const word = normalizeText(text).match(WORD_PATTERN)?.at(-1)
+  if (!word || isCjkTerm(word)) return null
+  const keys = await hashSearchTerms(getTypedStems(word.replace(/['’]/g, '')))
+  return { keys, prefix: hasDataKey() ? null : stemRoot(word) }
+}
+
+/**
+ * Find entries containing every term of the text, most relevant first
+ * 结果包括回收站中的日记，由调用方过滤。
+ * @param prefixLast - Also match the last word as the start of a longer word while it is being typed
+ * @throws DataLockedError if encryption is on but the key is not unlocked
+ */
+export async function rankEntries(text: string, prefixLast = false): Promise<SearchHit[]> {
+  const terms = tokenizeQuery(text)
+  if (terms.length === 0) return []
+  await ensureSearchIndex()
+
+  const keys = await hashSearchTerms(terms)
+  const queryTerms: QueryTerm[] = keys.map((key) => ({ keys: [key], prefix: null }))
+  const typed = prefixLast ? await getTypedTerm(text) : null
+  if (typed) {
+    queryTerms[queryTerms.length - 1] = typed
+  }
+
+  // 每个词匹配的日记（多值索引可能返回重复的主键）
+  const matches = await Promise.all(
+    queryTerms.map(async ({ keys, prefix }) => {
+      const [whole, started] = await Promise.all([
+        db.searchIndex.where('terms').anyOf(keys).primaryKeys(),
+        prefix === null ? [] : db.searchIndex.where('terms').startsWith(prefix).primaryKeys(),
+      ])
+      return new Set([...whole, ...started])
+    }),
+  )
+
+  // 从匹配最少的词开始求交集
+  const [rarest, ...others] = [...matches].sort((a, b) => a.size - b.size)
+  const candidates = Array.from(rarest ?? []).filter((id) => others.every((ids) => ids.has(id)))
+  if (candidates.length === 0) return []
+
+  const [state, found] = await Promise.all([getState(), db.searchIndex.bulkGet(candidates)])
+  const records = found.filter((record): record is SearchIndexRecord => record !== undefined)
+  const total = state?.count ?? records.length
+  const averageLength = (state?.totalLength ?? 0) / Math.max(total, 1) || 1
+  const idf = matches.map((ids) => Math.log(1 + (total - ids.size + 0.5) / (ids.size + 0.5)))
+
+  return records
+    .map((record) => {
+      const norm = 1 - B + (B * record.length) / averageLength
+      const score = queryTerms.reduce((sum, term, index) => {
+        const frequency = termFrequency(record, term)
+        return sum + ((idf[index] ?? 0) * frequency * (K1 + 1)) / (frequency + K1 * norm)
+      }, 0)
+      return { entryId: record.entryId, score }
+    })
+    .sort((a, b) => b.score - a.score)
+}
@@ -0,0 +1,396 @@
+/**
+ * Search query language
+ *
+ * 空格分隔的条件需要同时满足，OR 连接的条件满足其一即可（OR 优先于空格），例如 `跑步 晨练 OR 夜跑`。
+ * - "多个 词"：短语，要求原文中连续出现
+ * - -词 / -"短语" / -tag:work：排除
+ * - date:2025-03..2025-06、date:2025、date:2025-03-05..：日期范围（年、月或日，两端包含）
+ * - before:2025-03 / after:2025-03：早于该时段开始 / 晚于该时段结束
+ * - has:image / has:mood / has:tag
+ * - tag:work
+ * - mood:4、mood:>=4、mood:<3
+ *
+ * 无法识别的 key:value 按普通文字搜索。
+ */
+
+import type { DiaryEntry, MoodScore } from '@/types'
+import { isMoodScore } from './mood'
+import { normalizeTag } from './tags'
+import { isCjkTerm, normalizeText, stemRoot, tokenizeQuery, WORD_PATTERN } from './tokenizer'
+
+/** Start and end offsets of a token in the query string */
+export type QuerySpan = readonly [start: number, end: number]
+
+export interface SearchTerm {
+  text: string
+  /** Quoted: the words must appear next to each other */
+  phrase: boolean
+  /** Last word still being typed, matched as a prefix */
+  prefix: boolean
+}
+
+export interface ExcludedTerm extends SearchTerm {
+  span: QuerySpan
+}
+
+export type MoodOperator = '=' | '>' | '>=' | '<' | '<='
+export type HasFilterValue = 'image' | 'mood' | 'tag'
+
+/**
+ * A filter condition, without its position in the query
+ */
+export type SearchFilterBody =
+  | {
+      type: 'date'
+      /** Value as typed, e.g. 2025-03..2025-06 */
+      value: string
+      /** First day included (YYYY-MM-DD) */
+      from?: string
+      /** First day no longer included (YYYY-MM-DD) */
+      until?: string
+    }
+  | { type: 'before'; value: string; until: string }
+  | { type: 'after'; value: string; from: string }
+  | { type: 'has'; value: HasFilterValue }
+  | { type: 'tag'; tag: string }
+  | { type: 'mood'; operator: MoodOperator; score: MoodScore }
+
+export type SearchFilter = SearchFilterBody & {
+  negated: boolean
+  span: QuerySpan
+}
+
+export interface SearchQuery {
+  /** Every clause must match; a clause matches when any of its terms does */
+  clauses: SearchTerm[][]
+  excluded: ExcludedTerm[]
+  filters: SearchFilter[]
+}
+
+// ============================================
+// Dates
+// ============================================
+
+const PERIOD_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0')
+}
+
+function formatUtcDate(date: Date): string {
+  return `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+}
+
+/**
+ * A year, month or day as a half-open date range
+ */
+function parsePeriod(value: string): { from: string; until: string } | null {
+  const match = PERIOD_PATTERN.exec(value)
+  if (!match) return null
+  const year = Number(match[1])
+  const month = match[2] === undefined ? undefined : Number(match[2])
+  const day = match[3] === undefined ? undefined : Number(match[3])
+
+  const start = new Date(Date.UTC(year, (month ?? 1) - 1, day ?? 1))
+  if (start.getUTCFullYear() !== year) return null
+  if (month !== undefined && start.getUTCMonth() !== month - 1) return null
+  if (day !== undefined && start.getUTCDate() !== day) return null
+
+  const end = new Date(start)
+  if (day !== undefined) {
+    end.setUTCDate(end.getUTCDate() + 1)
+  } else if (month !== undefined) {
+    end.setUTCMonth(end.getUTCMonth() + 1)
+  } else {
+    end.setUTCFullYear(end.getUTCFullYear() + 1)
+  }
+  return { from: formatUtcDate(start), until: formatUtcDate(end) }
+}
+
+/**
+ * Bounds of a date: filter value (a period, or a range of periods with either end left open)
+ */
+function parseDateRange(value: string): { from?: string; until?: string } | null {
+  const separator = value.indexOf('..')
+  if (separator === -1) return parsePeriod(value)
+
+  const startValue = value.slice(0, separator)
+  const endValue = value.slice(separator + 2)
+  if (!startValue && !endValue) return null
+  const start = startValue ? parsePeriod(startValue) : null
+  const end = endValue ? parsePeriod(endValue) : null
+  if ((startValue && !start) || (endValue && !end)) return null
+  return { ...(start && { from: start.from }), ...(end && { until: end.until }) }
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+const MOOD_PATTERN = /^(>=|<=|>|<|=)?([1-5])$/
+const HAS_VALUES: readonly HasFilterValue[] = ['image', 'mood', 'tag']
+
+/**
+ * Parse a key:value token, null when it is not a valid filter
+ */
+function parseFilter(token: string): SearchFilterBody | null {
+  const colon = token.indexOf(':')
+  if (colon <= 0) return null
+  const key = token.slice(0, colon).toLowerCase()
+  const value = token.slice(colon + 1)
+  if (!value) return null
+
+  switch (key) {
+    case 'date': {
+      const range = parseDateRange(value)
+      return range && { type: 'date', value, ...range }
+    }
+    case 'before': {
+      const period = parsePeriod(value)
+      return period && { type: 'before', value, until: period.from }
+    }
+    case 'after': {
+      const period = parsePeriod(value)
+      return period && { type: 'after', value, from: period.until }
+    }
+    case 'has': {
+      const has = value.toLowerCase() as HasFilterValue
+      return HAS_VALUES.includes(has) ? { type: 'has', value: has } : null
+    }
+    case 'tag': {
+      const tag = normalizeTag(value)
+      return tag ? { type: 'tag', tag } : null
+    }
+    case 'mood': {
+      const match = MOOD_PATTERN.exec(value)
+      const score = Number(match?.[2])
+      if (!match || !isMoodScore(score)) return null
+      return { type: 'mood', operator: (match[1] ?? '=') as MoodOperator, score }
+    }
+    default:
+      return null
+  }
+}
+
+interface RawToken {
+  text: string
+  quoted: boolean
+  negated: boolean
+  span: QuerySpan
+}
+
+/**
+ * Split the query into words and quoted phrases, keeping their positions
+ */
+function scan(input: string): RawToken[] {
+  const tokens: RawToken[] = []
+  let i = 0
+  while (i < input.length) {
+    if (/\s/.test(input[i] ?? '')) {
+      i++
+      continue
+    }
+    const start = i
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1] ?? '')
+    if (negated) i++
+
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1)
+      const end = close === -1 ? input.length : close + 1
+      tokens.push({
+        text: input.slice(i + 1, close === -1 ? input.length : close),
+        quoted: true,
+        negated,
+        span: [start, end],
+      })
+      i = end
+      continue
+    }
+
+    while (i < input.length && !/\s/.test(input[i] ?? '')) i++
+    tokens.push({
+      text: input.slice(negated ? start + 1 : start, i),
+      quoted: false,
+      negated,
+      span: [start, i],
+    })
+  }
+  return tokens
+}
+
+/**
+ * Parse a search query
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { clauses: [], excluded: [], filters: [] }
+  const tokens = scan(input)
+  // OR 只在两个文字条件之间有效
+  let previousIsTerm = false
+  let joinNext = false
+
+  tokens.forEach((token, index) => {
+    if (!token.quoted && !token.negated && token.text === 'OR') {
+      joinNext = previousIsTerm
+      previousIsTerm = false
+      return
+    }
+    const join = joinNext
+    joinNext = false
+    previousIsTerm = false
+
+    const filter = token.quoted ? null : parseFilter(token.text)
+    if (filter) {
+      query.filters.push({ ...filter, negated: token.negated, span: token.span })
+      return
+    }
+
+    // 没有可搜索字符的词（如单独的标点）忽略
+    if (tokenizeQuery(token.text).length === 0) return
+    const isLast = index === tokens.length - 1 && token.span[1] === input.length
+    const term: SearchTerm = {
+      text: token.text,
+      phrase: token.quoted,
+      prefix: isLast && !token.quoted && !token.negated,
+    }
+
+    if (token.negated) {
+      query.excluded.push({ ...term, span: token.span })
+      return
+    }
+    const previous = query.clauses[query.clauses.length - 1]
+    if (join && previous) {
+      previous.push(term)
+    } else {
+      query.clauses.push([term])
+    }
+    previousIsTerm = true
+  })
+
+  return query
+}
+
+/**
+ * Whether the query has nothing to search for
+ */
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return query.clauses.length === 0 && query.excluded.length === 0 && query.filters.length === 0
+}
+
+/**
+ * Remove a token (e.g. a filter chip) from the query string
+ */
+export function removeQuerySpan(input: string, [start, end]: QuerySpan): string {
+  return `${input.slice(0, start).trimEnd()} ${input.slice(end).trimStart()}`.trim()
+}
+
+// ============================================
+// Matching
+// ============================================
+
+/**
+ * Combined date range of the (non-negated) date, before and after filters
+ */
+export function getDateBounds(filters: SearchFilter[]): { from?: string; until?: string } {
+  let from: string | undefined
+  let until: string | undefined
+  for (const filter of filters) {
+    if (filter.negated) continue
+    if ((filter.type === 'date' || filter.type === 'after') && filter.from !== undefined) {
+      from = from === undefined || filter.from > from ? filter.from : from
+    }
+    if ((filter.type === 'date' || filter.type === 'before') && filter.until !== undefined) {
+      until = until === undefined || filter.until < until ? filter.until : until
+    }
+  }
+  return { ...(from !== undefined && { from }), ...(until !== undefined && { until }) }
+}
+
+function compareMood(score: number, operator: MoodOperator, target: number): boolean {
+  switch (operator) {
+    case '>':
+      return score > target
+    case '>=':
+      return score >= target
+    case '<':
+      return score < target
+    case '<=':
+      return score <= target
+    default:
+      return score === target
+  }
+}
+
+function filterApplies(
+  entry: Pick<DiaryEntry, 'date' | 'imageIds' | 'tags' | 'mood'>,
+  filter: SearchFilter,
+): boolean {
+  switch (filter.type) {
+    case 'date':
+      return (
+        (filter.from === undefined || entry.date >= filter.from) &&
+        (filter.until === undefined || entry.date < filter.until)
+      )
+    case 'before':
+      return entry.date < filter.until
+    case 'after':
+      return entry.date >= filter.from
+    case 'has':
+      if (filter.value === 'image') return entry.imageIds.length > 0
+      if (filter.value === 'mood') return entry.mood !== undefined
+      return entry.tags.length > 0
+    case 'tag':
+      return entry.tags.includes(filter.tag)
+    case 'mood':
+      return (
+        entry.mood !== undefined && compareMood(entry.mood.score, filter.operator, filter.score)
+      )
+  }
+}
+
+/**
+ * Whether an entry satisfies a filter (only unencrypted fields are read)
+ */
+export function matchesFilter(
+  entry: Pick<DiaryEntry, 'date' | 'imageIds' | 'tags' | 'mood'>,
+  filter: SearchFilter,
+): boolean {
+  return filterApplies(entry, filter) !== filter.negated
+}
+
+/**
+ * Whether text contains a phrase (case, width and whitespace insensitive)
+ */
+export function containsPhrase(text: string, phrase: string): boolean {
+  const collapse = (value: string) => normalizeText(value).replace(/\s+/g, ' ').trim()
+  return collapse(text).includes(collapse(phrase))
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Pattern matching the searched words in text, for highlighting
+ * 英文词按词干匹配（walked 也会高亮 walk），短语和中文按原文匹配
+ * @returns A global pattern with a single capturing group, or null when nothing is searched
+ */
+export function getHighlightPattern(query: SearchQuery): RegExp | null {
+  const alternatives = new Set<string>()
+  for (const term of query.clauses.flat()) {
+    if (term.phrase) {
+      alternatives.add(escapeRegExp(term.text.trim()).replace(/\s+/g, '\\s+'))
+      continue
+    }
+    for (const word of normalizeText(term.text).match(WORD_PATTERN) ?? []) {
+      if (isCjkTerm(word)) {
+        alternatives.add(escapeRegExp(word))
+      } else {
+        const root = stemRoot(word)
+        alternatives.add(`(?<![\\p{L}\\p{N}])${escapeRegExp(root)}[\\p{L}\\p{N}'’]*`)
+      }
+    }
+  }
+  if (alternatives.size === 0) return null
+  const sorted = Array.from(alternatives).sort((a, b) => b.length - a.length)
+  return new RegExp(`(${sorted.join('|')})`, 'giu')
+}
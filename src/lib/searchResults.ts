@@ -0,0 +1,134 @@
+/**
+ * Search result presentation
+ *
+ * entriesRepository.search 按相关度返回全部结果，这里负责排序、按月或年分组，
+ * 以及从正文中截取多段包含关键词的摘要。
+ */
+
+import type { DiaryEntry } from '@/types'
+
+export const SEARCH_SORT_OPTIONS = ['relevance', 'newest', 'oldest'] as const
+export type SearchSort = (typeof SEARCH_SORT_OPTIONS)[number]
+
+export const SEARCH_GROUPING_OPTIONS = ['none', 'month', 'year'] as const
+export type SearchGrouping = (typeof SEARCH_GROUPING_OPTIONS)[number]
+
+/** Results rendered at first and added each time the end of the list is reached */
+export const SEARCH_RESULTS_PAGE_SIZE = 30
+
+/**
+ * Check whether a value is a supported sort order
+ */
+export function isSearchSort(value: unknown): value is SearchSort {
+  return SEARCH_SORT_OPTIONS.includes(value as SearchSort)
+}
+
+/**
+ * Check whether a value is a supported grouping
+ */
+export function isSearchGrouping(value: unknown): value is SearchGrouping {
+  return SEARCH_GROUPING_OPTIONS.includes(value as SearchGrouping)
+}
+
+function compareNewest(a: DiaryEntry, b: DiaryEntry): number {
+  return b.date.localeCompare(a.date) || b.createdAt - a.createdAt
+}
+
+/**
+ * Sort search results (relevance keeps the order returned by the search)
+ */
+export function sortSearchResults(entries: DiaryEntry[], sort: SearchSort): DiaryEntry[] {
+  switch (sort) {
+    case 'newest':
+      return [...entries].sort(compareNewest)
+    case 'oldest':
+      return [...entries].sort((a, b) => compareNewest(b, a))
+    default:
+      return entries
+  }
+}
+
+export interface SearchResultGroup {
+  /** YYYY-MM or YYYY, empty when results are not grouped */
+  key: string
+  entries: DiaryEntry[]
+}
+
+/**
+ * Group sorted results by month or year
+ * 分组按时间排列（oldest 时从早到晚，否则从新到旧），组内保持原有顺序
+ */
+export function groupSearchResults(
+  entries: DiaryEntry[],
+  grouping: SearchGrouping,
+  sort: SearchSort,
+): SearchResultGroup[] {
+  if (grouping === 'none') {
+    return entries.length > 0 ? [{ key: '', entries }] : []
+  }
+
+  const length = grouping === 'month' ? 7 : 4
+  const groups = new Map<string, DiaryEntry[]>()
+  for (const entry of entries) {
+    const key = entry.date.slice(0, length)
+    const group = groups.get(key)
+    if (group) {
+      group.push(entry)
+    } else {
+      groups.set(key, [entry])
+    }
+  }
+
+  return Array.from(groups, ([key, groupEntries]) => ({ key, entries: groupEntries })).sort(
+    (a, b) => (sort === 'oldest' ? a.key.localeCompare(b.key) : b.key.localeCompare(a.key)),
+  )
+}
+
+// ============================================
+// Excerpts
+// ============================================
+
+interface ExcerptOptions {
+  /** Maximum number of excerpts */
+  maxExcerpts?: number
+  /** Characters kept on each side of a match */
+  context?: number
+  /** Length of the excerpt when nothing matches */
+  fallbackLength?: number
+}
+
+/**
+ * Cut the parts of the content around matches of the pattern
+ * 相邻或重叠的片段合并为一段；没有匹配时返回开头部分
+ */
+export function getExcerpts(
+  content: string,
+  pattern: RegExp | null,
+  { maxExcerpts = 3, context = 40, fallbackLength = 100 }: ExcerptOptions = {},
+): string[] {
+  const windows: { start: number; end: number }[] = []
+  if (pattern) {
+    const matcher = new RegExp(pattern.source, 'giu')
+    for (const match of content.matchAll(matcher)) {
+      if (match[0] === '') continue
+      const start = Math.max(0, match.index - context)
+      const end = Math.min(content.length, match.index + match[0].length + context)
+      const last = windows[windows.length - 1]
+      if (last && start <= last.end) {
+        last.end = Math.max(last.end, end)
+        continue
+      }
+      if (windows.length === maxExcerpts) break
+      windows.push({ start, end })
+    }
+  }
+
+  if (windows.length === 0) {
+    return [content.slice(0, fallbackLength) + (content.length > fallbackLength ? '...' : '')]
+  }
+
+  return windows.map(({ start, end }) => {
+    const text = content.slice(start, end).trim()
+    return `${start > 0 ? '...' : ''}${text}${end < content.length ? '...' : ''}`
+  })
+}
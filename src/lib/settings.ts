@@ -0,0 +1,181 @@
+/**
+ * App settings schema
+ *
+ * 设置以「每个 key 一条记录」的形式存储在 IndexedDB 的 settings 表中。
+ * 读取时逐项校验，缺失或无效的值回退到默认值。
+ * 早期版本把主题、语言、搜索历史等存在 localStorage，首次启动时迁移到 IndexedDB。
+ */
+
+import type {
+  AppLockConfig,
+  AppSettings,
+  DataEncryptionConfig,
+  SavedSearch,
+  SettingKey,
+} from '@/types'
+import { DEFAULT_AUTO_LOCK_MINUTES, isAppLockConfig, isAutoLockMinutes } from './appLock'
+import { DEFAULT_BACKUP_REMINDER_DAYS, isBackupReminderDays } from './backup'
+import { isSavedSearchList } from './savedSearches'
+import { DEFAULT_STORAGE_WARNING_PERCENT, isStorageWarningPercent } from './storageQuota'
+import { DEFAULT_TRASH_RETENTION_DAYS, isTrashRetentionDays } from './trash'
+
+/** Maximum number of recent search queries kept */
+export const MAX_SEARCH_HISTORY_ITEMS = 5
+
+/**
+ * Default value of every setting
+ */
+export const DEFAULT_SETTINGS: AppSettings = {
+  theme: 'system',
+  locale: 'zh-CN',
+  searchHistory: [],
+  savedSearches: [],
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  lastBackupAt: null,
+  backupReminderDays: DEFAULT_BACKUP_REMINDER_DAYS,
+  backupReminderDismissedAt: null,
+  appLock: null,
+  autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+  lockOnHide: true,
+  appLockFailedAttempts: 0,
+  appLockLockedUntil: null,
+  dataEncryption: null,
+  storageWarningPercent: DEFAULT_STORAGE_WARNING_PERCENT,
+}
+
+export const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as SettingKey[]
+
+/** Settings tied to this browser, not written to or restored from backups */
+export const DEVICE_SETTING_KEYS: readonly SettingKey[] = [
+  'lastBackupAt',
+  'backupReminderDismissedAt',
+  'appLock',
+  'appLockFailedAttempts',
+  'appLockLockedUntil',
+  'dataEncryption',
+]
+
+function isDataEncryptionConfig(value: unknown): value is DataEncryptionConfig {
+  if (typeof value !== 'object' || value === null) return false
+  const config = value as Record<string, unknown>
+  return (
+    typeof config.wrappedKey === 'string' &&
+    typeof config.salt === 'string' &&
+    Number.isInteger(config.iterations) &&
+    (config.iterations as number) > 0 &&
+    typeof config.complete === 'boolean'
+  )
+}
+
+function isTimestampOrNull(value: unknown): value is number | null {
+  return value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0)
+}
+
+type SettingValidators = {
+  [K in SettingKey]: (value: unknown) => value is AppSettings[K]
+}
+
+const validators: SettingValidators = {
+  theme: (value): value is AppSettings['theme'] =>
+    value === 'light' || value === 'dark' || value === 'system',
+  locale: (value): value is AppSettings['locale'] => value === 'zh-CN' || value === 'en',
+  searchHistory: (value): value is string[] =>
+    Array.isArray(value) &&
+    value.length <= MAX_SEARCH_HISTORY_ITEMS &&
+    value.every((item) => typeof item === 'string'),
+  savedSearches: (value): value is SavedSearch[] => isSavedSearchList(value),
+  trashRetentionDays: (value): value is number => isTrashRetentionDays(value),
+  lastBackupAt: (value): value is number | null => isTimestampOrNull(value),
+  backupReminderDays: (value): value is number => isBackupReminderDays(value),
+  backupReminderDismissedAt: (value): value is number | null => isTimestampOrNull(value),
+  appLock: (value): value is AppLockConfig | null => value === null || isAppLockConfig(value),
+  autoLockMinutes: (value): value is number => isAutoLockMinutes(value),
+  lockOnHide: (value): value is boolean => typeof value === 'boolean',
+  appLockFailedAttempts: (value): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0,
+  appLockLockedUntil: (value): value is number | null => isTimestampOrNull(value),
+  dataEncryption: (value): value is DataEncryptionConfig | null =>
+    value === null || isDataEncryptionConfig(value),
+  storageWarningPercent: (value): value is number => isStorageWarningPercent(value),
+}
+
+/**
+ * Check whether a string is a known setting key
+ */
+export function isSettingKey(key: unknown): key is SettingKey {
+  return typeof key === 'string' && Object.hasOwn(DEFAULT_SETTINGS, key)
+}
+
+/**
+ * Check whether a value is valid for the given setting
+ */
+export function isValidSetting<K extends SettingKey>(
+  key: K,
+  value: unknown,
+): value is AppSettings[K] {
+  return validators[key](value)
+}
+
+// ============================================
+// Legacy localStorage migration
+// ============================================
+
+/** localStorage keys used before settings moved to IndexedDB */
+export const LEGACY_STORAGE_KEYS = {
+  theme: 'mini-diary-theme',
+  locale: 'mini-diary-locale',
+  searchHistory: 'mini-diary-search-history',
+} as const satisfies Partial<Record<SettingKey, string>>
+
+type LegacySettingKey = keyof typeof LEGACY_STORAGE_KEYS
+
+/**
+ * Parse a raw localStorage string into a setting value
+ */
+function parseLegacyValue(key: LegacySettingKey, raw: string): unknown {
+  switch (key) {
+    case 'searchHistory':
+      try {
+        return JSON.parse(raw)
+      } catch {
+        return undefined
+      }
+    default:
+      return raw
+  }
+}
+
+/**
+ * 读取 localStorage 中的旧设置（忽略无效值）
+ */
+export function readLegacySettings(): Partial<AppSettings> {
+  if (typeof window === 'undefined') return {}
+  const result: Partial<Record<SettingKey, unknown>> = {}
+  try {
+    for (const key of Object.keys(LEGACY_STORAGE_KEYS) as LegacySettingKey[]) {
+      const raw = localStorage.getItem(LEGACY_STORAGE_KEYS[key])
+      if (raw === null) continue
+      const value = parseLegacyValue(key, raw)
+      if (isValidSetting(key, value)) {
+        result[key] = value
+      }
+    }
+  } catch {
+    // Ignore storage errors
+  }
+  return result as Partial<AppSettings>
+}
+
+/**
+ * 删除 localStorage 中的旧设置
+ */
+export function clearLegacySettings(): void {
+  if (typeof window === 'undefined') return
+  try {
+    for (const storageKey of Object.values(LEGACY_STORAGE_KEYS)) {
+      localStorage.removeItem(storageKey)
+    }
+  } catch {
+    // Ignore storage errors
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Storage quota utilities
+ *
+ * 浏览器为每个站点分配的存储空间有限，写满后 IndexedDB 写入会抛出 QuotaExceededError。
+ * - 使用量超过设置的比例（storageWarningPercent）时提醒
+ * - 写入失败时通知存储清理对话框（见 components/storage），可压缩旧图片释放空间
+ * - 请求持久化存储，避免浏览器在空间紧张时自动清除本站数据
+ */
+
+/**
+ * Selectable warning thresholds (percent of quota)
+ */
+export const STORAGE_WARNING_OPTIONS = [70, 80, 90] as const
+export type StorageWarningPercent = (typeof STORAGE_WARNING_OPTIONS)[number]
+
+export const DEFAULT_STORAGE_WARNING_PERCENT: StorageWarningPercent = 80
+
+/**
+ * Check whether a value is a supported warning threshold
+ */
+export function isStorageWarningPercent(value: unknown): value is StorageWarningPercent {
+  return STORAGE_WARNING_OPTIONS.includes(value as StorageWarningPercent)
+}
+
+/**
+ * Whether usage has reached the warning threshold (false when the quota is unknown)
+ */
+export function isStorageLow(usage: number, quota: number, warningPercent: number): boolean {
+  return quota > 0 && usage / quota >= warningPercent / 100
+}
+
+/**
+ * Check whether an error (or the error it wraps) means the storage quota was exceeded
+ * Dexie 在事务中止时会把 QuotaExceededError 包装为 AbortError（inner）
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  let current: unknown = error
+  for (let depth = 0; depth < 3 && typeof current === 'object' && current !== null; depth++) {
+    if ((current as { name?: unknown }).name === 'QuotaExceededError') return true
+    current = (current as { inner?: unknown }).inner
+  }
+  return false
+}
+
+// ============================================
+// Quota exceeded notifications
+// ============================================
+
+/** quotaExceeded: a write failed; manual: opened from the menu */
+export type StorageCleanupReason = 'quotaExceeded' | 'manual'
+
+type StorageCleanupListener = (reason: StorageCleanupReason) => void
+
+const cleanupListeners = new Set<StorageCleanupListener>()
+
+/**
+ * Ask the storage cleanup dialog to open
+ */
+export function requestStorageCleanup(reason: StorageCleanupReason): void {
+  for (const listener of cleanupListeners) {
+    listener(reason)
+  }
+}
+
+/**
+ * Open the cleanup dialog if a write failed because storage is full
+ */
+export function handleQuotaError(error: unknown): void {
+  if (isQuotaExceededError(error)) requestStorageCleanup('quotaExceeded')
+}
+
+/**
+ * Listen for cleanup requests
+ * @returns Unsubscribe function
+ */
+export function onStorageCleanupRequest(listener: StorageCleanupListener): () => void {
+  cleanupListeners.add(listener)
+  return () => {
+    cleanupListeners.delete(listener)
+  }
+}
+
+// ============================================
+// Persistent storage
+// ============================================
+
+/**
+ * Whether the browser has granted persistent storage (null if unsupported)
+ */
+export async function getStoragePersisted(): Promise<boolean | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persisted) return null
+  try {
+    return await navigator.storage.persisted()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Ask the browser to keep this site's data under storage pressure
+ * @returns Whether persistence is granted (null if unsupported)
+ */
+export async function requestStoragePersistence(): Promise<boolean | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return null
+  try {
+    return await navigator.storage.persist()
+  } catch {
+    return null
+  }
+}
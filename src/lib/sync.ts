@@ -0,0 +1,84 @@
+/**
+ * Multi-tab sync bus
+ *
+ * 通过 BroadcastChannel 在同源的多个标签页之间广播数据变更（SyncMessage），
+ * 其他标签页收到后刷新对应的 TanStack Query 缓存。
+ * - BroadcastChannel 不会把消息发回发送者自身，因此本标签页不会重复刷新
+ * - 批量操作（导入、清空、清空回收站）使用 SYNC_ALL_ID 代替具体 ID
+ * - 不支持 BroadcastChannel 的环境（SSR、旧浏览器）静默跳过
+ */
+
+import type { SyncMessage } from '@/types'
+
+const SYNC_CHANNEL_NAME = 'mini-diary-sync'
+
+/** ID used when a change affects every record of a type */
+export const SYNC_ALL_ID = '*'
+
+type SyncListener = (message: SyncMessage) => void
+
+let channel: BroadcastChannel | null = null
+const listeners = new Set<SyncListener>()
+
+/**
+ * Check whether a value received from the channel is a SyncMessage
+ */
+export function isSyncMessage(value: unknown): value is SyncMessage {
+  if (typeof value !== 'object' || value === null) return false
+  const message = value as Record<string, unknown>
+  return (
+    (message.type === 'entry' || message.type === 'image' || message.type === 'settings') &&
+    (message.action === 'create' || message.action === 'update' || message.action === 'delete') &&
+    typeof message.id === 'string' &&
+    typeof message.timestamp === 'number'
+  )
+}
+
+/**
+ * Lazily open the shared channel
+ */
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null
+  if (!channel) {
+    channel = new BroadcastChannel(SYNC_CHANNEL_NAME)
+    channel.onmessage = (event: MessageEvent) => {
+      if (!isSyncMessage(event.data)) return
+      for (const listener of listeners) {
+        listener(event.data)
+      }
+    }
+  }
+  return channel
+}
+
+/**
+ * Broadcast a change to other tabs
+ */
+export function publishSync(message: Omit<SyncMessage, 'timestamp'>): void {
+  try {
+    getChannel()?.postMessage({ ...message, timestamp: Date.now() } satisfies SyncMessage)
+  } catch {
+    // Ignore closed channel errors; other tabs will catch up on next refetch
+  }
+}
+
+/**
+ * Listen for changes made in other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeSync(listener: SyncListener): () => void {
+  getChannel()
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Close the channel and drop all listeners (for tests or teardown)
+ */
+export function closeSyncChannel(): void {
+  channel?.close()
+  channel = null
+  listeners.clear()
+}
@@ -0,0 +1,39 @@
+/**
+ * Hashtag extraction
+ *
+ * 从日记内容中提取 #标签，支持中英文：
+ * - `#work`、`#读书笔记`、`#2024_goals`
+ * - 标签前必须是行首或非单词字符（避免匹配 `a#b` 或 URL 锚点）
+ * - `# 标题` 这种 # 后跟空格的写法不算标签
+ * - 统一转为小写并去重，保留首次出现的顺序
+ */
+
+/** Maximum length of a single tag */
+export const MAX_TAG_LENGTH = 50
+
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_&#/])#([\p{L}\p{N}_-]+)/gu
+
+/**
+ * Normalize a tag for storage and comparison
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase()
+}
+
+/**
+ * Extract unique hashtags from Markdown content
+ */
+export function extractTags(content: string): string[] {
+  const tags: string[] = []
+  for (const match of content.matchAll(HASHTAG_PATTERN)) {
+    const raw = match[1]
+    if (!raw) continue
+    // 纯数字（如 #1）通常是编号而不是标签
+    if (/^\d+$/.test(raw)) continue
+    const tag = normalizeTag(raw).slice(0, MAX_TAG_LENGTH)
+    if (tag && !tags.includes(tag)) {
+      tags.push(tag)
+    }
+  }
+  return tags
+}
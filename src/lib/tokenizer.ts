@@ -0,0 +1,242 @@
+/**
+ * Full-text search tokenizer
+ *
+ * - 统一做 NFKC 规范化并转为小写
+ * - 中日韩文字之间没有空格，连续的文字切成单字和相邻两字（bigram）；
+ *   查询时只用 bigram（单字查询用单字），要求全部出现，效果接近子串匹配
+ * - 其他文字按词切分（支持时使用 Intl.Segmenter），英文词做词干提取（Porter 算法第一步），
+ *   walked / walking / walks 都归为 walk
+ */
+
+/** Words longer than this (URLs, hashes…) are cut */
+const MAX_WORD_LENGTH = 32
+
+// ー (prolonged sound mark) belongs to no script but only appears within Japanese words
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}\\u30fc'
+const RUN_PATTERN = new RegExp(`([${CJK}]+)|([^${CJK}]+)`, 'gu')
+const CJK_PATTERN = new RegExp(`[${CJK}]`, 'u')
+export const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu
+const LETTER_OR_NUMBER = /[\p{L}\p{N}]/u
+
+let segmenter: Intl.Segmenter | null | undefined
+
+function getSegmenter(): Intl.Segmenter | null {
+  if (segmenter === undefined) {
+    segmenter =
+      typeof Intl !== 'undefined' && 'Segmenter' in Intl
+        ? new Intl.Segmenter(undefined, { granularity: 'word' })
+        : null
+  }
+  return segmenter
+}
+
+// ============================================
+// Stemming
+// ============================================
+
+function isConsonant(word: string, i: number): boolean {
+  const char = word[i]
+  if (char === 'a' || char === 'e' || char === 'i' || char === 'o' || char === 'u') return false
+  if (char === 'y') return i === 0 || !isConsonant(word, i - 1)
+  return true
+}
+
+/**
+ * Number of vowel-consonant sequences (Porter's m)
+ */
+function measure(stem: string): number {
+  let count = 0
+  let i = 0
+  while (i < stem.length && isConsonant(stem, i)) i++
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++
+    if (i >= stem.length) break
+    while (i < stem.length && isConsonant(stem, i)) i++
+    count++
+  }
+  return count
+}
+
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true
+  }
+  return false
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1)
+}
+
+/**
+ * Ends consonant-vowel-consonant, the last not w, x or y (e.g. hop, not hoop)
+ */
+function endsWithCvc(word: string): boolean {
+  const n = word.length
+  return (
+    n >= 3 &&
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !'wxy'.includes(word[n - 1] ?? '')
+  )
+}
+
+/**
+ * Reduce an English word to its stem (Porter step 1: plurals, -ed, -ing, -y)
+ * Words that are not plain ASCII letters are returned unchanged
+ */
+export function stem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word
+  let result = word
+
+  // Step 1a: plurals
+  if (result.endsWith('sses') || result.endsWith('ies')) {
+    result = result.slice(0, -2)
+  } else if (result.endsWith('s') && !result.endsWith('ss')) {
+    result = result.slice(0, -1)
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  if (result.endsWith('eed')) {
+    if (measure(result.slice(0, -3)) > 0) result = result.slice(0, -1)
+  } else {
+    const suffix = result.endsWith('ed') ? 2 : result.endsWith('ing') ? 3 : 0
+    if (suffix > 0 && hasVowel(result.slice(0, -suffix))) {
+      result = result.slice(0, -suffix)
+      if (result.endsWith('at') || result.endsWith('bl') || result.endsWith('iz')) {
+        result += 'e'
+      } else if (endsWithDoubleConsonant(result) && !/[lsz]$/.test(result)) {
+        result = result.slice(0, -1)
+      } else if (measure(result) === 1 && endsWithCvc(result)) {
+        result += 'e'
+      }
+    }
+  }
+
+  // Step 1c: y -> i
+  if (result.endsWith('y') && hasVowel(result.slice(0, -1))) {
+    result = `${result.slice(0, -1)}i`
+  }
+
+  return result
+}
+
+/** Suffixes a word being typed may be cut off in (walkin → walking, runn → running) */
+const TYPED_SUFFIXES = ['ing', 'ed', 'es', 'y'] as const
+
+/**
+ * Part of a word its stem leaves unchanged (happy → happ, walked → walk)
+ * 词干可能改写词尾（happy → happi），只取两者相同的部分
+ */
+export function stemRoot(word: string): string {
+  const stemmed = stem(word)
+  let length = 0
+  while (length < word.length && word[length] === stemmed[length]) length++
+  return word.slice(0, length)
+}
+
+/**
+ * Stems of the words a partly typed word may be the start of
+ * 补全可能输入到一半的后缀再取词干：walkin → walk，runn → run，happ → happi
+ */
+export function getTypedStems(word: string): string[] {
+  const stems = new Set([stem(word)])
+  if (!/^[a-z]+$/.test(word)) return Array.from(stems)
+  for (const suffix of TYPED_SUFFIXES) {
+    for (let cut = 0; cut < suffix.length; cut++) {
+      if (word.endsWith(suffix.slice(0, cut))) stems.add(stem(word + suffix.slice(cut)))
+    }
+  }
+  return Array.from(stems)
+}
+
+// ============================================
+// Tokenization
+// ============================================
+
+/**
+ * Normalize width and case before tokenizing or comparing text
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase()
+}
+
+function toTerm(word: string): string | null {
+  if (!LETTER_OR_NUMBER.test(word)) return null
+  return stem(word.replace(/['’]/g, '').slice(0, MAX_WORD_LENGTH))
+}
+
+function* words(text: string): Generator<string> {
+  const wordSegmenter = getSegmenter()
+  if (wordSegmenter) {
+    for (const { segment, isWordLike } of wordSegmenter.segment(text)) {
+      if (isWordLike) yield segment
+    }
+    return
+  }
+  yield* text.match(WORD_PATTERN) ?? []
+}
+
+/**
+ * Split normalized text into CJK character runs and other words
+ */
+function* runs(text: string): Generator<{ cjk: string[] } | { word: string }> {
+  for (const [, cjk, other] of normalizeText(text).matchAll(RUN_PATTERN)) {
+    if (cjk) {
+      yield { cjk: Array.from(cjk) }
+    } else if (other) {
+      for (const word of words(other)) yield { word }
+    }
+  }
+}
+
+/**
+ * Terms of a text for indexing, in order and with repeats (for term frequencies)
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = []
+  for (const run of runs(text)) {
+    if ('word' in run) {
+      const term = toTerm(run.word)
+      if (term) terms.push(term)
+      continue
+    }
+    const chars = run.cjk
+    for (let i = 0; i < chars.length; i++) {
+      terms.push(chars[i] as string)
+      if (i + 1 < chars.length) terms.push(`${chars[i]}${chars[i + 1]}`)
+    }
+  }
+  return terms
+}
+
+/**
+ * Distinct terms a text must contain to match a search query
+ */
+export function tokenizeQuery(query: string): string[] {
+  const terms = new Set<string>()
+  for (const run of runs(query)) {
+    if ('word' in run) {
+      const term = toTerm(run.word)
+      if (term) terms.add(term)
+      continue
+    }
+    const chars = run.cjk
+    if (chars.length === 1) {
+      terms.add(chars[0] as string)
+    }
+    for (let i = 0; i + 1 < chars.length; i++) {
+      terms.add(`${chars[i]}${chars[i + 1]}`)
+    }
+  }
+  return Array.from(terms)
+}
+
+/**
+ * Whether a term comes from CJK text (bigrams and single characters are never prefixes of words)
+ */
+export function isCjkTerm(term: string): boolean {
+  return CJK_PATTERN.test(term)
+}
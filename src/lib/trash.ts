@@ -0,0 +1,35 @@
+/**
+ * Trash bin utilities
+ *
+ * 删除的日记先移入回收站（设置 deletedAt），保留期满后自动永久删除。
+ * 保留天数存储在 settings 表（trashRetentionDays），默认 30 天。
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Selectable retention periods in days
+ */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90] as const
+export type TrashRetentionDays = (typeof TRASH_RETENTION_OPTIONS)[number]
+
+export const DEFAULT_TRASH_RETENTION_DAYS: TrashRetentionDays = 30
+
+/**
+ * Check whether a value is a supported retention period
+ */
+export function isTrashRetentionDays(value: unknown): value is TrashRetentionDays {
+  return TRASH_RETENTION_OPTIONS.includes(value as TrashRetentionDays)
+}
+
+/**
+ * Whole days left before a trashed entry is purged (0 if due)
+ */
+export function getDaysUntilPurge(
+  deletedAt: number,
+  retentionDays: number,
+  now = Date.now(),
+): number {
+  const remaining = deletedAt + retentionDays * DAY_MS - now
+  return Math.max(0, Math.ceil(remaining / DAY_MS))
+}
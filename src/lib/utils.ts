@@ -16,6 +16,29 @@ export function triggerHaptic(duration = 10): void {
   }
 }
 
+/**
+ * Blob 转字节数组
+ */
+export function blobToBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = reject
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+/**
+ * 格式化存储大小（如 1.5 MB）
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes <= 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB']
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1)
+  return `${Number.parseFloat((bytes / k ** i).toFixed(2))} ${sizes[i]}`
+}
+
 /**
  * 生成 UUID v4
  * 优先使用 crypto.randomUUID()，不可用时（非安全上下文）使用 fallback
@@ -0,0 +1,274 @@
+/**
+ * Minimal ZIP archive reader and writer
+ *
+ * 纯前端读写 ZIP，不依赖第三方库或网络服务。
+ * - 写入只使用 store（不压缩）：图片本身已是 JPEG，Markdown 体积很小，压缩收益有限
+ * - 读取支持 store 和 deflate（通过浏览器内置的 DecompressionStream 解压）
+ * - 文件名使用 UTF-8（通用标志位 bit 11），支持中文路径
+ * - 不支持 ZIP64 和加密，单个归档需小于 4 GB
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, using forward slashes */
+  path: string
+  /** File contents; strings are encoded as UTF-8 */
+  data: Uint8Array | string
+  /** Modification time (Unix ms), defaults to now */
+  modifiedAt?: number
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const ZIP_VERSION = 20
+const UTF8_FLAG = 0x0800
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+/** End of central directory record size without the trailing comment */
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22
+const MAX_COMMENT_LENGTH = 0xffff
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+  return crcTable
+}
+
+/**
+ * CRC-32 checksum (IEEE polynomial) as used by ZIP
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable()
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = (table[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Convert a timestamp to MS-DOS date and time fields (local time, 2-second precision)
+ */
+function toDosDateTime(timestamp: number): { date: number; time: number } {
+  const d = new Date(timestamp)
+  // DOS 日期从 1980 年开始
+  const year = Math.max(d.getFullYear(), 1980)
+  return {
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+  }
+}
+
+export interface ZipWriter {
+  /** Append a file (its data is copied into a Blob and can be released afterwards) */
+  add: (entry: ZipEntry) => void
+  /** Write the central directory and return the archive */
+  finish: () => Blob
+}
+
+/**
+ * Build an uncompressed ZIP archive one file at a time
+ * 每个文件写入后立即转为 Blob，内存中只保留中央目录
+ */
+export function createZipWriter(): ZipWriter {
+  const parts: Blob[] = []
+  const centralDirectory: Uint8Array[] = []
+  let count = 0
+  let offset = 0
+
+  return {
+    add(entry) {
+      const name = encoder.encode(entry.path)
+      const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data
+      const crc = crc32(data)
+      const { date, time } = toDosDateTime(entry.modifiedAt ?? Date.now())
+
+      const local = new DataView(new ArrayBuffer(30))
+      local.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true)
+      local.setUint16(4, ZIP_VERSION, true)
+      local.setUint16(6, UTF8_FLAG, true)
+      local.setUint16(8, METHOD_STORE, true)
+      local.setUint16(10, time, true)
+      local.setUint16(12, date, true)
+      local.setUint32(14, crc, true)
+      local.setUint32(18, data.length, true)
+      local.setUint32(22, data.length, true)
+      local.setUint16(26, name.length, true)
+      local.setUint16(28, 0, true)
+
+      const central = new DataView(new ArrayBuffer(46))
+      central.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true)
+      central.setUint16(4, ZIP_VERSION, true)
+      central.setUint16(6, ZIP_VERSION, true)
+      central.setUint16(8, UTF8_FLAG, true)
+      central.setUint16(10, METHOD_STORE, true)
+      central.setUint16(12, time, true)
+      central.setUint16(14, date, true)
+      central.setUint32(16, crc, true)
+      central.setUint32(20, data.length, true)
+      central.setUint32(24, data.length, true)
+      central.setUint16(28, name.length, true)
+      // extra length, comment length, disk number, internal/external attributes: 0
+      central.setUint32(42, offset, true)
+
+      parts.push(new Blob([new Uint8Array(local.buffer), name, data] as BlobPart[]))
+      centralDirectory.push(new Uint8Array(central.buffer), name)
+      offset += 30 + name.length + data.length
+      count++
+    },
+    finish() {
+      const centralSize = centralDirectory.reduce((size, part) => size + part.length, 0)
+      const end = new DataView(new ArrayBuffer(22))
+      end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+      end.setUint16(8, count, true)
+      end.setUint16(10, count, true)
+      end.setUint32(12, centralSize, true)
+      end.setUint32(16, offset, true)
+
+      return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)] as BlobPart[], {
+        type: 'application/zip',
+      })
+    },
+  }
+}
+
+/**
+ * Build an uncompressed ZIP archive
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const writer = createZipWriter()
+  for (const entry of entries) {
+    writer.add(entry)
+  }
+  return writer.finish()
+}
+
+/**
+ * A file read from a ZIP archive
+ */
+export interface ZipFile {
+  /** Path inside the archive */
+  path: string
+  /** Uncompressed contents */
+  data: Uint8Array
+}
+
+/**
+ * Decompress raw deflate data with the browser's DecompressionStream
+ */
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('Compressed ZIP entries are not supported in this browser')
+  }
+  const input = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(data)
+      controller.close()
+    },
+  })
+  const reader = input
+    .pipeThrough(
+      new DecompressionStream('deflate-raw') as ReadableWritablePair<Uint8Array, Uint8Array>,
+    )
+    .getReader()
+
+  const chunks: Uint8Array[] = []
+  let length = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    length += value.length
+  }
+
+  const result = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
+
+/**
+ * Locate the end of central directory record (it may be followed by a comment)
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  const last = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE
+  const first = Math.max(0, last - MAX_COMMENT_LENGTH)
+  for (let offset = last; offset >= first; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset
+    }
+  }
+  throw new Error('Invalid ZIP archive')
+}
+
+/**
+ * Read every file in a ZIP archive (directories are skipped)
+ * @throws Error if the archive is malformed or uses an unsupported compression method
+ */
+export async function readZip(bytes: Uint8Array): Promise<ZipFile[]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (bytes.length < END_OF_CENTRAL_DIRECTORY_SIZE) {
+    throw new Error('Invalid ZIP archive')
+  }
+
+  const end = findEndOfCentralDirectory(view)
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  const files: ZipFile[] = []
+
+  for (let i = 0; i < count; i++) {
+    if (
+      offset + 46 > bytes.length ||
+      view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE
+    ) {
+      throw new Error('Invalid ZIP archive')
+    }
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (path.endsWith('/')) continue
+
+    // 本地文件头的 extra 长度可能与中央目录不同，需要单独读取
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new Error('Invalid ZIP archive')
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true)
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === METHOD_STORE) {
+      files.push({ path, data: raw })
+    } else if (method === METHOD_DEFLATE) {
+      files.push({ path, data: await inflateRaw(raw) })
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method}`)
+    }
+  }
+
+  return files
+}
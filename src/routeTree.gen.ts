@@ -9,17 +9,35 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as MoodRouteImport } from './routes/mood'
 import { Route as SearchRouteImport } from './routes/search'
+import { Route as TrashRouteImport } from './routes/trash'
+import { Route as HistoryIdRouteImport } from './routes/history.$id'
 import { Route as TimelineRouteImport } from './routes/_timeline'
 import { Route as TimelineIndexRouteImport } from './routes/_timeline/index'
 import { Route as TimelineEntryNewRouteImport } from './routes/_timeline/entry/new'
 import { Route as TimelineEntryIdRouteImport } from './routes/_timeline/entry/$id'
 
+const MoodRoute = MoodRouteImport.update({
+  id: '/mood',
+  path: '/mood',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const SearchRoute = SearchRouteImport.update({
   id: '/search',
   path: '/search',
   getParentRoute: () => rootRouteImport,
 } as any)
+const TrashRoute = TrashRouteImport.update({
+  id: '/trash',
+  path: '/trash',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const HistoryIdRoute = HistoryIdRouteImport.update({
+  id: '/history/$id',
+  path: '/history/$id',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const TimelineRoute = TimelineRouteImport.update({
   id: '/_timeline',
   getParentRoute: () => rootRouteImport,
@@ -41,13 +59,19 @@ const TimelineEntryIdRoute = TimelineEntryIdRouteImport.update({
 } as any)
 
 export interface FileRoutesByFullPath {
+  '/mood': typeof MoodRoute
   '/search': typeof SearchRoute
+  '/trash': typeof TrashRoute
+  '/history/$id': typeof HistoryIdRoute
   '/': typeof TimelineIndexRoute
   '/entry/$id': typeof TimelineEntryIdRoute
   '/entry/new': typeof TimelineEntryNewRoute
 }
 export interface FileRoutesByTo {
+  '/mood': typeof MoodRoute
   '/search': typeof SearchRoute
+  '/trash': typeof TrashRoute
+  '/history/$id': typeof HistoryIdRoute
   '/': typeof TimelineIndexRoute
   '/entry/$id': typeof TimelineEntryIdRoute
   '/entry/new': typeof TimelineEntryNewRoute
@@ -55,20 +79,26 @@ export interface FileRoutesByTo {
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/_timeline': typeof TimelineRouteWithChildren
+  '/mood': typeof MoodRoute
   '/search': typeof SearchRoute
+  '/trash': typeof TrashRoute
+  '/history/$id': typeof HistoryIdRoute
   '/_timeline/': typeof TimelineIndexRoute
   '/_timeline/entry/$id': typeof TimelineEntryIdRoute
   '/_timeline/entry/new': typeof TimelineEntryNewRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/search' | '/' | '/entry/$id' | '/entry/new'
+  fullPaths: '/mood' | '/search' | '/trash' | '/history/$id' | '/' | '/entry/$id' | '/entry/new'
   fileRoutesByTo: FileRoutesByTo
-  to: '/search' | '/' | '/entry/$id' | '/entry/new'
+  to: '/mood' | '/search' | '/trash' | '/history/$id' | '/' | '/entry/$id' | '/entry/new'
   id:
     | '__root__'
     | '/_timeline'
+    | '/mood'
     | '/search'
+    | '/trash'
+    | '/history/$id'
     | '/_timeline/'
     | '/_timeline/entry/$id'
     | '/_timeline/entry/new'
@@ -76,11 +106,21 @@ export interface FileRouteTypes {
 }
 export interface RootRouteChildren {
   TimelineRoute: typeof TimelineRouteWithChildren
+  MoodRoute: typeof MoodRoute
   SearchRoute: typeof SearchRoute
+  TrashRoute: typeof TrashRoute
+  HistoryIdRoute: typeof HistoryIdRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/mood': {
+      id: '/mood'
+      path: '/mood'
+      fullPath: '/mood'
+      preLoaderRoute: typeof MoodRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/search': {
       id: '/search'
       path: '/search'
@@ -88,6 +128,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SearchRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/trash': {
+      id: '/trash'
+      path: '/trash'
+      fullPath: '/trash'
+      preLoaderRoute: typeof TrashRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/history/$id': {
+      id: '/history/$id'
+      path: '/history/$id'
+      fullPath: '/history/$id'
+      preLoaderRoute: typeof HistoryIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/_timeline': {
       id: '/_timeline'
       path: ''
@@ -137,7 +191,10 @@ const TimelineRouteWithChildren = TimelineRoute._addFileChildren(
 
 const rootRouteChildren: RootRouteChildren = {
   TimelineRoute: TimelineRouteWithChildren,
+  MoodRoute: MoodRoute,
   SearchRoute: SearchRoute,
+  TrashRoute: TrashRoute,
+  HistoryIdRoute: HistoryIdRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -1,10 +1,14 @@
 import type { QueryClient } from '@tanstack/react-query'
 import { createRootRouteWithContext, HeadContent, Outlet, Scripts } from '@tanstack/react-router'
 import { useEffect } from 'react'
+import { AppLockProvider } from '@/components/lock'
+import { StorageCleanupDialog } from '@/components/storage'
 import { ToastProvider } from '@/components/ui'
+import { useSyncBus } from '@/hooks/useSync'
 import { registerServiceWorker } from '@/lib/registerSW'
 import '@/i18n'
 import i18n from '@/i18n'
+import { useLocale } from '@/i18n/useLocale'
 import appCss from '../styles.css?url'
 
 interface RouterContext {
@@ -71,6 +75,12 @@ function RootComponent() {
     registerServiceWorker()
   }, [])
 
+  // 多标签页同步
+  useSyncBus()
+
+  // 应用存储的语言设置
+  useLocale()
+
   // 获取当前语言
   const currentLang = i18n.language || 'zh-CN'
 
@@ -81,7 +91,12 @@ function RootComponent() {
       </head>
       <body className="antialiased">
         <ToastProvider>
-          <Outlet />
+          {/* 应用锁：解锁前不渲染页面 */}
+          <AppLockProvider>
+            <Outlet />
+            {/* 存储空间不足时自动弹出 */}
+            <StorageCleanupDialog />
+          </AppLockProvider>
         </ToastProvider>
         <Scripts />
       </body>
@@ -14,7 +14,8 @@ const easeOut = [0.32, 0.72, 0, 1] as const
 function TimelineLayout() {
   // 从 URL 获取 search params（用于搜索结果跳转）
   const search = useRouterState({
-    select: (state) => state.location.search as { date?: string; scrollTo?: string },
+    select: (state) =>
+      state.location.search as { date?: string; scrollTo?: string; highlight?: string },
   })
 
   // 检查用户是否偏好减少动画
@@ -30,7 +31,11 @@ function TimelineLayout() {
     <>
       {/* 编辑器打开时禁用时间线交互，防止焦点跳出覆盖层 */}
       <div inert={isOverlayRoute ? true : undefined}>
-        <Timeline initialDate={search.date} scrollToId={search.scrollTo} />
+        <Timeline
+          initialDate={search.date}
+          scrollToId={search.scrollTo}
+          highlightQuery={search.highlight}
+        />
       </div>
       <AnimatePresence>
         {isOverlayRoute && (
@@ -3,14 +3,23 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import { DiaryEditor, EditorHeader, EditorToolbar } from '@/components/editor'
+import {
+  DiaryEditor,
+  EditorHeader,
+  EditorToolbar,
+  RemoteChangeBanner,
+  type RemoteChangeKind,
+} from '@/components/editor'
 import type { DiaryEditorRef } from '@/components/editor/DiaryEditor'
 import { Skeleton } from '@/components/timeline'
 import { ConfirmDialog, useToast } from '@/components/ui'
 import { useEntry, useUpdateEntry } from '@/hooks/useEntries'
 import { useCreateImages, useDeleteImage, useImagesByIds } from '@/hooks/useImages'
 import { useKeyboardHeight } from '@/hooks/useKeyboardHeight'
+import { useSyncSubscription } from '@/hooks/useSync'
 import { revokeImageUrl } from '@/lib/image'
+import { SYNC_ALL_ID } from '@/lib/sync'
+import type { Mood } from '@/types'
 
 interface ProcessedImage {
   file: File
@@ -46,6 +55,11 @@ function EditEntryPage() {
   const [isDirty, setIsDirty] = useState(false)
   const [removedImageIds, setRemovedImageIds] = useState<string[]>([])
   const [newImages, setNewImages] = useState<ImageItem[]>([])
+  const [mood, setMood] = useState<Mood | undefined>(undefined)
+  const [isPrivate, setIsPrivate] = useState(false)
+  // Content the editor was initialized with; later refetches must not reset the editor
+  const [initialContent, setInitialContent] = useState<string | null>(null)
+  const [remoteChange, setRemoteChange] = useState<RemoteChangeKind | null>(null)
   const processedImagesRef = useRef<Map<string, ProcessedImage>>(new Map())
   const editorRef = useRef<DiaryEditorRef>(null)
 
@@ -65,11 +79,40 @@ function EditEntryPage() {
       }))
   }, [existingImagesData, removedImageIds])
 
-  // Sync content when entry loads
+  // Sync content when entry first loads
   useEffect(() => {
-    if (entry) {
+    if (entry && initialContent === null) {
+      setInitialContent(entry.content)
       setContent(entry.content)
+      setMood(entry.mood)
+      setIsPrivate(entry.private ?? false)
     }
+  }, [entry, initialContent])
+
+  // 其他标签页修改或删除了这篇日记
+  useSyncSubscription((message) => {
+    if (message.type !== 'entry') return
+    if (message.id !== id && message.id !== SYNC_ALL_ID) return
+    setRemoteChange(message.action === 'delete' ? 'deleted' : 'updated')
+  })
+
+  // 放弃本地修改，载入其他标签页保存的最新版本
+  const handleReloadLatest = useCallback(() => {
+    if (!entry) return
+    editorRef.current?.setContent(entry.content)
+    setContent(entry.content)
+    setMood(entry.mood)
+    setIsPrivate(entry.private ?? false)
+    setRemovedImageIds([])
+    setNewImages((prev) => {
+      for (const img of prev) {
+        revokeImageUrl(img.previewUrl)
+      }
+      return []
+    })
+    processedImagesRef.current.clear()
+    setIsDirty(false)
+    setRemoteChange(null)
   }, [entry])
 
   const handleContentChange = useCallback((newContent: string) => {
@@ -77,6 +120,16 @@ function EditEntryPage() {
     setIsDirty(true)
   }, [])
 
+  const handleMoodChange = useCallback((newMood: Mood | undefined) => {
+    setMood(newMood)
+    setIsDirty(true)
+  }, [])
+
+  const handlePrivateChange = useCallback((value: boolean) => {
+    setIsPrivate(value)
+    setIsDirty(true)
+  }, [])
+
   // 新图片相关处理
   const handleImagesAdd = useCallback((addedImages: ImageItem[]) => {
     setNewImages((prev) => [...prev, ...addedImages])
@@ -178,6 +231,8 @@ function EditEntryPage() {
         id: entry.id,
         content: content.trim(),
         imageIds: finalImageIds,
+        mood: mood ?? null,
+        private: isPrivate,
       })
 
       setIsDirty(false)
@@ -188,6 +243,8 @@ function EditEntryPage() {
   }, [
     entry,
     content,
+    mood,
+    isPrivate,
     removedImageIds,
     updateEntry,
     createImages,
@@ -269,15 +326,27 @@ function EditEntryPage() {
         onSave={handleSave}
         saveDisabled={saveDisabled}
         isSaving={updateEntry.isPending}
+        mood={mood}
+        onMoodChange={handleMoodChange}
+        isPrivate={isPrivate}
+        onPrivateChange={handlePrivateChange}
       />
 
       <main
         className="flex min-h-0 flex-1 flex-col overflow-hidden px-5 pt-5"
         style={{ paddingBottom: keyboardHeight + 56 }}
       >
+        {remoteChange && (
+          <RemoteChangeBanner
+            kind={remoteChange}
+            onReload={handleReloadLatest}
+            onDismiss={() => setRemoteChange(null)}
+            className="mb-3 shrink-0"
+          />
+        )}
         <DiaryEditor
           ref={editorRef}
-          initialContent={entry.content}
+          initialContent={initialContent ?? entry.content}
           onChange={handleContentChange}
           existingImages={existingImages}
           newImages={newImages}
@@ -12,6 +12,7 @@ import { useCreateImages } from '@/hooks/useImages'
 import { useKeyboardHeight } from '@/hooks/useKeyboardHeight'
 import { useRandomPrompt } from '@/hooks/useRandomPrompt'
 import { revokeImageUrl } from '@/lib/image'
+import type { Mood } from '@/types'
 
 interface ProcessedImage {
   file: File
@@ -50,6 +51,8 @@ function NewEntryPage() {
   const [content, setContent] = useState('')
   const [isDirty, setIsDirty] = useState(false)
   const [images, setImages] = useState<ImageItem[]>([])
+  const [mood, setMood] = useState<Mood | undefined>(undefined)
+  const [isPrivate, setIsPrivate] = useState(false)
   const processedImagesRef = useRef<Map<string, ProcessedImage>>(new Map())
   const editorRef = useRef<DiaryEditorRef>(null)
 
@@ -64,6 +67,16 @@ function NewEntryPage() {
     setIsDirty(true)
   }, [])
 
+  const handleMoodChange = useCallback((newMood: Mood | undefined) => {
+    setMood(newMood)
+    setIsDirty(true)
+  }, [])
+
+  const handlePrivateChange = useCallback((value: boolean) => {
+    setIsPrivate(value)
+    setIsDirty(true)
+  }, [])
+
   // 图片相关处理
   const handleImagesAdd = useCallback((newImages: ImageItem[]) => {
     setImages((prev) => [...prev, ...newImages])
@@ -129,6 +142,8 @@ function NewEntryPage() {
       const entry = await createEntry.mutateAsync({
         content: content.trim(),
         date: entryDate,
+        ...(mood && { mood }),
+        ...(isPrivate && { private: true }),
       })
 
       // Save images if any
@@ -152,7 +167,18 @@ function NewEntryPage() {
     } catch {
       addToast(t('saveFailed'), 'error')
     }
-  }, [content, entryDate, createEntry, updateEntry, createImages, navigate, t, addToast])
+  }, [
+    content,
+    entryDate,
+    mood,
+    isPrivate,
+    createEntry,
+    updateEntry,
+    createImages,
+    navigate,
+    t,
+    addToast,
+  ])
 
   // 新建日记必须有内容才能保存
   const saveDisabled = !content.trim()
@@ -192,6 +218,10 @@ function NewEntryPage() {
         onSave={handleSave}
         saveDisabled={saveDisabled}
         isSaving={createEntry.isPending}
+        mood={mood}
+        onMoodChange={handleMoodChange}
+        isPrivate={isPrivate}
+        onPrivateChange={handlePrivateChange}
       />
 
       <main
@@ -2,10 +2,18 @@
 
 import { createFileRoute } from '@tanstack/react-router'
 
+interface TimelineSearch {
+  date: string | undefined
+  scrollTo: string | undefined
+  /** Search query whose matches are highlighted in the scrolled-to entry */
+  highlight?: string
+}
+
 export const Route = createFileRoute('/_timeline/')({
-  validateSearch: (search: Record<string, unknown>) => ({
+  validateSearch: (search: Record<string, unknown>): TimelineSearch => ({
     date: typeof search.date === 'string' ? search.date : undefined,
     scrollTo: typeof search.scrollTo === 'string' ? search.scrollTo : undefined,
+    ...(typeof search.highlight === 'string' && { highlight: search.highlight }),
   }),
   component: () => null,
 })
@@ -0,0 +1,224 @@
+'use client'
+
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { ArrowLeft, History, RotateCcw } from 'lucide-react'
+import { useCallback, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { DiffView } from '@/components/history'
+import { PasscodeDialog, PrivateEntryPlaceholder, useAppLock } from '@/components/lock'
+import { Skeleton } from '@/components/timeline'
+import { useToast } from '@/components/ui'
+import { useEntry } from '@/hooks/useEntries'
+import { useEntryRevisions, useRestoreRevision } from '@/hooks/useRevisions'
+import i18n from '@/i18n'
+import { diffLines, getDiffStats } from '@/lib/diff'
+import { MAX_REVISIONS_PER_ENTRY } from '@/lib/repositories'
+import type { EntryRevision } from '@/types'
+
+export const Route = createFileRoute('/history/$id')({
+  component: HistoryPage,
+})
+
+const CURRENT_VERSION_ID = 'current'
+
+interface VersionOption {
+  id: string
+  content: string
+  updatedAt: number
+  /** Undefined for the current version */
+  revision?: EntryRevision
+}
+
+/**
+ * Format timestamp to a readable date and time
+ */
+function formatVersionTime(timestamp: number): string {
+  const locale = i18n.language === 'en' ? 'en-US' : 'zh-CN'
+  return new Date(timestamp).toLocaleString(locale, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function HistoryPage() {
+  const navigate = useNavigate()
+  const { addToast } = useToast()
+  const { t } = useTranslation('history')
+  const { t: tCommon } = useTranslation('common')
+  const { t: tEntry } = useTranslation('entry')
+  const { id } = Route.useParams()
+
+  const { data: entry, isLoading: isEntryLoading } = useEntry(id)
+  const { data: revisions, isLoading: isRevisionsLoading } = useEntryRevisions(id)
+  const restoreRevision = useRestoreRevision()
+  const { isEnabled: isLockEnabled, isPrivateRevealed, revealPrivate } = useAppLock()
+  const [showRevealDialog, setShowRevealDialog] = useState(false)
+
+  // null = default selection (latest revision → current version)
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+
+  // 版本列表：当前版本在前，其余按时间倒序
+  const versions = useMemo<VersionOption[]>(() => {
+    if (!entry) return []
+    return [
+      { id: CURRENT_VERSION_ID, content: entry.content, updatedAt: entry.updatedAt },
+      ...(revisions ?? []).map((revision) => ({
+        id: revision.id,
+        content: revision.content,
+        updatedAt: revision.updatedAt,
+        revision,
+      })),
+    ]
+  }, [entry, revisions])
+
+  const fromVersion = versions.find((v) => v.id === fromId) ?? versions[1]
+  const toVersion = versions.find((v) => v.id === toId) ?? versions[0]
+
+  const diff = useMemo(
+    () => (fromVersion && toVersion ? diffLines(fromVersion.content, toVersion.content) : []),
+    [fromVersion, toVersion],
+  )
+  const stats = getDiffStats(diff)
+
+  const handleBack = useCallback(() => {
+    navigate({
+      to: '/',
+      search: { date: entry?.date, scrollTo: entry?.id },
+    })
+  }, [navigate, entry])
+
+  const handleRestore = useCallback(async () => {
+    if (!fromVersion?.revision) return
+    try {
+      await restoreRevision.mutateAsync(fromVersion.revision)
+      // 恢复后回到默认对比：刚保存的旧内容 → 当前版本
+      setFromId(null)
+      setToId(null)
+      addToast(t('restoreSuccess'), 'success')
+    } catch {
+      addToast(t('restoreFailed'), 'error')
+    }
+  }, [fromVersion, restoreRevision, addToast, t])
+
+  // 设置了应用锁时需验证口令才能显示私密日记
+  const handleRevealPrivate = useCallback(() => {
+    if (isLockEnabled) {
+      setShowRevealDialog(true)
+    } else {
+      revealPrivate()
+    }
+  }, [isLockEnabled, revealPrivate])
+
+  const versionLabel = (version: VersionOption) =>
+    version.id === CURRENT_VERSION_ID
+      ? `${t('current')} · ${formatVersionTime(version.updatedAt)}`
+      : formatVersionTime(version.updatedAt)
+
+  const isLoading = isEntryLoading || isRevisionsLoading
+
+  return (
+    <div className="flex h-dvh flex-col overflow-y-auto bg-background">
+      <header className="sticky top-0 z-40 flex h-14 shrink-0 items-center gap-3 border-b border-border bg-background px-4">
+        <button
+          type="button"
+          onClick={handleBack}
+          className="touch-target flex shrink-0 items-center justify-center rounded-sm text-foreground transition-colors hover:bg-surface focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring active:opacity-60"
+          aria-label={tCommon('back')}
+        >
+          <ArrowLeft className="h-6 w-6" />
+        </button>
+        <h1 className="flex-1 text-base font-medium text-foreground">{t('title')}</h1>
+      </header>
+
+      <main className="mx-auto w-full max-w-[600px] flex-1 px-5 pb-12 pt-5">
+        {isLoading ? (
+          <Skeleton className="h-[200px] w-full" />
+        ) : !entry ? (
+          <p className="py-16 text-center text-muted-foreground">{tEntry('notFound')}</p>
+        ) : entry.private && !isPrivateRevealed ? (
+          <PrivateEntryPlaceholder onReveal={handleRevealPrivate} />
+        ) : versions.length < 2 || !fromVersion || !toVersion ? (
+          <div className="flex flex-col items-center justify-center px-4 py-16 text-center">
+            <History className="mb-4 h-12 w-12 text-muted-foreground/50" />
+            <p className="text-foreground">{t('noRevisions')}</p>
+            <p className="mt-2 text-sm text-muted-foreground">
+              {t('noRevisionsHint', { count: MAX_REVISIONS_PER_ENTRY })}
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* 版本选择 */}
+            <div className="grid grid-cols-2 gap-2">
+              <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+                {t('from')}
+                <select
+                  value={fromVersion.id}
+                  onChange={(e) => setFromId(e.target.value)}
+                  className="rounded-md border border-border bg-background p-2 text-xs text-foreground"
+                >
+                  {versions.map((version) => (
+                    <option key={version.id} value={version.id}>
+                      {versionLabel(version)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+                {t('to')}
+                <select
+                  value={toVersion.id}
+                  onChange={(e) => setToId(e.target.value)}
+                  className="rounded-md border border-border bg-background p-2 text-xs text-foreground"
+                >
+                  {versions.map((version) => (
+                    <option key={version.id} value={version.id}>
+                      {versionLabel(version)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {/* 差异 */}
+            <div className="mt-4 flex items-center justify-between text-xs text-muted-foreground">
+              <span>{t('diffLabel')}</span>
+              <span>{t('stats', { added: stats.added, removed: stats.removed })}</span>
+            </div>
+            {stats.added === 0 && stats.removed === 0 ? (
+              <p className="mt-2 rounded-md border border-border p-3 text-sm text-muted-foreground">
+                {t('noChanges')}
+              </p>
+            ) : (
+              <DiffView lines={diff} className="mt-2" />
+            )}
+
+            {/* 回滚 */}
+            {fromVersion.revision && (
+              <div className="mt-4">
+                <button
+                  type="button"
+                  onClick={handleRestore}
+                  disabled={restoreRevision.isPending}
+                  className="flex w-full items-center justify-center gap-2 rounded-md border border-border p-3 text-sm font-medium text-foreground transition-colors hover:bg-surface disabled:opacity-50"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  {t('restore', { time: formatVersionTime(fromVersion.updatedAt) })}
+                </button>
+                <p className="mt-2 text-center text-xs text-muted-foreground">{t('restoreHint')}</p>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      <PasscodeDialog
+        action={showRevealDialog ? 'reveal' : null}
+        onClose={() => setShowRevealDialog(false)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { ArrowLeft, SmilePlus } from 'lucide-react'
+import { useCallback, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { MoodChart } from '@/components/mood'
+import { Skeleton } from '@/components/timeline'
+import { useEntriesByDateRange } from '@/hooks/useEntries'
+import {
+  computeMoodTrend,
+  getMoodLevel,
+  getMoodRange,
+  MOOD_LEVELS,
+  MOOD_PERIODS,
+  type MoodPeriod,
+} from '@/lib/mood'
+import { cn } from '@/lib/utils'
+import type { MoodScore } from '@/types'
+
+export const Route = createFileRoute('/mood')({
+  component: MoodPage,
+})
+
+function MoodPage() {
+  const navigate = useNavigate()
+  const { t } = useTranslation('mood')
+  const { t: tCommon } = useTranslation('common')
+  const [period, setPeriod] = useState<MoodPeriod>(30)
+
+  // 日期范围只在切换周期时重新计算，避免 queryKey 每次渲染都变化
+  const range = useMemo(() => getMoodRange(period), [period])
+  const { data: entries, isLoading } = useEntriesByDateRange(range)
+
+  const trend = useMemo(() => computeMoodTrend(entries ?? [], range), [entries, range])
+  const maxCount = Math.max(1, ...trend.distribution)
+
+  const handleBack = useCallback(() => {
+    navigate({ to: '/', search: { date: undefined, scrollTo: undefined } })
+  }, [navigate])
+
+  return (
+    <div className="flex h-dvh flex-col overflow-y-auto bg-background">
+      <header className="sticky top-0 z-40 flex h-14 shrink-0 items-center gap-3 border-b border-border bg-background px-4">
+        <button
+          type="button"
+          onClick={handleBack}
+          className="touch-target flex shrink-0 items-center justify-center rounded-sm text-foreground transition-colors hover:bg-surface focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring active:opacity-60"
+          aria-label={tCommon('back')}
+        >
+          <ArrowLeft className="h-6 w-6" />
+        </button>
+        <h1 className="flex-1 text-base font-medium text-foreground">{t('trends')}</h1>
+      </header>
+
+      <main className="mx-auto w-full max-w-[600px] flex-1 px-5 pb-12 pt-5">
+        {/* 周期切换 */}
+        <div className="flex gap-2" role="tablist">
+          {MOOD_PERIODS.map((days) => (
+            <button
+              key={days}
+              type="button"
+              role="tab"
+              aria-selected={period === days}
+              onClick={() => setPeriod(days)}
+              className={cn(
+                'flex-1 rounded-md border p-2 text-xs text-foreground transition-colors',
+                period === days ? 'border-foreground bg-surface' : 'border-border hover:bg-surface',
+              )}
+            >
+              {t('period', { count: days })}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="mt-6 h-[200px] w-full" />
+        ) : trend.total === 0 ? (
+          <div className="flex flex-col items-center justify-center px-4 py-16 text-center">
+            <SmilePlus className="mb-4 h-12 w-12 text-muted-foreground/50" />
+            <p className="text-foreground">{t('noData')}</p>
+            <p className="mt-2 text-sm text-muted-foreground">{t('noDataHint')}</p>
+          </div>
+        ) : (
+          <>
+            {/* 概览 */}
+            <div className="mt-6 grid grid-cols-2 gap-2">
+              <div className="rounded-md border border-border bg-surface p-3">
+                <div className="text-xs text-muted-foreground">{t('average')}</div>
+                <div className="mt-1 text-lg font-medium text-foreground">
+                  {trend.average !== null && (
+                    <>
+                      {getMoodLevel(Math.round(trend.average) as MoodScore).emoji}{' '}
+                      {trend.average.toFixed(1)}
+                    </>
+                  )}
+                </div>
+              </div>
+              <div className="rounded-md border border-border bg-surface p-3">
+                <div className="text-xs text-muted-foreground">{t('logged')}</div>
+                <div className="mt-1 text-lg font-medium text-foreground">
+                  {t('loggedCount', { count: trend.total })}
+                </div>
+              </div>
+            </div>
+
+            {/* 趋势图 */}
+            <div className="mt-6 rounded-md border border-border p-3">
+              <MoodChart points={trend.points} label={t('chartLabel', { count: period })} />
+            </div>
+
+            {/* 分布 */}
+            <section className="mt-6">
+              <h2 className="mb-3 text-sm font-medium text-foreground">{t('distribution')}</h2>
+              <ul className="flex flex-col gap-2">
+                {[...MOOD_LEVELS].reverse().map((level) => {
+                  const count = trend.distribution[level.score - 1] ?? 0
+                  return (
+                    <li key={level.score} className="flex items-center gap-3 text-sm">
+                      <span className="w-6 text-center" aria-hidden="true">
+                        {level.emoji}
+                      </span>
+                      <span className="w-14 text-xs text-muted-foreground">
+                        {t(level.labelKey)}
+                      </span>
+                      <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted">
+                        <div
+                          className="h-full rounded-full bg-foreground"
+                          style={{ width: `${(count / maxCount) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-8 text-right text-xs text-muted-foreground">{count}</span>
+                    </li>
+                  )
+                })}
+              </ul>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -1,51 +1,64 @@
 'use client'
 
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
-import { ArrowLeft, Loader2, Search, X } from 'lucide-react'
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { ArrowLeft, Bookmark, BookmarkCheck, Loader2, Search, Trash2, X } from 'lucide-react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
+import { useAppLock } from '@/components/lock'
+import { SaveSearchDialog } from '@/components/search'
+import { useToast } from '@/components/ui'
 import { useSearchEntries } from '@/hooks/useEntries'
+import { useSetting } from '@/hooks/useSettings'
+import {
+  addSavedSearch,
+  findSavedSearch,
+  MAX_SAVED_SEARCH_NAME_LENGTH,
+  MAX_SAVED_SEARCHES,
+} from '@/lib/savedSearches'
+import {
+  type ExcludedTerm,
+  getHighlightPattern,
+  isEmptyQuery,
+  type MoodOperator,
+  parseSearchQuery,
+  type QuerySpan,
+  removeQuerySpan,
+  type SearchFilter,
+} from '@/lib/searchQuery'
+import {
+  getExcerpts,
+  groupSearchResults,
+  isSearchGrouping,
+  isSearchSort,
+  SEARCH_GROUPING_OPTIONS,
+  SEARCH_RESULTS_PAGE_SIZE,
+  SEARCH_SORT_OPTIONS,
+  type SearchGrouping,
+  type SearchSort,
+  sortSearchResults,
+} from '@/lib/searchResults'
+import { MAX_SEARCH_HISTORY_ITEMS } from '@/lib/settings'
 import { cn } from '@/lib/utils'
-import type { DiaryEntry } from '@/types'
+import type { DiaryEntry, SavedSearch } from '@/types'
+
+interface SearchPageSearch {
+  /** Query to search for when the page opens (e.g. a saved search) */
+  q: string | undefined
+}
 
 export const Route = createFileRoute('/search')({
+  validateSearch: (search: Record<string, unknown>): SearchPageSearch => ({
+    q: typeof search.q === 'string' ? search.q : undefined,
+  }),
   component: SearchPage,
 })
 
-// 搜索历史存储的 key
-const SEARCH_HISTORY_KEY = 'mini-diary-search-history'
-const MAX_HISTORY_ITEMS = 5
-
-// 获取搜索历史
-function getSearchHistory(): string[] {
-  if (typeof window === 'undefined') return []
-  try {
-    const stored = localStorage.getItem(SEARCH_HISTORY_KEY)
-    return stored ? JSON.parse(stored) : []
-  } catch {
-    return []
-  }
-}
-
-// 保存搜索历史
-function saveSearchHistory(history: string[]): void {
-  if (typeof window === 'undefined') return
-  try {
-    localStorage.setItem(SEARCH_HISTORY_KEY, JSON.stringify(history))
-  } catch {
-    // Ignore storage errors
-  }
-}
-
-// 添加搜索历史
-function addToSearchHistory(query: string): void {
-  if (!query.trim()) return
-  const history = getSearchHistory()
+// 添加搜索历史（返回新的历史列表）
+function addToSearchHistory(history: string[], query: string): string[] {
   // 移除重复项
   const filtered = history.filter((item) => item !== query)
   // 添加到开头
-  const newHistory = [query, ...filtered].slice(0, MAX_HISTORY_ITEMS)
-  saveSearchHistory(newHistory)
+  return [query, ...filtered].slice(0, MAX_SEARCH_HISTORY_ITEMS)
 }
 
 // 防抖 hook
@@ -65,20 +78,20 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue
 }
 
-// 高亮关键词组件
-function HighlightText({ text, keyword }: { text: string; keyword: string }) {
-  if (!keyword.trim()) {
+// 高亮关键词组件（pattern 只有一个捕获组，split 后奇数位置为匹配部分）
+function HighlightText({ text, pattern }: { text: string; pattern: RegExp | null }) {
+  if (!pattern) {
     return <span>{text}</span>
   }
 
-  const parts = text.split(new RegExp(`(${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi'))
+  const parts = text.split(pattern)
 
   // Generate stable keys using cumulative position
   const elementsWithKeys = parts.reduce<{ elements: React.ReactNode[]; pos: number }>(
-    (acc, part) => {
+    (acc, part, index) => {
       const key = `${acc.pos}-${part.slice(0, 10)}`
       const element =
-        part.toLowerCase() === keyword.toLowerCase() ? (
+        index % 2 === 1 ? (
           <mark key={key} className="bg-foreground/20 text-foreground rounded-sm px-0.5">
             {part}
           </mark>
@@ -99,42 +112,17 @@ function HighlightText({ text, keyword }: { text: string; keyword: string }) {
 // 搜索结果项组件
 function SearchResultItem({
   entry,
-  keyword,
+  pattern,
   onClick,
   locale,
 }: {
   entry: DiaryEntry
-  keyword: string
+  pattern: RegExp | null
   onClick: () => void
   locale: string
 }) {
-  // 获取摘要，显示关键词周围的内容
-  const excerpt = useMemo(() => {
-    const content = entry.content
-    const maxLength = 100
-
-    if (!keyword.trim()) {
-      return content.slice(0, maxLength) + (content.length > maxLength ? '...' : '')
-    }
-
-    const lowerContent = content.toLowerCase()
-    const lowerKeyword = keyword.toLowerCase()
-    const index = lowerContent.indexOf(lowerKeyword)
-
-    if (index === -1) {
-      return content.slice(0, maxLength) + (content.length > maxLength ? '...' : '')
-    }
-
-    // 显示关键词前后的内容
-    const start = Math.max(0, index - 30)
-    const end = Math.min(content.length, index + keyword.length + 70)
-    let excerpt = content.slice(start, end)
-
-    if (start > 0) excerpt = `...${excerpt}`
-    if (end < content.length) excerpt = `${excerpt}...`
-
-    return excerpt
-  }, [entry.content, keyword])
+  // 关键词周围的多段摘要
+  const excerpts = useMemo(() => getExcerpts(entry.content, pattern), [entry.content, pattern])
 
   // 格式化日期
   const formattedDate = useMemo(() => {
@@ -153,13 +141,283 @@ function SearchResultItem({
       className="w-full text-left p-4 border-b border-border hover:bg-surface transition-colors focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
     >
       <div className="text-xs text-muted-foreground mb-1">{formattedDate}</div>
-      <div className="text-sm text-foreground line-clamp-2">
-        <HighlightText text={excerpt} keyword={keyword} />
+      <div className="space-y-1">
+        {excerpts.map((excerpt, index) => (
+          // biome-ignore lint/suspicious/noArrayIndexKey: Excerpts are derived in order from the content
+          <div key={index} className="text-sm text-foreground line-clamp-2">
+            <HighlightText text={excerpt} pattern={pattern} />
+          </div>
+        ))}
       </div>
     </button>
   )
 }
 
+// 分组标题（年月按当前语言格式化）
+function formatGroupLabel(key: string, locale: string): string {
+  const [year, month] = key.split('-').map(Number)
+  if (year === undefined || Number.isNaN(year)) return key
+  const date = new Date(year, (month ?? 1) - 1, 1)
+  return new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    ...(month !== undefined && { month: 'long' }),
+  }).format(date)
+}
+
+// 搜索结果列表：排序、分组，滚动到底部时继续渲染
+function SearchResultList({
+  results,
+  pattern,
+  onResultClick,
+  scrollRootRef,
+}: {
+  results: DiaryEntry[]
+  pattern: RegExp | null
+  onResultClick: (entry: DiaryEntry) => void
+  scrollRootRef: React.RefObject<HTMLElement | null>
+}) {
+  const { t, i18n } = useTranslation('search')
+  const [sort, setSort] = useState<SearchSort>('relevance')
+  const [grouping, setGrouping] = useState<SearchGrouping>('none')
+  const [visibleCount, setVisibleCount] = useState(SEARCH_RESULTS_PAGE_SIZE)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  const groups = useMemo(
+    () => groupSearchResults(sortSearchResults(results, sort), grouping, sort),
+    [results, sort, grouping],
+  )
+  const hasMore = visibleCount < results.length
+
+  // 结果或排列方式变化时回到第一页
+  // biome-ignore lint/correctness/useExhaustiveDependencies: Reset whenever the list changes
+  useEffect(() => {
+    setVisibleCount(SEARCH_RESULTS_PAGE_SIZE)
+  }, [results, sort, grouping])
+
+  const showMore = useCallback(() => {
+    setVisibleCount((count) => count + SEARCH_RESULTS_PAGE_SIZE)
+  }, [])
+
+  // 底部标记进入视野时加载下一页
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!hasMore || !sentinel || typeof IntersectionObserver === 'undefined') return
+    const observer = new IntersectionObserver(
+      (observed) => {
+        if (observed.some((item) => item.isIntersecting)) showMore()
+      },
+      { root: scrollRootRef.current, rootMargin: '400px 0px' },
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, showMore, scrollRootRef])
+
+  // 只渲染前 visibleCount 条，分组标题仍显示整组的数量
+  let remaining = visibleCount
+  const visibleGroups = groups.flatMap((group) => {
+    if (remaining <= 0) return []
+    const entries = group.entries.slice(0, remaining)
+    remaining -= entries.length
+    return [{ ...group, visibleEntries: entries }]
+  })
+
+  return (
+    <div>
+      {/* 结果数量与排列方式 */}
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-2 border-b border-border px-4 py-2 text-xs text-muted-foreground">
+        <span className="mr-auto">{t('resultCount', { count: results.length })}</span>
+        <label className="flex items-center gap-1">
+          {t('sortBy')}
+          <select
+            value={sort}
+            onChange={(e) => isSearchSort(e.target.value) && setSort(e.target.value)}
+            className="rounded-sm border border-border bg-background px-1 py-0.5 text-xs text-foreground"
+          >
+            {SEARCH_SORT_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t(`sort.${option}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          {t('groupBy')}
+          <select
+            value={grouping}
+            onChange={(e) => isSearchGrouping(e.target.value) && setGrouping(e.target.value)}
+            className="rounded-sm border border-border bg-background px-1 py-0.5 text-xs text-foreground"
+          >
+            {SEARCH_GROUPING_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t(`grouping.${option}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {visibleGroups.map((group) => (
+        <section key={group.key}>
+          {group.key && (
+            <h2 className="sticky top-0 z-10 flex items-center justify-between border-b border-border bg-background/95 px-4 py-2 text-xs font-medium text-foreground backdrop-blur">
+              {formatGroupLabel(group.key, i18n.language)}
+              <span className="font-normal text-muted-foreground">
+                {t('resultCount', { count: group.entries.length })}
+              </span>
+            </h2>
+          )}
+          {group.visibleEntries.map((entry) => (
+            <SearchResultItem
+              key={entry.id}
+              entry={entry}
+              pattern={pattern}
+              onClick={() => onResultClick(entry)}
+              locale={i18n.language}
+            />
+          ))}
+        </section>
+      ))}
+
+      {hasMore && (
+        <div ref={sentinelRef} className="flex justify-center px-4 py-4">
+          <button
+            type="button"
+            onClick={showMore}
+            className="rounded-sm px-3 py-1 text-sm text-muted-foreground transition-colors hover:bg-surface hover:text-foreground focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
+          >
+            {t('showMore', { count: results.length - visibleCount })}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const MOOD_OPERATOR_LABELS: Record<MoodOperator, string> = {
+  '=': '=',
+  '>': '>',
+  '>=': '≥',
+  '<': '<',
+  '<=': '≤',
+}
+
+// 筛选条件的显示文字
+function useFilterLabel() {
+  const { t } = useTranslation('search')
+
+  return useCallback(
+    (filter: SearchFilter): string => {
+      const label = (() => {
+        switch (filter.type) {
+          case 'date':
+            return t('filterDate', { value: filter.value })
+          case 'before':
+            return t('filterBefore', { value: filter.value })
+          case 'after':
+            return t('filterAfter', { value: filter.value })
+          case 'has':
+            if (filter.value === 'image') return t('filterHasImage')
+            if (filter.value === 'mood') return t('filterHasMood')
+            return t('filterHasTag')
+          case 'tag':
+            return t('filterTag', { tag: filter.tag })
+          case 'mood':
+            return t('filterMood', {
+              operator: MOOD_OPERATOR_LABELS[filter.operator],
+              score: filter.score,
+            })
+        }
+      })()
+      return filter.negated ? t('filterNegated', { filter: label }) : label
+    },
+    [t],
+  )
+}
+
+// 筛选条件标签（可移除）
+function SearchFilterChips({
+  filters,
+  excluded,
+  onRemove,
+}: {
+  filters: SearchFilter[]
+  excluded: ExcludedTerm[]
+  onRemove: (span: QuerySpan) => void
+}) {
+  const { t } = useTranslation('search')
+  const getFilterLabel = useFilterLabel()
+  const chips = [
+    ...filters.map((filter) => ({ span: filter.span, label: getFilterLabel(filter) })),
+    ...excluded.map((term) => ({
+      span: term.span,
+      label: t('filterExcluded', { text: term.text }),
+    })),
+  ].sort((a, b) => a.span[0] - b.span[0])
+
+  if (chips.length === 0) return null
+
+  return (
+    <ul className="mt-2 flex flex-wrap gap-2">
+      {chips.map((chip) => (
+        <li
+          key={chip.span[0]}
+          className="flex items-center gap-1 rounded-full border border-border bg-surface py-0.5 pl-3 pr-1 text-xs text-foreground"
+        >
+          {chip.label}
+          <button
+            type="button"
+            onClick={() => onRemove(chip.span)}
+            className="rounded-full p-0.5 text-muted-foreground transition-colors hover:text-foreground focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
+            aria-label={t('removeFilter', { filter: chip.label })}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+// 已保存的搜索项组件
+function SavedSearchItem({
+  search,
+  onClick,
+  onDelete,
+  deleteLabel,
+}: {
+  search: SavedSearch
+  onClick: () => void
+  onDelete: () => void
+  deleteLabel: string
+}) {
+  return (
+    <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-border hover:bg-surface transition-colors">
+      <button
+        type="button"
+        onClick={onClick}
+        className="flex min-w-0 flex-1 items-center gap-3 text-left focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
+      >
+        <Bookmark className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <span className="min-w-0">
+          <span className="block truncate text-sm text-foreground">{search.name}</span>
+          <span className="block truncate text-xs text-muted-foreground">{search.query}</span>
+        </span>
+      </button>
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation()
+          onDelete()
+        }}
+        className="p-1 text-muted-foreground hover:text-destructive transition-colors focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
+        aria-label={deleteLabel}
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </div>
+  )
+}
+
 // 搜索历史项组件
 function SearchHistoryItem({
   query,
@@ -200,18 +458,28 @@ function SearchPage() {
   const navigate = useNavigate()
   const { t } = useTranslation('search')
   const { t: tCommon } = useTranslation('common')
-  const { i18n } = useTranslation()
-  const [query, setQuery] = useState('')
-  const [searchHistory, setSearchHistory] = useState<string[]>([])
+  const { addToast } = useToast()
+  const { q } = Route.useSearch()
+  const [query, setQuery] = useState(q ?? '')
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false)
+  const { value: searchHistory, setValue: setSearchHistory } = useSetting('searchHistory')
+  const { value: savedSearches, setValue: setSavedSearches } = useSetting('savedSearches')
   const debouncedQuery = useDebounce(query, 300)
-
-  // 加载搜索历史
-  useEffect(() => {
-    setSearchHistory(getSearchHistory())
-  }, [])
+  const parsedQuery = useMemo(() => parseSearchQuery(query), [query])
+  const searchedQuery = useMemo(() => parseSearchQuery(debouncedQuery), [debouncedQuery])
+  const highlightPattern = useMemo(() => getHighlightPattern(searchedQuery), [searchedQuery])
+  const currentSavedSearch = useMemo(
+    () => findSavedSearch(savedSearches, query),
+    [savedSearches, query],
+  )
 
   // 使用防抖后的查询进行搜索
-  const { data: results, isLoading, isFetching } = useSearchEntries(debouncedQuery)
+  const { isPrivateRevealed } = useAppLock()
+  const {
+    data: results,
+    isLoading,
+    isFetching,
+  } = useSearchEntries(debouncedQuery, isPrivateRevealed)
 
   const handleBack = useCallback(() => {
     navigate({ to: '/', search: { date: undefined, scrollTo: undefined } })
@@ -221,17 +489,23 @@ function SearchPage() {
     setQuery('')
   }, [])
 
+  const handleRemoveFilter = useCallback((span: QuerySpan) => {
+    setQuery((current) => removeQuerySpan(current, span))
+  }, [])
+
   const handleResultClick = useCallback(
     (entry: DiaryEntry) => {
       // 保存搜索历史
       if (debouncedQuery.trim()) {
-        addToSearchHistory(debouncedQuery.trim())
-        setSearchHistory(getSearchHistory())
+        setSearchHistory(addToSearchHistory(searchHistory, debouncedQuery.trim()))
       }
-      // 跳转到首页时间线，传递日期和条目 ID
-      navigate({ to: '/', search: { date: entry.date, scrollTo: entry.id } })
+      // 跳转到首页时间线，传递日期、条目 ID 和用于高亮的查询
+      navigate({
+        to: '/',
+        search: { date: entry.date, scrollTo: entry.id, highlight: debouncedQuery.trim() },
+      })
     },
-    [navigate, debouncedQuery],
+    [navigate, debouncedQuery, searchHistory, setSearchHistory],
   )
 
   const handleHistoryClick = useCallback((historyQuery: string) => {
@@ -240,83 +514,133 @@ function SearchPage() {
 
   const handleHistoryRemove = useCallback(
     (queryToRemove: string) => {
-      const newHistory = searchHistory.filter((item) => item !== queryToRemove)
-      saveSearchHistory(newHistory)
-      setSearchHistory(newHistory)
+      setSearchHistory(searchHistory.filter((item) => item !== queryToRemove))
+    },
+    [searchHistory, setSearchHistory],
+  )
+
+  const handleHistoryClear = useCallback(() => {
+    setSearchHistory([])
+  }, [setSearchHistory])
+
+  const handleSaveSearch = useCallback(
+    (name: string) => {
+      const next = addSavedSearch(savedSearches, name, query)
+      if (!next) {
+        addToast(t('savedSearchLimit', { count: MAX_SAVED_SEARCHES }), 'error')
+        return
+      }
+      setSavedSearches(next)
+      setIsSaveDialogOpen(false)
+      addToast(t('searchSaved'), 'success')
+    },
+    [savedSearches, query, setSavedSearches, addToast, t],
+  )
+
+  const handleSavedSearchDelete = useCallback(
+    (id: string) => {
+      setSavedSearches(savedSearches.filter((search) => search.id !== id))
+      addToast(t('savedSearchDeleted'), 'success')
     },
-    [searchHistory],
+    [savedSearches, setSavedSearches, addToast, t],
   )
 
+  const handleSaveDialogClose = useCallback(() => {
+    setIsSaveDialogOpen(false)
+  }, [])
+
   // 判断是否正在搜索
   const isSearching = isLoading || isFetching
-  const showResults = debouncedQuery.trim().length > 0
+  const showResults = !isEmptyQuery(searchedQuery)
   const hasResults = results && results.length > 0
   const hasHistory = searchHistory.length > 0
+  const hasSavedSearches = savedSearches.length > 0
+  const mainRef = useRef<HTMLElement>(null)
 
   return (
-    <div className="flex h-dvh flex-col overflow-y-auto bg-background">
+    <div className="flex h-dvh flex-col bg-background">
       {/* 搜索栏 */}
-      <header className="sticky top-0 z-40 flex items-center gap-3 border-b border-border bg-background px-4 py-2">
-        {/* 返回按钮 */}
-        <button
-          type="button"
-          onClick={handleBack}
-          className="touch-target flex shrink-0 items-center justify-center rounded-sm text-foreground transition-colors hover:bg-surface focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring active:opacity-60"
-          aria-label={tCommon('back')}
-        >
-          <ArrowLeft className="h-6 w-6" />
-        </button>
-
-        {/* 搜索输入框 */}
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-          <input
-            type="text"
-            value={query}
-            onChange={(e) => setQuery(e.target.value)}
-            placeholder={t('placeholder')}
-            // biome-ignore lint/a11y/noAutofocus: Search page needs auto-focus for better UX
-            autoFocus
-            className={cn(
-              'w-full rounded-sm border border-border bg-surface py-2 pl-9 pr-9 text-sm text-foreground placeholder:text-muted-foreground',
-              'focus:outline-none',
-              'transition-colors',
-            )}
-          />
-          {/* 清除/加载指示器 */}
-          <div className="absolute right-3 top-1/2 -translate-y-1/2">
-            {isSearching ? (
-              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
-            ) : query ? (
-              <button
-                type="button"
-                onClick={handleClear}
-                className="text-muted-foreground hover:text-foreground transition-colors"
-                aria-label={tCommon('clear')}
-              >
-                <X className="h-4 w-4" />
-              </button>
-            ) : null}
+      <header className="z-40 shrink-0 border-b border-border bg-background px-4 py-2">
+        <div className="flex items-center gap-3">
+          {/* 返回按钮 */}
+          <button
+            type="button"
+            onClick={handleBack}
+            className="touch-target flex shrink-0 items-center justify-center rounded-sm text-foreground transition-colors hover:bg-surface focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring active:opacity-60"
+            aria-label={tCommon('back')}
+          >
+            <ArrowLeft className="h-6 w-6" />
+          </button>
+
+          {/* 搜索输入框 */}
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('placeholder')}
+              // biome-ignore lint/a11y/noAutofocus: Search page needs auto-focus for better UX
+              autoFocus
+              className={cn(
+                'w-full rounded-sm border border-border bg-surface py-2 pl-9 pr-9 text-sm text-foreground placeholder:text-muted-foreground',
+                'focus:outline-none',
+                'transition-colors',
+              )}
+            />
+            {/* 清除/加载指示器 */}
+            <div className="absolute right-3 top-1/2 -translate-y-1/2">
+              {isSearching ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : query ? (
+                <button
+                  type="button"
+                  onClick={handleClear}
+                  className="text-muted-foreground hover:text-foreground transition-colors"
+                  aria-label={tCommon('clear')}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              ) : null}
+            </div>
           </div>
+
+          {/* 保存搜索 */}
+          {!isEmptyQuery(parsedQuery) && (
+            <button
+              type="button"
+              onClick={() => setIsSaveDialogOpen(true)}
+              className="touch-target flex shrink-0 items-center justify-center rounded-sm text-foreground transition-colors hover:bg-surface focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring active:opacity-60"
+              aria-label={currentSavedSearch ? t('editSavedSearch') : t('saveSearch')}
+            >
+              {currentSavedSearch ? (
+                <BookmarkCheck className="h-5 w-5" />
+              ) : (
+                <Bookmark className="h-5 w-5" />
+              )}
+            </button>
+          )}
         </div>
+
+        {/* 解析出的筛选条件 */}
+        <SearchFilterChips
+          filters={parsedQuery.filters}
+          excluded={parsedQuery.excluded}
+          onRemove={handleRemoveFilter}
+        />
       </header>
 
-      {/* 内容区域 */}
-      <main className="flex-1">
+      {/* 内容区域（独立滚动，分组标题吸顶） */}
+      <main ref={mainRef} className="flex-1 overflow-y-auto">
         {showResults ? (
           // 搜索结果
           hasResults ? (
-            <div>
-              {results.map((entry) => (
-                <SearchResultItem
-                  key={entry.id}
-                  entry={entry}
-                  keyword={debouncedQuery}
-                  onClick={() => handleResultClick(entry)}
-                  locale={i18n.language}
-                />
-              ))}
-            </div>
+            <SearchResultList
+              results={results}
+              pattern={highlightPattern}
+              onResultClick={handleResultClick}
+              scrollRootRef={mainRef}
+            />
           ) : !isSearching ? (
             // 无结果
             <div className="flex flex-col items-center justify-center px-4 py-16">
@@ -327,30 +651,69 @@ function SearchPage() {
             </div>
           ) : null
         ) : (
-          // 初始状态：显示搜索历史
+          // 初始状态：显示已保存的搜索和搜索历史
           <div>
-            {hasHistory ? (
-              <>
-                <div className="px-4 py-2 text-xs text-muted-foreground">{t('history')}</div>
+            {hasSavedSearches && (
+              <section>
+                <h2 className="px-4 py-2 text-xs font-normal text-muted-foreground">
+                  {t('savedSearches')}
+                </h2>
+                {savedSearches.map((search) => (
+                  <SavedSearchItem
+                    key={search.id}
+                    search={search}
+                    onClick={() => handleHistoryClick(search.query)}
+                    onDelete={() => handleSavedSearchDelete(search.id)}
+                    deleteLabel={t('deleteSavedSearch', { name: search.name })}
+                  />
+                ))}
+              </section>
+            )}
+            {hasHistory && (
+              <section>
+                <div className="flex items-center justify-between px-4 py-2">
+                  <h2 className="text-xs font-normal text-muted-foreground">{t('history')}</h2>
+                  <button
+                    type="button"
+                    onClick={handleHistoryClear}
+                    className="text-xs text-muted-foreground transition-colors hover:text-foreground focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring"
+                  >
+                    {t('clearHistory')}
+                  </button>
+                </div>
                 {searchHistory.map((historyQuery) => (
                   <SearchHistoryItem
                     key={historyQuery}
                     query={historyQuery}
                     onClick={() => handleHistoryClick(historyQuery)}
                     onRemove={() => handleHistoryRemove(historyQuery)}
-                    removeLabel={tCommon('remove')}
+                    removeLabel={t('removeHistoryItem', { query: historyQuery })}
                   />
                 ))}
-              </>
-            ) : (
+              </section>
+            )}
+            {!hasHistory && !hasSavedSearches && (
               <div className="flex flex-col items-center justify-center px-4 py-16">
                 <Search className="h-12 w-12 text-muted-foreground/50 mb-4" />
                 <p className="text-muted-foreground text-center">{t('hint')}</p>
+                <p className="mt-2 max-w-sm text-center text-xs text-muted-foreground">
+                  {t('syntaxHint')}
+                </p>
               </div>
             )}
           </div>
         )}
       </main>
+
+      <SaveSearchDialog
+        isOpen={isSaveDialogOpen}
+        query={query.trim()}
+        defaultName={
+          currentSavedSearch?.name ?? query.trim().slice(0, MAX_SAVED_SEARCH_NAME_LENGTH)
+        }
+        onSave={handleSaveSearch}
+        onCancel={handleSaveDialogClose}
+      />
     </div>
   )
 }
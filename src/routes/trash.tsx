@@ -0,0 +1,211 @@
+'use client'
+
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { ArrowLeft, Trash2 } from 'lucide-react'
+import { useCallback, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { PasscodeDialog, useAppLock } from '@/components/lock'
+import { DiaryListSkeleton } from '@/components/timeline'
+import { TrashItem } from '@/components/trash'
+import { ConfirmDialog, useToast } from '@/components/ui'
+import { useImagesByIds } from '@/hooks/useImages'
+import {
+  useEmptyTrash,
+  usePermanentlyDeleteEntry,
+  useRestoreEntry,
+  useTrashedEntries,
+  useTrashRetention,
+} from '@/hooks/useTrash'
+import { TRASH_RETENTION_OPTIONS } from '@/lib/trash'
+import { cn } from '@/lib/utils'
+import type { DiaryEntry } from '@/types'
+
+export const Route = createFileRoute('/trash')({
+  component: TrashPage,
+})
+
+function TrashPage() {
+  const navigate = useNavigate()
+  const { addToast } = useToast()
+  const { t } = useTranslation('trash')
+  const { t: tCommon } = useTranslation('common')
+
+  const { data: entries, isLoading } = useTrashedEntries()
+  const { retentionDays, setRetention } = useTrashRetention()
+  const restoreEntry = useRestoreEntry()
+  const deleteEntry = usePermanentlyDeleteEntry()
+  const emptyTrash = useEmptyTrash()
+  const { isEnabled: isLockEnabled, isPrivateRevealed, revealPrivate } = useAppLock()
+
+  const [deleteTarget, setDeleteTarget] = useState<DiaryEntry | null>(null)
+  const [showEmptyDialog, setShowEmptyDialog] = useState(false)
+  const [showRevealDialog, setShowRevealDialog] = useState(false)
+
+  // 缩略图（隐藏的私密日记显示后才加载）
+  const imageEntries = useMemo(
+    () => (isPrivateRevealed ? entries : entries?.filter((entry) => !entry.private)),
+    [entries, isPrivateRevealed],
+  )
+  const allImageIds = useMemo(
+    () => imageEntries?.flatMap((entry) => entry.imageIds) ?? [],
+    [imageEntries],
+  )
+  const { data: images } = useImagesByIds(allImageIds)
+  const thumbnailUrlsMap = useMemo(() => {
+    const map = new Map<string, string[]>()
+    if (!imageEntries || !images) return map
+
+    for (const entry of imageEntries) {
+      const entryImages = images.filter((img) => entry.imageIds.includes(img.id))
+      if (entryImages.length > 0) {
+        map.set(
+          entry.id,
+          entryImages.map((img) => URL.createObjectURL(img.thumbnail)),
+        )
+      }
+    }
+    return map
+  }, [imageEntries, images])
+
+  const handleBack = useCallback(() => {
+    navigate({ to: '/', search: { date: undefined, scrollTo: undefined } })
+  }, [navigate])
+
+  // 设置了应用锁时需验证口令才能显示私密日记
+  const handleRevealPrivate = useCallback(() => {
+    if (isLockEnabled) {
+      setShowRevealDialog(true)
+    } else {
+      revealPrivate()
+    }
+  }, [isLockEnabled, revealPrivate])
+
+  const handleRestore = useCallback(
+    async (entry: DiaryEntry) => {
+      await restoreEntry.mutateAsync(entry.id)
+      addToast(t('restoreSuccess'), 'success')
+    },
+    [restoreEntry, addToast, t],
+  )
+
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!deleteTarget) return
+    await deleteEntry.mutateAsync({ entryId: deleteTarget.id, date: deleteTarget.date })
+    setDeleteTarget(null)
+  }, [deleteTarget, deleteEntry])
+
+  const handleEmptyConfirm = useCallback(async () => {
+    await emptyTrash.mutateAsync()
+    setShowEmptyDialog(false)
+  }, [emptyTrash])
+
+  const hasEntries = Boolean(entries && entries.length > 0)
+  const isMutating = restoreEntry.isPending || deleteEntry.isPending || emptyTrash.isPending
+
+  return (
+    <div className="flex h-dvh flex-col overflow-y-auto bg-background">
+      <header className="sticky top-0 z-40 flex h-14 shrink-0 items-center gap-3 border-b border-border bg-background px-4">
+        <button
+          type="button"
+          onClick={handleBack}
+          className="touch-target flex shrink-0 items-center justify-center rounded-sm text-foreground transition-colors hover:bg-surface focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring active:opacity-60"
+          aria-label={tCommon('back')}
+        >
+          <ArrowLeft className="h-6 w-6" />
+        </button>
+        <h1 className="flex-1 text-base font-medium text-foreground">{t('title')}</h1>
+        {hasEntries && (
+          <button
+            type="button"
+            onClick={() => setShowEmptyDialog(true)}
+            disabled={isMutating}
+            className="rounded-sm px-2 py-1 text-sm text-red-500 transition-colors hover:bg-red-50 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-ring disabled:opacity-50 dark:hover:bg-red-950"
+          >
+            {t('emptyTrash')}
+          </button>
+        )}
+      </header>
+
+      <main className="mx-auto w-full max-w-[600px] flex-1 px-5 pb-12 pt-5">
+        {/* 保留天数 */}
+        <section>
+          <h2 className="mb-3 text-sm font-medium text-foreground">{t('retention')}</h2>
+          <div className="flex gap-2">
+            {TRASH_RETENTION_OPTIONS.map((days) => (
+              <button
+                key={days}
+                type="button"
+                aria-pressed={retentionDays === days}
+                onClick={() => setRetention(days)}
+                className={cn(
+                  'flex-1 rounded-md border p-2 text-xs text-foreground transition-colors',
+                  retentionDays === days
+                    ? 'border-foreground bg-surface'
+                    : 'border-border hover:bg-surface',
+                )}
+              >
+                {t('retentionOption', { count: days })}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {isLoading ? (
+          <DiaryListSkeleton className="mt-6" />
+        ) : !entries || entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center px-4 py-16 text-center">
+            <Trash2 className="mb-4 h-12 w-12 text-muted-foreground/50" />
+            <p className="text-foreground">{t('empty')}</p>
+            <p className="mt-2 text-sm text-muted-foreground">
+              {t('emptyHint', { count: retentionDays })}
+            </p>
+          </div>
+        ) : (
+          <ul className="mt-6 flex flex-col gap-3">
+            {entries.map((entry) => (
+              <li key={entry.id}>
+                <TrashItem
+                  entry={entry}
+                  thumbnailUrls={thumbnailUrlsMap.get(entry.id)}
+                  retentionDays={retentionDays}
+                  onRestore={handleRestore}
+                  onDelete={setDeleteTarget}
+                  isConcealed={entry.private === true && !isPrivateRevealed}
+                  onReveal={handleRevealPrivate}
+                  disabled={isMutating}
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+
+      <ConfirmDialog
+        isOpen={deleteTarget !== null}
+        title={t('deleteForever')}
+        message={t('deleteForeverMessage')}
+        confirmText={t('deleteForever')}
+        destructive
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteTarget(null)}
+        isLoading={deleteEntry.isPending}
+      />
+
+      <ConfirmDialog
+        isOpen={showEmptyDialog}
+        title={t('emptyTrash')}
+        message={t('emptyTrashMessage', { count: entries?.length ?? 0 })}
+        confirmText={t('emptyTrash')}
+        destructive
+        onConfirm={handleEmptyConfirm}
+        onCancel={() => setShowEmptyDialog(false)}
+        isLoading={emptyTrash.isPending}
+      />
+
+      <PasscodeDialog
+        action={showRevealDialog ? 'reveal' : null}
+        onClose={() => setShowRevealDialog(false)}
+      />
+    </div>
+  )
+}
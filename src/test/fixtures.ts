@@ -0,0 +1,30 @@
+import type { DiaryEntry, ImageRecord } from '@/types'
+
+/**
+ * Create a diary entry for tests
+ */
+export function createEntry(overrides: Partial<DiaryEntry> = {}): DiaryEntry {
+  return {
+    id: 'entry-1',
+    content: 'Hello #life',
+    date: '2024-01-15',
+    imageIds: [],
+    tags: ['life'],
+    createdAt: 1000,
+    updatedAt: 2000,
+    ...overrides,
+  }
+}
+
+/**
+ * Create an image record for tests
+ */
+export function createImage(id: string, entryId = 'entry-1'): ImageRecord {
+  return {
+    id,
+    entryId,
+    blob: new Blob(['full'], { type: 'image/jpeg' }),
+    thumbnail: new Blob(['thumb'], { type: 'image/jpeg' }),
+    createdAt: 0,
+  }
+}
@@ -0,0 +1,60 @@
+import { QueryClient } from '@tanstack/react-query'
+import { describe, expect, it } from 'vitest'
+import { entriesKeys } from '@/hooks/useEntries'
+import { imagesKeys } from '@/hooks/useImages'
+import { applySyncMessage } from '@/hooks/useSync'
+import { SYNC_ALL_ID } from '@/lib/sync'
+
+function createClient() {
+  const queryClient = new QueryClient()
+  const keys = {
+    list: entriesKeys.lists(),
+    byDate: entriesKeys.byDate('2024-01-15'),
+    detailA: entriesKeys.detail('a'),
+    detailB: entriesKeys.detail('b'),
+    images: imagesKeys.byEntry('a'),
+  }
+  for (const key of Object.values(keys)) {
+    queryClient.setQueryData(key, [])
+  }
+  const isInvalidated = (key: readonly unknown[]) =>
+    queryClient.getQueryState(key)?.isInvalidated ?? false
+  return { queryClient, keys, isInvalidated }
+}
+
+describe('applySyncMessage', () => {
+  it('should invalidate entry lists and only the changed detail', () => {
+    const { queryClient, keys, isInvalidated } = createClient()
+
+    applySyncMessage(queryClient, { type: 'entry', action: 'update', id: 'a', timestamp: 1 })
+
+    expect(isInvalidated(keys.list)).toBe(true)
+    expect(isInvalidated(keys.byDate)).toBe(true)
+    expect(isInvalidated(keys.detailA)).toBe(true)
+    expect(isInvalidated(keys.detailB)).toBe(false)
+    expect(isInvalidated(keys.images)).toBe(false)
+  })
+
+  it('should invalidate every entry detail for bulk changes', () => {
+    const { queryClient, keys, isInvalidated } = createClient()
+
+    applySyncMessage(queryClient, {
+      type: 'entry',
+      action: 'delete',
+      id: SYNC_ALL_ID,
+      timestamp: 1,
+    })
+
+    expect(isInvalidated(keys.detailA)).toBe(true)
+    expect(isInvalidated(keys.detailB)).toBe(true)
+  })
+
+  it('should invalidate image queries for image changes', () => {
+    const { queryClient, keys, isInvalidated } = createClient()
+
+    applySyncMessage(queryClient, { type: 'image', action: 'create', id: 'img', timestamp: 1 })
+
+    expect(isInvalidated(keys.images)).toBe(true)
+    expect(isInvalidated(keys.list)).toBe(false)
+  })
+})
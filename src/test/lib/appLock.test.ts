@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createAppLockConfig,
+  getLockoutDelay,
+  getPasscodeIssue,
+  isAppLockConfig,
+  isAutoLockMinutes,
+  isIdleExpired,
+  LOCKOUT_FREE_ATTEMPTS,
+  verifyPasscode,
+} from '@/lib/appLock'
+
+const MINUTE = 60 * 1000
+
+describe('appLock', () => {
+  describe('createAppLockConfig / verifyPasscode', () => {
+    it('should store a hash instead of the passcode', async () => {
+      const config = await createAppLockConfig('pin', '123456')
+
+      expect(isAppLockConfig(config)).toBe(true)
+      expect(JSON.stringify(config)).not.toContain('123456')
+      expect(await verifyPasscode(config, '123456')).toBe(true)
+      expect(await verifyPasscode(config, '654321')).toBe(false)
+    })
+
+    it('should use a new salt for every config', async () => {
+      const a = await createAppLockConfig('passphrase', 'same passphrase')
+      const b = await createAppLockConfig('passphrase', 'same passphrase')
+
+      expect(a.salt).not.toBe(b.salt)
+      expect(a.hash).not.toBe(b.hash)
+    })
+
+    it('should reject a passcode for a corrupted config', async () => {
+      const config = await createAppLockConfig('pin', '1234')
+
+      expect(await verifyPasscode({ ...config, salt: '%%%' }, '1234')).toBe(false)
+    })
+  })
+
+  describe('getPasscodeIssue', () => {
+    it('should require digits for a PIN', () => {
+      expect(getPasscodeIssue('pin', '12a4')).toBe('notDigits')
+      expect(getPasscodeIssue('pin', '123')).toBe('tooShort')
+      expect(getPasscodeIssue('pin', '1234')).toBeNull()
+    })
+
+    it('should require a minimum passphrase length', () => {
+      expect(getPasscodeIssue('passphrase', 'abc')).toBe('tooShort')
+      expect(getPasscodeIssue('passphrase', 'abcdef')).toBeNull()
+    })
+  })
+
+  describe('getLockoutDelay', () => {
+    it('should allow a few attempts without delay', () => {
+      expect(getLockoutDelay(0)).toBe(0)
+      expect(getLockoutDelay(LOCKOUT_FREE_ATTEMPTS - 1)).toBe(0)
+    })
+
+    it('should double the delay and cap it', () => {
+      const first = getLockoutDelay(LOCKOUT_FREE_ATTEMPTS)
+
+      expect(first).toBeGreaterThan(0)
+      expect(getLockoutDelay(LOCKOUT_FREE_ATTEMPTS + 1)).toBe(first * 2)
+      expect(getLockoutDelay(100)).toBe(60 * MINUTE)
+    })
+  })
+
+  describe('isIdleExpired', () => {
+    it('should expire after the idle period', () => {
+      expect(isIdleExpired(0, 5, 4 * MINUTE)).toBe(false)
+      expect(isIdleExpired(0, 5, 5 * MINUTE)).toBe(true)
+    })
+
+    it('should never expire when auto-lock is off', () => {
+      expect(isIdleExpired(0, 0, 1000 * MINUTE)).toBe(false)
+    })
+  })
+
+  describe('isAutoLockMinutes', () => {
+    it('should only accept the selectable periods', () => {
+      expect(isAutoLockMinutes(5)).toBe(true)
+      expect(isAutoLockMinutes(3)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import {
+  BACKUP_REMINDER_CHANGE_THRESHOLD,
+  getBackupReminderReason,
+  getDaysSince,
+} from '@/lib/backup'
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe('backup', () => {
+  describe('getDaysSince', () => {
+    it('should count whole days', () => {
+      expect(getDaysSince(0, DAY - 1)).toBe(0)
+      expect(getDaysSince(0, 3.5 * DAY)).toBe(3)
+    })
+  })
+
+  describe('getBackupReminderReason', () => {
+    const base = {
+      lastBackupAt: 0 as number | null,
+      dismissedAt: null,
+      firstEntryAt: null,
+      changedCount: 0,
+      intervalDays: 7,
+    }
+
+    it('should remind when many entries changed', () => {
+      expect(
+        getBackupReminderReason({
+          ...base,
+          lastBackupAt: DAY,
+          changedCount: BACKUP_REMINDER_CHANGE_THRESHOLD,
+          now: DAY,
+        }),
+      ).toBe('changes')
+    })
+
+    it('should remind when the interval passed and something changed', () => {
+      const state = { ...base, lastBackupAt: DAY, changedCount: 1 }
+
+      expect(getBackupReminderReason({ ...state, now: 7 * DAY })).toBeNull()
+      expect(getBackupReminderReason({ ...state, now: 8 * DAY })).toBe('interval')
+      expect(getBackupReminderReason({ ...state, changedCount: 0, now: 30 * DAY })).toBeNull()
+      expect(getBackupReminderReason({ ...state, intervalDays: 0, now: 30 * DAY })).toBeNull()
+    })
+
+    it('should restart the interval after dismissal', () => {
+      const state = { ...base, lastBackupAt: DAY, changedCount: 1 }
+
+      expect(getBackupReminderReason({ ...state, dismissedAt: 5 * DAY, now: 8 * DAY })).toBeNull()
+      expect(getBackupReminderReason({ ...state, dismissedAt: 5 * DAY, now: 12 * DAY })).toBe(
+        'interval',
+      )
+    })
+
+    it('should count the interval from the first entry before the first backup', () => {
+      const state = { ...base, lastBackupAt: null, firstEntryAt: DAY, changedCount: 3 }
+
+      expect(getBackupReminderReason({ ...state, now: 7 * DAY })).toBeNull()
+      expect(getBackupReminderReason({ ...state, now: 8 * DAY })).toBe('interval')
+      expect(getBackupReminderReason({ ...state, dismissedAt: 5 * DAY, now: 8 * DAY })).toBeNull()
+    })
+
+    it('should only use the change threshold when there is no entry yet', () => {
+      const state = { ...base, lastBackupAt: null, changedCount: 3 }
+
+      expect(getBackupReminderReason({ ...state, now: 100 * DAY })).toBeNull()
+      expect(
+        getBackupReminderReason({
+          ...state,
+          changedCount: BACKUP_REMINDER_CHANGE_THRESHOLD,
+          now: 100 * DAY,
+        }),
+      ).toBe('changes')
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  BackupCryptoError,
+  decryptBackup,
+  encryptBackup,
+  isEncryptedBackup,
+} from '@/lib/backupCrypto'
+import { blobToBytes } from '@/lib/utils'
+
+const PASSPHRASE = 'correct horse battery staple'
+const BACKUP = '{"type":"header","version":"3.0.0"}\n{"type":"entry","entry":{"id":"a"}}\n'
+
+async function blobToText(blob: Blob): Promise<string> {
+  return new TextDecoder().decode(await blobToBytes(blob))
+}
+
+async function getErrorKey(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise
+  } catch (error) {
+    return error instanceof BackupCryptoError ? error.errorKey : undefined
+  }
+  return undefined
+}
+
+/**
+ * Flip one byte at `offset` bytes from the end of the file
+ */
+async function corruptByte(file: Blob, offsetFromEnd: number): Promise<Blob> {
+  const bytes = await blobToBytes(file)
+  const index = bytes.length - offsetFromEnd
+  bytes[index] = (bytes[index] ?? 0) ^ 0xff
+  return new Blob([bytes as BlobPart])
+}
+
+describe('encryptBackup / decryptBackup', () => {
+  it('should round-trip a backup', async () => {
+    const encrypted = await encryptBackup(new Blob([BACKUP]), PASSPHRASE)
+    const decrypted = await decryptBackup(encrypted, PASSPHRASE)
+
+    expect(await blobToText(decrypted)).toBe(BACKUP)
+  })
+
+  it('should not contain the plaintext', async () => {
+    const encrypted = await encryptBackup(new Blob([BACKUP]), PASSPHRASE)
+    const text = await blobToText(encrypted)
+
+    expect(text.startsWith('{"type":"encrypted"')).toBe(true)
+    expect(text).not.toContain('"entry"')
+  })
+
+  it('should report encryption progress', async () => {
+    const onProgress = vi.fn()
+    await encryptBackup(new Blob([BACKUP]), PASSPHRASE, onProgress)
+
+    expect(onProgress).toHaveBeenLastCalledWith(1)
+  })
+
+  it('should reject a wrong passphrase', async () => {
+    const encrypted = await encryptBackup(new Blob([BACKUP]), PASSPHRASE)
+
+    expect(await getErrorKey(decryptBackup(encrypted, 'wrong passphrase'))).toBe('wrongPassphrase')
+  })
+
+  it('should report modified ciphertext as corrupted', async () => {
+    const encrypted = await encryptBackup(new Blob([BACKUP]), PASSPHRASE)
+
+    expect(await getErrorKey(decryptBackup(await corruptByte(encrypted, 1), PASSPHRASE))).toBe(
+      'corruptedBackup',
+    )
+  })
+
+  it('should report a truncated file as corrupted', async () => {
+    const encrypted = await encryptBackup(new Blob([BACKUP]), PASSPHRASE)
+    const truncated = encrypted.slice(0, encrypted.size - 10)
+
+    expect(await getErrorKey(decryptBackup(truncated, PASSPHRASE))).toBe('corruptedBackup')
+  })
+
+  it('should report an unknown envelope version', async () => {
+    const encrypted = await encryptBackup(new Blob([BACKUP]), PASSPHRASE)
+    const text = await blobToText(encrypted)
+    const newline = text.indexOf('\n')
+    const header = { ...JSON.parse(text.slice(0, newline)), version: 2 }
+    const modified = new Blob([`${JSON.stringify(header)}\n`, encrypted.slice(newline + 1)])
+
+    expect(await getErrorKey(decryptBackup(modified, PASSPHRASE))).toBe('unsupportedEncryption')
+  })
+
+  it('should reject an excessive iteration count before deriving the key', async () => {
+    const encrypted = await encryptBackup(new Blob([BACKUP]), PASSPHRASE)
+    const text = await blobToText(encrypted)
+    const newline = text.indexOf('\n')
+    const original = JSON.parse(text.slice(0, newline))
+    const header = { ...original, kdf: { ...original.kdf, iterations: 2_000_000_000 } }
+    const modified = new Blob([`${JSON.stringify(header)}\n`, encrypted.slice(newline + 1)])
+
+    expect(await getErrorKey(decryptBackup(modified, PASSPHRASE))).toBe('corruptedBackup')
+  })
+})
+
+describe('isEncryptedBackup', () => {
+  it('should detect encrypted backups', async () => {
+    const encrypted = await encryptBackup(new Blob([BACKUP]), PASSPHRASE)
+
+    expect(await isEncryptedBackup(encrypted)).toBe(true)
+    expect(await isEncryptedBackup(new Blob([BACKUP]))).toBe(false)
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DOCUMENT_VERSION,
+  documentToRecords,
+  isBackupHeader,
+  isImageMimeType,
+  parseBase64Image,
+  serializeBackupRecord,
+  sniffImageMimeType,
+  upgradeExportData,
+} from '@/lib/backupFormat'
+
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUg=='
+const JPEG_BASE64 = '/9j/4AAQSkZJRg=='
+const WEBP_BASE64 = btoa('RIFF\0\0\0\0WEBPVP8 ')
+
+describe('isImageMimeType', () => {
+  it('should accept stored image types only', () => {
+    expect(isImageMimeType('image/webp')).toBe(true)
+    expect(isImageMimeType('image/gif')).toBe(false)
+    expect(isImageMimeType(undefined)).toBe(false)
+  })
+})
+
+describe('sniffImageMimeType', () => {
+  it('should detect the type from the data', () => {
+    expect(sniffImageMimeType(PNG_BASE64)).toBe('image/png')
+    expect(sniffImageMimeType(WEBP_BASE64)).toBe('image/webp')
+    expect(sniffImageMimeType(JPEG_BASE64)).toBe('image/jpeg')
+  })
+
+  it('should default to JPEG', () => {
+    expect(sniffImageMimeType('AAAA')).toBe('image/jpeg')
+  })
+})
+
+describe('parseBase64Image', () => {
+  it('should split data URLs', () => {
+    expect(parseBase64Image(`data:image/webp;base64,${JPEG_BASE64}`)).toEqual({
+      base64: JPEG_BASE64,
+      mimeType: 'image/webp',
+    })
+  })
+
+  it('should sniff plain Base64', () => {
+    expect(parseBase64Image(PNG_BASE64)).toEqual({ base64: PNG_BASE64, mimeType: 'image/png' })
+  })
+})
+
+describe('upgradeExportData', () => {
+  it('should leave current backups unchanged', () => {
+    const data = { version: DOCUMENT_VERSION, entries: [], images: [] }
+    expect(upgradeExportData(data)).toBe(data)
+  })
+
+  it('should return null for unknown versions', () => {
+    expect(upgradeExportData({ version: '9.0.0' })).toBeNull()
+    expect(upgradeExportData({ version: 1 })).toBeNull()
+  })
+
+  it('should add MIME types to 1.0.0 image arrays', () => {
+    const upgraded = upgradeExportData({
+      version: '1.0.0',
+      exportedAt: '2024-01-15T00:00:00.000Z',
+      entries: [],
+      images: [
+        { id: 'img-1', entryId: 'e1', blob: PNG_BASE64, thumbnail: JPEG_BASE64, createdAt: 1 },
+      ],
+      settings: { theme: 'dark' },
+    })
+
+    expect(upgraded).toEqual({
+      version: '2.0.0',
+      exportedAt: '2024-01-15T00:00:00.000Z',
+      entries: [],
+      images: [
+        {
+          id: 'img-1',
+          entryId: 'e1',
+          blob: PNG_BASE64,
+          mimeType: 'image/png',
+          thumbnail: JPEG_BASE64,
+          thumbnailMimeType: 'image/jpeg',
+          createdAt: 1,
+        },
+      ],
+      settings: { theme: 'dark' },
+    })
+  })
+
+  it('should convert the documented 1.0.0 layout with images keyed by ID', () => {
+    const upgraded = upgradeExportData({
+      version: '1.0.0',
+      exportedAt: 0,
+      totalEntries: 1,
+      entries: [{ id: 'e1', imageIds: ['img-1'] }],
+      images: {
+        'img-1': {
+          blob: `data:image/jpeg;base64,${JPEG_BASE64}`,
+          thumbnail: `data:image/jpeg;base64,${JPEG_BASE64}`,
+          createdAt: 1,
+        },
+      },
+    })
+
+    expect(upgraded?.exportedAt).toBe('1970-01-01T00:00:00.000Z')
+    expect(upgraded?.images).toEqual([
+      {
+        id: 'img-1',
+        entryId: 'e1',
+        blob: JPEG_BASE64,
+        mimeType: 'image/jpeg',
+        thumbnail: JPEG_BASE64,
+        thumbnailMimeType: 'image/jpeg',
+        createdAt: 1,
+      },
+    ])
+  })
+})
+
+describe('streamed records', () => {
+  it('should split a document into records', () => {
+    const entry = {
+      id: 'e1',
+      content: 'Hello',
+      date: '2024-01-15',
+      imageIds: [],
+      tags: [],
+      createdAt: 1,
+      updatedAt: 2,
+    }
+    const records = documentToRecords({
+      version: '2.0.0',
+      exportedAt: '2024-01-15T00:00:00.000Z',
+      entries: [entry],
+      images: [],
+      settings: { theme: 'dark' },
+    })
+
+    expect(records).toEqual([
+      {
+        type: 'header',
+        version: '3.0.0',
+        exportedAt: '2024-01-15T00:00:00.000Z',
+        entryCount: 1,
+        imageCount: 0,
+      },
+      { type: 'entry', entry },
+      { type: 'settings', settings: { theme: 'dark' } },
+    ])
+    expect(isBackupHeader(records[0])).toBe(true)
+    expect(isBackupHeader(records[1])).toBe(false)
+  })
+
+  it('should write one record per line', () => {
+    const line = serializeBackupRecord({ type: 'settings', settings: { theme: 'dark' } })
+    expect(line).toBe('{"type":"settings","settings":{"theme":"dark"}}\n')
+  })
+})
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  changeDataPasscode,
+  DataLockedError,
+  decryptImage,
+  disableDataEncryption,
+  encryptImage,
+  hasDataKey,
+  lockData,
+  unlockData,
+  verifyDataPasscode,
+} from '@/lib/dataEncryption'
+import { db } from '@/lib/db'
+import { entriesRepository } from '@/lib/repositories/entries'
+import { revisionsRepository } from '@/lib/repositories/revisions'
+import { settingsRepository } from '@/lib/repositories/settings'
+import { blobToBytes } from '@/lib/utils'
+
+async function clearAll() {
+  await Promise.all([
+    db.entries.clear(),
+    db.revisions.clear(),
+    db.images.clear(),
+    db.settings.clear(),
+  ])
+}
+
+describe('dataEncryption', () => {
+  beforeEach(async () => {
+    lockData()
+    await clearAll()
+  })
+
+  afterEach(async () => {
+    lockData()
+    await clearAll()
+  })
+
+  it('should encrypt existing entries and revisions when first unlocked', async () => {
+    const entry = await entriesRepository.create({ content: 'secret text', date: '2024-01-15' })
+    await revisionsRepository.create({
+      entryId: entry.id,
+      content: 'older secret',
+      updatedAt: 1,
+    })
+
+    const progress: number[] = []
+    await unlockData('1234', (value) => progress.push(value))
+
+    expect(hasDataKey()).toBe(true)
+    expect(progress.at(-1)).toBe(1)
+    const stored = await db.entries.get(entry.id)
+    expect(stored?.content).toBe('')
+    expect(ArrayBuffer.isView(stored?.encryptedContent)).toBe(true)
+    expect(stored?.date).toBe('2024-01-15')
+    const storedRevisions = await db.revisions.toArray()
+    expect(storedRevisions[0]?.content).toBe('')
+
+    expect((await entriesRepository.getById(entry.id))?.content).toBe('secret text')
+    expect((await revisionsRepository.getByEntryId(entry.id))[0]?.content).toBe('older secret')
+    expect(await settingsRepository.get('dataEncryption')).toMatchObject({ complete: true })
+  })
+
+  it('should encrypt new entries and keep search working', async () => {
+    await unlockData('1234')
+    const entry = await entriesRepository.create({ content: 'hello world', date: '2024-01-15' })
+    await entriesRepository.update({ id: entry.id, content: 'hello again' })
+
+    expect((await db.entries.get(entry.id))?.content).toBe('')
+    const results = await entriesRepository.search('again')
+    expect(results.map((e) => e.id)).toEqual([entry.id])
+  })
+
+  it('should throw DataLockedError when the key is not unlocked', async () => {
+    const entry = await entriesRepository.create({ content: 'text', date: '2024-01-15' })
+    await unlockData('1234')
+    lockData()
+
+    await expect(entriesRepository.getById(entry.id)).rejects.toBeInstanceOf(DataLockedError)
+    await expect(
+      entriesRepository.create({ content: 'more', date: '2024-01-16' }),
+    ).rejects.toBeInstanceOf(DataLockedError)
+  })
+
+  it('should reject a wrong passcode', async () => {
+    await unlockData('1234')
+    lockData()
+
+    await expect(unlockData('0000')).rejects.toThrow()
+    expect(hasDataKey()).toBe(false)
+  })
+
+  it('should verify the passcode when setting it was interrupted', async () => {
+    // 数据密钥已保存，应用锁配置尚未写入
+    await unlockData('1234')
+    lockData()
+    expect(await settingsRepository.get('appLock')).toBeNull()
+
+    expect(await verifyDataPasscode('0000')).toBe(false)
+    expect(await verifyDataPasscode('1234')).toBe(true)
+    expect(hasDataKey()).toBe(false)
+  })
+
+  it('should unlock with the new passcode after changing it', async () => {
+    await unlockData('1234')
+    const entry = await entriesRepository.create({ content: 'kept', date: '2024-01-15' })
+    await changeDataPasscode('1234', '5678')
+    lockData()
+
+    await expect(unlockData('1234')).rejects.toThrow()
+    await unlockData('5678')
+    expect((await entriesRepository.getById(entry.id))?.content).toBe('kept')
+  })
+
+  it('should encrypt images and restore their MIME types', async () => {
+    await unlockData('1234')
+    // fake-indexeddb cannot store jsdom Blobs, so check the stored form directly
+    const stored = await encryptImage({
+      id: 'image-1',
+      entryId: 'entry-1',
+      blob: new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' }),
+      thumbnail: new Blob([new Uint8Array([4, 5])], { type: 'image/webp' }),
+      createdAt: 1,
+    })
+    expect(stored.blob.type).toBe('application/octet-stream')
+    expect(stored.encryptedTypes).toEqual({ blob: 'image/png', thumbnail: 'image/webp' })
+
+    const loaded = await decryptImage(stored)
+    expect(loaded.blob.type).toBe('image/png')
+    expect(loaded.thumbnail.type).toBe('image/webp')
+    expect(Array.from(await blobToBytes(loaded.blob))).toEqual([1, 2, 3])
+    expect(loaded).not.toHaveProperty('encryptedTypes')
+  })
+
+  it('should decrypt everything when disabled', async () => {
+    await unlockData('1234')
+    const entry = await entriesRepository.create({ content: 'plain again', date: '2024-01-15' })
+
+    await disableDataEncryption()
+
+    expect(hasDataKey()).toBe(false)
+    const stored = await db.entries.get(entry.id)
+    expect(stored?.content).toBe('plain again')
+    expect(stored?.encryptedContent).toBeUndefined()
+    expect(await settingsRepository.get('dataEncryption')).toBeNull()
+  })
+})
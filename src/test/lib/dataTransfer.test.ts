@@ -0,0 +1,329 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  applyImport,
+  createBackup,
+  DataImportError,
+  downloadMarkdownExport,
+  importMarkdownFiles,
+  previewImport,
+} from '@/lib/dataTransfer'
+import { db } from '@/lib/db'
+import { buildMarkdownArchive } from '@/lib/markdownBackup'
+import { blobToBytes } from '@/lib/utils'
+import { readZip } from '@/lib/zip'
+import { createEntry, createImage } from '@/test/fixtures'
+import type { DiaryEntry, ExportData, ExportedImage, ImageRecord } from '@/types'
+
+// Canvas is not available in jsdom
+vi.mock('@/lib/image', () => ({
+  processImage: vi.fn(async (file: File) => ({
+    blob: new Blob([file], { type: 'image/jpeg' }),
+    thumbnail: new Blob(['thumb'], { type: 'image/jpeg' }),
+  })),
+}))
+
+function readBlobText(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = reject
+    reader.readAsText(blob)
+  })
+}
+
+async function clearDatabase() {
+  await db.entries.clear()
+  await db.images.clear()
+  await db.revisions.clear()
+}
+
+describe('importMarkdownFiles', () => {
+  beforeEach(clearDatabase)
+  afterEach(clearDatabase)
+
+  it('should restore a Markdown export', async () => {
+    const entries = [
+      createEntry({ imageIds: ['img-1'], mood: { score: 4 } }),
+      createEntry({ id: 'entry-2', content: 'Second', date: '2024-01-16', tags: [] }),
+    ]
+    const archive = await buildMarkdownArchive(entries, [createImage('img-1', 'entry-1')])
+
+    const result = await importMarkdownFiles([new File([archive], 'backup.zip')])
+
+    expect(result).toEqual({ entriesCount: 2, imagesCount: 1, merged: [], skipped: [] })
+    expect(await db.entries.get('entry-1')).toEqual(entries[0])
+    expect(await db.entries.get('entry-2')).toEqual(entries[1])
+    expect((await db.images.get('img-1'))?.entryId).toBe('entry-1')
+  })
+
+  it('should merge newer versions and skip older ones', async () => {
+    const archive = await buildMarkdownArchive(
+      [
+        createEntry({ content: 'Newer', tags: [], updatedAt: 5000 }),
+        createEntry({ id: 'entry-2', content: 'Older', tags: [], updatedAt: 1000 }),
+      ],
+      [],
+    )
+    await db.entries.bulkPut([createEntry(), createEntry({ id: 'entry-2', updatedAt: 3000 })])
+
+    const result = await importMarkdownFiles([new File([archive], 'backup.zip')])
+
+    expect(result.entriesCount).toBe(1)
+    expect(result.merged).toEqual([expect.stringContaining('entry-1')])
+    expect(result.skipped).toEqual([
+      { path: expect.stringContaining('entry-2'), reason: 'notNewer' },
+    ])
+    expect((await db.entries.get('entry-1'))?.content).toBe('Newer')
+    expect((await db.revisions.toArray()).map((revision) => revision.content)).toEqual([
+      'Hello #life',
+    ])
+  })
+
+  it('should import loose files and report the rest', async () => {
+    await db.entries.put(createEntry({ id: 'existing', content: 'Same', date: '2024-02-01' }))
+
+    const result = await importMarkdownFiles([
+      new File(['Walk in the park ![](park.png)'], '2024-03-02.md'),
+      new File(['png'], 'park.png', { type: 'image/png' }),
+      new File(['Same'], '2024-02-01.txt'),
+      new File(['No date'], 'notes.md'),
+      new File(['{}'], 'data.json'),
+    ])
+
+    expect(result.entriesCount).toBe(1)
+    expect(result.imagesCount).toBe(1)
+    expect(result.skipped).toEqual(
+      expect.arrayContaining([
+        { path: '2024-02-01.txt', reason: 'duplicate' },
+        { path: 'notes.md', reason: 'noDate' },
+        { path: 'data.json', reason: 'unsupported' },
+      ]),
+    )
+    const [imported] = await db.entries.where('date').equals('2024-03-02').toArray()
+    expect(imported?.content).toBe('Walk in the park')
+    expect(imported?.imageIds).toHaveLength(1)
+  })
+
+  it('should reject invalid archives', async () => {
+    await expect(importMarkdownFiles([new File(['nope'], 'backup.zip')])).rejects.toBeInstanceOf(
+      DataImportError,
+    )
+  })
+})
+
+function createExportedImage(id: string, entryId: string): ExportedImage {
+  return {
+    id,
+    entryId,
+    blob: btoa('full'),
+    mimeType: 'image/png',
+    thumbnail: btoa('thumb'),
+    thumbnailMimeType: 'image/jpeg',
+    createdAt: 0,
+  }
+}
+
+function createBackupFile(entries: DiaryEntry[], images: ExportData['images'] = []): File {
+  const data: ExportData = { version: '2.0.0', exportedAt: '', entries, images }
+  return new File([JSON.stringify(data)], 'backup.json', { type: 'application/json' })
+}
+
+describe('previewImport / applyImport', () => {
+  beforeEach(clearDatabase)
+  afterEach(clearDatabase)
+
+  it('should not write anything while previewing', async () => {
+    await db.entries.put(createEntry())
+
+    const preview = await previewImport(
+      createBackupFile([
+        createEntry({ content: 'Backup', updatedAt: 5000 }),
+        createEntry({ id: 'entry-2' }),
+      ]),
+    )
+
+    expect(preview.entries.map((diff) => diff.status)).toEqual(['newerInBackup', 'new'])
+    expect(await db.entries.count()).toBe(1)
+  })
+
+  it('should apply the chosen resolution per conflict', async () => {
+    await db.entries.bulkPut([
+      createEntry({ id: 'a', content: 'Local A' }),
+      createEntry({ id: 'b', content: 'Local B' }),
+      createEntry({ id: 'c', content: 'Local C' }),
+    ])
+    const preview = await previewImport(
+      createBackupFile(
+        [
+          createEntry({ id: 'a', content: 'Backup A', updatedAt: 5000 }),
+          createEntry({ id: 'b', content: 'Backup B', updatedAt: 5000 }),
+          createEntry({ id: 'c', content: 'Backup C', updatedAt: 5000, imageIds: ['img-c'] }),
+        ],
+        [createExportedImage('img-c', 'c')],
+      ),
+    )
+
+    const result = await applyImport(preview, { a: 'keepLocal', c: 'keepBoth' })
+
+    expect(result).toEqual({ entriesCount: 2, imagesCount: 1 })
+    expect((await db.entries.get('a'))?.content).toBe('Local A')
+    expect((await db.entries.get('b'))?.content).toBe('Backup B')
+    expect((await db.entries.get('c'))?.content).toBe('Local C')
+    const copies = await db.entries.where('date').equals('2024-01-15').toArray()
+    const copy = copies.find((entry) => entry.content === 'Backup C')
+    expect(copy?.id).not.toBe('c')
+    expect(copy?.imageIds).toHaveLength(1)
+    expect(copy?.imageIds).not.toContain('img-c')
+    expect((await db.images.get(copy?.imageIds[0] ?? ''))?.entryId).toBe(copy?.id)
+    expect((await db.revisions.toArray()).map((revision) => revision.content)).toEqual(['Local B'])
+  })
+
+  it('should reject backups with an invalid structure', async () => {
+    const file = new File([JSON.stringify({ entries: [] })], 'backup.json')
+    await expect(previewImport(file)).rejects.toMatchObject({ errorKey: 'invalidBackupFormat' })
+    await expect(previewImport(new File(['{'], 'backup.json'))).rejects.toMatchObject({
+      errorKey: 'invalidJsonFile',
+    })
+  })
+
+  it('should upgrade backups from older versions', async () => {
+    const png = 'iVBORw0KGgoAAAANSUhEUg=='
+    const file = new File(
+      [
+        JSON.stringify({
+          version: '1.0.0',
+          exportedAt: '2024-01-15T00:00:00.000Z',
+          entries: [createEntry({ imageIds: ['img-1'] })],
+          images: [{ id: 'img-1', entryId: 'entry-1', blob: png, thumbnail: png, createdAt: 0 }],
+        }),
+      ],
+      'backup.json',
+    )
+
+    const put = vi.spyOn(db.images, 'put')
+    await applyImport(await previewImport(file))
+
+    expect(put.mock.calls[0]?.[0].blob.type).toBe('image/png')
+    expect((await db.images.get('img-1'))?.entryId).toBe('entry-1')
+    put.mockRestore()
+  })
+
+  it('should reject backups from unknown versions', async () => {
+    const file = new File([JSON.stringify({ version: '9.0.0' })], 'backup.json')
+    await expect(previewImport(file)).rejects.toMatchObject({ errorKey: 'unsupportedVersion' })
+  })
+
+  it('should list every invalid record', async () => {
+    const file = createBackupFile(
+      [createEntry(), createEntry({ date: '2024-1-5' }), createEntry({ id: 'entry-2' })],
+      [{ ...createExportedImage('img-1', 'entry-1'), blob: 'not base64!' }],
+    )
+
+    const error = await previewImport(file).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(DataImportError)
+    expect((error as DataImportError).errorKey).toBe('invalidRecords')
+    expect((error as DataImportError).records).toEqual([
+      { type: 'entry', index: 1, id: 'entry-1', issues: ['invalidDate', 'duplicateId'] },
+      { type: 'image', index: 0, id: 'img-1', issues: ['invalidImageData'] },
+    ])
+  })
+
+  it('should roll back every write when one fails', async () => {
+    await db.entries.put(createEntry({ content: 'Local' }))
+    const preview = await previewImport(
+      createBackupFile([
+        createEntry({ content: 'Backup', updatedAt: 5000 }),
+        createEntry({ id: 'entry-2' }),
+      ]),
+    )
+    // 第一篇日记写入成功，第二篇失败
+    const originalPut = db.entries.put.bind(db.entries)
+    const put = vi
+      .spyOn(db.entries, 'put')
+      .mockImplementationOnce(originalPut)
+      .mockRejectedValueOnce(new Error('Quota exceeded'))
+
+    await expect(applyImport(preview)).rejects.toThrow('Quota exceeded')
+    put.mockRestore()
+
+    expect(await db.entries.toArray()).toEqual([createEntry({ content: 'Local' })])
+    expect(await db.revisions.count()).toBe(0)
+  })
+})
+
+describe('createBackup', () => {
+  beforeEach(clearDatabase)
+  afterEach(clearDatabase)
+
+  it('should stream a backup that restores every record', async () => {
+    const entries = [createEntry({ imageIds: ['img-1'] }), createEntry({ id: 'entry-2' })]
+    await db.entries.bulkPut(entries)
+    // fake-indexeddb 在 jsdom 中无法保存 Blob，直接返回内存中的图片
+    const page = (items: ImageRecord[]) => ({ limit: () => ({ toArray: async () => items }) })
+    vi.spyOn(db.images, 'count').mockResolvedValue(1)
+    vi.spyOn(db.images, 'orderBy').mockReturnValue(page([createImage('img-1', 'entry-1')]) as never)
+    vi.spyOn(db.images, 'where').mockReturnValue({ above: () => page([]) } as never)
+    const onProgress = vi.fn()
+
+    const backup = await createBackup(onProgress)
+    const [header] = (await readBlobText(backup)).split('\n')
+
+    expect(JSON.parse(header ?? '')).toMatchObject({
+      type: 'header',
+      version: '3.0.0',
+      entryCount: 2,
+      imageCount: 1,
+    })
+    expect(onProgress).toHaveBeenLastCalledWith(1)
+
+    vi.restoreAllMocks()
+    await clearDatabase()
+    const file = new File([backup], 'backup.ndjson')
+    const result = await applyImport(await previewImport(file))
+
+    expect(result).toEqual({ entriesCount: 2, imagesCount: 1 })
+    expect(await db.entries.toArray()).toEqual(entries)
+    expect((await db.images.get('img-1'))?.entryId).toBe('entry-1')
+  })
+
+  it('should export Markdown one page of images at a time', async () => {
+    await db.entries.bulkPut([
+      createEntry({ imageIds: ['img-1'] }),
+      createEntry({ id: 'trashed', imageIds: ['img-2'], deletedAt: 3000 }),
+    ])
+    const page = (items: ImageRecord[]) => ({ limit: () => ({ toArray: async () => items }) })
+    vi.spyOn(db.images, 'count').mockResolvedValue(2)
+    vi.spyOn(db.images, 'orderBy').mockReturnValue(
+      page([createImage('img-1', 'entry-1'), createImage('img-2', 'trashed')]) as never,
+    )
+    vi.spyOn(db.images, 'where').mockReturnValue({ above: () => page([]) } as never)
+    const downloads: Blob[] = []
+    vi.stubGlobal('URL', {
+      createObjectURL: (blob: Blob) => {
+        downloads.push(blob)
+        return 'blob:markdown'
+      },
+      revokeObjectURL: () => {},
+    })
+    const onProgress = vi.fn()
+
+    await downloadMarkdownExport(onProgress)
+    vi.unstubAllGlobals()
+    expect(onProgress).toHaveBeenLastCalledWith(1)
+    vi.restoreAllMocks()
+
+    const [archive] = downloads
+    const paths = (await readZip(await blobToBytes(archive as Blob))).map((file) => file.path)
+    expect(paths).toEqual([
+      'images/img-1.jpg',
+      'images/thumbnails/img-1.jpg',
+      expect.stringMatching(/^2024-01-15\/\d{6}-entry-1\.md$/),
+    ])
+  })
+
+  it('should reject streamed backups from unknown versions', async () => {
+    const file = new File(['{"type":"header","version":"9.0.0"}\n'], 'backup.ndjson')
+    await expect(previewImport(file)).rejects.toMatchObject({ errorKey: 'unsupportedVersion' })
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { diffLines, getDiffStats } from '@/lib/diff'
+
+describe('diff', () => {
+  describe('diffLines', () => {
+    it('should mark identical text as equal', () => {
+      expect(diffLines('a\nb', 'a\nb')).toEqual([
+        { type: 'equal', text: 'a' },
+        { type: 'equal', text: 'b' },
+      ])
+    })
+
+    it('should detect added and removed lines', () => {
+      expect(diffLines('a\nb\nc', 'a\nx\nc\nd')).toEqual([
+        { type: 'equal', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'added', text: 'x' },
+        { type: 'equal', text: 'c' },
+        { type: 'added', text: 'd' },
+      ])
+    })
+
+    it('should keep the longest common subsequence', () => {
+      const lines = diffLines('one\ntwo\nthree\nfour', 'zero\none\nthree\nfour\nfive')
+
+      expect(lines.filter((l) => l.type === 'equal').map((l) => l.text)).toEqual([
+        'one',
+        'three',
+        'four',
+      ])
+      expect(getDiffStats(lines)).toEqual({ added: 2, removed: 1 })
+    })
+
+    it('should handle a complete replacement', () => {
+      expect(diffLines('old', 'new')).toEqual([
+        { type: 'removed', text: 'old' },
+        { type: 'added', text: 'new' },
+      ])
+    })
+
+    it('should treat empty text as a single empty line', () => {
+      expect(getDiffStats(diffLines('', 'a\nb'))).toEqual({ added: 2, removed: 1 })
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { compactOldestImages } from '@/lib/imageCompaction'
+import { imagesRepository } from '@/lib/repositories/images'
+import type { ImageRecord } from '@/types'
+
+function createImage(
+  id: string,
+  blobSize: number,
+  overrides: Partial<ImageRecord> = {},
+): ImageRecord {
+  return {
+    id,
+    entryId: 'entry-1',
+    blob: new Blob(['x'.repeat(blobSize)], { type: 'image/jpeg' }),
+    thumbnail: new Blob(['t'.repeat(10)], { type: 'image/jpeg' }),
+    createdAt: 1000,
+    ...overrides,
+  }
+}
+
+function mockImages(images: ImageRecord[]) {
+  vi.spyOn(imagesRepository, 'getOldest').mockImplementation(async (limit, offset = 0) =>
+    images.slice(offset, offset + limit),
+  )
+  return vi.spyOn(imagesRepository, 'update').mockResolvedValue()
+}
+
+describe('compactOldestImages', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should replace blobs with thumbnails in thumbnail mode', async () => {
+    const update = mockImages([createImage('img-1', 100), createImage('img-2', 50)])
+
+    const result = await compactOldestImages('thumbnail', 10)
+
+    expect(result).toEqual({ count: 2, freedBytes: 130 })
+    expect(update).toHaveBeenCalledTimes(2)
+    const updated = update.mock.calls[0]?.[0]
+    expect(updated?.compacted).toBe('thumbnail')
+    expect(updated?.blob.size).toBe(10)
+  })
+
+  it('should skip compacted images and images that do not shrink', async () => {
+    const update = mockImages([
+      createImage('img-1', 100, { compacted: 'compressed' }),
+      createImage('img-2', 100, { compacted: 'thumbnail' }),
+      createImage('img-3', 5),
+      createImage('img-4', 100),
+    ])
+    const shrink = vi.fn(async () => new Blob(['y'.repeat(20)]))
+
+    const result = await compactOldestImages('compressed', 10, shrink)
+
+    expect(result).toEqual({ count: 1, freedBytes: 80 })
+    expect(shrink).toHaveBeenCalledTimes(2)
+    expect(update).toHaveBeenCalledTimes(1)
+    expect(update.mock.calls[0]?.[0].id).toBe('img-4')
+  })
+
+  it('should stop after the limit and page through older images', async () => {
+    const images = Array.from({ length: 30 }, (_, index) => createImage(`img-${index}`, 100))
+    const update = mockImages(images)
+
+    const result = await compactOldestImages('thumbnail', 25)
+
+    expect(result.count).toBe(25)
+    expect(update).toHaveBeenCalledTimes(25)
+    expect(imagesRepository.getOldest).toHaveBeenCalledWith(20, 20)
+  })
+})
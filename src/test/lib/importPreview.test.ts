@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import {
+  countByStatus,
+  diffEntries,
+  getDefaultResolution,
+  getEntryStatus,
+  isConflict,
+  isSameEntry,
+} from '@/lib/importPreview'
+import { createEntry } from '@/test/fixtures'
+
+describe('isSameEntry', () => {
+  it('should ignore timestamps and tags', () => {
+    expect(isSameEntry(createEntry(), createEntry({ updatedAt: 9000, tags: ['x'] }))).toBe(true)
+  })
+
+  it('should compare content, date, mood, privacy, images and trash state', () => {
+    const base = createEntry()
+    expect(isSameEntry(base, createEntry({ content: 'Changed' }))).toBe(false)
+    expect(isSameEntry(base, createEntry({ date: '2024-01-16' }))).toBe(false)
+    expect(isSameEntry(base, createEntry({ mood: { score: 3 } }))).toBe(false)
+    expect(isSameEntry(base, createEntry({ private: true }))).toBe(false)
+    expect(isSameEntry(base, createEntry({ imageIds: ['img-1'] }))).toBe(false)
+    expect(isSameEntry(base, createEntry({ deletedAt: 3000 }))).toBe(false)
+  })
+})
+
+describe('getEntryStatus', () => {
+  it('should classify entries', () => {
+    const local = createEntry()
+    expect(getEntryStatus(createEntry())).toBe('new')
+    expect(getEntryStatus(createEntry({ updatedAt: 5000 }), local)).toBe('identical')
+    expect(getEntryStatus(createEntry({ content: 'B', updatedAt: 3000 }), local)).toBe(
+      'newerInBackup',
+    )
+    expect(getEntryStatus(createEntry({ content: 'B', updatedAt: 1000 }), local)).toBe(
+      'newerLocally',
+    )
+  })
+
+  it('should treat equal timestamps with different content as newer locally', () => {
+    expect(getEntryStatus(createEntry({ content: 'B' }), createEntry())).toBe('newerLocally')
+  })
+})
+
+describe('resolutions', () => {
+  it('should only ask about entries that differ', () => {
+    expect(isConflict('new')).toBe(false)
+    expect(isConflict('identical')).toBe(false)
+    expect(isConflict('newerInBackup')).toBe(true)
+    expect(isConflict('newerLocally')).toBe(true)
+  })
+
+  it('should default to the newer side', () => {
+    expect(getDefaultResolution('new')).toBe('takeBackup')
+    expect(getDefaultResolution('newerInBackup')).toBe('takeBackup')
+    expect(getDefaultResolution('newerLocally')).toBe('keepLocal')
+    expect(getDefaultResolution('identical')).toBe('keepLocal')
+  })
+})
+
+describe('diffEntries', () => {
+  it('should pair backup entries with local entries and count them', () => {
+    const local = createEntry()
+    const diffs = diffEntries(
+      [createEntry({ content: 'B', updatedAt: 3000 }), createEntry({ id: 'entry-2' })],
+      new Map([[local.id, local]]),
+    )
+
+    expect(diffs).toEqual([
+      { status: 'newerInBackup', incoming: expect.objectContaining({ content: 'B' }), local },
+      { status: 'new', incoming: expect.objectContaining({ id: 'entry-2' }) },
+    ])
+    expect(countByStatus(diffs)).toEqual({
+      new: 1,
+      identical: 0,
+      newerInBackup: 1,
+      newerLocally: 0,
+    })
+  })
+})
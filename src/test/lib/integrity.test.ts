@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { db } from '@/lib/db'
+import { checkIntegrity, hasIntegrityIssues, repairIntegrity } from '@/lib/integrity'
+import { createEntry, createImage } from '@/test/fixtures'
+
+describe('integrity', () => {
+  beforeEach(async () => {
+    await Promise.all([db.entries.clear(), db.images.clear()])
+  })
+
+  afterEach(async () => {
+    await Promise.all([db.entries.clear(), db.images.clear()])
+  })
+
+  it('should report no issues for consistent data', async () => {
+    await db.entries.bulkAdd([
+      createEntry({ id: 'entry-1', imageIds: ['img-1'] }),
+      createEntry({ id: 'entry-2', imageIds: ['img-2'], deletedAt: 3000 }),
+    ])
+    await db.images.bulkAdd([createImage('img-1', 'entry-1'), createImage('img-2', 'entry-2')])
+
+    const report = await checkIntegrity()
+
+    expect(hasIntegrityIssues(report)).toBe(false)
+    expect(report.reclaimableBytes).toBe(0)
+  })
+
+  it('should find orphaned, missing and mismatched images', async () => {
+    await db.entries.bulkAdd([
+      createEntry({ id: 'entry-1', imageIds: ['img-1', 'missing'] }),
+      createEntry({ id: 'entry-2', imageIds: ['img-2'] }),
+    ])
+    await db.images.bulkAdd([
+      createImage('img-1', 'entry-1'),
+      createImage('img-2', 'entry-1'),
+      createImage('orphan', 'entry-1'),
+      createImage('skipped', 'deleted-entry'),
+    ])
+
+    const report = await checkIntegrity()
+
+    expect(report.orphanedImageIds.sort()).toEqual(['orphan', 'skipped'])
+    expect(report.missingImageRefs).toEqual([{ entryId: 'entry-1', imageIds: ['missing'] }])
+    expect(report.mismatchedImages).toEqual([
+      { imageId: 'img-2', entryId: 'entry-1', referencedBy: 'entry-2' },
+    ])
+    expect(hasIntegrityIssues(report)).toBe(true)
+  })
+
+  it('should repair every issue without touching updatedAt', async () => {
+    await db.entries.bulkAdd([
+      createEntry({ id: 'entry-1', imageIds: ['img-1', 'missing'] }),
+      createEntry({ id: 'entry-2', imageIds: ['img-2'] }),
+    ])
+    await db.images.bulkAdd([
+      createImage('img-1', 'entry-1'),
+      createImage('img-2', 'entry-1'),
+      createImage('orphan', 'entry-1'),
+    ])
+
+    const repaired = await repairIntegrity()
+
+    expect(repaired.orphanedImageIds).toEqual(['orphan'])
+    expect(await db.images.get('orphan')).toBeUndefined()
+    const entry = await db.entries.get('entry-1')
+    expect(entry?.imageIds).toEqual(['img-1'])
+    expect(entry?.updatedAt).toBe(2000)
+    expect((await db.images.get('img-2'))?.entryId).toBe('entry-2')
+    expect(hasIntegrityIssues(await checkIntegrity())).toBe(false)
+  })
+})
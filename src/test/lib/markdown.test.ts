@@ -0,0 +1,57 @@
+import type { Element, Root } from 'hast'
+import { describe, expect, it } from 'vitest'
+import { rehypeHighlightMatches, SEARCH_MATCH_ATTRIBUTE } from '@/lib/markdown'
+import { getHighlightPattern, parseSearchQuery } from '@/lib/searchQuery'
+
+function paragraph(...children: Element['children']): Element {
+  return { type: 'element', tagName: 'p', properties: {}, children }
+}
+
+function highlight(tree: Root, query: string, activeIndex = 0): Root {
+  const pattern = getHighlightPattern(parseSearchQuery(query))
+  rehypeHighlightMatches({ pattern, activeIndex })(tree)
+  return tree
+}
+
+function marks(node: Root | Element): Element[] {
+  return node.children.flatMap((child) => {
+    if (child.type !== 'element') return []
+    return child.tagName === 'mark' ? [child] : marks(child)
+  })
+}
+
+describe('rehypeHighlightMatches', () => {
+  it('should wrap matches in numbered marks across elements', () => {
+    const tree: Root = {
+      type: 'root',
+      children: [
+        paragraph({ type: 'text', value: 'Walked in the rain.' }),
+        paragraph({
+          type: 'element',
+          tagName: 'strong',
+          properties: {},
+          children: [{ type: 'text', value: 'A long walk' }],
+        }),
+      ],
+    }
+
+    const found = marks(highlight(tree, 'walk', 1))
+
+    expect(found.map((mark) => mark.children)).toEqual([
+      [{ type: 'text', value: 'Walked' }],
+      [{ type: 'text', value: 'walk' }],
+    ])
+    expect(found.map((mark) => mark.properties[SEARCH_MATCH_ATTRIBUTE])).toEqual([0, 1])
+    expect(found[1]?.properties.className).toContain('bg-foreground')
+    expect(tree.children[0]).toMatchObject({
+      children: [{ tagName: 'mark' }, { type: 'text', value: ' in the rain.' }],
+    })
+  })
+
+  it('should leave the tree unchanged without a pattern', () => {
+    const tree: Root = { type: 'root', children: [paragraph({ type: 'text', value: 'walk' })] }
+
+    expect(marks(highlight(tree, 'tag:work'))).toEqual([])
+    expect(tree.children[0]).toEqual(paragraph({ type: 'text', value: 'walk' }))
+  })
+})
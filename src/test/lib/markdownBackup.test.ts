@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildMarkdownArchive,
+  entryToMarkdown,
+  getEntryPath,
+  serializeFrontMatter,
+} from '@/lib/markdownBackup'
+import { createEntry, createImage } from '@/test/fixtures'
+
+function readText(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.readAsText(blob)
+  })
+}
+
+describe('markdownBackup', () => {
+  it('should place entries in date folders named by time and id', () => {
+    expect(getEntryPath(createEntry())).toMatch(/^2024-01-15\/\d{6}-entry-1\.md$/)
+  })
+
+  it('should serialize front matter', () => {
+    expect(
+      serializeFrontMatter(
+        createEntry({
+          createdAt: Date.UTC(2024, 0, 15, 8, 30),
+          updatedAt: Date.UTC(2024, 0, 15, 9, 0),
+          mood: { score: 4 },
+          private: true,
+          imageIds: ['img-1'],
+        }),
+      ),
+    ).toBe(
+      [
+        '---',
+        'id: entry-1',
+        'date: 2024-01-15',
+        'createdAt: 2024-01-15T08:30:00.000Z',
+        'updatedAt: 2024-01-15T09:00:00.000Z',
+        'tags: ["life"]',
+        'mood: {"score":4}',
+        'private: true',
+        'images: ["img-1"]',
+        '---',
+      ].join('\n'),
+    )
+  })
+
+  it('should link thumbnails to full images after the content', () => {
+    const markdown = entryToMarkdown(createEntry({ imageIds: ['img-1', 'missing'] }), [
+      createImage('img-1'),
+    ])
+
+    expect(markdown).toContain('\n\nHello #life\n\n')
+    expect(
+      markdown.trimEnd().endsWith('[![](../images/thumbnails/img-1.jpg)](../images/img-1.jpg)'),
+    ).toBe(true)
+    expect(markdown).not.toContain('missing.jpg')
+  })
+
+  it('should archive active entries and their images only', async () => {
+    const archive = await buildMarkdownArchive(
+      [
+        createEntry({ imageIds: ['img-1'] }),
+        createEntry({ id: 'trashed', imageIds: ['img-2'], deletedAt: 1 }),
+      ],
+      [createImage('img-1'), createImage('img-2', 'trashed')],
+    )
+    const text = await readText(archive)
+
+    expect(text).toContain('-entry-1.md')
+    expect(text).toContain('images/img-1.jpg')
+    expect(text).toContain('images/thumbnails/img-1.jpg')
+    expect(text).not.toContain('trashed')
+    expect(text).not.toContain('img-2')
+  })
+
+  it('should report progress per archived image', async () => {
+    const progress: number[] = []
+    await buildMarkdownArchive(
+      [createEntry({ imageIds: ['img-1', 'img-2'] })],
+      [createImage('img-1'), createImage('img-2')],
+      (value) => progress.push(value),
+    )
+
+    expect(progress).toEqual([0.5, 1])
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import { entryToMarkdown } from '@/lib/markdownBackup'
+import {
+  appendMissingTags,
+  getDateFromPath,
+  type ParsedMarkdownEntry,
+  parseFrontMatter,
+  parseMarkdownEntry,
+  resolveRelativePath,
+} from '@/lib/markdownImport'
+import type { DiaryEntry, ImageRecord } from '@/types'
+
+describe('markdownImport', () => {
+  describe('parseFrontMatter', () => {
+    it('should parse scalars, flow collections and block lists', () => {
+      const { data, body } = parseFrontMatter(
+        [
+          '---',
+          'id: abc',
+          'title: "Hello: world"',
+          "quote: 'it''s'",
+          'count: 3',
+          'tags: [work, "life"]',
+          'mood: {"score":4}',
+          'aliases:',
+          '  - one',
+          '  - two',
+          '---',
+          'Body text',
+        ].join('\r\n'),
+      )
+
+      expect(data).toEqual({
+        id: 'abc',
+        title: 'Hello: world',
+        quote: "it's",
+        count: 3,
+        tags: ['work', 'life'],
+        mood: { score: 4 },
+        aliases: ['one', 'two'],
+      })
+      expect(body).toBe('Body text')
+    })
+
+    it('should return the whole text when there is no front matter', () => {
+      expect(parseFrontMatter('# Title\n\ntext')).toEqual({ data: {}, body: '# Title\n\ntext' })
+    })
+  })
+
+  describe('paths', () => {
+    it('should resolve links relative to the file', () => {
+      expect(resolveRelativePath('2024-01-15/a.md', '../images/x.jpg')).toBe('images/x.jpg')
+      expect(resolveRelativePath('notes/a.md', './my%20photo.png')).toBe('notes/my photo.png')
+      expect(resolveRelativePath('notes/a.md', 'https://example.com/x.jpg')).toBeNull()
+    })
+
+    it('should find dates in file names before folders', () => {
+      expect(getDateFromPath('2024-01-15/2024-02-01 walk.md')).toBe('2024-02-01')
+      expect(getDateFromPath('2024-01-15/note.md')).toBe('2024-01-15')
+      expect(getDateFromPath('2024-13-45.md')).toBeUndefined()
+      expect(getDateFromPath('note.md')).toBeUndefined()
+    })
+  })
+
+  describe('appendMissingTags', () => {
+    it('should append only tags missing from the content', () => {
+      expect(appendMissingTags('Hello #work', ['work', 'Life', 'not valid', '123'])).toBe(
+        'Hello #work\n\n#life',
+      )
+      expect(appendMissingTags('Hello #work', ['work'])).toBe('Hello #work')
+    })
+  })
+
+  describe('parseMarkdownEntry', () => {
+    it('should round-trip an exported entry', () => {
+      const entry: DiaryEntry = {
+        id: 'entry-1',
+        content: 'Line one\n\n![inline](https://example.com/a.png) #life',
+        date: '2024-01-15',
+        imageIds: ['img-1'],
+        tags: ['life'],
+        mood: { score: 5, emoji: '🥳' },
+        private: true,
+        createdAt: Date.UTC(2024, 0, 15, 8, 30),
+        updatedAt: Date.UTC(2024, 0, 15, 9, 0),
+      }
+      const image: ImageRecord = {
+        id: 'img-1',
+        entryId: 'entry-1',
+        blob: new Blob([''], { type: 'image/jpeg' }),
+        thumbnail: new Blob([''], { type: 'image/jpeg' }),
+        createdAt: 0,
+      }
+      const markdown = entryToMarkdown(entry, [image])
+
+      const parsed = parseMarkdownEntry(
+        '2024-01-15/083000-entry-1.md',
+        markdown,
+        new Set(['images/img-1.jpg', 'images/thumbnails/img-1.jpg']),
+      ) as ParsedMarkdownEntry
+
+      expect(parsed).toEqual({
+        path: '2024-01-15/083000-entry-1.md',
+        id: 'entry-1',
+        date: '2024-01-15',
+        content: entry.content,
+        createdAt: entry.createdAt,
+        updatedAt: entry.updatedAt,
+        mood: entry.mood,
+        private: true,
+        images: [{ path: 'images/img-1.jpg', id: 'img-1' }],
+      })
+    })
+
+    it('should import plain files named by date and collect local images', () => {
+      const parsed = parseMarkdownEntry(
+        'journal/2024-03-02.txt',
+        'Morning walk\n\n![](photos/park.png)\n\n![](missing.png)',
+        new Set(['journal/photos/park.png']),
+      ) as ParsedMarkdownEntry
+
+      expect(parsed.id).toBeUndefined()
+      expect(parsed.date).toBe('2024-03-02')
+      expect(parsed.content).toBe('Morning walk\n\n![](missing.png)')
+      expect(parsed.images).toEqual([{ path: 'journal/photos/park.png' }])
+      expect(parsed.updatedAt).toBe(parsed.createdAt)
+    })
+
+    it('should take the date and time from front matter', () => {
+      const parsed = parseMarkdownEntry(
+        'note.md',
+        '---\ndate: 2024-05-06 07:08\ntags: travel, food\n---\nTrip',
+        new Set(),
+      ) as ParsedMarkdownEntry
+
+      expect(parsed.date).toBe('2024-05-06')
+      expect(parsed.createdAt).toBe(new Date('2024-05-06T07:08').getTime())
+      expect(parsed.content).toBe('Trip\n\n#travel #food')
+    })
+
+    it('should report files without a date or content', () => {
+      expect(parseMarkdownEntry('note.md', 'No date here', new Set())).toBe('noDate')
+      expect(parseMarkdownEntry('2024-01-15.md', '---\nid: x\n---\n\n', new Set())).toBe('empty')
+    })
+  })
+})
@@ -0,0 +1,172 @@
+import Dexie from 'dexie'
+import { afterEach, describe, expect, it } from 'vitest'
+import { MiniDiaryDB } from '@/lib/db'
+import {
+  applyMigrations,
+  getLatestVersion,
+  getSchemaVersion,
+  type Migration,
+  migrations,
+} from '@/lib/migrations'
+
+// Each test uses its own database so upgrades don't leak between tests
+let dbCounter = 0
+const openedNames: string[] = []
+
+function nextDbName(): string {
+  dbCounter += 1
+  const name = `MigrationTestDB-${dbCounter}`
+  openedNames.push(name)
+  return name
+}
+
+/**
+ * Open a database that only knows migrations up to `version`
+ */
+async function openAtVersion(name: string, version: number): Promise<MiniDiaryDB> {
+  const database = new MiniDiaryDB(
+    name,
+    migrations.filter((migration) => migration.version <= version),
+  )
+  await database.open()
+  return database
+}
+
+/**
+ * Seed a v1 database with raw rows, bypassing the repositories
+ */
+async function seedV1(name: string, entries: object[], images: object[] = []): Promise<void> {
+  const v1 = await openAtVersion(name, 1)
+  await v1.table('entries').bulkAdd(entries)
+  await v1.table('images').bulkAdd(images)
+  v1.close()
+}
+
+describe('migrations', () => {
+  afterEach(async () => {
+    for (const name of openedNames.splice(0)) {
+      await Dexie.delete(name)
+    }
+  })
+
+  it('should define strictly increasing versions starting at 1', () => {
+    expect(migrations[0]?.version).toBe(1)
+    for (let i = 1; i < migrations.length; i++) {
+      expect(migrations[i]?.version).toBeGreaterThan(migrations[i - 1]?.version ?? 0)
+    }
+  })
+
+  it('should record the latest version on a fresh database', async () => {
+    const database = await openAtVersion(nextDbName(), getLatestVersion(migrations))
+
+    expect(await getSchemaVersion(database)).toBe(getLatestVersion(migrations))
+    expect(database.verno).toBe(getLatestVersion(migrations))
+    database.close()
+  })
+
+  it('should upgrade a seeded v1 database cleanly', async () => {
+    const name = nextDbName()
+    await seedV1(
+      name,
+      [
+        {
+          id: 'entry-1',
+          content: 'Hello #Travel',
+          date: '2024-01-15',
+          createdAt: 1,
+          updatedAt: 1,
+          imageIds: ['img-1'],
+        },
+        {
+          id: 'entry-2',
+          content: 'No images field',
+          date: '2024-01-16',
+          createdAt: 2,
+          updatedAt: 2,
+        },
+      ],
+      [
+        {
+          id: 'img-1',
+          entryId: 'entry-1',
+          blob: new Blob(['full']),
+          thumbnail: new Blob(['thumb']),
+          createdAt: 1,
+        },
+      ],
+    )
+
+    const upgraded = await openAtVersion(name, getLatestVersion(migrations))
+
+    expect(upgraded.verno).toBe(getLatestVersion(migrations))
+    expect(await getSchemaVersion(upgraded)).toBe(getLatestVersion(migrations))
+    expect(await upgraded.entries.count()).toBe(2)
+    expect(await upgraded.images.count()).toBe(1)
+    expect((await upgraded.entries.get('entry-1'))?.imageIds).toEqual(['img-1'])
+    expect((await upgraded.entries.get('entry-2'))?.imageIds).toEqual([])
+    expect((await upgraded.entries.get('entry-1'))?.tags).toEqual(['travel'])
+    expect(await upgraded.entries.where('tags').equals('travel').count()).toBe(1)
+    expect(await upgraded.entries.where('date').equals('2024-01-15').count()).toBe(1)
+    expect(await upgraded.entries.where('deletedAt').above(0).count()).toBe(0)
+    upgraded.close()
+  })
+
+  it('should run upgrade callbacks in order and record each version', async () => {
+    const name = nextDbName()
+    await seedV1(name, [
+      { id: 'entry-1', content: 'a', date: '2024-01-15', createdAt: 1, updatedAt: 1, imageIds: [] },
+    ])
+
+    const calls: number[] = []
+    const testMigrations: Migration[] = [
+      ...migrations.filter((migration) => migration.version === 1),
+      {
+        version: 2,
+        description: 'Uppercase content',
+        upgrade: async (tx) => {
+          calls.push(2)
+          await tx
+            .table('entries')
+            .toCollection()
+            .modify((entry) => {
+              entry.content = entry.content.toUpperCase()
+            })
+        },
+      },
+      {
+        version: 3,
+        description: 'Add length index',
+        stores: { entries: 'id, date, createdAt, updatedAt, length' },
+        upgrade: async (tx) => {
+          calls.push(3)
+          await tx
+            .table('entries')
+            .toCollection()
+            .modify((entry) => {
+              entry.length = entry.content.length
+            })
+        },
+      },
+    ]
+
+    const upgraded = new MiniDiaryDB(name, testMigrations)
+    await upgraded.open()
+
+    expect(calls).toEqual([2, 3])
+    expect(await getSchemaVersion(upgraded)).toBe(3)
+    expect((await upgraded.entries.get('entry-1'))?.content).toBe('A')
+    expect(await upgraded.table('entries').where('length').equals(1).count()).toBe(1)
+    upgraded.close()
+  })
+
+  it('should reject non-increasing versions', () => {
+    const database = new Dexie(nextDbName())
+
+    expect(() =>
+      applyMigrations(database, [
+        { version: 2, description: 'b' },
+        { version: 1, description: 'a' },
+      ]),
+    ).toThrow('Migration versions must be strictly increasing')
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { computeMoodTrend, getMoodEmoji, getMoodRange, isMoodScore } from '@/lib/mood'
+import type { DiaryEntry, Mood } from '@/types'
+
+function makeEntry(date: string, mood?: Mood): DiaryEntry {
+  return {
+    id: `${date}-${Math.random()}`,
+    content: 'x',
+    date,
+    createdAt: 0,
+    updatedAt: 0,
+    imageIds: [],
+    tags: [],
+    ...(mood && { mood }),
+  }
+}
+
+describe('isMoodScore', () => {
+  it('should accept integers 1 to 5 only', () => {
+    expect([1, 2, 3, 4, 5].every(isMoodScore)).toBe(true)
+    expect(isMoodScore(0)).toBe(false)
+    expect(isMoodScore(6)).toBe(false)
+    expect(isMoodScore(2.5)).toBe(false)
+    expect(isMoodScore('3')).toBe(false)
+  })
+})
+
+describe('getMoodEmoji', () => {
+  it('should use the default emoji for the score', () => {
+    expect(getMoodEmoji({ score: 5 })).toBe('😄')
+  })
+
+  it('should prefer a custom emoji', () => {
+    expect(getMoodEmoji({ score: 2, emoji: '😴' })).toBe('😴')
+  })
+})
+
+describe('getMoodRange', () => {
+  it('should cover the given number of days ending today', () => {
+    const range = getMoodRange(30, new Date(2024, 2, 15))
+    expect(range).toEqual({ startDate: '2024-02-15', endDate: '2024-03-15' })
+  })
+
+  it('should handle a single day', () => {
+    expect(getMoodRange(1, new Date(2024, 0, 1))).toEqual({
+      startDate: '2024-01-01',
+      endDate: '2024-01-01',
+    })
+  })
+})
+
+describe('computeMoodTrend', () => {
+  const range = { startDate: '2024-01-01', endDate: '2024-01-03' }
+
+  it('should return one point per day with daily averages', () => {
+    const trend = computeMoodTrend(
+      [
+        makeEntry('2024-01-01', { score: 2 }),
+        makeEntry('2024-01-01', { score: 4 }),
+        makeEntry('2024-01-03', { score: 5 }),
+      ],
+      range,
+    )
+
+    expect(trend.points).toEqual([
+      { date: '2024-01-01', average: 3, count: 2 },
+      { date: '2024-01-02', average: null, count: 0 },
+      { date: '2024-01-03', average: 5, count: 1 },
+    ])
+    expect(trend.total).toBe(3)
+    expect(trend.average).toBeCloseTo(11 / 3)
+    expect(trend.distribution).toEqual([0, 1, 0, 1, 1])
+  })
+
+  it('should ignore entries without mood or outside the range', () => {
+    const trend = computeMoodTrend(
+      [makeEntry('2024-01-02'), makeEntry('2023-12-31', { score: 1 })],
+      range,
+    )
+
+    expect(trend.total).toBe(0)
+    expect(trend.average).toBeNull()
+    expect(trend.points.every((point) => point.average === null)).toBe(true)
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createNdjsonWriter, readLines } from '@/lib/ndjson'
+
+async function collectLines(blob: Blob, chunkSize?: number): Promise<string[]> {
+  const lines: string[] = []
+  await readLines(
+    blob,
+    (line) => {
+      lines.push(line)
+    },
+    chunkSize ? { chunkSize } : {},
+  )
+  return lines
+}
+
+describe('createNdjsonWriter', () => {
+  it('should join written lines into one Blob', async () => {
+    const writer = createNdjsonWriter()
+    writer.write('{"a":1}\n')
+    writer.write('{"b":2}\n')
+
+    const blob = writer.finish('application/x-ndjson')
+
+    expect(blob.type).toBe('application/x-ndjson')
+    expect(await collectLines(blob)).toEqual(['{"a":1}', '{"b":2}'])
+  })
+})
+
+describe('readLines', () => {
+  it('should split lines across chunk boundaries', async () => {
+    const blob = new Blob(['第一行\n第二行很长\n\nlast line without newline'])
+
+    expect(await collectLines(blob, 4)).toEqual([
+      '第一行',
+      '第二行很长',
+      'last line without newline',
+    ])
+  })
+
+  it('should report progress per chunk', async () => {
+    const onProgress = vi.fn()
+    await readLines(new Blob(['a\nb\nc\n']), () => {}, { chunkSize: 3, onProgress })
+
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([0.5, 1])
+  })
+
+  it('should run reads through waitFor', async () => {
+    let reads = 0
+    await readLines(new Blob(['a\n']), () => {}, {
+      waitFor: (read) => {
+        reads++
+        return read()
+      },
+    })
+
+    expect(reads).toBe(1)
+  })
+})
@@ -1,6 +1,6 @@
-import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { db } from '@/lib/db'
-import { entriesRepository } from '@/lib/repositories/entries'
+import { entriesRepository, getEntryIssues } from '@/lib/repositories/entries'
 
 describe('entriesRepository', () => {
   beforeEach(async () => {
@@ -173,7 +173,7 @@ describe('entriesRepository', () => {
   })
 
   describe('delete', () => {
-    it('should delete entry', async () => {
+    it('should move entry to trash', async () => {
       const created = await entriesRepository.create({
         content: 'Test',
         date: '2024-01-15',
@@ -182,7 +182,103 @@ describe('entriesRepository', () => {
       await entriesRepository.delete(created.id)
 
       const entry = await entriesRepository.getById(created.id)
-      expect(entry).toBeUndefined()
+      expect(entry?.deletedAt).toBeDefined()
+    })
+  })
+
+  describe('trash', () => {
+    beforeEach(async () => {
+      await db.images.clear()
+    })
+
+    afterEach(async () => {
+      await db.images.clear()
+    })
+
+    it('should exclude trashed entries from queries', async () => {
+      const kept = await entriesRepository.create({ content: 'Kept #work', date: '2024-01-15' })
+      const trashed = await entriesRepository.create({
+        content: 'Trashed #work hello',
+        date: '2024-01-16',
+      })
+      await entriesRepository.delete(trashed.id)
+
+      expect(await entriesRepository.getByDate('2024-01-16')).toEqual([])
+      expect((await entriesRepository.getAll()).map((e) => e.id)).toEqual([kept.id])
+      expect(await entriesRepository.count()).toBe(1)
+      expect(await entriesRepository.getDistinctDates()).toEqual(['2024-01-15'])
+      expect(await entriesRepository.search('hello')).toEqual([])
+      expect(await entriesRepository.getByTag('work')).toHaveLength(1)
+      expect(await entriesRepository.getAllTags()).toEqual([{ tag: 'work', count: 1 }])
+      expect(
+        await entriesRepository.getByDateRange({ startDate: '2024-01-01', endDate: '2024-01-31' }),
+      ).toHaveLength(1)
+    })
+
+    it('should list trashed entries most recently deleted first', async () => {
+      const first = await entriesRepository.create({ content: 'First', date: '2024-01-15' })
+      const second = await entriesRepository.create({ content: 'Second', date: '2024-01-15' })
+      await db.entries.update(first.id, { deletedAt: 1000 })
+      await db.entries.update(second.id, { deletedAt: 2000 })
+
+      const trashed = await entriesRepository.getTrashed()
+
+      expect(trashed.map((e) => e.id)).toEqual([second.id, first.id])
+    })
+
+    it('should restore entry from trash', async () => {
+      const created = await entriesRepository.create({ content: 'Test', date: '2024-01-15' })
+      await entriesRepository.delete(created.id)
+
+      const restored = await entriesRepository.restore(created.id)
+
+      expect(restored.deletedAt).toBeUndefined()
+      expect(await entriesRepository.getByDate('2024-01-15')).toHaveLength(1)
+      expect(await entriesRepository.getTrashed()).toEqual([])
+    })
+
+    it('should permanently delete entry and its images', async () => {
+      const created = await entriesRepository.create({ content: 'Test', date: '2024-01-15' })
+      await db.images.add({
+        id: 'img-1',
+        entryId: created.id,
+        blob: new Blob(['a']),
+        thumbnail: new Blob(['a']),
+        createdAt: Date.now(),
+      })
+      await entriesRepository.delete(created.id)
+
+      await entriesRepository.deletePermanently(created.id)
+
+      expect(await entriesRepository.getById(created.id)).toBeUndefined()
+      expect(await db.images.count()).toBe(0)
+    })
+
+    it('should purge only entries past the retention period', async () => {
+      const day = 24 * 60 * 60 * 1000
+      const now = 100 * day
+      const old = await entriesRepository.create({ content: 'Old', date: '2024-01-15' })
+      const recent = await entriesRepository.create({ content: 'Recent', date: '2024-01-15' })
+      const active = await entriesRepository.create({ content: 'Active', date: '2024-01-15' })
+      await db.entries.update(old.id, { deletedAt: now - 31 * day })
+      await db.entries.update(recent.id, { deletedAt: now - 5 * day })
+
+      const purged = await entriesRepository.purgeExpired(30, now)
+
+      expect(purged).toBe(1)
+      expect(await entriesRepository.getById(old.id)).toBeUndefined()
+      expect(await entriesRepository.getById(recent.id)).toBeDefined()
+      expect(await entriesRepository.getById(active.id)).toBeDefined()
+    })
+
+    it('should empty the trash', async () => {
+      const trashed = await entriesRepository.create({ content: 'Trashed', date: '2024-01-15' })
+      await entriesRepository.create({ content: 'Active', date: '2024-01-15' })
+      await entriesRepository.delete(trashed.id)
+
+      expect(await entriesRepository.emptyTrash()).toBe(1)
+      expect(await entriesRepository.getTrashed()).toEqual([])
+      expect(await entriesRepository.count()).toBe(1)
     })
   })
 
@@ -210,6 +306,34 @@ describe('entriesRepository', () => {
 
       expect(count).toBe(2)
     })
+
+    it('should count entries changed since a timestamp, including trashed ones', async () => {
+      const now = vi.spyOn(Date, 'now')
+      now.mockReturnValue(1000)
+      await entriesRepository.create({ content: 'Old', date: '2024-01-15' })
+      const trashed = await entriesRepository.create({ content: 'Trashed', date: '2024-01-15' })
+
+      now.mockReturnValue(2000)
+      await entriesRepository.create({ content: 'New', date: '2024-01-16' })
+      await entriesRepository.delete(trashed.id)
+
+      expect(await entriesRepository.countChangedSince(1500)).toBe(2)
+      expect(await entriesRepository.countChangedSince(0)).toBe(3)
+      now.mockRestore()
+    })
+
+    it('should return the creation time of the oldest entry', async () => {
+      expect(await entriesRepository.getFirstCreatedAt()).toBeNull()
+
+      const now = vi.spyOn(Date, 'now')
+      now.mockReturnValue(2000)
+      await entriesRepository.create({ content: 'Later', date: '2024-01-15' })
+      now.mockReturnValue(1000)
+      await entriesRepository.create({ content: 'Earlier', date: '2024-01-16' })
+
+      expect(await entriesRepository.getFirstCreatedAt()).toBe(1000)
+      now.mockRestore()
+    })
   })
 
   describe('search', () => {
@@ -232,6 +356,124 @@ describe('entriesRepository', () => {
     })
   })
 
+  describe('tags', () => {
+    it('should extract hashtags on create', async () => {
+      const entry = await entriesRepository.create({
+        content: 'Morning run #Health #running',
+        date: '2024-01-15',
+      })
+
+      expect(entry.tags).toEqual(['health', 'running'])
+    })
+
+    it('should re-extract hashtags when content is updated', async () => {
+      const created = await entriesRepository.create({ content: '#draft', date: '2024-01-15' })
+
+      const updated = await entriesRepository.update({ id: created.id, content: 'Done #final' })
+
+      expect(updated.tags).toEqual(['final'])
+    })
+
+    it('should keep tags when only imageIds are updated', async () => {
+      const created = await entriesRepository.create({ content: '#keep', date: '2024-01-15' })
+
+      const updated = await entriesRepository.update({ id: created.id, imageIds: ['img-1'] })
+
+      expect(updated.tags).toEqual(['keep'])
+    })
+
+    it('should get entries by tag sorted by date descending', async () => {
+      await entriesRepository.create({ content: 'A #work', date: '2024-01-15' })
+      await entriesRepository.create({ content: 'B #home', date: '2024-01-16' })
+      await entriesRepository.create({ content: 'C #work', date: '2024-01-17' })
+
+      const entries = await entriesRepository.getByTag('#Work')
+
+      expect(entries.map((e) => e.content)).toEqual(['C #work', 'A #work'])
+    })
+
+    it('should count tag usage', async () => {
+      await entriesRepository.create({ content: '#work #focus', date: '2024-01-15' })
+      await entriesRepository.create({ content: '#work', date: '2024-01-16' })
+      await entriesRepository.create({ content: 'no tags', date: '2024-01-17' })
+
+      const tags = await entriesRepository.getAllTags()
+
+      expect(tags).toEqual([
+        { tag: 'work', count: 2 },
+        { tag: 'focus', count: 1 },
+      ])
+    })
+  })
+
+  describe('mood', () => {
+    it('should create entry with mood', async () => {
+      const entry = await entriesRepository.create({
+        content: 'Good day',
+        date: '2024-01-15',
+        mood: { score: 4, emoji: '🥳' },
+      })
+
+      expect(entry.mood).toEqual({ score: 4, emoji: '🥳' })
+    })
+
+    it('should not set mood when omitted', async () => {
+      const entry = await entriesRepository.create({ content: 'Test', date: '2024-01-15' })
+
+      expect(entry).not.toHaveProperty('mood')
+    })
+
+    it('should update and clear mood', async () => {
+      const created = await entriesRepository.create({
+        content: 'Test',
+        date: '2024-01-15',
+        mood: { score: 2 },
+      })
+
+      const updated = await entriesRepository.update({ id: created.id, mood: { score: 5 } })
+      expect(updated.mood).toEqual({ score: 5 })
+
+      const cleared = await entriesRepository.update({ id: created.id, mood: null })
+      expect(cleared).not.toHaveProperty('mood')
+      expect((await entriesRepository.getById(created.id))?.mood).toBeUndefined()
+    })
+
+    it('should throw error for invalid mood score', async () => {
+      await expect(
+        entriesRepository.create({
+          content: 'Test',
+          date: '2024-01-15',
+          mood: { score: 6 as never },
+        }),
+      ).rejects.toThrow('Mood score must be an integer between 1 and 5')
+    })
+  })
+
+  describe('private', () => {
+    it('should only store the flag on private entries', async () => {
+      const normal = await entriesRepository.create({ content: 'Public', date: '2024-01-15' })
+      const secret = await entriesRepository.create({
+        content: 'Secret',
+        date: '2024-01-15',
+        private: true,
+      })
+
+      expect(normal).not.toHaveProperty('private')
+      expect((await entriesRepository.getById(secret.id))?.private).toBe(true)
+    })
+
+    it('should set and clear the flag on update', async () => {
+      const created = await entriesRepository.create({ content: 'Test', date: '2024-01-15' })
+
+      const marked = await entriesRepository.update({ id: created.id, private: true })
+      expect(marked.private).toBe(true)
+
+      const unmarked = await entriesRepository.update({ id: created.id, private: false })
+      expect(unmarked).not.toHaveProperty('private')
+      expect((await entriesRepository.getById(created.id))?.private).toBeUndefined()
+    })
+  })
+
   describe('getDistinctDates', () => {
     it('should return unique dates', async () => {
       await entriesRepository.create({ content: 'Entry 1', date: '2024-01-15' })
@@ -246,3 +488,46 @@ describe('entriesRepository', () => {
     })
   })
 })
+
+describe('getEntryIssues', () => {
+  const valid = {
+    id: 'entry-1',
+    content: 'Hello',
+    date: '2024-01-15',
+    imageIds: [],
+    tags: [],
+    createdAt: 1000,
+    updatedAt: 2000,
+  }
+
+  it('should accept valid records, including ones without tags', () => {
+    expect(getEntryIssues(valid)).toEqual([])
+    expect(getEntryIssues({ ...valid, tags: undefined, mood: { score: 3 } })).toEqual([])
+  })
+
+  it('should apply the repository rules', () => {
+    expect(
+      getEntryIssues({
+        ...valid,
+        date: '2024/01/15',
+        content: 'a'.repeat(10001),
+        imageIds: ['1', '2', '3', '4'],
+        mood: { score: 6 },
+      }),
+    ).toEqual(['invalidDate', 'contentTooLong', 'tooManyImages', 'invalidMood'])
+  })
+
+  it('should report missing or mistyped fields', () => {
+    expect(getEntryIssues(null)).toEqual(['invalidId'])
+    expect(
+      getEntryIssues({ ...valid, id: '', content: 1, imageIds: 'x', updatedAt: 'now', tags: 'a' }),
+    ).toEqual([
+      'invalidId',
+      'invalidContent',
+      'invalidImageIds',
+      'invalidTimestamps',
+      'invalidTags',
+    ])
+    expect(getEntryIssues({ ...valid, private: 'yes' })).toEqual(['invalidPrivate'])
+  })
+})
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { db } from '@/lib/db'
+import { entriesRepository } from '@/lib/repositories/entries'
+import { MAX_REVISIONS_PER_ENTRY, revisionsRepository } from '@/lib/repositories/revisions'
+
+describe('revisionsRepository', () => {
+  beforeEach(async () => {
+    await db.entries.clear()
+    await db.revisions.clear()
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await db.entries.clear()
+    await db.revisions.clear()
+  })
+
+  describe('create', () => {
+    it('should create a revision', async () => {
+      const revision = await revisionsRepository.create({
+        entryId: 'entry-1',
+        content: 'Old content',
+        updatedAt: 1000,
+      })
+
+      expect(revision.id).toBeDefined()
+      expect(await revisionsRepository.getById(revision.id)).toEqual(revision)
+    })
+
+    it('should drop the oldest revisions beyond the cap', async () => {
+      for (let i = 0; i < MAX_REVISIONS_PER_ENTRY + 2; i++) {
+        await revisionsRepository.create({ entryId: 'entry-1', content: `v${i}`, updatedAt: i })
+      }
+      await revisionsRepository.create({ entryId: 'entry-2', content: 'other', updatedAt: 0 })
+
+      const revisions = await revisionsRepository.getByEntryId('entry-1')
+
+      expect(revisions).toHaveLength(MAX_REVISIONS_PER_ENTRY)
+      expect(revisions.at(-1)?.content).toBe('v2')
+      expect(await revisionsRepository.getByEntryId('entry-2')).toHaveLength(1)
+    })
+  })
+
+  describe('getByEntryId', () => {
+    it('should return revisions newest first', async () => {
+      await revisionsRepository.create({ entryId: 'entry-1', content: 'A', updatedAt: 1000 })
+      await revisionsRepository.create({ entryId: 'entry-1', content: 'B', updatedAt: 3000 })
+      await revisionsRepository.create({ entryId: 'entry-1', content: 'C', updatedAt: 2000 })
+
+      const revisions = await revisionsRepository.getByEntryId('entry-1')
+
+      expect(revisions.map((r) => r.content)).toEqual(['B', 'C', 'A'])
+    })
+  })
+
+  describe('entry updates', () => {
+    it('should snapshot previous content when content changes', async () => {
+      const entry = await entriesRepository.create({ content: 'First', date: '2024-01-15' })
+
+      await entriesRepository.update({ id: entry.id, content: 'Second' })
+
+      const revisions = await revisionsRepository.getByEntryId(entry.id)
+      expect(revisions).toHaveLength(1)
+      expect(revisions[0]?.content).toBe('First')
+      expect(revisions[0]?.updatedAt).toBe(entry.updatedAt)
+    })
+
+    it('should not snapshot when content is unchanged', async () => {
+      const entry = await entriesRepository.create({ content: 'Same', date: '2024-01-15' })
+
+      await entriesRepository.update({ id: entry.id, content: 'Same' })
+      await entriesRepository.update({ id: entry.id, imageIds: [] })
+
+      expect(await revisionsRepository.getByEntryId(entry.id)).toEqual([])
+    })
+
+    it('should save a new revision when rolling back', async () => {
+      // Distinct timestamps so revisions sort deterministically
+      let now = 1000
+      vi.spyOn(Date, 'now').mockImplementation(() => (now += 1000))
+
+      const entry = await entriesRepository.create({ content: 'First', date: '2024-01-15' })
+      await entriesRepository.update({ id: entry.id, content: 'Pasted over' })
+      const [revision] = await revisionsRepository.getByEntryId(entry.id)
+
+      const restored = await entriesRepository.update({
+        id: entry.id,
+        content: revision?.content ?? '',
+      })
+
+      expect(restored.content).toBe('First')
+      const revisions = await revisionsRepository.getByEntryId(entry.id)
+      expect(revisions.map((r) => r.content)).toEqual(['Pasted over', 'First'])
+    })
+
+    it('should delete revisions when the entry is permanently deleted', async () => {
+      const entry = await entriesRepository.create({ content: 'First', date: '2024-01-15' })
+      await entriesRepository.update({ id: entry.id, content: 'Second' })
+
+      await entriesRepository.deletePermanently(entry.id)
+
+      expect(await revisionsRepository.getByEntryId(entry.id)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { db } from '@/lib/db'
+import { settingsRepository } from '@/lib/repositories/settings'
+import { DEFAULT_SETTINGS, LEGACY_STORAGE_KEYS } from '@/lib/settings'
+
+describe('settingsRepository', () => {
+  beforeEach(async () => {
+    await db.settings.clear()
+    localStorage.clear()
+  })
+
+  afterEach(async () => {
+    await db.settings.clear()
+    localStorage.clear()
+  })
+
+  describe('get / set', () => {
+    it('should return defaults when nothing is stored', async () => {
+      expect(await settingsRepository.get('theme')).toBe('system')
+      expect(await settingsRepository.get('lastBackupAt')).toBeNull()
+      expect(await settingsRepository.getAll()).toEqual(DEFAULT_SETTINGS)
+    })
+
+    it('should round-trip a value', async () => {
+      await settingsRepository.set('locale', 'en')
+      await settingsRepository.set('searchHistory', ['a', 'b'])
+
+      expect(await settingsRepository.get('locale')).toBe('en')
+      expect(await settingsRepository.getAll()).toMatchObject({
+        locale: 'en',
+        searchHistory: ['a', 'b'],
+      })
+    })
+
+    it('should reject invalid values', async () => {
+      // @ts-expect-error - testing runtime validation
+      await expect(settingsRepository.set('theme', 'blue')).rejects.toThrow()
+      await expect(settingsRepository.set('trashRetentionDays', 12)).rejects.toThrow()
+    })
+
+    it('should fall back to the default for corrupted records', async () => {
+      await db.settings.put({ key: 'theme', value: 'blue', updatedAt: 0 } as never)
+
+      expect(await settingsRepository.get('theme')).toBe('system')
+      expect((await settingsRepository.getAll()).theme).toBe('system')
+    })
+  })
+
+  describe('exportSettings', () => {
+    it('should leave out device settings', async () => {
+      await settingsRepository.set('theme', 'dark')
+      await settingsRepository.set('lastBackupAt', 1000)
+      await settingsRepository.set('appLock', {
+        kind: 'pin',
+        hash: 'aGFzaA==',
+        salt: 'c2FsdA==',
+        iterations: 1,
+      })
+
+      const settings = await settingsRepository.exportSettings()
+
+      expect(settings.theme).toBe('dark')
+      expect(settings).not.toHaveProperty('lastBackupAt')
+      expect(settings).not.toHaveProperty('appLock')
+    })
+  })
+
+  describe('importSettings', () => {
+    it('should import valid preferences only', async () => {
+      const count = await settingsRepository.importSettings({
+        theme: 'dark',
+        locale: 'fr',
+        trashRetentionDays: 90,
+        lastBackupAt: 1000,
+        unknown: true,
+      })
+
+      expect(count).toBe(2)
+      expect(await settingsRepository.getAll()).toMatchObject({
+        theme: 'dark',
+        locale: 'zh-CN',
+        trashRetentionDays: 90,
+        lastBackupAt: null,
+      })
+    })
+
+    it('should ignore missing settings', async () => {
+      expect(await settingsRepository.importSettings(undefined)).toBe(0)
+    })
+  })
+
+  describe('migrateLegacySettings', () => {
+    it('should move valid localStorage values into IndexedDB', async () => {
+      localStorage.setItem(LEGACY_STORAGE_KEYS.theme, 'dark')
+      localStorage.setItem(LEGACY_STORAGE_KEYS.locale, 'en')
+      localStorage.setItem(LEGACY_STORAGE_KEYS.searchHistory, JSON.stringify(['diary']))
+
+      const count = await settingsRepository.migrateLegacySettings()
+
+      expect(count).toBe(3)
+      expect(await settingsRepository.getAll()).toMatchObject({
+        theme: 'dark',
+        locale: 'en',
+        searchHistory: ['diary'],
+      })
+      expect(localStorage.getItem(LEGACY_STORAGE_KEYS.theme)).toBeNull()
+    })
+
+    it('should keep values already stored in IndexedDB', async () => {
+      await settingsRepository.set('theme', 'light')
+      localStorage.setItem(LEGACY_STORAGE_KEYS.theme, 'dark')
+
+      expect(await settingsRepository.migrateLegacySettings()).toBe(0)
+      expect(await settingsRepository.get('theme')).toBe('light')
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addSavedSearch,
+  findSavedSearch,
+  isSavedSearchList,
+  MAX_SAVED_SEARCH_NAME_LENGTH,
+  MAX_SAVED_SEARCHES,
+} from '@/lib/savedSearches'
+import { isValidSetting } from '@/lib/settings'
+import type { SavedSearch } from '@/types'
+
+function savedSearch(index: number): SavedSearch {
+  return { id: `search-${index}`, name: `Search ${index}`, query: `word${index}`, createdAt: index }
+}
+
+describe('addSavedSearch', () => {
+  it('should add a trimmed search to the front', () => {
+    const list = addSavedSearch([savedSearch(1)], '  Work  ', ' tag:work mood:>=4 ', 1000)
+
+    expect(list).toHaveLength(2)
+    expect(list?.[0]).toMatchObject({ name: 'Work', query: 'tag:work mood:>=4', createdAt: 1000 })
+    expect(list?.[1]?.id).toBe('search-1')
+  })
+
+  it('should rename an existing search for the same query', () => {
+    const list = addSavedSearch([savedSearch(1), savedSearch(2)], 'Renamed', 'word2', 5000)
+
+    expect(list).toEqual([{ ...savedSearch(2), name: 'Renamed' }, savedSearch(1)])
+  })
+
+  it('should cut long names', () => {
+    const [search] = addSavedSearch([], 'n'.repeat(100), 'query') ?? []
+
+    expect(search?.name).toHaveLength(MAX_SAVED_SEARCH_NAME_LENGTH)
+  })
+
+  it('should refuse new searches when the list is full', () => {
+    const full = Array.from({ length: MAX_SAVED_SEARCHES }, (_, index) => savedSearch(index))
+
+    expect(addSavedSearch(full, 'New', 'new query')).toBeNull()
+    expect(addSavedSearch(full, 'Renamed', 'word3')).toHaveLength(MAX_SAVED_SEARCHES)
+  })
+})
+
+describe('findSavedSearch', () => {
+  it('should ignore surrounding whitespace', () => {
+    expect(findSavedSearch([savedSearch(1)], ' word1 ')?.id).toBe('search-1')
+    expect(findSavedSearch([savedSearch(1)], 'word')).toBeUndefined()
+  })
+})
+
+describe('isSavedSearchList', () => {
+  it('should validate saved searches', () => {
+    expect(isSavedSearchList([savedSearch(1)])).toBe(true)
+    expect(isSavedSearchList([{ ...savedSearch(1), name: ' ' }])).toBe(false)
+    expect(isSavedSearchList([{ ...savedSearch(1), query: '' }])).toBe(false)
+    expect(isSavedSearchList([{ id: 'x', name: 'x', query: 'x' }])).toBe(false)
+    expect(isSavedSearchList('tag:work')).toBe(false)
+  })
+
+  it('should be used to validate the setting', () => {
+    expect(isValidSetting('savedSearches', [savedSearch(1)])).toBe(true)
+    expect(isValidSetting('savedSearches', [null])).toBe(false)
+  })
+})
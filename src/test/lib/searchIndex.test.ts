@@ -0,0 +1,279 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DataLockedError, lockData, unlockData } from '@/lib/dataEncryption'
+import { db } from '@/lib/db'
+import { entriesRepository } from '@/lib/repositories/entries'
+import {
+  ensureSearchIndex,
+  rankEntries,
+  SEARCH_INDEX_STATE_KEY,
+  SEARCH_INDEX_VERSION,
+} from '@/lib/searchIndex'
+import type { DiaryEntry } from '@/types'
+
+async function clearAll() {
+  await Promise.all([
+    db.entries.clear(),
+    db.revisions.clear(),
+    db.searchIndex.clear(),
+    db.settings.clear(),
+  ])
+}
+
+async function searchIds(query: string): Promise<string[]> {
+  return (await entriesRepository.search(query)).map((entry) => entry.id)
+}
+
+describe('searchIndex', () => {
+  beforeEach(async () => {
+    lockData()
+    await clearAll()
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    lockData()
+    await clearAll()
+  })
+
+  it('should match word forms and require every term', async () => {
+    const walk = await entriesRepository.create({
+      content: 'Walked the dog in the park',
+      date: '2024-01-15',
+    })
+    await entriesRepository.create({ content: 'Walking home', date: '2024-01-16' })
+
+    expect(await searchIds('walks park')).toEqual([walk.id])
+    expect(await searchIds('walking')).toHaveLength(2)
+    expect(await searchIds('walk cat')).toEqual([])
+  })
+
+  it('should match Chinese text by bigrams', async () => {
+    const rain = await entriesRepository.create({
+      content: '今天下雨了，没有出门',
+      date: '2024-01-15',
+    })
+    await entriesRepository.create({ content: '天气很好', date: '2024-01-16' })
+
+    expect(await searchIds('下雨')).toEqual([rain.id])
+    expect(await searchIds('雨')).toEqual([rain.id])
+    expect(await searchIds('没有 出门')).toEqual([rain.id])
+    expect(await searchIds('下雪')).toEqual([])
+  })
+
+  it('should match the last word as a prefix while typing', async () => {
+    const entry = await entriesRepository.create({
+      content: 'Wonderful morning',
+      date: '2024-01-15',
+    })
+
+    expect(await searchIds('wonder')).toEqual([entry.id])
+    // 输入空格表示词已输入完
+    expect(await searchIds('wonder ')).toEqual([])
+  })
+
+  it('should match partly typed words whose stem drops the suffix', async () => {
+    const walk = await entriesRepository.create({ content: 'Walking home', date: '2024-01-15' })
+    const run = await entriesRepository.create({ content: 'Running late', date: '2024-01-16' })
+    const happy = await entriesRepository.create({ content: 'So happy', date: '2024-01-17' })
+
+    expect(await searchIds('walkin')).toEqual([walk.id])
+    expect(await searchIds('runn')).toEqual([run.id])
+    expect(await searchIds('happ')).toEqual([happy.id])
+  })
+
+  it('should rank whole words above longer words while typing', async () => {
+    const catalog = await entriesRepository.create({
+      content: 'Browsed the catalog',
+      date: '2024-01-15',
+    })
+    const cat = await entriesRepository.create({ content: 'Fed the cat', date: '2024-01-14' })
+
+    expect(await searchIds('cat')).toEqual([cat.id, catalog.id])
+  })
+
+  it('should rank entries with more occurrences first', async () => {
+    const once = await entriesRepository.create({
+      content: 'coffee and a long walk around the lake',
+      date: '2024-01-17',
+    })
+    const often = await entriesRepository.create({
+      content: 'coffee, more coffee, coffee again',
+      date: '2024-01-15',
+    })
+
+    expect(await searchIds('coffee')).toEqual([often.id, once.id])
+  })
+
+  it('should follow updates and permanent deletes', async () => {
+    const entry = await entriesRepository.create({ content: 'old words', date: '2024-01-15' })
+    await entriesRepository.update({ id: entry.id, content: 'new words' })
+
+    expect(await searchIds('old')).toEqual([])
+    expect(await searchIds('new')).toEqual([entry.id])
+
+    await entriesRepository.deletePermanently(entry.id)
+    expect(await db.searchIndex.get(entry.id)).toBeUndefined()
+  })
+
+  it('should keep the entry count and total length up to date', async () => {
+    const first = await entriesRepository.create({ content: 'one two three', date: '2024-01-15' })
+    await ensureSearchIndex()
+    const second = await entriesRepository.create({ content: 'four five', date: '2024-01-16' })
+    await entriesRepository.update({ id: first.id, content: 'one' })
+    expect(await db.settings.get(SEARCH_INDEX_STATE_KEY)).toMatchObject({
+      count: 2,
+      totalLength: 3,
+    })
+
+    await entriesRepository.deletePermanently(second.id)
+    expect(await db.settings.get(SEARCH_INDEX_STATE_KEY)).toMatchObject({
+      count: 1,
+      totalLength: 1,
+    })
+
+    await entriesRepository.deleteAll()
+    expect(await db.settings.get(SEARCH_INDEX_STATE_KEY)).toMatchObject({
+      count: 0,
+      totalLength: 0,
+    })
+  })
+
+  it('should rebuild a missing or outdated index', async () => {
+    const entry: DiaryEntry = {
+      id: 'entry-1',
+      content: 'Imported from an older version',
+      date: '2024-01-15',
+      imageIds: [],
+      tags: [],
+      createdAt: 1000,
+      updatedAt: 1000,
+    }
+    await db.entries.add(entry)
+
+    expect(await searchIds('imported')).toEqual([entry.id])
+    expect(await db.settings.get(SEARCH_INDEX_STATE_KEY)).toMatchObject({
+      version: SEARCH_INDEX_VERSION,
+      keyed: false,
+    })
+  })
+
+  it('should keep the previous index when a rebuild fails', async () => {
+    const entry = await entriesRepository.create({ content: 'quiet morning', date: '2024-01-15' })
+    await db.settings.put({
+      key: SEARCH_INDEX_STATE_KEY,
+      version: SEARCH_INDEX_VERSION - 1,
+      keyed: false,
+      count: 1,
+      totalLength: 2,
+      builtAt: 0,
+    })
+    vi.spyOn(db.searchIndex, 'bulkPut').mockRejectedValueOnce(new Error('QuotaExceededError'))
+
+    await expect(ensureSearchIndex()).rejects.toThrow('QuotaExceededError')
+    expect(await db.searchIndex.get(entry.id)).toBeDefined()
+    expect(await db.settings.get(SEARCH_INDEX_STATE_KEY)).toMatchObject({
+      version: SEARCH_INDEX_VERSION - 1,
+    })
+
+    // 下次搜索时重新重建
+    expect(await searchIds('morning')).toEqual([entry.id])
+    expect(await db.settings.get(SEARCH_INDEX_STATE_KEY)).toMatchObject({
+      version: SEARCH_INDEX_VERSION,
+    })
+  })
+
+  it('should hash terms when encryption is on', async () => {
+    const entry = await entriesRepository.create({ content: 'secret garden', date: '2024-01-15' })
+    await unlockData('1234')
+    await ensureSearchIndex()
+
+    const record = await db.searchIndex.get(entry.id)
+    expect(record?.terms).toHaveLength(2)
+    expect(record?.terms).not.toContain('secret')
+    expect(await searchIds('garden')).toEqual([entry.id])
+    // 哈希后的词无法前缀匹配，输入到一半的后缀仍可补全
+    expect(await rankEntries('gard', true)).toEqual([])
+    expect(await searchIds('gardens')).toEqual([entry.id])
+  })
+
+  it('should not rebuild the index while the data is locked', async () => {
+    const entry = await entriesRepository.create({ content: 'secret garden', date: '2024-01-15' })
+    await unlockData('1234')
+    await ensureSearchIndex()
+    const record = await db.searchIndex.get(entry.id)
+    lockData()
+
+    await expect(ensureSearchIndex()).rejects.toThrow(DataLockedError)
+    await expect(rankEntries('garden')).rejects.toThrow(DataLockedError)
+    expect(await db.searchIndex.get(entry.id)).toEqual(record)
+
+    await unlockData('1234')
+    expect(await searchIds('garden')).toEqual([entry.id])
+  })
+
+  it('should match phrases, exclusions and OR', async () => {
+    const rainy = await entriesRepository.create({
+      content: 'A rainy day at home',
+      date: '2024-01-15',
+    })
+    const walk = await entriesRepository.create({
+      content: 'Day walk in the rain, rainy weather',
+      date: '2024-01-16',
+    })
+    const snow = await entriesRepository.create({ content: 'Snow day', date: '2024-01-17' })
+
+    expect(await searchIds('"rainy day"')).toEqual([rainy.id])
+    expect(await searchIds('day -weather -snow')).toEqual([rainy.id])
+    expect(await searchIds('day -"rainy day"')).toEqual([snow.id, walk.id])
+    expect(await searchIds('day rainy OR snow')).toHaveLength(3)
+    expect(await searchIds('walk OR snow')).toEqual(expect.arrayContaining([walk.id, snow.id]))
+  })
+
+  it('should apply filters with or without search words', async () => {
+    const march = await entriesRepository.create({
+      content: 'Project kickoff #work',
+      date: '2025-03-10',
+      mood: { score: 4 },
+      imageIds: ['image-1'],
+    })
+    const june = await entriesRepository.create({
+      content: 'Project review #work',
+      date: '2025-06-30',
+      mood: { score: 2 },
+    })
+    await entriesRepository.create({ content: 'Project at home', date: '2025-07-01' })
+
+    expect(await searchIds('project date:2025-03..2025-06')).toEqual([june.id, march.id])
+    expect(await searchIds('tag:work mood:>=4')).toEqual([march.id])
+    expect(await searchIds('has:image')).toEqual([march.id])
+    expect(await searchIds('project -tag:work')).toHaveLength(1)
+    expect(await searchIds('before:2025-03 after:2025-07')).toEqual([])
+  })
+
+  it('should read only the matching entries instead of scanning them all', async () => {
+    const words = ['morning', 'coffee', 'walk', 'rain', 'work', 'friend', 'book', 'music']
+    const phrases = ['今天下雨了', '和朋友吃饭', '读了一本书', '加班到很晚']
+    const entries: DiaryEntry[] = Array.from({ length: 1000 }, (_, index) => ({
+      id: `entry-${index}`,
+      content: `${words[index % words.length]} ${words[(index + 1) % words.length]} ${phrases[index % phrases.length]} ${index}`,
+      date: '2024-01-15',
+      imageIds: [],
+      tags: [],
+      createdAt: index,
+      updatedAt: index,
+    }))
+    await db.entries.bulkAdd(entries)
+    await ensureSearchIndex()
+
+    // A full scan decrypts and lowercases every entry; the index only touches matches
+    const scan = vi.spyOn(db.entries, 'filter')
+    const bulkGet = vi.spyOn(db.entries, 'bulkGet')
+    const english = await entriesRepository.search('coffee walking')
+    const chinese = await entriesRepository.search('下雨')
+
+    expect(english).toHaveLength(125)
+    expect(chinese).toHaveLength(250)
+    expect(scan).not.toHaveBeenCalled()
+    expect(bulkGet.mock.calls.map(([ids]) => ids.length)).toEqual([125, 250])
+  }, 60_000)
+})
@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest'
+import {
+  containsPhrase,
+  getDateBounds,
+  getHighlightPattern,
+  isEmptyQuery,
+  matchesFilter,
+  parseSearchQuery,
+  removeQuerySpan,
+  type SearchFilter,
+} from '@/lib/searchQuery'
+
+function parseFilter(input: string): SearchFilter | undefined {
+  return parseSearchQuery(input).filters[0]
+}
+
+function highlight(input: string, text: string): string[] {
+  const pattern = getHighlightPattern(parseSearchQuery(input))
+  return pattern ? Array.from(text.matchAll(pattern), (match) => match[0]) : []
+}
+
+describe('parseSearchQuery', () => {
+  it('should split words into clauses and mark the last word as a prefix', () => {
+    expect(parseSearchQuery('morning coffee').clauses).toEqual([
+      [{ text: 'morning', phrase: false, prefix: false }],
+      [{ text: 'coffee', phrase: false, prefix: true }],
+    ])
+    expect(parseSearchQuery('coffee ').clauses).toEqual([
+      [{ text: 'coffee', phrase: false, prefix: false }],
+    ])
+  })
+
+  it('should parse quoted phrases, including an unclosed one', () => {
+    expect(parseSearchQuery('"rainy day" walk').clauses[0]).toEqual([
+      { text: 'rainy day', phrase: true, prefix: false },
+    ])
+    expect(parseSearchQuery('"rainy da').clauses[0]).toEqual([
+      { text: 'rainy da', phrase: true, prefix: false },
+    ])
+  })
+
+  it('should parse exclusions with their positions', () => {
+    const query = parseSearchQuery('walk -rain -"bad day"')
+
+    expect(query.clauses).toHaveLength(1)
+    expect(query.excluded).toEqual([
+      { text: 'rain', phrase: false, prefix: false, span: [5, 10] },
+      { text: 'bad day', phrase: true, prefix: false, span: [11, 21] },
+    ])
+  })
+
+  it('should join terms around OR into one clause', () => {
+    const query = parseSearchQuery('跑步 晨练 OR 夜跑')
+
+    expect(query.clauses.map((clause) => clause.map((term) => term.text))).toEqual([
+      ['跑步'],
+      ['晨练', '夜跑'],
+    ])
+  })
+
+  it('should treat OR next to a filter or at the edges as nothing', () => {
+    const query = parseSearchQuery('OR tag:work OR walk OR')
+
+    expect(query.clauses.map((clause) => clause.map((term) => term.text))).toEqual([['walk']])
+    expect(query.filters).toHaveLength(1)
+  })
+
+  it('should ignore tokens without searchable characters', () => {
+    expect(isEmptyQuery(parseSearchQuery(' - , ... '))).toBe(true)
+  })
+
+  it('should parse date periods as half-open ranges', () => {
+    expect(parseFilter('date:2025')).toMatchObject({ from: '2025-01-01', until: '2026-01-01' })
+    expect(parseFilter('date:2025-02')).toMatchObject({ from: '2025-02-01', until: '2025-03-01' })
+    expect(parseFilter('date:2025-12-31')).toMatchObject({
+      from: '2025-12-31',
+      until: '2026-01-01',
+    })
+  })
+
+  it('should parse date ranges with open ends', () => {
+    expect(parseFilter('date:2025-03..2025-06')).toMatchObject({
+      type: 'date',
+      value: '2025-03..2025-06',
+      from: '2025-03-01',
+      until: '2025-07-01',
+    })
+    expect(parseFilter('date:2025-03..')).toEqual(
+      expect.not.objectContaining({ until: expect.anything() }),
+    )
+    expect(parseFilter('date:..2025')).toMatchObject({ until: '2026-01-01' })
+  })
+
+  it('should parse before, after, has, tag and mood filters', () => {
+    expect(parseFilter('before:2025-03')).toMatchObject({ type: 'before', until: '2025-03-01' })
+    expect(parseFilter('after:2025-03')).toMatchObject({ type: 'after', from: '2025-04-01' })
+    expect(parseFilter('has:Image')).toMatchObject({ type: 'has', value: 'image' })
+    expect(parseFilter('tag:#Work')).toMatchObject({ type: 'tag', tag: 'work' })
+    expect(parseFilter('mood:>=4')).toMatchObject({ type: 'mood', operator: '>=', score: 4 })
+    expect(parseFilter('mood:3')).toMatchObject({ type: 'mood', operator: '=', score: 3 })
+    expect(parseFilter('-tag:work')).toMatchObject({ negated: true, span: [0, 9] })
+  })
+
+  it('should search invalid filters as text', () => {
+    for (const input of ['date:2025-13', 'date:2025-02-30', 'has:video', 'mood:>=9', 'url:x']) {
+      const query = parseSearchQuery(input)
+      expect(query.filters).toEqual([])
+      expect(query.clauses[0]?.[0]?.text).toBe(input)
+    }
+  })
+
+  it('should not parse filters inside quotes', () => {
+    const query = parseSearchQuery('"tag:work"')
+
+    expect(query.filters).toEqual([])
+    expect(query.clauses[0]?.[0]?.phrase).toBe(true)
+  })
+})
+
+describe('removeQuerySpan', () => {
+  it('should remove a filter and tidy the spaces', () => {
+    const input = 'walk tag:work  -rain'
+    const [filter] = parseSearchQuery(input).filters
+
+    expect(removeQuerySpan(input, filter?.span ?? [0, 0])).toBe('walk -rain')
+    expect(removeQuerySpan(input, [15, 20])).toBe('walk tag:work')
+  })
+})
+
+describe('getDateBounds', () => {
+  it('should combine date filters into the narrowest range', () => {
+    const { filters } = parseSearchQuery('date:2025 after:2025-02 before:2025-06 -date:2025-04')
+
+    expect(getDateBounds(filters)).toEqual({ from: '2025-03-01', until: '2025-06-01' })
+  })
+})
+
+describe('matchesFilter', () => {
+  const entry = {
+    date: '2025-03-15',
+    imageIds: ['image-1'],
+    tags: ['work'],
+    mood: { score: 4 as const },
+  }
+
+  it('should match each filter type', () => {
+    const matches = (input: string) => {
+      const filter = parseFilter(input)
+      return filter ? matchesFilter(entry, filter) : undefined
+    }
+
+    expect(matches('date:2025-03')).toBe(true)
+    expect(matches('date:2025-04..')).toBe(false)
+    expect(matches('before:2025-03-15')).toBe(false)
+    expect(matches('after:2025-03-14')).toBe(true)
+    expect(matches('has:image')).toBe(true)
+    expect(matches('tag:travel')).toBe(false)
+    expect(matches('mood:>=4')).toBe(true)
+    expect(matches('mood:<4')).toBe(false)
+    expect(matches('-tag:work')).toBe(false)
+  })
+
+  it('should not match mood filters on entries without a mood', () => {
+    const filter = parseFilter('mood:<=5')
+    const { mood: _mood, ...withoutMood } = entry
+
+    expect(filter && matchesFilter(withoutMood, filter)).toBe(false)
+  })
+})
+
+describe('containsPhrase', () => {
+  it('should ignore case, width and extra whitespace', () => {
+    expect(containsPhrase('A  Rainy\nDay outside', 'rainy day')).toBe(true)
+    expect(containsPhrase('ＲＡＩＮＹ day', 'rainy day')).toBe(true)
+    expect(containsPhrase('rainy, day', 'rainy day')).toBe(false)
+  })
+})
+
+describe('getHighlightPattern', () => {
+  it('should highlight other forms of English words', () => {
+    expect(highlight('walked', 'Walking and walks, not sidewalk')).toEqual(['Walking', 'walks'])
+    expect(highlight('happy', 'Happiness')).toEqual(['Happiness'])
+  })
+
+  it('should highlight phrases and Chinese words as written', () => {
+    expect(highlight('"rainy day" 下雨', 'a rainy  day, 今天下雨了')).toEqual([
+      'rainy  day',
+      '下雨',
+    ])
+  })
+
+  it('should escape special characters and skip exclusions', () => {
+    expect(highlight('"a.b" -walk', 'axb a.b walk')).toEqual(['a.b'])
+  })
+
+  it('should return null when no words are searched', () => {
+    expect(getHighlightPattern(parseSearchQuery('tag:work -rain'))).toBeNull()
+  })
+})
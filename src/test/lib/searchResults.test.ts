@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { getHighlightPattern, parseSearchQuery } from '@/lib/searchQuery'
+import { getExcerpts, groupSearchResults, sortSearchResults } from '@/lib/searchResults'
+import type { DiaryEntry } from '@/types'
+
+function entry(id: string, date: string, createdAt = 0): DiaryEntry {
+  return { id, content: id, date, imageIds: [], tags: [], createdAt, updatedAt: createdAt }
+}
+
+function pattern(query: string): RegExp | null {
+  return getHighlightPattern(parseSearchQuery(query))
+}
+
+const results = [
+  entry('a', '2024-03-02'),
+  entry('b', '2025-01-10'),
+  entry('c', '2024-03-20'),
+  entry('d', '2024-11-05'),
+]
+
+function ids(list: DiaryEntry[]): string[] {
+  return list.map((item) => item.id)
+}
+
+describe('sortSearchResults', () => {
+  it('should keep the relevance order', () => {
+    expect(ids(sortSearchResults(results, 'relevance'))).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('should sort by date, then by creation time', () => {
+    const sameDay = [...results, entry('e', '2025-01-10', 5)]
+
+    expect(ids(sortSearchResults(sameDay, 'newest'))).toEqual(['e', 'b', 'd', 'c', 'a'])
+    expect(ids(sortSearchResults(sameDay, 'oldest'))).toEqual(['a', 'c', 'd', 'b', 'e'])
+  })
+})
+
+describe('groupSearchResults', () => {
+  it('should group by month, newest month first, keeping the order within groups', () => {
+    const groups = groupSearchResults(results, 'month', 'relevance')
+
+    expect(groups.map((group) => [group.key, ids(group.entries)])).toEqual([
+      ['2025-01', ['b']],
+      ['2024-11', ['d']],
+      ['2024-03', ['a', 'c']],
+    ])
+  })
+
+  it('should list the oldest year first when sorting oldest first', () => {
+    const groups = groupSearchResults(sortSearchResults(results, 'oldest'), 'year', 'oldest')
+
+    expect(groups.map((group) => [group.key, group.entries.length])).toEqual([
+      ['2024', 3],
+      ['2025', 1],
+    ])
+  })
+
+  it('should return a single group when not grouping', () => {
+    expect(groupSearchResults(results, 'none', 'relevance')).toEqual([
+      { key: '', entries: results },
+    ])
+    expect(groupSearchResults([], 'none', 'relevance')).toEqual([])
+  })
+})
+
+describe('getExcerpts', () => {
+  const content = `${'x'.repeat(100)} coffee ${'y'.repeat(100)} more coffee ${'z'.repeat(100)}`
+
+  it('should cut one excerpt around each match', () => {
+    const excerpts = getExcerpts(content, pattern('coffee'), { context: 10 })
+
+    expect(excerpts).toEqual([
+      `...${'x'.repeat(9)} coffee ${'y'.repeat(9)}...`,
+      `...${'y'.repeat(4)} more coffee ${'z'.repeat(9)}...`,
+    ])
+  })
+
+  it('should merge overlapping excerpts and respect the limit', () => {
+    const text = `coffee ${'-'.repeat(30)} `.repeat(10)
+    const excerpts = getExcerpts(text, pattern('coffee'), { context: 5, maxExcerpts: 2 })
+
+    expect(excerpts).toHaveLength(2)
+    expect(getExcerpts('coffee and coffee', pattern('coffee'), { context: 10 })).toEqual([
+      'coffee and coffee',
+    ])
+  })
+
+  it('should fall back to the beginning when nothing matches', () => {
+    expect(getExcerpts(content, pattern('tea'), { fallbackLength: 5 })).toEqual(['xxxxx...'])
+    expect(getExcerpts('short', null)).toEqual(['short'])
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  handleQuotaError,
+  isQuotaExceededError,
+  isStorageLow,
+  isStorageWarningPercent,
+  onStorageCleanupRequest,
+  requestStorageCleanup,
+} from '@/lib/storageQuota'
+
+function quotaError(): Error {
+  const error = new Error('quota')
+  error.name = 'QuotaExceededError'
+  return error
+}
+
+describe('storageQuota', () => {
+  it('should only accept supported warning thresholds', () => {
+    expect(isStorageWarningPercent(80)).toBe(true)
+    expect(isStorageWarningPercent(50)).toBe(false)
+    expect(isStorageWarningPercent('80')).toBe(false)
+  })
+
+  it('should report low storage once usage reaches the threshold', () => {
+    expect(isStorageLow(80, 100, 80)).toBe(true)
+    expect(isStorageLow(79, 100, 80)).toBe(false)
+    // 配额未知时不提醒
+    expect(isStorageLow(80, 0, 80)).toBe(false)
+  })
+
+  it('should detect quota errors wrapped by Dexie', () => {
+    expect(isQuotaExceededError(quotaError())).toBe(true)
+    expect(isQuotaExceededError({ name: 'AbortError', inner: quotaError() })).toBe(true)
+    expect(isQuotaExceededError(new Error('other'))).toBe(false)
+    expect(isQuotaExceededError(null)).toBe(false)
+  })
+
+  it('should notify listeners until they unsubscribe', () => {
+    const listener = vi.fn()
+    const unsubscribe = onStorageCleanupRequest(listener)
+
+    requestStorageCleanup('manual')
+    handleQuotaError(quotaError())
+    handleQuotaError(new Error('other'))
+    expect(listener.mock.calls).toEqual([['manual'], ['quotaExceeded']])
+
+    unsubscribe()
+    requestStorageCleanup('manual')
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+})
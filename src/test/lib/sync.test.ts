@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { closeSyncChannel, isSyncMessage, publishSync, subscribeSync } from '@/lib/sync'
+import type { SyncMessage } from '@/types'
+
+/**
+ * Simulate another tab listening or posting on the same channel
+ */
+function openOtherTab(): BroadcastChannel {
+  return new BroadcastChannel('mini-diary-sync')
+}
+
+function nextMessage(channel: BroadcastChannel): Promise<unknown> {
+  return new Promise((resolve) => {
+    channel.onmessage = (event) => resolve(event.data)
+  })
+}
+
+describe('sync', () => {
+  const openChannels: BroadcastChannel[] = []
+
+  afterEach(() => {
+    for (const channel of openChannels.splice(0)) {
+      channel.close()
+    }
+    closeSyncChannel()
+  })
+
+  describe('isSyncMessage', () => {
+    it('should accept valid messages', () => {
+      expect(isSyncMessage({ type: 'entry', action: 'update', id: 'a', timestamp: 1 })).toBe(true)
+    })
+
+    it('should reject malformed messages', () => {
+      expect(isSyncMessage(null)).toBe(false)
+      expect(isSyncMessage({ type: 'entry', action: 'rename', id: 'a', timestamp: 1 })).toBe(false)
+      expect(isSyncMessage({ type: 'note', action: 'update', id: 'a', timestamp: 1 })).toBe(false)
+      expect(isSyncMessage({ type: 'entry', action: 'update', timestamp: 1 })).toBe(false)
+    })
+  })
+
+  it('should publish messages to other tabs with a timestamp', async () => {
+    const other = openOtherTab()
+    openChannels.push(other)
+    const received = nextMessage(other)
+
+    publishSync({ type: 'entry', action: 'delete', id: 'entry-1' })
+
+    const message = (await received) as SyncMessage
+    expect(message).toMatchObject({ type: 'entry', action: 'delete', id: 'entry-1' })
+    expect(typeof message.timestamp).toBe('number')
+  })
+
+  it('should deliver valid messages from other tabs to subscribers', async () => {
+    const other = openOtherTab()
+    openChannels.push(other)
+    const listener = vi.fn()
+    const received = new Promise<void>((resolve) => {
+      subscribeSync((message) => {
+        listener(message)
+        resolve()
+      })
+    })
+
+    other.postMessage({ invalid: true })
+    other.postMessage({ type: 'image', action: 'create', id: 'img-1', timestamp: 1 })
+    await received
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith({
+      type: 'image',
+      action: 'create',
+      id: 'img-1',
+      timestamp: 1,
+    })
+  })
+
+  it('should stop delivering after unsubscribe', async () => {
+    const other = openOtherTab()
+    openChannels.push(other)
+    const listener = vi.fn()
+    const unsubscribe = subscribeSync(listener)
+    const received = new Promise<void>((resolve) => {
+      subscribeSync(() => resolve())
+    })
+
+    unsubscribe()
+    other.postMessage({ type: 'entry', action: 'update', id: 'a', timestamp: 1 })
+    await received
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { extractTags, MAX_TAG_LENGTH, normalizeTag } from '@/lib/tags'
+
+describe('extractTags', () => {
+  it('should extract hashtags from content', () => {
+    expect(extractTags('Went hiking #travel with #friends')).toEqual(['travel', 'friends'])
+  })
+
+  it('should support Chinese tags', () => {
+    expect(extractTags('今天读完了一本书 #读书笔记')).toEqual(['读书笔记'])
+  })
+
+  it('should lowercase and deduplicate tags', () => {
+    expect(extractTags('#Work and #work and #WORK')).toEqual(['work'])
+  })
+
+  it('should ignore markdown headings and pure numbers', () => {
+    expect(extractTags('# Heading\n\nitem #1 and #2')).toEqual([])
+  })
+
+  it('should not match hashes inside words or URLs', () => {
+    expect(extractTags('issue a#b and example.com/#anchor')).toEqual([])
+  })
+
+  it('should allow underscores, dashes and digits in tags', () => {
+    expect(extractTags('#2024_goals #side-project')).toEqual(['2024_goals', 'side-project'])
+  })
+
+  it('should truncate very long tags', () => {
+    const [tag] = extractTags(`#${'a'.repeat(80)}`)
+    expect(tag).toHaveLength(MAX_TAG_LENGTH)
+  })
+
+  it('should extract tags after markdown formatting', () => {
+    expect(extractTags('- **done** #todo\n- (#idea)')).toEqual(['todo', 'idea'])
+  })
+})
+
+describe('normalizeTag', () => {
+  it('should strip leading # and lowercase', () => {
+    expect(normalizeTag(' #Travel ')).toBe('travel')
+  })
+})
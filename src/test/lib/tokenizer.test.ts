@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { getTypedStems, isCjkTerm, stem, stemRoot, tokenize, tokenizeQuery } from '@/lib/tokenizer'
+
+describe('tokenizer', () => {
+  describe('stem', () => {
+    it('should reduce common English word forms', () => {
+      expect(stem('walks')).toBe('walk')
+      expect(stem('walked')).toBe('walk')
+      expect(stem('walking')).toBe('walk')
+      expect(stem('running')).toBe('run')
+      expect(stem('hoped')).toBe('hope')
+      expect(stem('ponies')).toBe(stem('pony'))
+    })
+
+    it('should leave short and non-English words unchanged', () => {
+      expect(stem('is')).toBe('is')
+      expect(stem('café')).toBe('café')
+      expect(stem('2024')).toBe('2024')
+    })
+  })
+
+  describe('typed words', () => {
+    it('should keep the part of a word its stem leaves unchanged', () => {
+      expect(stemRoot('happy')).toBe('happ')
+      expect(stemRoot('walked')).toBe('walk')
+      expect(stemRoot('wonder')).toBe('wonder')
+    })
+
+    it('should complete suffixes cut off while typing', () => {
+      expect(getTypedStems('walkin')).toContain('walk')
+      expect(getTypedStems('runn')).toContain('run')
+      expect(getTypedStems('happ')).toContain('happi')
+      expect(getTypedStems('rati')).toContain('rate')
+    })
+  })
+
+  describe('tokenize', () => {
+    it('should normalize case, width and apostrophes', () => {
+      expect(tokenize("Don't RUN, ＡＢＣ!")).toEqual(['dont', 'run', 'abc'])
+    })
+
+    it('should split CJK text into characters and bigrams', () => {
+      expect(tokenize('下雨了')).toEqual(['下', '下雨', '雨', '雨了', '了'])
+    })
+
+    it('should handle mixed Chinese and English', () => {
+      expect(tokenize('今天跑步 running')).toEqual([
+        '今',
+        '今天',
+        '天',
+        '天跑',
+        '跑',
+        '跑步',
+        '步',
+        'run',
+      ])
+    })
+  })
+
+  describe('tokenizeQuery', () => {
+    it('should use bigrams for CJK runs and single characters alone', () => {
+      expect(tokenizeQuery('下雨了 雨')).toEqual(['下雨', '雨了', '雨'])
+    })
+
+    it('should dedupe terms and ignore punctuation', () => {
+      expect(tokenizeQuery('Walks walking, !!!')).toEqual(['walk'])
+      expect(tokenizeQuery('???')).toEqual([])
+    })
+  })
+
+  it('should recognize CJK terms', () => {
+    expect(isCjkTerm('下雨')).toBe(true)
+    expect(isCjkTerm('タワー')).toBe(true)
+    expect(isCjkTerm('walk')).toBe(false)
+  })
+})
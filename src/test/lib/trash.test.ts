@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { getDaysUntilPurge, isTrashRetentionDays } from '@/lib/trash'
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe('trash', () => {
+  describe('getDaysUntilPurge', () => {
+    it('should round partial days up', () => {
+      expect(getDaysUntilPurge(0, 30, 0)).toBe(30)
+      expect(getDaysUntilPurge(0, 30, DAY / 2)).toBe(30)
+      expect(getDaysUntilPurge(0, 30, 29.5 * DAY)).toBe(1)
+    })
+
+    it('should not go below zero once expired', () => {
+      expect(getDaysUntilPurge(0, 7, 10 * DAY)).toBe(0)
+    })
+  })
+
+  describe('isTrashRetentionDays', () => {
+    it('should only accept the selectable periods', () => {
+      expect(isTrashRetentionDays(7)).toBe(true)
+      expect(isTrashRetentionDays(12)).toBe(false)
+      expect(isTrashRetentionDays('30')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { crc32, createZip, readZip } from '@/lib/zip'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function readBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+describe('zip', () => {
+  describe('crc32', () => {
+    it('should match the standard check value', () => {
+      expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926)
+      expect(crc32(new Uint8Array())).toBe(0)
+    })
+  })
+
+  describe('createZip', () => {
+    it('should write local headers, a central directory and an end record', async () => {
+      const blob = createZip([
+        { path: '2024-01-15/日记.md', data: '# Hello' },
+        { path: 'images/a.jpg', data: new Uint8Array([1, 2, 3]) },
+      ])
+      const bytes = await readBytes(blob)
+      const view = new DataView(bytes.buffer)
+
+      expect(blob.type).toBe('application/zip')
+      expect(view.getUint32(0, true)).toBe(0x04034b50)
+
+      const end = bytes.length - 22
+      expect(view.getUint32(end, true)).toBe(0x06054b50)
+      expect(view.getUint16(end + 10, true)).toBe(2)
+
+      // First entry: stored data directly after the header and UTF-8 name
+      const nameLength = view.getUint16(26, true)
+      const dataLength = view.getUint32(18, true)
+      const name = decoder.decode(bytes.subarray(30, 30 + nameLength))
+      const data = decoder.decode(bytes.subarray(30 + nameLength, 30 + nameLength + dataLength))
+      expect(name).toBe('2024-01-15/日记.md')
+      expect(data).toBe('# Hello')
+      expect(view.getUint32(14, true)).toBe(crc32(encoder.encode('# Hello')))
+
+      const centralOffset = view.getUint32(end + 16, true)
+      expect(view.getUint32(centralOffset, true)).toBe(0x02014b50)
+    })
+  })
+
+  describe('readZip', () => {
+    it('should read back files written by createZip', async () => {
+      const image = new Uint8Array([0xff, 0xd8, 0xff])
+      const bytes = await readBytes(
+        createZip([
+          { path: '2024-01-15/日记.md', data: '# 你好' },
+          { path: 'images/a.jpg', data: image },
+        ]),
+      )
+
+      const files = await readZip(bytes)
+
+      expect(files.map((file) => file.path)).toEqual(['2024-01-15/日记.md', 'images/a.jpg'])
+      expect(decoder.decode(files[0]?.data)).toBe('# 你好')
+      expect(files[1]?.data).toEqual(image)
+    })
+
+    it('should reject data that is not a ZIP archive', async () => {
+      await expect(readZip(encoder.encode('not a zip file at all, definitely'))).rejects.toThrow()
+    })
+  })
+})
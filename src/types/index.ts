@@ -23,6 +23,29 @@ export interface DiaryEntry {
   updatedAt: number
   /** Associated image IDs, max 3 */
   imageIds: string[]
+  /** Lowercase hashtags extracted from content (multi-entry index) */
+  tags: string[]
+  /** Optional mood logged with the entry */
+  mood?: Mood
+  /** Hidden from the timeline and search until revealed, undefined if not private */
+  private?: boolean
+  /** Unix timestamp in milliseconds when moved to trash, undefined if active */
+  deletedAt?: number
+}
+
+/**
+ * Mood score on a fixed 5-point scale (1 = awful, 5 = great)
+ */
+export type MoodScore = 1 | 2 | 3 | 4 | 5
+
+/**
+ * Mood logged alongside a diary entry
+ */
+export interface Mood {
+  /** 5-point score */
+  score: MoodScore
+  /** Optional emoji overriding the default for the score */
+  emoji?: string
 }
 
 /**
@@ -39,20 +62,199 @@ export interface ImageRecord {
   thumbnail: Blob
   /** Unix timestamp in milliseconds */
   createdAt: number
+  /** How the full-size blob was shrunk to free storage, undefined if original */
+  compacted?: ImageCompaction
 }
 
 /**
- * Application settings stored in IndexedDB
+ * compressed: re-encoded at a lower resolution and quality
+ * thumbnail: replaced by the thumbnail
+ */
+export type ImageCompaction = 'compressed' | 'thumbnail'
+
+/**
+ * A snapshot of an entry's content before it was overwritten
+ */
+export interface EntryRevision {
+  /** UUID v4 */
+  id: string
+  /** Foreign key to DiaryEntry.id */
+  entryId: string
+  /** Markdown content at the time of the snapshot */
+  content: string
+  /** Entry updatedAt when this content was saved (Unix ms) */
+  updatedAt: number
+}
+
+export type AppLockKind = 'pin' | 'passphrase'
+
+/**
+ * App lock passcode, stored as a salted hash (never in plain text)
+ */
+export interface AppLockConfig {
+  kind: AppLockKind
+  /** Base64 PBKDF2-SHA-256 hash of the passcode */
+  hash: string
+  /** Base64 salt */
+  salt: string
+  /** PBKDF2 iterations used for the hash */
+  iterations: number
+}
+
+/**
+ * Data key for at-rest encryption, encrypted with a key derived from the app lock passcode
+ */
+export interface DataEncryptionConfig {
+  /** Base64 IV followed by the AES-GCM encrypted data key */
+  wrappedKey: string
+  /** Base64 PBKDF2 salt */
+  salt: string
+  /** PBKDF2 iterations */
+  iterations: number
+  /** False until every existing record has been encrypted (or while decrypting) */
+  complete: boolean
+}
+
+// ============================================
+// Stored Record Types (at-rest encryption)
+// ============================================
+
+/**
+ * Entry as stored in IndexedDB
+ * With at-rest encryption, content is empty and encryptedContent holds it
+ */
+export interface StoredEntry extends DiaryEntry {
+  /** IV followed by the AES-GCM encrypted content */
+  encryptedContent?: Uint8Array
+}
+
+/**
+ * Revision as stored in IndexedDB (see StoredEntry)
+ */
+export interface StoredRevision extends EntryRevision {
+  /** IV followed by the AES-GCM encrypted content */
+  encryptedContent?: Uint8Array
+}
+
+/**
+ * Image as stored in IndexedDB
+ * With at-rest encryption, blob and thumbnail hold the IV followed by the ciphertext
+ */
+export interface StoredImageRecord extends ImageRecord {
+  /** Original MIME types of the encrypted blob and thumbnail */
+  encryptedTypes?: { blob: string; thumbnail: string }
+}
+
+/**
+ * A named search query, opened from the search page or the drawer
+ */
+export interface SavedSearch {
+  id: string
+  /** Name shown in lists */
+  name: string
+  /** Query text, may include filters such as tag:work */
+  query: string
+  /** Unix timestamp in milliseconds */
+  createdAt: number
+}
+
+/**
+ * Application settings stored in IndexedDB (one record per key)
  */
 export interface AppSettings {
-  /** Settings key identifier */
-  key: string
   /** Theme preference */
   theme: 'light' | 'dark' | 'system'
-  /** App version */
-  version: string
-  /** Last backup timestamp */
-  lastBackupAt?: number
+  /** Interface language */
+  locale: 'zh-CN' | 'en'
+  /** Recent search queries, newest first */
+  searchHistory: string[]
+  /** Named search queries, newest first */
+  savedSearches: SavedSearch[]
+  /** Days a trashed entry is kept before it is purged */
+  trashRetentionDays: number
+  /** Last backup timestamp (null if never backed up) */
+  lastBackupAt: number | null
+  /** Days between backup reminders (0 = only remind on changes) */
+  backupReminderDays: number
+  /** Last time the backup reminder was dismissed */
+  backupReminderDismissedAt: number | null
+  /** App lock passcode (null = lock disabled) */
+  appLock: AppLockConfig | null
+  /** Minutes of inactivity before the app locks (0 = never) */
+  autoLockMinutes: number
+  /** Lock as soon as the page is hidden (tab switched, app backgrounded) */
+  lockOnHide: boolean
+  /** Consecutive wrong passcode attempts */
+  appLockFailedAttempts: number
+  /** Time until which unlocking is blocked after too many wrong attempts */
+  appLockLockedUntil: number | null
+  /** At-rest encryption key (null = data stored in plain text) */
+  dataEncryption: DataEncryptionConfig | null
+  /** Storage usage (percent of quota) at which a warning is shown */
+  storageWarningPercent: number
+}
+
+export type SettingKey = keyof AppSettings
+
+/**
+ * A single setting row in the settings table
+ */
+export interface SettingRecord<K extends SettingKey = SettingKey> {
+  /** Setting name */
+  key: K
+  /** Setting value */
+  value: AppSettings[K]
+  /** Unix timestamp in milliseconds */
+  updatedAt: number
+}
+
+/**
+ * Applied schema version, stored in the settings table by migrations
+ */
+export interface SchemaVersionRecord {
+  /** Always 'schemaVersion' */
+  key: string
+  /** Latest applied migration version */
+  version: number
+  /** Unix timestamp in milliseconds */
+  migratedAt: number
+}
+
+// ============================================
+// Search Index Types
+// ============================================
+
+/**
+ * Full-text index of a single entry
+ * With at-rest encryption, terms hold keyed hashes instead of the words themselves
+ */
+export interface SearchIndexRecord {
+  /** Primary key, the indexed entry */
+  entryId: string
+  /** Distinct terms of the content (multi-entry index) */
+  terms: string[]
+  /** Occurrences of each term, in the same order as terms */
+  frequencies: number[]
+  /** Total number of terms in the content */
+  length: number
+}
+
+/**
+ * State of the search index, stored in the settings table
+ */
+export interface SearchIndexStateRecord {
+  /** Always 'searchIndex' */
+  key: string
+  /** Tokenizer version the index was built with */
+  version: number
+  /** Whether terms are hashed with the data key */
+  keyed: boolean
+  /** Number of indexed entries */
+  count: number
+  /** Sum of the token counts of all indexed entries (for the BM25 average length) */
+  totalLength: number
+  /** Unix timestamp in milliseconds */
+  builtAt: number
 }
 
 // ============================================
@@ -66,6 +268,8 @@ export interface CreateEntryInput {
   content: string
   date: string
   imageIds?: string[]
+  mood?: Mood
+  private?: boolean
 }
 
 /**
@@ -76,6 +280,18 @@ export interface UpdateEntryInput {
   content?: string
   date?: string
   imageIds?: string[]
+  /** null clears the mood */
+  mood?: Mood | null
+  private?: boolean
+}
+
+/**
+ * Input for creating a new entry revision
+ */
+export interface CreateRevisionInput {
+  entryId: string
+  content: string
+  updatedAt: number
 }
 
 /**
@@ -111,27 +327,88 @@ export interface PaginationOptions {
   offset?: number
 }
 
+/**
+ * A tag with the number of entries using it
+ */
+export interface TagCount {
+  tag: string
+  count: number
+}
+
 // ============================================
 // Export/Import Types
 // ============================================
 
 /**
- * Format for exported data
+ * Image MIME types stored in the database and in backups
+ */
+export type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/webp'
+
+/**
+ * An image inside a JSON backup
+ */
+export interface ExportedImage {
+  id: string
+  /** Foreign key to DiaryEntry.id */
+  entryId: string
+  /** Base64 without the data URL prefix */
+  blob: string
+  mimeType: ImageMimeType
+  /** Base64 without the data URL prefix */
+  thumbnail: string
+  thumbnailMimeType: ImageMimeType
+  /** Unix timestamp in milliseconds */
+  createdAt: number
+}
+
+/**
+ * Single-document JSON backup (versions up to 2.0.0)
+ * Still accepted on import; older versions are upgraded, see lib/backupFormat.ts
  */
 export interface ExportData {
-  version: string
-  exportedAt: number
-  totalEntries: number
-  totalImages: number
+  /** Backup format version */
+  version: '2.0.0'
+  /** ISO 8601 timestamp */
+  exportedAt: string
   entries: DiaryEntry[]
-  images: Record<
-    string,
-    {
-      blob: string // base64 data URL
-      thumbnail: string // base64 data URL
-      createdAt: number
-    }
-  >
+  images: ExportedImage[]
+  /** App settings (absent in backups made before settings were exported) */
+  settings?: Partial<AppSettings>
+}
+
+/**
+ * First line of a streamed backup
+ */
+export interface BackupHeader {
+  type: 'header'
+  /** Backup format version */
+  version: '3.0.0'
+  /** ISO 8601 timestamp */
+  exportedAt: string
+  entryCount: number
+  imageCount: number
+}
+
+/**
+ * One line of a streamed (NDJSON) backup, written and read one record at a time
+ */
+export type BackupRecord =
+  | BackupHeader
+  | { type: 'entry'; entry: DiaryEntry }
+  | { type: 'image'; image: ExportedImage }
+  | { type: 'settings'; settings: Partial<AppSettings> }
+
+/**
+ * First line of an encrypted backup; the rest of the file is AES-GCM ciphertext
+ */
+export interface EncryptedBackupHeader {
+  type: 'encrypted'
+  /** Envelope format version */
+  version: 1
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }
+  cipher: { name: 'AES-GCM'; chunkSize: number; ivPrefix: string }
+  /** Known text encrypted with the derived key, used to detect a wrong passphrase */
+  check: { iv: string; data: string }
 }
 
 // ============================================